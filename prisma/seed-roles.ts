@@ -100,7 +100,7 @@ async function main(): Promise<void> {
   // Assign permissions to Project Manager
   console.log("Assigning permissions to Project Manager role...");
   const projectManagerPermissions = [
-    "project.view", "project.update", "project.run", "project.delete"
+    "project.view", "project.update", "project.run", "project.delete", "testcase.approve"
   ];
   await assignPermissionsToRole(projectManager.id, projectManagerPermissions, permissionMap);
 
@@ -157,6 +157,7 @@ async function createDefaultPermissions(): Promise<void> {
     { name: "project.update", description: "Create and update projects, fixtures and test cases" },
     { name: "project.run", description: "Execute tests and view results" },
     { name: "project.delete", description: "Delete projects and all their data" },
+    { name: "testcase.approve", description: "Review and approve test case changes in projects with review mode" },
     
     // System management permissions
     { name: "user.manage", description: "Manage users (create, update, delete, assign roles)" },
@@ -0,0 +1,74 @@
+/**
+ * Push a generated Playwright project to a local bare repository and check the pushed branch,
+ * without a database or network. Run with `npm run check:git-push`.
+ */
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { GitSettingsSchema, getRemoteUrlError, ProjectGitRepository } from '../src/lib/playwright/project-git';
+
+const execFileAsync = promisify(execFile);
+
+const AUTHOR = { name: 'Push Check', email: 'push-check@localhost' };
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  return (await execFileAsync('git', args, { cwd })).stdout.trim();
+}
+
+async function main(): Promise<void> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-push-check-'));
+  const remotesDir = path.join(workDir, 'remotes');
+  const projectDir = path.join(workDir, 'project');
+  const remoteDir = path.join(remotesDir, 'e2e-tests.git');
+  process.env.GIT_LOCAL_REMOTES_DIR = remotesDir;
+
+  try {
+    await fs.mkdir(path.join(projectDir, 'tests'), { recursive: true });
+    await fs.mkdir(remotesDir);
+    await git(remotesDir, ['init', '--bare', '--initial-branch', 'main', remoteDir]);
+
+    assert(GitSettingsSchema.safeParse({ remoteUrl: remoteDir }).success, 'A bare repository inside the base directory is accepted');
+    assert(GitSettingsSchema.safeParse({ remoteUrl: pathToFileURL(remoteDir).href }).success, 'A file URL inside the base directory is accepted');
+    assert(getRemoteUrlError(path.join(workDir, 'elsewhere.git')), 'A path outside the base directory is refused');
+    assert(getRemoteUrlError(path.join(remotesDir, '..', 'elsewhere.git')), 'A path escaping the base directory is refused');
+    assert(getRemoteUrlError(remotesDir), 'The base directory itself is refused');
+    assert(!getRemoteUrlError('git@github.com:team/e2e-tests.git'), 'Network remotes are not restricted');
+
+    const repository = new ProjectGitRepository(projectDir);
+    assert(await repository.init(AUTHOR), 'Repository is initialized');
+
+    await fs.writeFile(path.join(projectDir, 'tests', 'login.spec.ts'), "test('login', async () => {});\n", 'utf8');
+    const sha = await repository.commit(['tests/login.spec.ts'], 'Add login test', AUTHOR);
+    assert(sha, 'Test file is committed');
+
+    await repository.push(remoteDir, 'main');
+    assert(await git(remoteDir, ['rev-parse', 'refs/heads/main']) === sha, 'Pushed branch points at the commit');
+    assert(await git(remoteDir, ['show', 'main:tests/login.spec.ts']) === "test('login', async () => {});", 'Pushed branch holds the test file');
+
+    await repository.push(remoteDir, 'release/1.0');
+    assert(await git(remoteDir, ['rev-parse', 'refs/heads/release/1.0']) === sha, 'Push creates other branches');
+
+    const outside = path.join(workDir, 'outside.git');
+    await git(workDir, ['init', '--bare', outside]);
+    const refused = await repository.push(outside, 'main').then(() => false, () => true);
+    assert(refused, 'Push to a repository outside the base directory is refused');
+
+    console.log('Push to a local bare repository works');
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
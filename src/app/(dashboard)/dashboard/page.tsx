@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { TrendChart } from '@/components/dashboard/trend-chart';
 import { TagHeatmap } from '@/components/dashboard/tag-heat-map';
+import { FlakyTestsWidget } from '@/components/dashboard/flaky-tests-widget';
 import type { DashboardStats } from '@/lib/dashboard/dashboard-service';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { BarChart3, CheckCircle2, Layers3, PlaySquare } from 'lucide-react';
@@ -15,7 +16,8 @@ export default function DashboardPage() {
     totalExecutions: 0,
     passRate: 0,
     trends: [],
-    tagStats: []
+    tagStats: [],
+    flakyTests: []
   });
 
   useEffect(() => {
@@ -101,6 +103,18 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
         </div>
+
+        <div className="lg:col-span-3">
+          <Card className="shadow-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-xl font-medium">Flaky Tests</CardTitle>
+              <p className="text-sm text-muted-foreground">Tests that pass after retries or flip between pass and fail without changes</p>
+            </CardHeader>
+            <CardContent>
+              <FlakyTestsWidget flakyTests={stats.flakyTests} />
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   );
@@ -8,6 +8,7 @@ import { usePermission } from '@/lib/auth/use-permission';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { VersionDiffDialog } from '@/components/versions/version-diff-dialog';
 import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
@@ -136,6 +137,7 @@ export default function FixtureDetailPage() {
   const [isAddStepDialogOpen, setIsAddStepDialogOpen] = useState(false);
   const [activeVersion, setActiveVersion] = useState<FixtureVersion | null>(null);
   const [versionSteps, setVersionSteps] = useState<Step[]>([]);
+  const [diffFromVersionId, setDiffFromVersionId] = useState<string | null>(null);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [importCode, setImportCode] = useState('');
   const [isImporting, setIsImporting] = useState(false);
@@ -754,6 +756,9 @@ export default function FixtureDetailPage() {
                         </p>
                       </div>
                       <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setDiffFromVersionId(version.id)}>
+                          Compare
+                        </Button>
                         <Button 
                           variant="outline" 
                           size="sm"
@@ -774,6 +779,22 @@ export default function FixtureDetailPage() {
         </TabsContent>
       </Tabs>
       
+      {/* Version Diff Dialog */}
+      <VersionDiffDialog
+        open={!!diffFromVersionId}
+        onOpenChange={(open) => !open && setDiffFromVersionId(null)}
+        versions={fixture.versions || []}
+        fromVersionId={diffFromVersionId}
+        loadDiff={(from, to) => fixtureService.diffFixtureVersions(projectId, fixtureId, from, to)}
+        onRevert={canEdit ? (versionId) => {
+          const version = fixture.versions?.find(item => item.id === versionId);
+          if (version) {
+            setDiffFromVersionId(null);
+            handleRevertConfirm(version);
+          }
+        } : undefined}
+      />
+
       {/* View Version Dialog */}
       <Dialog open={isViewVersionDialogOpen} onOpenChange={setIsViewVersionDialogOpen}>
         <DialogContent className="max-w-3xl">
@@ -837,6 +858,17 @@ export default function FixtureDetailPage() {
             <Button variant="outline" onClick={() => setIsViewVersionDialogOpen(false)}>
               Close
             </Button>
+            {activeVersion && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setIsViewVersionDialogOpen(false);
+                  setDiffFromVersionId(activeVersion.id);
+                }}
+              >
+                Compare with current
+              </Button>
+            )}
             
             {canEdit && activeVersion && (
               <Button 
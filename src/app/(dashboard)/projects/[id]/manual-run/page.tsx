@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ChevronLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { ManualRunner, ManualRunTestCase } from '@/components/test-case/manual-runner';
+import { TestCaseService } from '@/lib/api/services';
+
+const testCaseService = new TestCaseService();
+
+export default function ManualRunPage() {
+  const params = useParams();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const projectId = params.id as string;
+  const testCaseIds = (searchParams.get('testCaseIds') || '').split(',').filter(Boolean);
+  const testPlanId = searchParams.get('planId') || undefined;
+
+  const [testCases, setTestCases] = useState<ManualRunTestCase[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTestCases = async () => {
+      setLoading(true);
+      try {
+        const loaded = await Promise.all(testCaseIds.map(async testCaseId => ({
+          testCase: await testCaseService.getTestCase(projectId, testCaseId),
+          steps: (await testCaseService.getTestCaseSteps(projectId, testCaseId))
+            .filter(step => !step.disabled)
+            .sort((a, b) => a.order - b.order),
+        })));
+        // Only manual test cases with steps can be walked through
+        setTestCases(loaded.filter(item => item.testCase.isManual && item.steps.length > 0));
+        setSkipped(loaded.filter(item => !item.testCase.isManual || item.steps.length === 0).map(item => item.testCase.name));
+      } catch (error) {
+        console.error('Error loading test cases for manual run:', error);
+        toast.error('Failed to load test cases');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTestCases();
+  }, [projectId, searchParams]);
+
+  const backHref = testPlanId
+    ? `/projects/${projectId}/test-plans/${testPlanId}`
+    : testCaseIds.length === 1
+      ? `/projects/${projectId}/test-cases/${testCaseIds[0]}`
+      : `/projects/${projectId}`;
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col space-y-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/projects">Projects</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/projects/${projectId}`}>Test Cases</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink>Manual Run</BreadcrumbLink>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild className="flex items-center gap-1">
+            <Link href={backHref}>
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {skipped.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Not included, as they are automated or have no steps: {skipped.join(', ')}
+        </p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : testCases.length === 0 ? (
+        <p className="text-muted-foreground">Select manual test cases with steps to run them manually.</p>
+      ) : (
+        <ManualRunner
+          projectId={projectId}
+          testCases={testCases}
+          testPlanId={testPlanId}
+          onSubmitted={(testResultId) => router.push(testPlanId
+            ? `/projects/${projectId}/test-plans/${testPlanId}`
+            : `/projects/${projectId}/test-cases/${testCases[0].testCase.id}?resultId=${testResultId}`
+          )}
+        />
+      )}
+    </div>
+  );
+}
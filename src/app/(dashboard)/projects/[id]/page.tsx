@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter, notFound } from 'next/navigation';
 import Link from 'next/link';
-import { Edit, Trash2, ArrowLeft, PlusCircle, Play, CheckCircle, XCircle } from 'lucide-react';
+import { Edit, Trash2, ArrowLeft, PlusCircle, Play, CheckCircle, XCircle, Upload } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistance } from 'date-fns';
 
@@ -14,7 +14,16 @@ import { TestCaseTable } from '@/components/test-case/test-case-table';
 import { FixtureTable } from '@/components/fixture/fixture-table';
 import { formatDate } from '@/lib/utils/date';
 import { ProjectConfigForm } from '@/components/project/project-config-form';
+import { ScheduleManager } from '@/components/project/schedule-manager';
+import { TestPlanManager } from '@/components/test-plans/test-plan-manager';
+import { RequirementManager } from '@/components/requirements/requirement-manager';
+import { SharedStepManager } from '@/components/shared-steps/shared-step-manager';
+import { EnvironmentManager } from '@/components/project/environment-manager';
+import { GitManager } from '@/components/project/git-manager';
+import { ReviewSettings } from '@/components/project/review-settings';
+import { CustomFieldManager } from '@/components/custom-fields/custom-field-manager';
 import { RunTestDialog } from '@/components/test-case/run-test-dialog';
+import { ImportSpecDialog } from '@/components/test-case/import-spec-dialog';
 import { TestResultDialog } from '@/components/test-case/test-result-dialog';
 import { useTestResults } from '@/lib/api/hooks/use-test-results';
 import { CustomPagination } from '@/components/ui/custom-pagination';
@@ -28,7 +37,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Search, Eye } from 'lucide-react';
+import { Search, Eye, GitCompare } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Table,
   TableBody,
@@ -61,8 +71,10 @@ export default function ProjectDetailPage() {
   const [isDeleting, setIsDeleting] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
   const [isRunTestDialogOpen, setIsRunTestDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [selectedTestCases, setSelectedTestCases] = useState<string[]>([]);
-  const [runMode, setRunMode] = useState<'list' | 'project'>('project');
+  const [selectedSuiteId, setSelectedSuiteId] = useState<string | null>(null);
+  const [runMode, setRunMode] = useState<'list' | 'project' | 'suite'>('project');
   const [selectedTestResult, setSelectedTestResult] = useState<any | null>(null);
   const [isTestResultDialogOpen, setIsTestResultDialogOpen] = useState(false);
 
@@ -73,6 +85,9 @@ export default function ProjectDetailPage() {
     { value: 'overview', label: 'Overview' },
     { value: 'test-cases', label: `Test Cases (${project?.testCases?.length || 0})` },
     { value: 'fixtures', label: `Fixtures (${project?.fixtures?.length || 0})` },
+    { value: 'shared-steps', label: 'Shared Steps' },
+    { value: 'test-plans', label: 'Test Plans' },
+    { value: 'requirements', label: 'Requirements' },
     { value: 'releases', label: `Releases (${releases?.length || 0})` },
     { value: 'results', label: `Results (${project?.testResults?.length || 0})` },
     { value: 'configuration', label: 'Configuration' },
@@ -126,29 +141,28 @@ export default function ProjectDetailPage() {
     }
   }, [params.id]);
 
-  useEffect(() => {
-    async function loadProject() {
-      try {
-        setLoading(true);
-        const response = await fetch(`/api/projects/${params.id}`);
-        
-        if (!response.ok) {
-          if (response.status === 404) {
-            notFound();
-          }
-          throw new Error('Failed to fetch project');
+  async function loadProject() {
+    try {
+      const response = await fetch(`/api/projects/${params.id}`);
+      
+      if (!response.ok) {
+        if (response.status === 404) {
+          notFound();
         }
-        
-        const data = await response.json();
-        setProject(data);
-      } catch (error) {
-        console.error("Failed to load project:", error);
-        toast.error("Failed to load project");
-      } finally {
-        setLoading(false);
+        throw new Error('Failed to fetch project');
       }
+      
+      const data = await response.json();
+      setProject(data);
+    } catch (error) {
+      console.error("Failed to load project:", error);
+      toast.error("Failed to load project");
+    } finally {
+      setLoading(false);
     }
+  }
 
+  useEffect(() => {
     loadProject();
   }, [params.id]);
 
@@ -206,6 +220,13 @@ export default function ProjectDetailPage() {
     setIsRunTestDialogOpen(true);
   };
 
+  // Function to handle running a suite and its sub-suites
+  const handleRunSuite = (suiteId: string) => {
+    setSelectedSuiteId(suiteId);
+    setRunMode('suite');
+    setIsRunTestDialogOpen(true);
+  };
+
   // Function to handle running the entire project
   const handleRunProject = () => {
     setRunMode('project');
@@ -403,14 +424,26 @@ export default function ProjectDetailPage() {
                 <p className="text-muted-foreground mb-6">
                   Get started by creating your first test case
                 </p>
-                <Button asChild>
-                  <Link href={`/projects/${project.id}/test-cases/new`}>
-                    Create Test Case
-                  </Link>
-                </Button>
+                <div className="flex justify-center gap-2">
+                  <Button asChild>
+                    <Link href={`/projects/${project.id}/test-cases/new`}>
+                      Create Test Case
+                    </Link>
+                  </Button>
+                  <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Spec Files
+                  </Button>
+                </div>
               </div>
             ) : (
               <div className="space-y-4">
+                <div className="flex justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setIsImportDialogOpen(true)}>
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Spec Files
+                  </Button>
+                </div>
                 <TestCaseTable
                   testCases={project.testCases.map(testCase => ({
                     ...testCase,
@@ -431,6 +464,7 @@ export default function ProjectDetailPage() {
                     tags: []
                   }}
                   onRunSelected={handleRunSelectedTests}
+                  onRunSuite={handleRunSuite}
                   onTestCaseDeleted={handleTestCaseDeleted}
                 />
               </div>
@@ -475,6 +509,25 @@ export default function ProjectDetailPage() {
             )}
           </div>
         )}
+
+        {activeTab === 'shared-steps' && (
+          <div>
+            <SharedStepManager projectId={project.id} />
+          </div>
+        )}
+
+        {activeTab === 'test-plans' && (
+          <div>
+            <TestPlanManager projectId={project.id} />
+          </div>
+        )}
+
+        {activeTab === 'requirements' && (
+          <div>
+            <RequirementManager projectId={project.id} />
+          </div>
+        )}
+
         {activeTab === 'releases' && (
           <div>
             <ReleasesTabContent projectId={project.id} releases={releases} />
@@ -490,10 +543,32 @@ export default function ProjectDetailPage() {
             <div className="bg-card rounded-lg border shadow-sm">
               <ProjectConfigForm projectId={project.id} />
             </div>
+            <div className="mt-6">
+              <EnvironmentManager projectId={project.id} />
+            </div>
+            <div className="mt-6">
+              <ScheduleManager projectId={project.id} />
+            </div>
+            <div className="mt-6">
+              <GitManager projectId={project.id} />
+            </div>
+            <div className="mt-6">
+              <ReviewSettings projectId={project.id} />
+            </div>
+            <div className="mt-6">
+              <CustomFieldManager projectId={project.id} />
+            </div>
           </div>
         )}
       </div>
       
+      <ImportSpecDialog
+        projectId={project.id}
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onImported={loadProject}
+      />
+
       {/* Run Test Dialog */}
       <RunTestDialog
         isOpen={isRunTestDialogOpen}
@@ -501,6 +576,7 @@ export default function ProjectDetailPage() {
         projectId={project?.id || ''}
         mode={runMode}
         testCaseIds={selectedTestCases}
+        suiteIds={selectedSuiteId ? [selectedSuiteId] : []}
       />
     </div>
   );
@@ -581,8 +657,9 @@ function TestResultsSection({ projectId }: { projectId: string }) {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [browserFilter, setBrowserFilter] = useState('all');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   
-  const { data: testResults, pagination, loading, error } = useTestResults({
+  const { data: testResults, pagination, loading, error, getCompareUrl } = useTestResults({
     projectId,
     page: currentPage,
     pageSize: 10,
@@ -593,6 +670,11 @@ function TestResultsSection({ projectId }: { projectId: string }) {
     browser: browserFilter !== 'all' ? browserFilter : undefined
   });
 
+  // Keep at most two runs selected, dropping the oldest selection
+  const toggleCompare = (resultId: string, checked: boolean) => {
+    setCompareIds(prev => checked ? [...prev.filter(id => id !== resultId), resultId].slice(-2) : prev.filter(id => id !== resultId));
+  };
+
   if (loading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -662,8 +744,28 @@ function TestResultsSection({ projectId }: { projectId: string }) {
                   </div>
                 </div>
 
-                <div className="text-sm text-muted-foreground">
-                  Showing {testResults?.length ? `1-${testResults.length} of ${testResults.length}` : '0-0 of 0'} test results
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm text-muted-foreground">
+                    Showing {testResults?.length ? `1-${testResults.length} of ${testResults.length}` : '0-0 of 0'} test results
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={compareIds.length !== 2}
+                    asChild={compareIds.length === 2}
+                  >
+                    {compareIds.length === 2 ? (
+                      <Link href={getCompareUrl(compareIds[0], compareIds[1])}>
+                        <GitCompare className="mr-2 h-4 w-4" />
+                        Compare Runs
+                      </Link>
+                    ) : (
+                      <span className="flex items-center">
+                        <GitCompare className="mr-2 h-4 w-4" />
+                        Select 2 runs to compare
+                      </span>
+                    )}
+                  </Button>
                 </div>
               </div>
             </CardHeader>
@@ -673,6 +775,7 @@ function TestResultsSection({ projectId }: { projectId: string }) {
                 <Table>
                   <TableHeader>
                     <TableRow className="hover:bg-transparent">
+                      <TableHead className="h-10 w-10" />
                       <TableHead className="h-10">Name</TableHead>
                       <TableHead className="h-10">Status</TableHead>
                       <TableHead className="h-10">Success</TableHead>
@@ -682,6 +785,13 @@ function TestResultsSection({ projectId }: { projectId: string }) {
                   <TableBody>
                     {testResults.map((result: any) => (
                       <TableRow key={result.id} className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted">
+                        <TableCell>
+                          <Checkbox
+                            checked={compareIds.includes(result.id)}
+                            onCheckedChange={(checked) => toggleCompare(result.id, checked === true)}
+                            aria-label="Select for comparison"
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <div className={`w-2 h-2 rounded-full ${result.success ? 'bg-green-500' : 'bg-red-500'}`} />
@@ -693,7 +803,7 @@ function TestResultsSection({ projectId }: { projectId: string }) {
                                 </span>
                               </p>
                               <p className="text-xs text-muted-foreground">
-                                {formatDate(result.createdAt)} • {result.executionTime ? (result.executionTime / 1000).toFixed(2) : '0'}s • {result.browser || 'chromium'}
+                                {formatDate(result.createdAt)} • {result.executionTime ? (result.executionTime / 1000).toFixed(2) : '0'}s • {result.runType === 'manual' ? 'manual' : result.browser || 'chromium'}
                               </p>
                             </div>
                           </div>
@@ -710,7 +820,7 @@ function TestResultsSection({ projectId }: { projectId: string }) {
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline" className="capitalize">
-                            {result.browser || 'chromium'}
+                            {result.runType === 'manual' ? 'manual' : result.browser || 'chromium'}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, ChevronLeft, Edit, FileText, Layers, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { AddStepForm, StepFormData } from '@/components/step/add-step-form';
+import { SharedStepService, TestCaseService } from '@/lib/api/services';
+import { SharedStep, SharedStepGroup } from '@/types';
+
+const sharedStepService = new SharedStepService();
+const testCaseService = new TestCaseService();
+
+type DraftStep = Omit<SharedStep, 'id' | 'order'>;
+
+function toDraftStep(data: StepFormData, disabled = false): DraftStep {
+  return {
+    action: data.action,
+    data: data.data || null,
+    expected: data.expected || null,
+    playwrightScript: data.playwrightScript || null,
+    disabled,
+    calledGroupId: data.calledGroupId || null,
+    calledTestCaseId: data.calledTestCaseId || null,
+  };
+}
+
+export default function SharedStepGroupPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+  const groupId = params.groupId as string;
+
+  const [group, setGroup] = useState<SharedStepGroup | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [steps, setSteps] = useState<DraftStep[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  // Index of the step being edited, steps.length while adding one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [stepGroups, setStepGroups] = useState<Array<{ id: string; name: string }>>([]);
+  const [testCases, setTestCases] = useState<Array<{ id: string; name: string }>>([]);
+
+  function applyGroup(loaded: SharedStepGroup) {
+    setGroup(loaded);
+    setName(loaded.name);
+    setDescription(loaded.description || '');
+    setSteps(loaded.steps.map(step => ({
+      action: step.action,
+      data: step.data,
+      expected: step.expected,
+      playwrightScript: step.playwrightScript,
+      disabled: step.disabled,
+      calledGroupId: step.calledGroupId,
+      calledTestCaseId: step.calledTestCaseId,
+    })));
+    setIsDirty(false);
+  }
+
+  useEffect(() => {
+    Promise.all([
+      sharedStepService.getSharedStepGroup(projectId, groupId),
+      sharedStepService.getSharedStepGroups(projectId),
+      testCaseService.getTestCases(projectId),
+    ])
+      .then(([loaded, groups, projectTestCases]) => {
+        applyGroup(loaded);
+        setStepGroups(groups.filter(item => item.id !== groupId));
+        setTestCases(projectTestCases);
+      })
+      .catch(error => {
+        console.error('Error loading shared step group:', error);
+        toast.error('Failed to load shared step group');
+      })
+      .finally(() => setLoading(false));
+  }, [projectId, groupId]);
+
+  function updateSteps(next: DraftStep[]) {
+    setSteps(next);
+    setIsDirty(true);
+  }
+
+  async function handleStepSubmit(data: StepFormData) {
+    if (editingIndex === null) return;
+    updateSteps(editingIndex < steps.length
+      ? steps.map((step, index) => index === editingIndex ? toDraftStep(data, step.disabled) : step)
+      : [...steps, toDraftStep(data)]);
+    setEditingIndex(null);
+  }
+
+  function moveStep(index: number, offset: number) {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    updateSteps(next);
+  }
+
+  async function handleSave() {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      applyGroup(await sharedStepService.updateSharedStepGroup(projectId, groupId, {
+        name: name.trim(),
+        description: description.trim() || null,
+        steps,
+      }));
+      toast.success('Shared steps saved, calling tests regenerated');
+    } catch (error) {
+      console.error('Error saving shared step group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save shared step group');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!group) {
+    return <p className="p-4 text-muted-foreground">Shared step group not found</p>;
+  }
+
+  const editingStep = editingIndex !== null && editingIndex < steps.length ? steps[editingIndex] : null;
+  const usages = group.usages || { testCases: [], groups: [] };
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col space-y-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/projects">Projects</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/projects/${projectId}?tab=shared-steps`}>Shared Steps</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink>{group.name}</BreadcrumbLink>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" size="sm" asChild className="flex items-center gap-1">
+            <Link href={`/projects/${projectId}?tab=shared-steps`}>
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving || !isDirty}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => { setName(e.target.value); setIsDirty(true); }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="group-description">Description</Label>
+            <Textarea
+              id="group-description"
+              value={description}
+              onChange={(e) => { setDescription(e.target.value); setIsDirty(true); }}
+              rows={2}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Steps</CardTitle>
+            <CardDescription>Generated in place of every step that calls this group</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setEditingIndex(steps.length)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {steps.length === 0 ? (
+            <p className="text-muted-foreground">No steps yet</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {steps.map((step, index) => (
+                <div key={index} className="flex items-start justify-between gap-4 p-4">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">{index + 1}.</span>
+                      <span className={step.disabled ? 'line-through text-muted-foreground' : 'font-medium'}>{step.action}</span>
+                      {step.calledGroupId && <Badge variant="secondary">Shared steps</Badge>}
+                      {step.calledTestCaseId && <Badge variant="secondary">Test case</Badge>}
+                    </div>
+                    {step.expected && (
+                      <p className="text-sm text-muted-foreground">Expected: {step.expected}</p>
+                    )}
+                    {step.playwrightScript && !step.calledGroupId && !step.calledTestCaseId && (
+                      <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">{step.playwrightScript}</pre>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setEditingIndex(index)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => updateSteps(steps.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usages</CardTitle>
+          <CardDescription>Test cases and groups with a step calling this group</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usages.testCases.length === 0 && usages.groups.length === 0 ? (
+            <p className="text-muted-foreground">Not called anywhere yet</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {usages.testCases.map(testCase => (
+                <Link
+                  key={testCase.id}
+                  href={`/projects/${projectId}/test-cases/${testCase.id}`}
+                  className="flex items-center gap-2 p-3 text-sm hover:bg-muted"
+                >
+                  <FileText className="h-4 w-4 text-muted-foreground" />
+                  {testCase.name}
+                </Link>
+              ))}
+              {usages.groups.map(usage => (
+                <Link
+                  key={usage.id}
+                  href={`/projects/${projectId}/shared-steps/${usage.id}`}
+                  className="flex items-center gap-2 p-3 text-sm hover:bg-muted"
+                >
+                  <Layers className="h-4 w-4 text-muted-foreground" />
+                  {usage.name}
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editingIndex !== null} onOpenChange={(open) => !open && setEditingIndex(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingStep ? 'Edit Step' : 'Add New Step'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to the calling tests once the group is saved.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editingIndex !== null && (
+            <AddStepForm
+              key={editingIndex}
+              onSubmit={handleStepSubmit}
+              onCancel={() => setEditingIndex(null)}
+              isSubmitting={false}
+              initialData={{
+                action: editingStep?.action || '',
+                data: editingStep?.data || '',
+                expected: editingStep?.expected || '',
+                playwrightScript: editingStep?.playwrightScript || '',
+                calledGroupId: editingStep?.calledGroupId || undefined,
+                calledTestCaseId: editingStep?.calledTestCaseId || undefined,
+              }}
+              title={editingStep ? 'Update Step' : 'Add New Step'}
+              stepGroups={stepGroups}
+              testCases={testCases}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from 'react';
-import { notFound, useParams, useRouter } from 'next/navigation';
+import { notFound, useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { TestStepsTable } from '@/components/test-case/test-steps-table';
 import { Badge } from '@/components/ui/badge';
@@ -15,7 +15,7 @@ import {
   BreadcrumbList, 
   BreadcrumbSeparator 
 } from '@/components/ui/breadcrumb';
-import { ChevronLeft, Edit, Copy, Play, FileCode, Loader2, History, RotateCcw, AlertCircle } from 'lucide-react';
+import { ChevronLeft, Edit, Copy, Play, FileCode, Loader2, History, RotateCcw, AlertCircle, ClipboardList } from 'lucide-react';
 import { formatDate } from '@/lib/utils/date';
 import { toast } from 'sonner';
 import {
@@ -50,6 +50,12 @@ import {
 import { ProjectService, TestCaseService } from '@/lib/api/services';
 import { Step } from '@/lib/api/interfaces';
 import { TestResultDialog } from '@/components/test-case/test-result-dialog';
+import { StepTimeline } from '@/components/test-case/step-timeline';
+import { QuarantineControl } from '@/components/test-case/quarantine-control';
+import { FileSyncPanel } from '@/components/test-case/file-sync-panel';
+import { FileHistory } from '@/components/test-case/file-history';
+import { VersionDiffDialog } from '@/components/versions/version-diff-dialog';
+import { ReviewPanel } from '@/components/test-case/review-panel';
 
 interface VersionStep extends Step {
   disabled: boolean;
@@ -93,6 +99,7 @@ const convertTestCaseStep = (step: TestCaseStep): VersionStep => ({
 export default function TestCaseDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const projectId = params.id as string;
   const testCaseId = params.testCaseId as string;
   
@@ -113,6 +120,7 @@ export default function TestCaseDetailPage() {
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [selectedTestResult, setSelectedTestResult] = useState<TestResultHistory | null>(null);
   const [isTestResultDialogOpen, setIsTestResultDialogOpen] = useState(false);
+  const [versionDiff, setVersionDiff] = useState<{ from: string; to: string } | null>(null);
 
   // Khởi tạo service
   const projectService = new ProjectService();
@@ -133,6 +141,7 @@ export default function TestCaseDetailPage() {
       lastRunBy: apiResult.lastRunBy || '',
       browser: apiResult.browser || 'chromium',
       videoUrl: apiResult.videoUrl || '',
+      runType: apiResult.runType,
       testCaseExecutions: apiResult.testCaseExecutions || []
     } as TestResultHistory;
   };
@@ -168,7 +177,15 @@ export default function TestCaseDetailPage() {
         setProject(projectData);
         setTestCase(testCaseData);
         setVersions(versionsData);
-        setTestResults(resultsData.map(convertApiTestResult));
+        const results = resultsData.map(convertApiTestResult);
+        setTestResults(results);
+
+        // Links from elsewhere, like the run comparison, can point at one execution's run
+        const linkedResult = results.find(result => result.id === searchParams.get('resultId'));
+        if (linkedResult) {
+          setSelectedTestResult(linkedResult);
+          setIsTestResultDialogOpen(true);
+        }
       } catch (err) {
         console.error('Error loading test case data:', err);
         toast.error('Failed to load test case data');
@@ -221,6 +238,29 @@ export default function TestCaseDetailPage() {
     }
   }
   
+  const getExecution = (result: TestResultHistory) =>
+    result.testCaseExecutions.find(execution => execution.testCaseId === testCaseId);
+
+  // Compare the steps that ran in two executions, loading versions snapshotted by runs since the page loaded
+  const compareExecutedVersions = async (fromId: string, toId: string) => {
+    if (!versions.some(version => version.id === fromId) || !versions.some(version => version.id === toId)) {
+      setVersions(await fetchTestCaseVersions(testCaseId));
+    }
+    setVersionDiff({ from: fromId, to: toId });
+  };
+
+  // Compare the approved version with the draft under review
+  const compareWithApproved = async (approvedVersion: string) => {
+    const latest = await fetchTestCaseVersions(testCaseId);
+    setVersions(latest);
+    const approved = latest.find(version => String(version.version) === approvedVersion);
+    if (!approved) {
+      toast.error(`Version ${approvedVersion} not found`);
+      return;
+    }
+    setVersionDiff({ from: approved.id, to: 'current' });
+  };
+
   // Status display helper
   const getStatusColor = (status: string): string => {
     switch (status) {
@@ -396,6 +436,7 @@ export default function TestCaseDetailPage() {
             </div>
             
             <div className="flex flex-wrap gap-2">
+              <QuarantineControl projectId={projectId} testCaseId={testCaseId} />
               <Button variant="outline" size="sm" asChild>
                 <Link href={`/projects/${projectId}/test-cases/${testCaseId}/edit`}>
                   <Edit className="mr-2 h-4 w-4" />
@@ -410,14 +451,23 @@ export default function TestCaseDetailPage() {
                 <Copy className="mr-2 h-4 w-4" />
                 Clone
               </Button>
-              <Button 
-                variant="default" 
-                size="sm"
-                onClick={() => setIsRunTestDialogOpen(true)}
-              >
-                <Play className="mr-2 h-4 w-4" />
-                Run Test
-              </Button>
+              {testCase.isManual ? (
+                <Button variant="default" size="sm" asChild>
+                  <Link href={`/projects/${projectId}/manual-run?testCaseIds=${testCaseId}`}>
+                    <ClipboardList className="mr-2 h-4 w-4" />
+                    Run Manually
+                  </Link>
+                </Button>
+              ) : (
+                <Button 
+                  variant="default" 
+                  size="sm"
+                  onClick={() => setIsRunTestDialogOpen(true)}
+                >
+                  <Play className="mr-2 h-4 w-4" />
+                  Run Test
+                </Button>
+              )}
               {!testCase.isManual && (
                 <Button 
                   variant="outline" 
@@ -459,6 +509,22 @@ export default function TestCaseDetailPage() {
           </div>
         </CardContent>
       </Card>
+
+      <ReviewPanel
+        projectId={projectId}
+        testCaseId={testCaseId}
+        version={String(testCase.version)}
+        onCompare={compareWithApproved}
+      />
+
+      {!testCase.isManual && (
+        <FileSyncPanel
+          projectId={projectId}
+          testCaseId={testCaseId}
+          version={String(testCase.version)}
+          onStepsChange={refreshTestCaseData}
+        />
+      )}
       
       <Tabs defaultValue="steps" onValueChange={(value) => {
         setActiveTab(value);
@@ -476,6 +542,9 @@ export default function TestCaseDetailPage() {
           <TabsTrigger value="steps">Steps</TabsTrigger>
           <TabsTrigger value="versions">Version History</TabsTrigger>
           <TabsTrigger value="results">Test Results</TabsTrigger>
+          {!testCase.isManual && testCase.testFilePath && (
+            <TabsTrigger value="file-history">File History</TabsTrigger>
+          )}
         </TabsList>
         <TabsContent value="steps" className="mt-4">
           <TestStepsTable
@@ -509,13 +578,21 @@ export default function TestCaseDetailPage() {
                       key={version.id} 
                       className="flex items-center justify-between border-b pb-2 last:border-0"
                     >
-                      <div>
+                      <div className="flex-1 mr-4">
                         <p className="font-medium">Version {version.version}</p>
                         <p className="text-sm text-muted-foreground">
                           Created on {formatDate(version.createdAt)}
                           {version.createdBy && ` by ${version.createdBy}`}
                         </p>
                       </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="mr-2"
+                        onClick={() => setVersionDiff({ from: version.id, to: 'current' })}
+                      >
+                        Compare
+                      </Button>
                       <Button 
                         variant="outline" 
                         size="sm"
@@ -544,36 +621,73 @@ export default function TestCaseDetailPage() {
             <CardContent>
               {testResults && testResults.length > 0 ? (
                 <div className="space-y-4">
-                  {testResults.map((result) => (
-                    <div 
-                      key={result.id} 
-                      className="flex items-center justify-between border-b pb-2 last:border-0"
-                    >
-                      <div>
-                        <div className="flex items-center gap-2">
-                          <Badge 
-                            variant={result.success ? "default" : "destructive"}
-                          >
-                            {result.status}
-                          </Badge>
-                          <p className="font-medium">Run on {formatDate(result.createdAt)}</p>
+                  {testResults.map((result, index) => {
+                    const execution = getExecution(result);
+                    const previous = testResults[index + 1] ? getExecution(testResults[index + 1]) : undefined;
+                    const versionChanged = !!execution?.executedVersion && !!previous?.executedVersion &&
+                      execution.executedVersion.id !== previous.executedVersion.id;
+
+                    return (
+                      <div 
+                        key={result.id} 
+                        className="flex items-center justify-between border-b pb-2 last:border-0"
+                      >
+                        <div className="flex-1 mr-4">
+                          <div className="flex items-center gap-2">
+                            <Badge 
+                              variant={result.success ? "default" : "destructive"}
+                            >
+                              {result.status}
+                            </Badge>
+                            <p className="font-medium">Run on {formatDate(result.createdAt)}</p>
+                            {(execution?.executedVersion || execution?.testCaseVersion) && (
+                              <Badge variant="outline">v{execution.executedVersion?.version || execution.testCaseVersion}</Badge>
+                            )}
+                            {result.runType === 'manual' && <Badge variant="secondary">Manual</Badge>}
+                            {execution?.fixtureVersions?.map(({ fixtureVersion }) => (
+                              <Badge key={fixtureVersion.id} variant="secondary" className="font-normal">
+                                {fixtureVersion.name} v{fixtureVersion.version}
+                              </Badge>
+                            ))}
+                          </div>
+                          {versionChanged && previous.status !== execution.status && (
+                            <div className="flex items-center gap-2 text-sm">
+                              <span>
+                                <span className="capitalize">{previous.status}</span> on v{previous.executedVersion!.version},{' '}
+                                {execution.status} on v{execution.executedVersion!.version}
+                              </span>
+                              <Button
+                                variant="link"
+                                size="sm"
+                                className="h-auto p-0"
+                                onClick={() => compareExecutedVersions(previous.executedVersion!.id, execution.executedVersion!.id)}
+                              >
+                                Compare steps
+                              </Button>
+                            </div>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            Duration: {result.executionTime ? `${result.executionTime}ms` : 'N/A'}
+                          </p>
+                          <div className="mt-2">
+                            <StepTimeline
+                              attempts={result.testCaseExecutions.find(execution => execution.testCaseId === testCaseId)?.attempts || []}
+                            />
+                          </div>
                         </div>
-                        <p className="text-sm text-muted-foreground">
-                          Duration: {result.executionTime ? `${result.executionTime}ms` : 'N/A'}
-                        </p>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => {
+                            setSelectedTestResult(result);
+                            setIsTestResultDialogOpen(true);
+                          }}
+                        >
+                          View Details
+                        </Button>
                       </div>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => {
-                          setSelectedTestResult(result);
-                          setIsTestResultDialogOpen(true);
-                        }}
-                      >
-                        View Details
-                      </Button>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               ) : (
                 <p className="text-muted-foreground">No test results available</p>
@@ -581,6 +695,15 @@ export default function TestCaseDetailPage() {
             </CardContent>
           </Card>
         </TabsContent>
+        {!testCase.isManual && testCase.testFilePath && (
+          <TabsContent value="file-history" className="mt-4">
+            <FileHistory
+              projectId={projectId}
+              filePath={testCase.testFilePath}
+              version={String(testCase.version)}
+            />
+          </TabsContent>
+        )}
       </Tabs>
       
       {/* Test Result Dialog */}
@@ -590,6 +713,24 @@ export default function TestCaseDetailPage() {
         testResult={selectedTestResult}
       />
       
+      {/* Version Diff Dialog */}
+      <VersionDiffDialog
+        open={!!versionDiff}
+        onOpenChange={(open) => !open && setVersionDiff(null)}
+        versions={versions}
+        fromVersionId={versionDiff?.from || null}
+        toVersionId={versionDiff?.to}
+        loadDiff={(from, to) => testCaseService.diffTestCaseVersions(projectId, testCaseId, from, to)}
+        onRevert={(versionId) => {
+          const version = versions.find(item => item.id === versionId);
+          if (version) {
+            setActiveVersion(version);
+            setVersionDiff(null);
+            setIsRevertDialogOpen(true);
+          }
+        }}
+      />
+
       {/* Version Details Dialog */}
       <Dialog open={isViewVersionDialogOpen} onOpenChange={setIsViewVersionDialogOpen}>
         <DialogContent className="max-w-3xl">
@@ -637,6 +778,17 @@ export default function TestCaseDetailPage() {
             <Button variant="outline" onClick={() => setIsViewVersionDialogOpen(false)}>
               Close
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (activeVersion) {
+                  setIsViewVersionDialogOpen(false);
+                  setVersionDiff({ from: activeVersion.id, to: 'current' });
+                }
+              }}
+            >
+              Compare with current
+            </Button>
             <Button 
               variant="default" 
               onClick={() => setIsRevertDialogOpen(true)}
@@ -15,6 +15,9 @@ interface Props {
   params: Promise<{
     id: string;
   }>;
+  searchParams: Promise<{
+    suiteId?: string;
+  }>;
 }
 
 async function fetchProject(projectId: string): Promise<Project | null> {
@@ -52,9 +55,10 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
   };
 }
 
-export default async function NewTestCasePage({ params }: Props) {
+export default async function NewTestCasePage({ params, searchParams }: Props) {
   const paramsCopy = await Promise.resolve(params);
   const id = paramsCopy.id;
+  const { suiteId } = await searchParams;
   const project = await fetchProject(id);
   
   if (!project) {
@@ -84,7 +88,7 @@ export default async function NewTestCasePage({ params }: Props) {
       </Breadcrumb>
       
       <div className="max-w-3xl mx-auto mt-8">
-        <TestCaseForm projectId={id} />
+        <TestCaseForm projectId={id} suiteId={suiteId} />
       </div>
     </div>
   );
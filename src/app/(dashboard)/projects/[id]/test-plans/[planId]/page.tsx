@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { formatDistance } from 'date-fns';
+import { ChevronLeft, ClipboardCheck, Edit, Loader2, Play, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { RunTestDialog } from '@/components/test-case/run-test-dialog';
+import { TestPlanDialog } from '@/components/test-plans/test-plan-dialog';
+import { TestPlanProgressBar } from '@/components/test-plans/test-plan-progress';
+import { TestPlanService } from '@/lib/api/services';
+import { formatDate } from '@/lib/utils/date';
+import { TestPlanDetail } from '@/types';
+
+const testPlanService = new TestPlanService();
+
+const outcomeVariants: Record<string, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  passed: 'default',
+  failed: 'destructive',
+  blocked: 'secondary',
+  untested: 'outline',
+};
+
+export default function TestPlanPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+  const planId = params.planId as string;
+  const { data: session } = useSession();
+
+  const [plan, setPlan] = useState<TestPlanDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isRunOpen, setIsRunOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [assignee, setAssignee] = useState('');
+  const [assigning, setAssigning] = useState(false);
+
+  async function loadPlan() {
+    try {
+      setPlan(await testPlanService.getTestPlan(projectId, planId));
+    } catch (error) {
+      console.error('Error loading test plan:', error);
+      toast.error('Failed to load test plan');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPlan();
+  }, [projectId, planId]);
+
+  async function handleAssign(email: string | null) {
+    if (email !== null && !email.trim()) {
+      toast.error('Enter the email of the tester to assign');
+      return;
+    }
+
+    setAssigning(true);
+    try {
+      await testPlanService.assignTestCases(projectId, planId, selectedIds, email && email.trim());
+      toast.success(email ? 'Test cases assigned' : 'Assignments removed');
+      setSelectedIds([]);
+      await loadPlan();
+    } catch (error) {
+      console.error('Error assigning test cases:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to assign test cases');
+    } finally {
+      setAssigning(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!plan) {
+    return <p className="p-4 text-muted-foreground">Test plan not found</p>;
+  }
+
+  const manualTestCases = plan.scope.filter(testCase => testCase.isManual);
+  const myTestCases = manualTestCases.filter(testCase => testCase.assignee && testCase.assignee === session?.user?.email);
+  const manualRunHref = (testCaseIds: string[]) =>
+    `/projects/${projectId}/manual-run?testCaseIds=${testCaseIds.join(',')}&planId=${planId}`;
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col space-y-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/projects">Projects</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/projects/${projectId}?tab=test-plans`}>Test Plans</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink>{plan.name}</BreadcrumbLink>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" size="sm" asChild className="flex items-center gap-1">
+            <Link href={`/projects/${projectId}?tab=test-plans`}>
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+            {myTestCases.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={manualRunHref(myTestCases.map(testCase => testCase.id))}>
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  Run My Assignments ({myTestCases.length})
+                </Link>
+              </Button>
+            )}
+            {manualTestCases.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={manualRunHref(manualTestCases.map(testCase => testCase.id))}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Run Manual Portion
+                </Link>
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => setIsRunOpen(true)}
+              disabled={plan.scope.every(testCase => testCase.isManual)}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Run Automated
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{plan.name}</CardTitle>
+          {plan.description && <CardDescription>{plan.description}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          <TestPlanProgressBar progress={plan.progress} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Test Cases</CardTitle>
+            <CardDescription>Latest outcome of each test case across the runs of this plan</CardDescription>
+          </div>
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Input
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                placeholder="tester@example.com"
+                className="w-56"
+              />
+              <Button size="sm" onClick={() => handleAssign(assignee)} disabled={assigning}>
+                Assign {selectedIds.length}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleAssign(null)} disabled={assigning}>
+                Unassign
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {plan.scope.length === 0 ? (
+            <p className="text-muted-foreground">No test cases are in this plan yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Name</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Assignee</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Last Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.scope.map(testCase => (
+                  <TableRow key={testCase.id}>
+                    <TableCell>
+                      {/* Only the manual portion is handed out to testers */}
+                      {testCase.isManual && (
+                        <Checkbox
+                          checked={selectedIds.includes(testCase.id)}
+                          onCheckedChange={(checked) => setSelectedIds(prev => checked
+                            ? [...prev, testCase.id]
+                            : prev.filter(id => id !== testCase.id))}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/projects/${projectId}/test-cases/${testCase.id}`} className="hover:underline">
+                        {testCase.name}
+                      </Link>
+                      {!testCase.picked && <span className="ml-2 text-xs text-muted-foreground">by criteria</span>}
+                    </TableCell>
+                    <TableCell>{testCase.isManual ? 'Manual' : 'Automated'}</TableCell>
+                    <TableCell>{testCase.priority}</TableCell>
+                    <TableCell>{testCase.assignee || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={outcomeVariants[testCase.outcome]} className="capitalize">
+                        {testCase.outcome}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {testCase.lastRunAt && testCase.lastTestResultId ? (
+                        <Link
+                          href={`/projects/${projectId}/test-cases/${testCase.id}?resultId=${testCase.lastTestResultId}`}
+                          className="text-sm hover:underline"
+                        >
+                          {formatDistance(new Date(testCase.lastRunAt), new Date(), { addSuffix: true })}
+                        </Link>
+                      ) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {plan.testResults.length === 0 ? (
+            <p className="text-muted-foreground">This plan has not been run yet</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {plan.testResults.map(testResult => (
+                <div key={testResult.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                  <div>
+                    <span className="font-medium">{testResult.name || 'Test run'}</span>
+                    <span className="ml-2 text-muted-foreground capitalize">{testResult.runType}</span>
+                  </div>
+                  <div className="flex items-center gap-3 text-muted-foreground">
+                    <span>{testResult.createdBy}</span>
+                    <span>{formatDate(testResult.createdAt)}</span>
+                    <Badge
+                      variant={testResult.success ? 'default' : testResult.status === 'completed' ? 'destructive' : 'secondary'}
+                      className="capitalize"
+                    >
+                      {testResult.success ? 'passed' : testResult.status === 'completed' ? 'failed' : testResult.status}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TestPlanDialog
+        projectId={projectId}
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        plan={plan}
+        onSaved={() => loadPlan()}
+      />
+
+      <RunTestDialog
+        isOpen={isRunOpen}
+        onClose={() => {
+          setIsRunOpen(false);
+          loadPlan();
+        }}
+        projectId={projectId}
+        mode="plan"
+        planId={planId}
+      />
+    </div>
+  );
+}
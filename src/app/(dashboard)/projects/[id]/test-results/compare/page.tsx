@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ChevronLeft, Loader2, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { formatDate } from '@/lib/utils/date';
+import { useRunComparison } from '@/lib/api/hooks/use-run-comparison';
+import type { ComparedExecution, ComparisonCategory, RunComparison, TestCaseComparison } from '@/lib/test-run/run-comparison';
+
+const CATEGORY_LABELS: Record<ComparisonCategory, string> = {
+  'newly-failing': 'Newly Failing',
+  'newly-passing': 'Newly Passing',
+  'still-failing': 'Still Failing',
+  'added': 'Added',
+  'removed': 'Removed',
+  'status-changed': 'Status Changed',
+  'duration-regressed': 'Slower',
+  'unchanged': 'Unchanged',
+};
+
+const CATEGORY_COLORS: Record<ComparisonCategory, string> = {
+  'newly-failing': 'bg-red-100 text-red-800',
+  'newly-passing': 'bg-green-100 text-green-800',
+  'still-failing': 'bg-orange-100 text-orange-800',
+  'added': 'bg-blue-100 text-blue-800',
+  'removed': 'bg-gray-100 text-gray-800',
+  'status-changed': 'bg-purple-100 text-purple-800',
+  'duration-regressed': 'bg-yellow-100 text-yellow-800',
+  'unchanged': 'bg-slate-100 text-slate-700',
+};
+
+function formatDuration(duration: number | null | undefined): string {
+  return duration != null ? `${(duration / 1000).toFixed(2)}s` : 'N/A';
+}
+
+function RunHeader({ label, run }: { label: string; run: RunComparison['base'] }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs uppercase text-muted-foreground">{label}</p>
+      <p className="font-medium">{run.name || `Test Run #${run.id.slice(0, 8)}`}</p>
+      <p className="text-sm text-muted-foreground">
+        {formatDate(run.createdAt)} • {run.browser || 'chromium'}
+      </p>
+      <Badge variant={run.success ? 'default' : 'destructive'}>{run.success ? 'Passed' : run.status}</Badge>
+    </div>
+  );
+}
+
+function ExecutionLink({ projectId, testCaseId, execution }: { projectId: string; testCaseId: string; execution: ComparedExecution | null }) {
+  if (!execution) {
+    return <span className="text-muted-foreground">Not run</span>;
+  }
+
+  return (
+    <Link
+      href={`/projects/${projectId}/test-cases/${testCaseId}?resultId=${execution.testResultId}`}
+      className="flex items-center gap-2 hover:underline"
+    >
+      <Badge
+        variant={execution.status === 'passed' ? 'default' : execution.status === 'skipped' ? 'secondary' : 'destructive'}
+        className="capitalize"
+      >
+        {execution.status}
+      </Badge>
+      <span className="text-xs text-muted-foreground">{formatDuration(execution.duration)}</span>
+    </Link>
+  );
+}
+
+function ComparisonRow({ projectId, testCase }: { projectId: string; testCase: TestCaseComparison }) {
+  const [showDiff, setShowDiff] = useState(testCase.category === 'newly-failing');
+
+  return (
+    <div className="border-b last:border-0 p-4 space-y-2">
+      <div className="grid grid-cols-12 gap-4 items-center text-sm">
+        <div className="col-span-4">
+          <Link href={`/projects/${projectId}/test-cases/${testCase.testCaseId}`} className="font-medium hover:underline">
+            {testCase.testCaseName}
+          </Link>
+        </div>
+        <div className="col-span-2">
+          <Badge className={CATEGORY_COLORS[testCase.category]}>{CATEGORY_LABELS[testCase.category]}</Badge>
+        </div>
+        <div className="col-span-2">
+          <ExecutionLink projectId={projectId} testCaseId={testCase.testCaseId} execution={testCase.base} />
+        </div>
+        <div className="col-span-2">
+          <ExecutionLink projectId={projectId} testCaseId={testCase.testCaseId} execution={testCase.target} />
+        </div>
+        <div className="col-span-2 text-right">
+          {testCase.durationChange != null && (
+            <span className={testCase.durationChange > 0 ? 'text-red-600' : 'text-green-600'}>
+              {testCase.durationChange > 0 ? '+' : ''}{formatDuration(testCase.durationChange)}
+            </span>
+          )}
+          {testCase.errorDiff && (
+            <Button variant="link" size="sm" className="h-auto p-0 ml-2" onClick={() => setShowDiff(!showDiff)}>
+              {showDiff ? 'Hide error diff' : 'Error diff'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {showDiff && testCase.errorDiff && (
+        <pre className="rounded-md border bg-slate-50 p-3 text-xs font-mono whitespace-pre-wrap overflow-auto max-h-[300px]">
+          {testCase.errorDiff.map((line, index) => (
+            <div
+              key={index}
+              className={line.type === 'added' ? 'bg-red-50 text-red-700' : line.type === 'removed' ? 'bg-green-50 text-green-700' : ''}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.value}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function CompareTestRunsPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const projectId = params.id as string;
+  const baseId = searchParams.get('base');
+  const targetId = searchParams.get('target');
+  const [categoryFilter, setCategoryFilter] = useState<ComparisonCategory | 'changed' | 'all'>('changed');
+
+  const { comparison, loading, error } = useRunComparison(projectId, baseId, targetId);
+
+  const visibleTestCases = comparison?.testCases.filter(testCase =>
+    categoryFilter === 'all' ||
+    (categoryFilter === 'changed' ? testCase.category !== 'unchanged' : testCase.category === categoryFilter)
+  ) || [];
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col space-y-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/projects">Projects</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/projects/${projectId}?tab=results`}>Test Results</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink>Compare Runs</BreadcrumbLink>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" asChild className="flex items-center gap-1">
+            <Link href={`/projects/${projectId}?tab=results`}>
+              <ChevronLeft className="h-4 w-4" />
+              Back to Test Results
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {(!baseId || !targetId) && (
+        <p className="text-muted-foreground">Select two test runs in the project&apos;s results to compare them.</p>
+      )}
+
+      {loading && (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      )}
+
+      {error && (
+        <div className="text-center py-12 bg-destructive/10 rounded-lg border border-destructive/20">
+          <p className="text-destructive">{error}</p>
+        </div>
+      )}
+
+      {comparison && !loading && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Compare Runs</CardTitle>
+              <CardDescription>What changed between the two runs, test case by test case</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-col md:flex-row md:items-center gap-6">
+                <RunHeader label="Base" run={comparison.base} />
+                <ArrowRight className="hidden md:block h-5 w-5 text-muted-foreground" />
+                <RunHeader label="Target" run={comparison.target} />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant={categoryFilter === 'changed' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategoryFilter('changed')}
+                >
+                  Changed ({comparison.testCases.length - comparison.counts.unchanged})
+                </Button>
+                <Button
+                  variant={categoryFilter === 'all' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategoryFilter('all')}
+                >
+                  All ({comparison.testCases.length})
+                </Button>
+                {(Object.keys(CATEGORY_LABELS) as ComparisonCategory[]).map(category => (
+                  <Button
+                    key={category}
+                    variant={categoryFilter === category ? 'default' : 'outline'}
+                    size="sm"
+                    disabled={comparison.counts[category] === 0}
+                    onClick={() => setCategoryFilter(category)}
+                  >
+                    {CATEGORY_LABELS[category]} ({comparison.counts[category]})
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="rounded-md border">
+            <div className="grid grid-cols-12 gap-4 p-4 bg-slate-50 border-b text-sm font-medium">
+              <div className="col-span-4">Test Case</div>
+              <div className="col-span-2">Change</div>
+              <div className="col-span-2">Base</div>
+              <div className="col-span-2">Target</div>
+              <div className="col-span-2 text-right">Duration Change</div>
+            </div>
+            {visibleTestCases.length > 0 ? (
+              visibleTestCases.map(testCase => (
+                <ComparisonRow key={testCase.testCaseId} projectId={projectId} testCase={testCase} />
+              ))
+            ) : (
+              <div className="p-4 text-center text-muted-foreground">No test cases in this category</div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
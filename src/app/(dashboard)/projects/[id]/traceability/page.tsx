@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { formatDistance } from 'date-fns';
+import { AlertTriangle, ChevronLeft, Download, ExternalLink, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { RequirementService } from '@/lib/api/services';
+import { TraceabilityMatrix } from '@/types';
+
+const requirementService = new RequirementService();
+
+const coverageVariants: Record<string, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  passing: 'default',
+  failing: 'destructive',
+  'not-run': 'secondary',
+  uncovered: 'outline',
+};
+
+const statusVariants: Record<string, 'default' | 'destructive' | 'secondary' | 'outline'> = {
+  passed: 'default',
+  flaky: 'default',
+  failed: 'destructive',
+  blocked: 'secondary',
+};
+
+export default function TraceabilityPage() {
+  const params = useParams();
+  const projectId = params.id as string;
+
+  const [matrix, setMatrix] = useState<TraceabilityMatrix | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    requirementService.getTraceabilityMatrix(projectId)
+      .then(setMatrix)
+      .catch(error => {
+        console.error('Error loading traceability matrix:', error);
+        toast.error('Failed to load traceability matrix');
+      })
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  const uncovered = matrix?.requirements.filter(requirement => requirement.coverage === 'uncovered') || [];
+
+  return (
+    <div className="space-y-6 p-4">
+      <div className="flex flex-col space-y-2">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/projects">Projects</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href={`/projects/${projectId}?tab=requirements`}>Requirements</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink>Traceability Matrix</BreadcrumbLink>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" size="sm" asChild className="flex items-center gap-1">
+            <Link href={`/projects/${projectId}?tab=requirements`}>
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/projects/${projectId}/traceability?format=csv`}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/projects/${projectId}/traceability?format=html`}>
+                <Download className="h-4 w-4 mr-2" />
+                Export HTML
+              </a>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : !matrix ? null : (
+        <>
+          {uncovered.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>
+                {uncovered.length} requirement{uncovered.length === 1 ? ' is' : 's are'} not covered by any test case
+              </AlertTitle>
+              <AlertDescription>
+                {uncovered.map(requirement => requirement.key).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Requirements', value: matrix.summary.total },
+              { label: 'Covered', value: matrix.summary.covered },
+              { label: 'Passing', value: matrix.summary.passing },
+              { label: 'Failing', value: matrix.summary.failing },
+              { label: 'Not Run', value: matrix.summary.notRun },
+            ].map(item => (
+              <Card key={item.label}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">{item.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-2xl font-bold">{item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {matrix.requirements.length === 0 ? (
+            <p className="text-muted-foreground">Add requirements to the project to build the matrix.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Requirement</TableHead>
+                  <TableHead>Coverage</TableHead>
+                  <TableHead>Test Case</TableHead>
+                  <TableHead>Latest Status</TableHead>
+                  <TableHead>Last Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.requirements.map(requirement => {
+                  const testCases = requirement.testCases.length > 0 ? requirement.testCases : [null];
+                  return testCases.map((testCase, index) => (
+                    <TableRow key={`${requirement.id}-${testCase?.id || 'none'}`}>
+                      {index === 0 && (
+                        <>
+                          <TableCell rowSpan={testCases.length} className="align-top">
+                            <div className="flex items-center gap-2">
+                              <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{requirement.key}</code>
+                              {requirement.externalUrl && (
+                                <a href={requirement.externalUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                                  <ExternalLink className="h-3.5 w-3.5" />
+                                </a>
+                              )}
+                            </div>
+                            <p className="text-sm mt-1">{requirement.title}</p>
+                          </TableCell>
+                          <TableCell rowSpan={testCases.length} className="align-top">
+                            <Badge variant={coverageVariants[requirement.coverage]} className="capitalize">
+                              {requirement.coverage.replace('-', ' ')}
+                            </Badge>
+                          </TableCell>
+                        </>
+                      )}
+                      {testCase ? (
+                        <>
+                          <TableCell>
+                            <Link href={`/projects/${projectId}/test-cases/${testCase.id}`} className="hover:underline">
+                              {testCase.name}
+                            </Link>
+                            {testCase.isManual && <span className="ml-2 text-xs text-muted-foreground">manual</span>}
+                          </TableCell>
+                          <TableCell>
+                            {testCase.status ? (
+                              <Badge variant={statusVariants[testCase.status]} className="capitalize">{testCase.status}</Badge>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">Not run</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {testCase.lastRunAt && testCase.lastTestResultId ? (
+                              <Link
+                                href={`/projects/${projectId}/test-cases/${testCase.id}?resultId=${testCase.lastTestResultId}`}
+                                className="text-sm hover:underline"
+                              >
+                                {formatDistance(new Date(testCase.lastRunAt), new Date(), { addSuffix: true })}
+                              </Link>
+                            ) : '-'}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={3} className="text-sm text-muted-foreground">No test cases</TableCell>
+                      )}
+                    </TableRow>
+                  ));
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,13 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
+import path from "path";
 import { prisma } from "@/lib/db/prisma";
+import { PlaywrightService } from "@/lib/playwright/playwright.service";
+import { commitProjectFiles } from "@/lib/playwright/project-git";
+import { ConfigurationSettings, ConfigurationSettingsSchema } from "@/lib/playwright/playwright-config";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth/options";
-
-interface ConfigurationSettings {
-  [category: string]: {
-    [key: string]: string;
-  };
-}
+import { checkPermission, checkResourcePermission } from "@/lib/rbac/check-permission";
 
 // Get project configuration settings
 export async function GET(
@@ -22,6 +21,12 @@ export async function GET(
 
     const params = await context.params;
     const projectId = params.id;
+
+    const hasPermission = await checkResourcePermission("project", "view", projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const settings = await prisma.projectSetting.findMany({
       where: { projectId },
     });
@@ -58,7 +63,23 @@ export async function PUT(
 
     const params = await context.params;
     const projectId = params.id;
-    const data = await request.json() as ConfigurationSettings;
+
+    const hasPermission = await checkResourcePermission("project", "update", projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const validation = ConfigurationSettingsSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid configuration",
+          details: validation.error.errors.map(e => `${e.path.join(".")}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+    const data: ConfigurationSettings = validation.data;
 
     // Validate project exists
     const project = await prisma.project.findUnique({
@@ -69,10 +90,24 @@ export async function PUT(
       return NextResponse.json({ error: "Project not found" }, { status: 404 });
     }
 
+    // The web server command runs on this machine with every test run, so only admins may change it
+    const command = data.webServer?.command;
+    if (command !== undefined) {
+      const current = await prisma.projectSetting.findUnique({
+        where: { projectId_category_key: { projectId, category: "webServer", key: "command" } },
+      });
+      if (command !== (current?.value ?? "") && !(await checkPermission("system", "settings"))) {
+        return NextResponse.json(
+          { error: "Only administrators can change the web server command" },
+          { status: 403 }
+        );
+      }
+    }
+
     // Process each category and its settings
     const updates = [];
     for (const [category, settings] of Object.entries(data)) {
-      for (const [key, value] of Object.entries(settings)) {
+      for (const [key, value] of Object.entries(settings ?? {})) {
         updates.push(
           prisma.projectSetting.upsert({
             where: {
@@ -102,6 +137,33 @@ export async function PUT(
     // Execute all updates in a transaction
     await prisma.$transaction(updates);
 
+    // Apply the saved settings to the project's playwright.config.ts
+    if (project.playwrightProjectPath) {
+      try {
+        const appRoot = process.cwd();
+        const settings = await prisma.projectSetting.findMany({
+          where: { projectId },
+        });
+        const backupPath = await new PlaywrightService(appRoot).generatePlaywrightConfig(
+          path.join(appRoot, project.playwrightProjectPath),
+          settings
+        );
+        await commitProjectFiles(project, ["playwright.config.ts", ...(backupPath ? [backupPath] : [])], "Update Playwright configuration");
+        if (backupPath) {
+          return NextResponse.json({
+            message: "Configuration updated",
+            warning: `playwright.config.ts had no custom section, the previous file was saved as ${backupPath}`,
+          });
+        }
+      } catch (configError) {
+        console.error("Error generating playwright.config.ts:", configError);
+        return NextResponse.json({
+          message: "Configuration updated, but playwright.config.ts could not be generated",
+          warning: configError instanceof Error ? configError.message : String(configError),
+        });
+      }
+    }
+
     return NextResponse.json({ message: "Configuration updated successfully" });
   } catch (error) {
     console.error("Error updating project configuration:", error);
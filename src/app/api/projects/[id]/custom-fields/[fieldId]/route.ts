@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkPermission, checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { CustomFieldSchema, toCustomFieldResponse } from '@/lib/custom-fields/custom-fields';
+
+// PUT /api/projects/[id]/custom-fields/[fieldId]
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const { id: projectId, fieldId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    // Custom fields apply to every test case of the project, so only administrators define them
+    if (!(await checkPermission('system', 'settings'))) {
+      return NextResponse.json({ error: 'Only administrators can manage custom fields' }, { status: 403 });
+    }
+
+    const existing = await prisma.customField.findFirst({ where: { id: fieldId, projectId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    const validation = CustomFieldSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid custom field',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    if (data.name !== existing.name) {
+      const duplicate = await prisma.customField.findUnique({
+        where: { projectId_name: { projectId, name: data.name } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: `A field named "${data.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    // Stored values are kept in the column of the original type
+    if (data.type !== existing.type && await prisma.customFieldValue.count({ where: { fieldId } }) > 0) {
+      return NextResponse.json(
+        { error: 'The type of a field cannot change once test cases have values for it' },
+        { status: 400 }
+      );
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const field = await prisma.customField.update({
+      where: { id: fieldId },
+      data: {
+        name: data.name,
+        type: data.type,
+        options: data.type === 'select' || data.type === 'multiselect' ? JSON.stringify(data.options) : null,
+        required: data.required,
+        updatedBy: userEmail,
+      },
+    });
+
+    return NextResponse.json(toCustomFieldResponse(field));
+  } catch (error) {
+    console.error('Error updating custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to update custom field' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/custom-fields/[fieldId] - removes the field's values from all test cases
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fieldId: string }> }
+) {
+  try {
+    const { id: projectId, fieldId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    // Custom fields apply to every test case of the project, so only administrators define them
+    if (!(await checkPermission('system', 'settings'))) {
+      return NextResponse.json({ error: 'Only administrators can manage custom fields' }, { status: 403 });
+    }
+
+    const { count } = await prisma.customField.deleteMany({
+      where: { id: fieldId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Custom field not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Custom field deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete custom field' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkPermission, checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { CustomFieldSchema, toCustomFieldResponse } from '@/lib/custom-fields/custom-fields';
+
+// GET /api/projects/[id]/custom-fields
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const fields = await prisma.customField.findMany({
+      where: { projectId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return NextResponse.json(fields.map(toCustomFieldResponse));
+  } catch (error) {
+    console.error('Error fetching custom fields:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custom fields' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/custom-fields
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    // Custom fields apply to every test case of the project, so only administrators define them
+    if (!(await checkPermission('system', 'settings'))) {
+      return NextResponse.json({ error: 'Only administrators can manage custom fields' }, { status: 403 });
+    }
+
+    const validation = CustomFieldSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid custom field',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const existing = await prisma.customField.findUnique({
+      where: { projectId_name: { projectId, name: data.name } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: `A field named "${data.name}" already exists` }, { status: 409 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const field = await prisma.customField.create({
+      data: {
+        projectId,
+        name: data.name,
+        type: data.type,
+        options: data.type === 'select' || data.type === 'multiselect' ? JSON.stringify(data.options) : null,
+        required: data.required,
+        order: await prisma.customField.count({ where: { projectId } }),
+        createdBy: userEmail,
+        updatedBy: userEmail,
+      },
+    });
+
+    return NextResponse.json(toCustomFieldResponse(field), { status: 201 });
+  } catch (error) {
+    console.error('Error creating custom field:', error);
+    return NextResponse.json(
+      { error: 'Failed to create custom field' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCustomFieldValues } from '@/lib/custom-fields/custom-fields';
+
+// GET /api/projects/[id]/custom-fields/values?testCaseId= - values keyed by test case id, then field id
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const testCaseId = request.nextUrl.searchParams.get('testCaseId');
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json(await getCustomFieldValues(projectId, testCaseId ? [testCaseId] : undefined));
+  } catch (error) {
+    console.error('Error fetching custom field values:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch custom field values' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { buildVariableRows, EnvironmentSchema, toEnvironmentResponse } from '@/lib/environments/environment';
+
+// PUT /api/projects/[id]/environments/[environmentId]
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; environmentId: string }> }
+) {
+  try {
+    const { id: projectId, environmentId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.environment.findFirst({
+      where: { id: environmentId, projectId },
+      include: { variables: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Environment not found' }, { status: 404 });
+    }
+
+    const validation = EnvironmentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid environment',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    if (data.name !== existing.name) {
+      const conflict = await prisma.environment.findUnique({
+        where: { projectId_name: { projectId, name: data.name } },
+      });
+      if (conflict) {
+        return NextResponse.json({ error: `An environment named "${data.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    const variables = buildVariableRows(data.variables, existing.variables);
+    const environment = await prisma.environment.update({
+      where: { id: environmentId },
+      data: {
+        name: data.name,
+        description: data.description,
+        updatedBy: await getCurrentUserEmail(),
+        variables: {
+          deleteMany: {},
+          create: variables,
+        },
+      },
+      include: { variables: true },
+    });
+
+    return NextResponse.json(toEnvironmentResponse(environment));
+  } catch (error) {
+    console.error('Error updating environment:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update environment' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/environments/[environmentId]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; environmentId: string }> }
+) {
+  try {
+    const { id: projectId, environmentId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { count } = await prisma.environment.deleteMany({
+      where: { id: environmentId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Environment not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Environment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting environment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete environment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { buildVariableRows, EnvironmentSchema, toEnvironmentResponse } from '@/lib/environments/environment';
+
+// GET /api/projects/[id]/environments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const environments = await prisma.environment.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' },
+      include: { variables: true },
+    });
+
+    return NextResponse.json(environments.map(toEnvironmentResponse));
+  } catch (error) {
+    console.error('Error fetching environments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch environments' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/environments
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = EnvironmentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid environment',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const existing = await prisma.environment.findUnique({
+      where: { projectId_name: { projectId, name: data.name } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: `An environment named "${data.name}" already exists` }, { status: 409 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const environment = await prisma.environment.create({
+      data: {
+        projectId,
+        name: data.name,
+        description: data.description,
+        createdBy: userEmail,
+        updatedBy: userEmail,
+        variables: { create: buildVariableRows(data.variables) },
+      },
+      include: { variables: true },
+    });
+
+    return NextResponse.json(toEnvironmentResponse(environment), { status: 201 });
+  } catch (error) {
+    console.error('Error creating environment:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create environment' },
+      { status: 500 }
+    );
+  }
+}
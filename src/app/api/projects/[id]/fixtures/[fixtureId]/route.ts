@@ -12,6 +12,7 @@ import * as path from 'path';
 import { PrismaClient } from '@prisma/client';
 import { PlaywrightService } from '@/lib/playwright/playwright.service';
 import * as fs from 'fs/promises';
+import { commitProjectFiles } from '@/lib/playwright/project-git';
 
 const prisma = new PrismaClient();
 
@@ -288,6 +289,12 @@ export async function DELETE(
           } catch (fileError: any) {
             console.warn(`Could not delete fixture file: ${fileError.message}`);
           }
+
+          await commitProjectFiles(
+            project,
+            [fixtureFilePath, path.join(path.dirname(fixtureFilePath), 'index.ts')],
+            `Delete fixture "${fixture.name}"\n\nFixture: ${fixtureId}`
+          );
         }
       } catch (indexError) {
         console.error('Error updating index.ts after deleting fixture:', indexError);
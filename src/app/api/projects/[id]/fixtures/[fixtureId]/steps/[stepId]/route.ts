@@ -159,6 +159,7 @@ export async function PUT(
         action: s.action,
         data: s.data || undefined,
         expected: s.expected || undefined,
+        playwrightCode: s.playwrightScript || undefined,
         order: s.order,
         disabled: s.disabled || false,
         createdBy: userEmail
@@ -283,6 +284,7 @@ export async function DELETE(
         action: s.action,
         data: s.data || undefined,
         expected: s.expected || undefined,
+        playwrightCode: s.playwrightScript || undefined,
         order: s.order,
         disabled: s.disabled || false,
         createdBy: userEmail
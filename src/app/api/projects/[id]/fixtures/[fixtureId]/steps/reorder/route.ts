@@ -106,6 +106,7 @@ export async function POST(
           action: step.action,
           data: step.data || undefined,
           expected: step.expected || undefined,
+          playwrightCode: step.playwrightScript || undefined,
           order: step.order,
           disabled: step.disabled || false,
           createdBy: userEmail
@@ -169,6 +169,7 @@ export async function POST(
         action: s.action,
         data: s.data || undefined,
         expected: s.expected || undefined,
+        playwrightCode: s.playwrightScript || undefined,
         order: s.order,
         disabled: s.disabled || false,
         createdBy: userEmail
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { DiffableVersion, diffVersions } from '@/lib/utils/version-diff';
+
+async function loadVersion(fixtureId: string, versionId: string): Promise<DiffableVersion | null> {
+  if (versionId === 'current') {
+    const [fixture, latestVersion] = await Promise.all([
+      prisma.fixture.findUnique({
+        where: { id: fixtureId },
+        include: { steps: { orderBy: { order: 'asc' } } },
+      }),
+      prisma.fixtureVersion.findFirst({ where: { fixtureId }, orderBy: { createdAt: 'desc' } }),
+    ]);
+    // Fixtures carry no version number of their own
+    return fixture && {
+      id: 'current',
+      version: latestVersion?.version || 'current',
+      name: fixture.name,
+      playwrightScript: fixture.playwrightScript,
+      steps: fixture.steps.map(step => ({ ...step, playwrightCode: step.playwrightScript })),
+    };
+  }
+
+  const version = await prisma.fixtureVersion.findFirst({
+    where: { id: versionId, fixtureId },
+    // Test case step versions also point at the fixture versions they used
+    include: { stepVersions: { where: { testCaseVersionId: null }, orderBy: { order: 'asc' } } },
+  });
+  return version && {
+    id: version.id,
+    version: version.version,
+    name: version.name,
+    playwrightScript: version.playwrightScript,
+    steps: version.stepVersions,
+  };
+}
+
+// GET /api/projects/[id]/fixtures/[fixtureId]/versions/diff?from=<versionId>&to=<versionId|current>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fixtureId: string }> }
+) {
+  try {
+    const { id: projectId, fixtureId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const fromId = request.nextUrl.searchParams.get('from');
+    const toId = request.nextUrl.searchParams.get('to') || 'current';
+    if (!fromId) {
+      return NextResponse.json({ error: 'A version to compare from is required' }, { status: 400 });
+    }
+
+    const fixture = await prisma.fixture.findFirst({ where: { id: fixtureId, projectId } });
+    if (!fixture) {
+      return NextResponse.json({ error: 'Fixture not found' }, { status: 404 });
+    }
+
+    const [from, to] = await Promise.all([loadVersion(fixtureId, fromId), loadVersion(fixtureId, toId)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Fixture version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(diffVersions(from, to));
+  } catch (error) {
+    console.error('Error comparing fixture versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare fixture versions' },
+      { status: 500 }
+    );
+  }
+}
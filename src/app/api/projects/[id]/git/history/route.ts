@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { ProjectGitRepository } from '@/lib/playwright/project-git';
+
+// GET /api/projects/[id]/git/history?path=tests/login.spec.ts[&sha=<commit>]
+// Commits touching a file, or the file's patch in one commit when sha is given
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const filePath = request.nextUrl.searchParams.get('path');
+    const sha = request.nextUrl.searchParams.get('sha');
+    const normalizedPath = filePath ? path.posix.normalize(filePath.replace(/\\/g, '/')) : null;
+    if (!normalizedPath || path.posix.isAbsolute(normalizedPath) || normalizedPath.startsWith('..')) {
+      return NextResponse.json({ error: 'A project relative file path is required' }, { status: 400 });
+    }
+    if (sha && !/^[0-9a-f]{7,40}$/.test(sha)) {
+      return NextResponse.json({ error: 'Invalid commit' }, { status: 400 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project || !project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project not found' }, { status: 404 });
+    }
+
+    const repository = new ProjectGitRepository(path.join(process.cwd(), project.playwrightProjectPath));
+
+    if (sha) {
+      return NextResponse.json({ sha, path: normalizedPath, patch: await repository.show(sha, normalizedPath) });
+    }
+
+    return NextResponse.json({
+      initialized: await repository.isRepository(),
+      path: normalizedPath,
+      commits: await repository.log(normalizedPath),
+    });
+  } catch (error) {
+    console.error('Error fetching file history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch file history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getGitSettings, getRemoteUrlError, ProjectGitRepository } from '@/lib/playwright/project-git';
+
+// POST /api/projects/[id]/git/push
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project || !project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project not found' }, { status: 404 });
+    }
+
+    const settings = await getGitSettings(projectId);
+    if (!settings.remoteUrl) {
+      return NextResponse.json({ error: 'No remote is configured' }, { status: 400 });
+    }
+    const remoteError = getRemoteUrlError(settings.remoteUrl);
+    if (remoteError) {
+      return NextResponse.json({ error: remoteError }, { status: 400 });
+    }
+
+    const repository = new ProjectGitRepository(path.join(process.cwd(), project.playwrightProjectPath));
+    if (!(await repository.isRepository())) {
+      return NextResponse.json({ error: 'The Playwright project is not a git repository' }, { status: 400 });
+    }
+
+    try {
+      const output = await repository.push(settings.remoteUrl, settings.branch);
+      return NextResponse.json({ remoteUrl: settings.remoteUrl, branch: settings.branch, output });
+    } catch (pushError: unknown) {
+      // Rejected pushes and unreachable remotes are reported with git's own message
+      const stderr = typeof pushError === 'object' && pushError !== null && 'stderr' in pushError ? String(pushError.stderr) : '';
+      const message = stderr || (pushError instanceof Error ? pushError.message : String(pushError));
+      return NextResponse.json(
+        { error: 'Push failed', details: [message.trim()] },
+        { status: 502 }
+      );
+    }
+  } catch (error) {
+    console.error('Error pushing git repository:', error);
+    return NextResponse.json(
+      { error: 'Failed to push git repository' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import {
+  getActingGitAuthor,
+  getGitSettings,
+  GIT_SETTINGS_CATEGORY,
+  GitSettingsSchema,
+  ProjectGitRepository,
+  ProjectGitStatus,
+} from '@/lib/playwright/project-git';
+
+async function getGitStatus(projectId: string, playwrightProjectPath: string): Promise<ProjectGitStatus> {
+  const repository = new ProjectGitRepository(path.join(process.cwd(), playwrightProjectPath));
+  const initialized = await repository.isRepository();
+
+  return {
+    initialized,
+    branch: initialized ? await repository.currentBranch() : null,
+    settings: await getGitSettings(projectId),
+    commits: initialized ? await repository.log(undefined, 20) : [],
+  };
+}
+
+// GET /api/projects/[id]/git
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project || !project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getGitStatus(projectId, project.playwrightProjectPath));
+  } catch (error) {
+    console.error('Error fetching git status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch git status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/git - initialize the repository of a project created before git integration
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project || !project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project not found' }, { status: 404 });
+    }
+
+    const repository = new ProjectGitRepository(path.join(process.cwd(), project.playwrightProjectPath));
+    const settings = await getGitSettings(projectId);
+    const created = await repository.init(await getActingGitAuthor(), settings.branch);
+    if (!created) {
+      return NextResponse.json({ error: 'The Playwright project is already a git repository' }, { status: 409 });
+    }
+
+    return NextResponse.json(await getGitStatus(projectId, project.playwrightProjectPath), { status: 201 });
+  } catch (error) {
+    console.error('Error initializing git repository:', error);
+    return NextResponse.json(
+      { error: 'Failed to initialize git repository' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/git - save the remote settings
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = GitSettingsSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid git settings',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project || !project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project not found' }, { status: 404 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    await prisma.$transaction(Object.entries(validation.data).map(([key, value]) =>
+      prisma.projectSetting.upsert({
+        where: { projectId_category_key: { projectId, category: GIT_SETTINGS_CATEGORY, key } },
+        update: { value: String(value), updatedBy: userEmail },
+        create: {
+          projectId,
+          category: GIT_SETTINGS_CATEGORY,
+          key,
+          value: String(value),
+          createdBy: userEmail,
+          updatedBy: userEmail,
+        },
+      })
+    ));
+
+    return NextResponse.json(await getGitStatus(projectId, project.playwrightProjectPath));
+  } catch (error) {
+    console.error('Error saving git settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to save git settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import {
+  ManualRunSchema,
+  ManualScreenshot,
+  MAX_SCREENSHOT_SIZE,
+  recordManualRun,
+} from '@/lib/test-run/manual-run';
+
+// POST /api/projects/[id]/manual-runs
+// Multipart "run" JSON with the step outcomes, and image files named "screenshot:<testCaseId>:<stepId>"
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'run', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json({ error: 'Expected a multipart form' }, { status: 400 });
+    }
+
+    let run: unknown;
+    try {
+      run = JSON.parse(String(formData.get('run') ?? ''));
+    } catch {
+      return NextResponse.json({ error: 'Invalid manual run', details: ['run: expected JSON'] }, { status: 400 });
+    }
+    const validation = ManualRunSchema.safeParse(run);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid manual run',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const screenshots: ManualScreenshot[] = [];
+    for (const [field, value] of formData.entries()) {
+      if (!field.startsWith('screenshot:') || !(value instanceof File)) {
+        continue;
+      }
+      const [, testCaseId, stepId] = field.split(':');
+      if (!value.type.startsWith('image/')) {
+        return NextResponse.json({ error: `${value.name} is not an image` }, { status: 400 });
+      }
+      if (value.size > MAX_SCREENSHOT_SIZE) {
+        return NextResponse.json({ error: `${value.name} is larger than 10 MB` }, { status: 400 });
+      }
+      screenshots.push({
+        testCaseId,
+        stepId,
+        name: value.name,
+        contentType: value.type,
+        content: Buffer.from(await value.arrayBuffer()),
+      });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const result = await recordManualRun(project, validation.data, screenshots, userEmail);
+    if (!result.success) {
+      return NextResponse.json({ error: 'Invalid manual run', details: result.errors }, { status: 400 });
+    }
+
+    return NextResponse.json({ testResultId: result.testResult.id }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording manual run:', error);
+    return NextResponse.json(
+      { error: 'Failed to record manual run' },
+      { status: 500 }
+    );
+  }
+}
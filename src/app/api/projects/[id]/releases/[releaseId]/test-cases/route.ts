@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { checkResourcePermission } from '@/lib/rbac/check-permission';
 import { getCurrentUserEmail } from '@/lib/auth/session';
 import { prisma } from '@/lib/db/prisma';
+import { getReleasableVersion, isReviewModeEnabled } from '@/lib/review/test-case-review';
 
 // GET /api/projects/[id]/releases/[releaseId]/test-cases
 export async function GET(
@@ -109,6 +110,19 @@ export async function POST(
       );
     }
 
+    // In review mode only approved versions are released
+    const reviewMode = await isReviewModeEnabled(projectId);
+    const unapproved = testCases.filter(testCase => !getReleasableVersion(testCase, reviewMode));
+    if (unapproved.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Test cases without an approved version cannot be added to a release',
+          details: unapproved.map(testCase => testCase.name),
+        },
+        { status: 400 }
+      );
+    }
+
     // Create release test cases
     const releaseTestCases = await prisma.$transaction(
       testCases.map((testCase) =>
@@ -116,7 +130,7 @@ export async function POST(
           data: {
             releaseId,
             testCaseId: testCase.id,
-            version: testCase.version,
+            version: getReleasableVersion(testCase, reviewMode)!,
             createdBy: userEmail,
             updatedBy: userEmail,
           },
@@ -3,6 +3,7 @@ import { checkResourcePermission } from '@/lib/rbac/check-permission';
 import { getCurrentUserEmail } from '@/lib/auth/session';
 import { Release, Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db/prisma';
+import { getReleasableVersion, isReviewModeEnabled } from '@/lib/review/test-case-review';
 
 // GET /api/projects/[id]/releases
 export async function GET(
@@ -137,6 +138,8 @@ export async function POST(
     }
 
     // Create release and automatically include all current test cases
+    const reviewMode = await isReviewModeEnabled(projectId);
+
     const result = await prisma.$transaction(async (tx) => {
       // Create the release
       const release = await tx.release.create({
@@ -155,14 +158,18 @@ export async function POST(
         }
       });
 
-      // Get all test cases in the project with their current versions
-      const testCases = await tx.testCase.findMany({
+      // Get all test cases in the project with the versions they can be released at
+      const testCases = (await tx.testCase.findMany({
         where: { projectId },
         select: {
           id: true,
           version: true,
+          approvedVersion: true,
         },
-      });
+      }))
+        .map(testCase => ({ id: testCase.id, version: getReleasableVersion(testCase, reviewMode) }))
+        // In review mode, test cases that were never approved are left out
+        .filter((testCase): testCase is { id: string; version: string } => !!testCase.version);
 
       // Create release test case mappings for all test cases
       if (testCases.length > 0) {
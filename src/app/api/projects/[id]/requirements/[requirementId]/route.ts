@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { RequirementSchema, toRequirementResponse, validateRequirementTestCases } from '@/lib/requirements/requirements';
+
+// PUT /api/projects/[id]/requirements/[requirementId] - replaces the linked test cases
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requirementId: string }> }
+) {
+  try {
+    const { id: projectId, requirementId } = await params;
+
+    const hasPermission = await checkResourcePermission('requirement', 'update', requirementId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.requirement.findFirst({ where: { id: requirementId, projectId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Requirement not found' }, { status: 404 });
+    }
+
+    const validation = RequirementSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid requirement',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    if (data.key !== existing.key) {
+      const duplicate = await prisma.requirement.findUnique({
+        where: { projectId_key: { projectId, key: data.key } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: `A requirement with key "${data.key}" already exists` }, { status: 409 });
+      }
+    }
+
+    const problems = await validateRequirementTestCases(projectId, data.testCaseIds);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid requirement', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const requirement = await prisma.$transaction(async (tx) => {
+      await tx.requirementTestCase.deleteMany({ where: { requirementId } });
+      return tx.requirement.update({
+        where: { id: requirementId },
+        data: {
+          key: data.key,
+          title: data.title,
+          description: data.description || null,
+          externalUrl: data.externalUrl || null,
+          updatedBy: userEmail,
+          testCases: {
+            create: Array.from(new Set(data.testCaseIds)).map(testCaseId => ({ testCaseId, createdBy: userEmail })),
+          },
+        },
+        include: { testCases: { select: { testCaseId: true } } },
+      });
+    });
+
+    return NextResponse.json(toRequirementResponse(requirement));
+  } catch (error) {
+    console.error('Error updating requirement:', error);
+    return NextResponse.json(
+      { error: 'Failed to update requirement' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/requirements/[requirementId]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requirementId: string }> }
+) {
+  try {
+    const { id: projectId, requirementId } = await params;
+
+    const hasPermission = await checkResourcePermission('requirement', 'update', requirementId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { count } = await prisma.requirement.deleteMany({
+      where: { id: requirementId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Requirement not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Requirement deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting requirement:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete requirement' },
+      { status: 500 }
+    );
+  }
+}
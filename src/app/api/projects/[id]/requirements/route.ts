@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { RequirementSchema, toRequirementResponse, validateRequirementTestCases } from '@/lib/requirements/requirements';
+
+// GET /api/projects/[id]/requirements
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const requirements = await prisma.requirement.findMany({
+      where: { projectId },
+      orderBy: { key: 'asc' },
+      include: { testCases: { select: { testCaseId: true } } },
+    });
+
+    return NextResponse.json(requirements.map(toRequirementResponse));
+  } catch (error) {
+    console.error('Error fetching requirements:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch requirements' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/requirements
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = RequirementSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid requirement',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const existing = await prisma.requirement.findUnique({
+      where: { projectId_key: { projectId, key: data.key } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: `A requirement with key "${data.key}" already exists` }, { status: 409 });
+    }
+
+    const problems = await validateRequirementTestCases(projectId, data.testCaseIds);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid requirement', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const requirement = await prisma.requirement.create({
+      data: {
+        projectId,
+        key: data.key,
+        title: data.title,
+        description: data.description || null,
+        externalUrl: data.externalUrl || null,
+        createdBy: userEmail,
+        updatedBy: userEmail,
+        testCases: {
+          create: Array.from(new Set(data.testCaseIds)).map(testCaseId => ({ testCaseId, createdBy: userEmail })),
+        },
+      },
+      include: { testCases: { select: { testCaseId: true } } },
+    });
+
+    return NextResponse.json(toRequirementResponse(requirement), { status: 201 });
+  } catch (error) {
+    console.error('Error creating requirement:', error);
+    return NextResponse.json(
+      { error: 'Failed to create requirement' },
+      { status: 500 }
+    );
+  }
+}
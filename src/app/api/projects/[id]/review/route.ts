@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { getReviewStatus, isReviewModeEnabled, setReviewMode } from '@/lib/review/test-case-review';
+
+const ReviewSettingsSchema = z.object({ enabled: z.boolean() });
+
+async function getReviewOverview(projectId: string) {
+  const enabled = await isReviewModeEnabled(projectId);
+  if (!enabled) {
+    return { enabled, pending: [] };
+  }
+
+  const testCases = await prisma.testCase.findMany({
+    where: { projectId },
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      name: true,
+      version: true,
+      approvedVersion: true,
+      updatedAt: true,
+      updatedBy: true,
+      reviewEvents: {
+        where: { action: { not: 'commented' } },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+        select: { version: true, action: true },
+      },
+    },
+  });
+
+  return {
+    enabled,
+    pending: testCases
+      .filter(testCase => testCase.approvedVersion !== testCase.version)
+      .map(({ reviewEvents, ...testCase }) => ({ ...testCase, status: getReviewStatus(testCase, reviewEvents[0]) })),
+  };
+}
+
+// GET /api/projects/[id]/review - review mode and the test cases awaiting review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json(await getReviewOverview(projectId));
+  } catch (error) {
+    console.error('Error fetching review settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review settings' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/review
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = ReviewSettingsSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid review settings',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const drafts = await setReviewMode(projectId, validation.data.enabled, await getCurrentUserEmail());
+
+    // Without review, pending drafts go straight into their test files
+    const testManager = new TestManagerService(process.cwd());
+    for (const testCaseId of drafts) {
+      try {
+        await testManager.createTestFile(testCaseId);
+      } catch (fileError) {
+        console.error(`Error updating test file for test case ${testCaseId}:`, fileError);
+      }
+    }
+
+    return NextResponse.json(await getReviewOverview(projectId));
+  } catch (error) {
+    console.error('Error updating review settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update review settings' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { validateRunSpec } from '@/lib/test-run/run-spec';
+import { buildRunCommand } from '@/lib/test-run/command-builder';
+
+/**
+ * Show the command a run spec would execute, without queueing anything
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = validateRunSpec(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid run spec', details: validation.errors },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const command = await buildRunCommand(projectId, validation.spec);
+      return NextResponse.json({ command: command.display });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid run spec' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error previewing run command:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview run command' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { getNextFireTime, TestScheduleSchema, toScheduleResponse } from '@/lib/test-run/schedule';
+
+// PUT /api/projects/[id]/schedules/[scheduleId]
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  try {
+    const { id: projectId, scheduleId } = await params;
+
+    // A schedule starts runs, so it needs the run permission as well
+    const hasPermission = await checkResourcePermission('project', 'update', projectId)
+      && await checkResourcePermission('project', 'run', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.testSchedule.findFirst({
+      where: { id: scheduleId, projectId },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    // Partial updates, e.g. only toggling `enabled`
+    const validation = TestScheduleSchema.partial().safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid schedule',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const cronExpression = data.cronExpression ?? existing.cronExpression;
+    const timezone = data.timezone ?? existing.timezone;
+    const enabled = data.enabled ?? existing.enabled;
+
+    const schedule = await prisma.testSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        name: data.name,
+        cronExpression,
+        timezone,
+        enabled,
+        ...(data.runSpec ? { runSpec: JSON.stringify(data.runSpec) } : {}),
+        nextRunAt: enabled ? getNextFireTime(cronExpression, timezone) : null,
+        updatedBy: await getCurrentUserEmail(),
+      },
+    });
+
+    return NextResponse.json(toScheduleResponse(schedule));
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/schedules/[scheduleId]
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  try {
+    const { id: projectId, scheduleId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { count } = await prisma.testSchedule.deleteMany({
+      where: { id: scheduleId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Schedule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { getNextFireTime, TestScheduleSchema, toScheduleResponse } from '@/lib/test-run/schedule';
+
+// GET /api/projects/[id]/schedules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const schedules = await prisma.testSchedule.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        testResults: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, status: true, success: true, createdAt: true },
+        },
+      },
+    });
+
+    return NextResponse.json(schedules.map(toScheduleResponse));
+  } catch (error) {
+    console.error('Error fetching schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/schedules
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    // A schedule starts runs, so it needs the run permission as well
+    const hasPermission = await checkResourcePermission('project', 'update', projectId)
+      && await checkResourcePermission('project', 'run', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = TestScheduleSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid schedule',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const userEmail = await getCurrentUserEmail();
+
+    const schedule = await prisma.testSchedule.create({
+      data: {
+        projectId,
+        name: data.name,
+        cronExpression: data.cronExpression,
+        timezone: data.timezone,
+        enabled: data.enabled,
+        runSpec: JSON.stringify(data.runSpec),
+        nextRunAt: data.enabled ? getNextFireTime(data.cronExpression, data.timezone) : null,
+        createdBy: userEmail,
+        updatedBy: userEmail,
+      },
+    });
+
+    return NextResponse.json(toScheduleResponse(schedule), { status: 201 });
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
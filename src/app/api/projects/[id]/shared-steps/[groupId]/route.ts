@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { createCallerDrafts, isReviewModeEnabled } from '@/lib/review/test-case-review';
+import {
+  SharedStepGroupSchema,
+  getCallingTestCaseIds,
+  getSharedStepGroupUsages,
+  sharedStepGroupInclude,
+  toSharedStepRows,
+  validateStepCalls,
+} from '@/lib/shared-steps/shared-steps';
+
+// GET /api/projects/[id]/shared-steps/[groupId] - the group with the test cases and groups calling it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  try {
+    const { id: projectId, groupId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const group = await prisma.sharedStepGroup.findFirst({
+      where: { id: groupId, projectId },
+      include: sharedStepGroupInclude,
+    });
+    if (!group) {
+      return NextResponse.json({ error: 'Shared step group not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...group, usages: await getSharedStepGroupUsages(groupId) });
+  } catch (error) {
+    console.error('Error fetching shared step group:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared step group' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/shared-steps/[groupId] - replaces the steps and regenerates every test calling the group,
+// in review mode the calling test cases get drafts to approve instead
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  try {
+    const { id: projectId, groupId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.sharedStepGroup.findFirst({ where: { id: groupId, projectId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Shared step group not found' }, { status: 404 });
+    }
+
+    const validation = SharedStepGroupSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid shared step group',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    if (data.name !== existing.name) {
+      const duplicate = await prisma.sharedStepGroup.findUnique({
+        where: { projectId_name: { projectId, name: data.name } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: `A shared step group named "${data.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    const problems = await validateStepCalls(projectId, { groupId }, data.steps);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid shared step group', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const group = await prisma.sharedStepGroup.update({
+      where: { id: groupId },
+      data: {
+        name: data.name,
+        description: data.description || null,
+        updatedBy: userEmail,
+        steps: { deleteMany: {}, create: toSharedStepRows(data.steps, userEmail) },
+      },
+      include: sharedStepGroupInclude,
+    });
+
+    const callerIds = await getCallingTestCaseIds({ groupId });
+    if (await isReviewModeEnabled(projectId)) {
+      // The callers' specs would change unreviewed, each gets a draft to approve instead
+      await createCallerDrafts(callerIds, userEmail);
+    } else {
+      const testManager = new TestManagerService(process.cwd());
+      await testManager.regenerateTestFiles(callerIds, { skipCallers: true });
+    }
+
+    return NextResponse.json({ ...group, usages: await getSharedStepGroupUsages(groupId) });
+  } catch (error) {
+    console.error('Error updating shared step group:', error);
+    return NextResponse.json(
+      { error: 'Failed to update shared step group' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/shared-steps/[groupId] - only groups no step calls can be deleted
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  try {
+    const { id: projectId, groupId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const callers = await prisma.step.count({ where: { calledGroupId: groupId } });
+    if (callers > 0) {
+      return NextResponse.json(
+        { error: 'The group is still called by test cases or other groups' },
+        { status: 409 }
+      );
+    }
+
+    const { count } = await prisma.sharedStepGroup.deleteMany({
+      where: { id: groupId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Shared step group not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Shared step group deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting shared step group:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete shared step group' },
+      { status: 500 }
+    );
+  }
+}
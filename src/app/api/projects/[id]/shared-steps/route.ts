@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import {
+  SharedStepGroupSchema,
+  sharedStepGroupInclude,
+  toSharedStepRows,
+  validateStepCalls,
+} from '@/lib/shared-steps/shared-steps';
+
+// GET /api/projects/[id]/shared-steps
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const groups = await prisma.sharedStepGroup.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' },
+      include: sharedStepGroupInclude,
+    });
+
+    return NextResponse.json(groups);
+  } catch (error) {
+    console.error('Error fetching shared step groups:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared step groups' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/shared-steps
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = SharedStepGroupSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid shared step group',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const existing = await prisma.sharedStepGroup.findUnique({
+      where: { projectId_name: { projectId, name: data.name } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: `A shared step group named "${data.name}" already exists` }, { status: 409 });
+    }
+
+    const problems = await validateStepCalls(projectId, null, data.steps);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid shared step group', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const group = await prisma.sharedStepGroup.create({
+      data: {
+        projectId,
+        name: data.name,
+        description: data.description || null,
+        createdBy: userEmail,
+        updatedBy: userEmail,
+        steps: { create: toSharedStepRows(data.steps, userEmail) },
+      },
+      include: sharedStepGroupInclude,
+    });
+
+    return NextResponse.json(group, { status: 201 });
+  } catch (error) {
+    console.error('Error creating shared step group:', error);
+    return NextResponse.json(
+      { error: 'Failed to create shared step group' },
+      { status: 500 }
+    );
+  }
+}
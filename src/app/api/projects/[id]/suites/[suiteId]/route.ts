@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { findSuiteTestCaseIds, hasSiblingNamed, TestSuiteSchema, wouldCreateCycle } from '@/lib/suites/test-suites';
+
+// PUT /api/projects/[id]/suites/[suiteId] - rename, move or change the beforeEach hook
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; suiteId: string }> }
+) {
+  try {
+    const { id: projectId, suiteId } = await params;
+
+    const hasPermission = await checkResourcePermission('suite', 'update', suiteId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = TestSuiteSchema.partial().safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid suite',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const suites = await prisma.testSuite.findMany({ where: { projectId } });
+    const existing = suites.find(suite => suite.id === suiteId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Suite not found' }, { status: 404 });
+    }
+
+    const data = validation.data;
+    const name = data.name ?? existing.name;
+    const parentId = data.parentId !== undefined ? data.parentId : existing.parentId;
+
+    if (parentId && !suites.some(suite => suite.id === parentId)) {
+      return NextResponse.json({ error: 'Parent suite not found' }, { status: 404 });
+    }
+    if (wouldCreateCycle(suites, suiteId, parentId)) {
+      return NextResponse.json({ error: 'A suite cannot be moved into itself' }, { status: 400 });
+    }
+    if (hasSiblingNamed(suites, parentId, name, suiteId)) {
+      return NextResponse.json({ error: `A suite named "${name}", or one sharing its directory, already exists here` }, { status: 409 });
+    }
+
+    const suite = await prisma.testSuite.update({
+      where: { id: suiteId },
+      data: {
+        name,
+        parentId,
+        order: data.order,
+        beforeEach: data.beforeEach !== undefined ? data.beforeEach || null : undefined,
+        updatedBy: await getCurrentUserEmail(),
+      },
+    });
+
+    // The suite's path and hook are part of every spec generated below it
+    if (name !== existing.name || parentId !== existing.parentId || suite.beforeEach !== existing.beforeEach) {
+      const testManager = new TestManagerService(process.cwd());
+      await testManager.regenerateTestFiles(await findSuiteTestCaseIds(projectId, [suiteId]));
+    }
+
+    return NextResponse.json(suite);
+  } catch (error) {
+    console.error('Error updating suite:', error);
+    return NextResponse.json(
+      { error: 'Failed to update suite' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/suites/[suiteId] - its test cases and sub-suites move up to its parent
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; suiteId: string }> }
+) {
+  try {
+    const { id: projectId, suiteId } = await params;
+
+    const hasPermission = await checkResourcePermission('suite', 'update', suiteId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const suites = await prisma.testSuite.findMany({ where: { projectId } });
+    const suite = suites.find(item => item.id === suiteId);
+    if (!suite) {
+      return NextResponse.json({ error: 'Suite not found' }, { status: 404 });
+    }
+
+    // Sub-suites named like a suite of the parent would share its directory
+    const conflicts = suites
+      .filter(child => child.parentId === suiteId && hasSiblingNamed(suites, suite.parentId, child.name, suiteId))
+      .map(child => child.name);
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        { error: `Rename the sub-suites ${conflicts.map(name => `"${name}"`).join(', ')} first, the parent already has suites sharing their directories` },
+        { status: 409 }
+      );
+    }
+
+    const testCaseIds = await findSuiteTestCaseIds(projectId, [suiteId]);
+    const userEmail = await getCurrentUserEmail();
+
+    await prisma.$transaction([
+      prisma.testSuite.updateMany({
+        where: { parentId: suiteId },
+        data: { parentId: suite.parentId, updatedBy: userEmail },
+      }),
+      prisma.testCase.updateMany({
+        where: { suiteId },
+        data: { suiteId: suite.parentId, updatedBy: userEmail },
+      }),
+      prisma.testSuite.delete({ where: { id: suiteId } }),
+    ]);
+
+    const testManager = new TestManagerService(process.cwd());
+    await testManager.regenerateTestFiles(testCaseIds);
+
+    return NextResponse.json({ message: 'Suite deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting suite:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete suite' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { hasSiblingNamed, TestSuiteSchema } from '@/lib/suites/test-suites';
+
+// GET /api/projects/[id]/suites - every suite of the project, the client builds the tree
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const suites = await prisma.testSuite.findMany({
+      where: { projectId },
+      orderBy: [{ order: 'asc' }, { name: 'asc' }],
+      include: { _count: { select: { testCases: true } } },
+    });
+
+    return NextResponse.json(suites);
+  } catch (error) {
+    console.error('Error fetching suites:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suites' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/suites
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = TestSuiteSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid suite',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const parentId = data.parentId || null;
+    const suites = await prisma.testSuite.findMany({ where: { projectId } });
+
+    if (parentId && !suites.some(suite => suite.id === parentId)) {
+      return NextResponse.json({ error: 'Parent suite not found' }, { status: 404 });
+    }
+    if (hasSiblingNamed(suites, parentId, data.name)) {
+      return NextResponse.json({ error: `A suite named "${data.name}", or one sharing its directory, already exists here` }, { status: 409 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const suite = await prisma.testSuite.create({
+      data: {
+        projectId,
+        parentId,
+        name: data.name,
+        order: data.order ?? suites.filter(suite => suite.parentId === parentId).length,
+        beforeEach: data.beforeEach || null,
+        createdBy: userEmail,
+        updatedBy: userEmail,
+      },
+    });
+
+    return NextResponse.json(suite, { status: 201 });
+  } catch (error) {
+    console.error('Error creating suite:', error);
+    return NextResponse.json(
+      { error: 'Failed to create suite' },
+      { status: 500 }
+    );
+  }
+}
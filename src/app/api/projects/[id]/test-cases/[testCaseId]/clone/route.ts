@@ -115,7 +115,9 @@ export async function POST(
           name: finalClonedName,
           status: sourceTestCase.status,
           isManual: sourceTestCase.isManual,
+          priority: sourceTestCase.priority,
           tags: sourceTestCase.tags,
+          suiteId: sourceTestCase.suiteId,
           version: "1.0",
           projectId: projectId,
           createdBy: userEmail || undefined,
@@ -123,6 +125,18 @@ export async function POST(
         },
       });
 
+      const sourceFieldValues = await tx.customFieldValue.findMany({ where: { testCaseId: sourceTestCase.id } });
+      await tx.customFieldValue.createMany({
+        data: sourceFieldValues.map(value => ({
+          fieldId: value.fieldId,
+          testCaseId: clonedTestCase.id,
+          textValue: value.textValue,
+          numberValue: value.numberValue,
+          dateValue: value.dateValue,
+          updatedBy: userEmail || undefined,
+        })),
+      });
+
       // Clone all steps of the source test case
       const clonedSteps = [];
       for (const step of sourceSteps) {
@@ -137,6 +151,8 @@ export async function POST(
             data: step.data,
             expected: step.expected,
             fixtureId: fixtureId,
+            calledGroupId: step.calledGroupId,
+            calledTestCaseId: step.calledTestCaseId,
             playwrightScript: step.playwrightScript,
             order: step.order,
             disabled: step.disabled,
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { FLAKINESS_WINDOW, scoreFlakiness } from '@/lib/test-run/flakiness';
+
+const quarantineSelect = {
+  id: true,
+  quarantined: true,
+  quarantinedAt: true,
+  quarantinedBy: true,
+  quarantineReason: true,
+};
+
+// GET /api/projects/[id]/test-cases/[testCaseId]/quarantine
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testCase = await prisma.testCase.findFirst({
+      where: { id: testCaseId, projectId },
+      select: {
+        ...quarantineSelect,
+        executions: {
+          where: { status: { in: ['passed', 'failed'] } },
+          orderBy: { createdAt: 'desc' },
+          take: FLAKINESS_WINDOW,
+          select: { status: true, retries: true, testCaseVersion: true, createdAt: true }
+        }
+      }
+    });
+
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const { executions, ...quarantine } = testCase;
+    return NextResponse.json({ ...quarantine, flakiness: scoreFlakiness(executions) });
+  } catch (error) {
+    console.error('Error fetching quarantine state:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quarantine state' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/test-cases/[testCaseId]/quarantine
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+    const userEmail = await getCurrentUserEmail();
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === 'string' && body.reason.trim() ? body.reason.trim().slice(0, 500) : null;
+
+    const { count } = await prisma.testCase.updateMany({
+      where: { id: testCaseId, projectId },
+      data: {
+        quarantined: true,
+        quarantinedAt: new Date(),
+        quarantinedBy: userEmail,
+        quarantineReason: reason,
+      }
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const testCase = await prisma.testCase.findUnique({
+      where: { id: testCaseId },
+      select: quarantineSelect
+    });
+    return NextResponse.json(testCase);
+  } catch (error) {
+    console.error('Error quarantining test case:', error);
+    return NextResponse.json(
+      { error: 'Failed to quarantine test case' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/test-cases/[testCaseId]/quarantine
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { count } = await prisma.testCase.updateMany({
+      where: { id: testCaseId, projectId },
+      data: {
+        quarantined: false,
+        quarantinedAt: null,
+        quarantinedBy: null,
+        quarantineReason: null,
+      }
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const testCase = await prisma.testCase.findUnique({
+      where: { id: testCaseId },
+      select: quarantineSelect
+    });
+    return NextResponse.json(testCase);
+  } catch (error) {
+    console.error('Error releasing test case from quarantine:', error);
+    return NextResponse.json(
+      { error: 'Failed to release test case from quarantine' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { StepVersionRepository } from '@/lib/db/repositories/step-version-reposi
 import { StepRepository } from '@/lib/db/repositories/step-repository';
 import { getCurrentUserEmail } from '@/lib/auth/session';
 import { incrementMinorVersion } from '@/lib/utils/version';
+import { validateStepCalls } from '@/lib/shared-steps/shared-steps';
 
 // POST /api/projects/[id]/test-cases/[testCaseId]/revert/[versionId]
 export async function POST(
@@ -68,6 +69,30 @@ export async function POST(
       version.stepVersions = stepVersions;
     }
     
+    // Calls to groups or test cases deleted since are dropped, as they were from the live steps
+    const [existingGroups, existingTestCases] = await Promise.all([
+      prisma.sharedStepGroup.findMany({
+        where: { projectId: resolvedParams.id, id: { in: version.stepVersions.flatMap(step => step.calledGroupId ? [step.calledGroupId] : []) } },
+        select: { id: true },
+      }),
+      prisma.testCase.findMany({
+        where: { projectId: resolvedParams.id, id: { in: version.stepVersions.flatMap(step => step.calledTestCaseId ? [step.calledTestCaseId] : []) } },
+        select: { id: true },
+      }),
+    ]);
+    const groupIds = new Set(existingGroups.map(group => group.id));
+    const testCaseIds = new Set(existingTestCases.map(calledTestCase => calledTestCase.id));
+    const restoredSteps = version.stepVersions.map(step => ({
+      ...step,
+      calledGroupId: step.calledGroupId && groupIds.has(step.calledGroupId) ? step.calledGroupId : null,
+      calledTestCaseId: step.calledTestCaseId && testCaseIds.has(step.calledTestCaseId) ? step.calledTestCaseId : null,
+    }));
+
+    const callProblems = await validateStepCalls(resolvedParams.id, { testCaseId: resolvedParams.testCaseId }, restoredSteps);
+    if (callProblems.length > 0) {
+      return NextResponse.json({ error: 'The version cannot be restored', details: callProblems }, { status: 400 });
+    }
+
     console.log(`Reverting to steps from version ${version.version} with ${version.stepVersions.length} steps`);
     
     // Start a transaction to ensure all operations succeed or fail together
@@ -104,8 +129,11 @@ export async function POST(
             action: step.action,
             data: step.data,
             expected: step.expected,
+            playwrightCode: step.playwrightScript,
             order: step.order,
             disabled: step.disabled,
+            calledGroupId: step.calledGroupId,
+            calledTestCaseId: step.calledTestCaseId,
           },
         });
       }
@@ -119,15 +147,18 @@ export async function POST(
       
       // Create new steps based on the version's step versions
       const newSteps = [];
-      for (const stepVersion of version.stepVersions) {
+      for (const stepVersion of restoredSteps) {
         const newStep = await tx.step.create({
           data: {
             testCaseId: resolvedParams.testCaseId,
             action: stepVersion.action,
             data: stepVersion.data,
             expected: stepVersion.expected,
+            playwrightScript: stepVersion.playwrightCode,
             order: stepVersion.order,
             disabled: stepVersion.disabled || false,
+            calledGroupId: stepVersion.calledGroupId,
+            calledTestCaseId: stepVersion.calledTestCaseId,
             createdBy: userEmail,
             updatedBy: userEmail,
           },
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkPermission, checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import {
+  getTestCaseReviewState,
+  isReviewModeEnabled,
+  recordReviewEvent,
+  ReviewActionSchema,
+} from '@/lib/review/test-case-review';
+
+// GET /api/projects/[id]/test-cases/[testCaseId]/review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testCase = await prisma.testCase.findFirst({ where: { id: testCaseId, projectId } });
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getTestCaseReviewState(testCaseId));
+  } catch (error) {
+    console.error('Error fetching test case review:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test case review' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/test-cases/[testCaseId]/review - approve, request changes or comment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const validation = ReviewActionSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid review',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+    const { action, version, comment } = validation.data;
+
+    // Authors can answer in comments, decisions are for reviewers
+    const canReview = await checkPermission('testcase', 'approve');
+    const hasPermission = canReview ||
+      (action === 'comment' && await checkResourcePermission('project', 'update', projectId));
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testCase = await prisma.testCase.findFirst({ where: { id: testCaseId, projectId } });
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    if (!(await isReviewModeEnabled(projectId))) {
+      return NextResponse.json({ error: 'Review mode is not enabled for this project' }, { status: 400 });
+    }
+    if (version !== testCase.version) {
+      return NextResponse.json(
+        { error: `The test case changed to v${testCase.version} while you were reviewing v${version}` },
+        { status: 409 }
+      );
+    }
+    if (action === 'approve' && testCase.approvedVersion === testCase.version) {
+      return NextResponse.json({ error: `v${version} is already approved` }, { status: 409 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    await recordReviewEvent(
+      testCase,
+      action === 'approve' ? 'approved' : action === 'request_changes' ? 'changes_requested' : 'commented',
+      comment,
+      userEmail
+    );
+
+    // The approved version can now be written to the test file
+    if (action === 'approve' && !testCase.isManual) {
+      try {
+        const testManager = new TestManagerService(process.cwd());
+        await testManager.createTestFile(testCaseId);
+      } catch (fileError) {
+        console.error('Error updating test file:', fileError);
+      }
+    }
+
+    return NextResponse.json(await getTestCaseReviewState(testCaseId), { status: 201 });
+  } catch (error) {
+    console.error('Error reviewing test case:', error);
+    return NextResponse.json(
+      { error: 'Failed to review test case' },
+      { status: 500 }
+    );
+  }
+}
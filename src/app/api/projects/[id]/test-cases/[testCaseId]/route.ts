@@ -6,6 +6,8 @@ import { TestManagerService } from '@/lib/playwright/test-manager.service';
 import { PrismaClient } from '@prisma/client';
 import { isAutoUseAISuggestionEnabled } from '@/lib/ai/ai-settings';
 import { getAIProvider } from '@/lib/ai/ai-provider';
+import { saveCustomFieldValues, validateCustomFieldValues } from '@/lib/custom-fields/custom-fields';
+import { TEST_CASE_PRIORITIES } from '@/types/test-case';
 import path from 'path';
 
 const prisma = new PrismaClient();
@@ -78,7 +80,7 @@ export async function PUT(
     }
     
     const body = await request.json();
-    const { name, status, isManual, tags } = body;
+    const { name, status, isManual, priority, tags, customFields } = body;
     
     if (!name) {
       return NextResponse.json(
@@ -86,6 +88,20 @@ export async function PUT(
         { status: 400 }
       );
     }
+
+    if (priority !== undefined && !(TEST_CASE_PRIORITIES as readonly string[]).includes(priority)) {
+      return NextResponse.json(
+        { error: `Priority must be one of ${TEST_CASE_PRIORITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Only the fields sent are changed, so other clients can keep updating without them
+    const fields = customFields !== undefined ? await prisma.customField.findMany({ where: { projectId } }) : [];
+    const customFieldValues = await validateCustomFieldValues(fields, customFields ?? {}, false);
+    if (customFieldValues.problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid custom fields', details: customFieldValues.problems }, { status: 400 });
+    }
     
     // Check if AI suggestion is enabled and fix test case name if needed
     let finalName = name;
@@ -123,9 +139,12 @@ export async function PUT(
       name: finalName,
       status,
       isManual,
+      priority,
       tags,
       updatedBy: userEmail
     });
+
+    await saveCustomFieldValues(testCaseId, fields, customFieldValues.values, userEmail);
     
     // If the test case is not manual, update or generate test file
     if (!updatedTestCase.isManual) {
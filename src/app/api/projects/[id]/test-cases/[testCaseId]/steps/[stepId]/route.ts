@@ -8,6 +8,7 @@ import { StepVersionRepository } from '@/lib/db/repositories/step-version-reposi
 import { getCurrentUserEmail } from '@/lib/auth/session';
 import { incrementVersion } from '@/lib/utils/version';
 import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { validateStepCalls } from '@/lib/shared-steps/shared-steps';
 import { FixtureVersionRepository } from '@/lib/db/repositories/fixture-version-repository';
 import { FixtureRepository } from '@/lib/db/repositories/fixture-repository';
 
@@ -77,7 +78,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const { action, data, expected, fixtureId, disabled, order, playwrightScript } = body;
+    const { action, data, expected, fixtureId, disabled, order, playwrightScript, calledGroupId, calledTestCaseId } = body;
 
     // Update step
     const stepRepository = new StepRepository();
@@ -92,6 +93,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Step not found' }, { status: 404 });
     }
 
+    const callProblems = await validateStepCalls(projectId, { testCaseId }, [{ calledGroupId, calledTestCaseId }]);
+    if (callProblems.length > 0) {
+      return NextResponse.json({ error: 'Invalid step', details: callProblems }, { status: 400 });
+    }
+
+    // Calls are only changed when the request mentions them, a step calls at most one target
+    const callsChanged = calledGroupId !== undefined || calledTestCaseId !== undefined;
+
     const updatedStep = await stepRepository.update(stepId, {
       action: action || undefined,
       data: data || undefined,
@@ -99,6 +108,8 @@ export async function PUT(
       order: order || undefined,
       disabled: disabled,
       fixtureId: fixtureId || undefined,
+      calledGroupId: callsChanged ? calledGroupId || null : undefined,
+      calledTestCaseId: callsChanged ? (calledGroupId ? null : calledTestCaseId || null) : undefined,
       playwrightScript: playwrightScript || undefined,
       updatedBy: userEmail
     });
@@ -159,6 +170,9 @@ export async function PUT(
             expected: currentStep.expected || undefined,
             order: currentStep.order,
             disabled: currentStep.disabled || false,
+            playwrightCode: currentStep.playwrightScript || undefined,
+            calledGroupId: currentStep.calledGroupId,
+            calledTestCaseId: currentStep.calledTestCaseId,
             createdBy: userEmail
           });
         }
@@ -262,6 +276,9 @@ export async function DELETE(
             expected: currentStep.expected || undefined,
             order: currentStep.order,
             disabled: currentStep.disabled || false,
+            playwrightCode: currentStep.playwrightScript || undefined,
+            calledGroupId: currentStep.calledGroupId,
+            calledTestCaseId: currentStep.calledTestCaseId,
             createdBy: userEmail
           });
         }
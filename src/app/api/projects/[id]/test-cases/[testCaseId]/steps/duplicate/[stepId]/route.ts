@@ -64,6 +64,8 @@ export async function POST(
     const newStep = await stepRepository.create({
       testCaseId: isFixtureStep ? undefined : testCaseId, // Only set testCaseId if not a fixture step
       fixtureId: isFixtureStep && stepToDuplicate.fixtureId ? stepToDuplicate.fixtureId : undefined, // Only set fixtureId if it's a fixture step and has a valid ID
+      calledGroupId: stepToDuplicate.calledGroupId,
+      calledTestCaseId: stepToDuplicate.calledTestCaseId,
       action: requestBody.action || stepToDuplicate.action,
       data: requestBody.data || stepToDuplicate.data || undefined,
       expected: requestBody.expected || stepToDuplicate.expected || undefined,
@@ -103,6 +105,9 @@ export async function POST(
           expected: step.expected || undefined,
           order: step.order,
           disabled: step.disabled || false,
+          playwrightCode: step.playwrightScript || undefined,
+          calledGroupId: step.calledGroupId,
+          calledTestCaseId: step.calledTestCaseId,
           createdBy: userEmail || undefined
         });
       }
@@ -105,6 +105,9 @@ export async function POST(
           expected: step.expected || undefined,
           order: step.order,
           disabled: step.disabled || false,
+          playwrightCode: step.playwrightScript || undefined,
+          calledGroupId: step.calledGroupId,
+          calledTestCaseId: step.calledTestCaseId,
           createdBy: userEmail
         });
       }
@@ -9,6 +9,7 @@ import { FixtureRepository } from '@/lib/db/repositories/fixture-repository';
 import { getCurrentUserEmail } from '@/lib/auth/session';
 import { incrementVersion } from '@/lib/utils/version';
 import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { validateStepCalls } from '@/lib/shared-steps/shared-steps';
 import { PrismaClient } from '@prisma/client';
 import path from 'path';
 
@@ -66,7 +67,7 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const { action, data, expected, order, disabled, fixtureId, playwrightScript } = await request.json();
+    const { action, data, expected, order, disabled, fixtureId, playwrightScript, calledGroupId, calledTestCaseId } = await request.json();
 
     const stepRepository = new StepRepository();
     const testCaseRepository = new TestCaseRepository();
@@ -81,6 +82,11 @@ export async function POST(
       return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
     }
 
+    const callProblems = await validateStepCalls(projectId, { testCaseId }, [{ calledGroupId, calledTestCaseId }]);
+    if (callProblems.length > 0) {
+      return NextResponse.json({ error: 'Invalid step', details: callProblems }, { status: 400 });
+    }
+
     // Get all existing steps to determine the next order value
     const existingSteps = await stepRepository.findByTestCaseId(testCaseId);
     const maxOrder = existingSteps.reduce((max, step) => 
@@ -98,6 +104,8 @@ export async function POST(
       order: order || nextOrder, // Use provided order or calculate next order
       disabled: disabled || false,
       fixtureId,
+      calledGroupId: calledGroupId || null,
+      calledTestCaseId: calledGroupId ? null : calledTestCaseId || null,
       playwrightScript,
       createdBy: userEmail,
       updatedBy: userEmail
@@ -155,6 +163,9 @@ export async function POST(
           expected: currentStep.expected || undefined,
           order: currentStep.order,
           disabled: currentStep.disabled || false,
+          playwrightCode: currentStep.playwrightScript || undefined,
+          calledGroupId: currentStep.calledGroupId,
+          calledTestCaseId: currentStep.calledTestCaseId,
           createdBy: userEmail
         });
       }
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { getTestFileSyncError } from '@/lib/review/test-case-review';
+
+const SyncActionSchema = z.discriminatedUnion('action', [
+  // Take the edited test file back into the steps
+  z.object({ action: z.literal('accept') }),
+  // Regenerate the test file, or one of its fixture files, from the DB
+  z.object({ action: z.literal('overwrite'), fixtureId: z.string().optional() }),
+  z.object({ action: z.literal('code-owned'), codeOwned: z.boolean() }),
+]);
+
+// GET /api/projects/[id]/test-cases/[testCaseId]/sync
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testCase = await prisma.testCase.findFirst({ where: { id: testCaseId, projectId } });
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const testManager = new TestManagerService(process.cwd());
+    return NextResponse.json(await testManager.getTestFileSync(testCaseId));
+  } catch (error) {
+    console.error('Error checking test file sync:', error);
+    return NextResponse.json(
+      { error: 'Failed to check test file sync' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/test-cases/[testCaseId]/sync
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+    const userEmail = await getCurrentUserEmail();
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = SyncActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid sync action',
+          details: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const testCase = await prisma.testCase.findFirst({ where: { id: testCaseId, projectId } });
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const testManager = new TestManagerService(process.cwd());
+    const body = parsed.data;
+
+    if (body.action === 'accept') {
+      if (testCase.isManual || !testCase.testFilePath) {
+        return NextResponse.json({ error: 'Test case has no test file' }, { status: 400 });
+      }
+      const syncError = await getTestFileSyncError(testCase, 'accept');
+      if (syncError) {
+        return NextResponse.json({ error: syncError }, { status: 409 });
+      }
+      const result = await testManager.acceptTestFile(testCaseId, userEmail);
+      if (!result.accepted) {
+        return NextResponse.json(
+          {
+            error: 'The test file cannot be mapped to steps',
+            details: result.issues.map(issue => `${issue.file}${issue.line ? `:${issue.line}` : ''}: ${issue.message}`),
+          },
+          { status: 422 }
+        );
+      }
+    } else if (body.action === 'overwrite') {
+      if (body.fixtureId) {
+        const fixture = await prisma.fixture.findFirst({ where: { id: body.fixtureId, projectId } });
+        if (!fixture) {
+          return NextResponse.json({ error: 'Fixture not found' }, { status: 404 });
+        }
+        await testManager.createFixtureFile(fixture.id, { force: true });
+      } else {
+        if (testCase.isManual) {
+          return NextResponse.json({ error: 'Manual test cases have no test file' }, { status: 400 });
+        }
+        const syncError = await getTestFileSyncError(testCase, 'overwrite');
+        if (syncError) {
+          return NextResponse.json({ error: syncError }, { status: 409 });
+        }
+        await testManager.createTestFile(testCaseId, false, { force: true });
+      }
+    } else {
+      await prisma.testCase.update({
+        where: { id: testCaseId },
+        data: { codeOwned: body.codeOwned, updatedBy: userEmail },
+      });
+    }
+
+    return NextResponse.json(await testManager.getTestFileSync(testCaseId));
+  } catch (error) {
+    console.error('Error syncing test file:', error);
+    return NextResponse.json(
+      { error: 'Failed to sync test file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { DiffableVersion, diffVersions } from '@/lib/utils/version-diff';
+
+async function loadVersion(testCaseId: string, versionId: string): Promise<DiffableVersion | null> {
+  if (versionId === 'current') {
+    const testCase = await prisma.testCase.findUnique({
+      where: { id: testCaseId },
+      include: { steps: { orderBy: { order: 'asc' } } },
+    });
+    return testCase && {
+      id: 'current',
+      version: testCase.version,
+      name: testCase.name,
+      steps: testCase.steps.map(step => ({ ...step, playwrightCode: step.playwrightScript })),
+    };
+  }
+
+  const version = await prisma.testCaseVersion.findFirst({
+    where: { id: versionId, testCaseId },
+    include: { stepVersions: { orderBy: { order: 'asc' } } },
+  });
+  return version && {
+    id: version.id,
+    version: version.version,
+    name: version.name,
+    steps: version.stepVersions,
+  };
+}
+
+// Names of the groups and test cases the steps of both versions call
+async function addCalledNames(versions: DiffableVersion[]): Promise<DiffableVersion[]> {
+  const steps = versions.flatMap(version => version.steps);
+  const [groups, testCases] = await Promise.all([
+    prisma.sharedStepGroup.findMany({
+      where: { id: { in: steps.flatMap(step => step.calledGroupId ? [step.calledGroupId] : []) } },
+      select: { id: true, name: true },
+    }),
+    prisma.testCase.findMany({
+      where: { id: { in: steps.flatMap(step => step.calledTestCaseId ? [step.calledTestCaseId] : []) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const names = new Map([...groups, ...testCases].map(item => [item.id, item.name]));
+
+  return versions.map(version => ({
+    ...version,
+    steps: version.steps.map(step => {
+      const calledId = step.calledGroupId || step.calledTestCaseId;
+      return calledId ? { ...step, calledName: names.get(calledId) || null } : step;
+    }),
+  }));
+}
+
+// GET /api/projects/[id]/test-cases/[testCaseId]/versions/diff?from=<versionId>&to=<versionId|current>
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; testCaseId: string }> }
+) {
+  try {
+    const { id: projectId, testCaseId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const fromId = request.nextUrl.searchParams.get('from');
+    const toId = request.nextUrl.searchParams.get('to') || 'current';
+    if (!fromId) {
+      return NextResponse.json({ error: 'A version to compare from is required' }, { status: 400 });
+    }
+
+    const testCase = await prisma.testCase.findFirst({ where: { id: testCaseId, projectId } });
+    if (!testCase) {
+      return NextResponse.json({ error: 'Test case not found' }, { status: 404 });
+    }
+
+    const [from, to] = await Promise.all([loadVersion(testCaseId, fromId), loadVersion(testCaseId, toId)]);
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Test case version not found' }, { status: 404 });
+    }
+
+    const [namedFrom, namedTo] = await addCalledNames([from, to]);
+    return NextResponse.json(diffVersions(namedFrom, namedTo));
+  } catch (error) {
+    console.error('Error comparing test case versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare test case versions' },
+      { status: 500 }
+    );
+  }
+}
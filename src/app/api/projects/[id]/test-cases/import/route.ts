@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/prisma';
+import {
+  importSpecFiles,
+  readProjectSpecFiles,
+  readUploadedSpecFiles,
+  SpecSource,
+} from '@/lib/playwright/spec-importer';
+
+// POST /api/projects/[id]/test-cases/import
+// Accepts a multipart "file" (.ts, .js or .zip) or JSON { path } inside the Playwright project.
+// With dryRun the parsed tests are returned without creating anything.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const userEmail = await getCurrentUserEmail();
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    let sources: SpecSource[];
+    let dryRun = false;
+    try {
+      if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+        const formData = await request.formData();
+        const file = formData.get('file');
+        if (!(file instanceof File)) {
+          return NextResponse.json({ error: 'A spec file or zip archive is required' }, { status: 400 });
+        }
+        dryRun = formData.get('dryRun') === 'true';
+        sources = await readUploadedSpecFiles(file.name, Buffer.from(await file.arrayBuffer()));
+      } else {
+        const body = await request.json();
+        if (typeof body.path !== 'string' || !body.path.trim()) {
+          return NextResponse.json({ error: 'A path inside the Playwright project is required' }, { status: 400 });
+        }
+        if (!project.playwrightProjectPath) {
+          return NextResponse.json({ error: 'Playwright project path is not set' }, { status: 400 });
+        }
+        dryRun = body.dryRun === true;
+        sources = await readProjectSpecFiles(project.playwrightProjectPath, body.path.trim());
+      }
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to read spec files' },
+        { status: 400 }
+      );
+    }
+
+    const result = await importSpecFiles(projectId, sources, userEmail, { dryRun });
+    return NextResponse.json(result, { status: dryRun ? 200 : 201 });
+  } catch (error) {
+    console.error('Error importing spec files:', error);
+    return NextResponse.json(
+      { error: 'Failed to import spec files' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { TestManagerService } from '@/lib/playwright/test-manager.service';
+import { MoveToSuiteSchema } from '@/lib/suites/test-suites';
+
+// PATCH /api/projects/[id]/test-cases/move-to-suite
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = MoveToSuiteSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { testCaseIds, suiteId } = validation.data;
+    if (suiteId && !(await prisma.testSuite.findFirst({ where: { id: suiteId, projectId } }))) {
+      return NextResponse.json({ error: 'Suite not found' }, { status: 404 });
+    }
+
+    const testCases = await prisma.testCase.findMany({
+      where: { id: { in: testCaseIds }, projectId },
+      select: { id: true },
+    });
+    const { count } = await prisma.testCase.updateMany({
+      where: { id: { in: testCases.map(testCase => testCase.id) } },
+      data: { suiteId, updatedBy: await getCurrentUserEmail() },
+    });
+
+    // Specs move to the suite's directory and pick up its describe blocks and hooks
+    const testManager = new TestManagerService(process.cwd());
+    await testManager.regenerateTestFiles(testCases.map(testCase => testCase.id));
+
+    return NextResponse.json({ message: 'Test cases moved successfully', count });
+  } catch (error) {
+    console.error('Error moving test cases:', error);
+    return NextResponse.json(
+      { error: 'Failed to move test cases' },
+      { status: 500 }
+    );
+  }
+}
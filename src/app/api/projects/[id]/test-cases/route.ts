@@ -7,6 +7,8 @@ import { TestManagerService } from '@/lib/playwright/test-manager.service';
 import { prisma } from '@/lib/db/prisma';
 import { isAutoUseAISuggestionEnabled } from '@/lib/ai/ai-settings';
 import { getAIProvider } from '@/lib/ai/ai-provider';
+import { saveCustomFieldValues, validateCustomFieldValues } from '@/lib/custom-fields/custom-fields';
+import { TEST_CASE_PRIORITIES } from '@/types/test-case';
 import path from 'path';
 
 // GET /api/projects/[id]/test-cases
@@ -50,7 +52,24 @@ export async function POST(
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    const { name, isManual, tags } = await request.json();
+    const { name, isManual, priority, tags, suiteId, customFields } = await request.json();
+
+    if (priority !== undefined && !(TEST_CASE_PRIORITIES as readonly string[]).includes(priority)) {
+      return NextResponse.json(
+        { error: `Priority must be one of ${TEST_CASE_PRIORITIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (suiteId && !(await prisma.testSuite.findFirst({ where: { id: suiteId, projectId } }))) {
+      return NextResponse.json({ error: 'Suite not found' }, { status: 404 });
+    }
+
+    const fields = customFields !== undefined ? await prisma.customField.findMany({ where: { projectId } }) : [];
+    const customFieldValues = await validateCustomFieldValues(fields, customFields ?? {}, true);
+    if (customFieldValues.problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid custom fields', details: customFieldValues.problems }, { status: 400 });
+    }
     
     // Check if AI suggestion is enabled and fix test case name if needed
     let finalName = name;
@@ -80,12 +99,16 @@ export async function POST(
       name: finalName,
       projectId,
       isManual: isManual || false,
+      priority,
       tags: Array.isArray(tags) ? tags.join(',') : tags,
+      suiteId,
       createdBy: userEmail,
       updatedBy: userEmail,
       version: '1.0.0'
     });
 
+    await saveCustomFieldValues(testCase.id, fields, customFieldValues.values, userEmail);
+
     // Create initial version with empty steps array
     await testCaseVersionRepository.create({
       testCaseId: testCase.id,
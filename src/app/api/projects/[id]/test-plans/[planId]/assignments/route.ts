@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { findUserEmails } from '@/lib/auth/users';
+import { resolveTestPlanTestCases, TestPlanAssignmentSchema } from '@/lib/test-plans/test-plans';
+
+// PUT /api/projects/[id]/test-plans/[planId]/assignments - assign manual test cases of the plan to a tester
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; planId: string }> }
+) {
+  try {
+    const { id: projectId, planId } = await params;
+
+    const hasPermission = await checkResourcePermission('testPlan', 'update', planId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = TestPlanAssignmentSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid assignment',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const plan = await prisma.testPlan.findFirst({ where: { id: planId, projectId } });
+    if (!plan) {
+      return NextResponse.json({ error: 'Test plan not found' }, { status: 404 });
+    }
+
+    const { testCaseIds, assignee } = validation.data;
+    const manualTestCaseIds = new Set(
+      (await resolveTestPlanTestCases(plan)).filter(testCase => testCase.isManual).map(testCase => testCase.id)
+    );
+    if (testCaseIds.some(testCaseId => !manualTestCaseIds.has(testCaseId))) {
+      return NextResponse.json(
+        { error: 'Only manual test cases of this plan can be assigned' },
+        { status: 400 }
+      );
+    }
+
+    if (assignee && !(await findUserEmails([assignee])).has(assignee)) {
+      return NextResponse.json({ error: `No user has the email ${assignee}` }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    await prisma.$transaction([
+      prisma.testPlanAssignment.deleteMany({ where: { planId, testCaseId: { in: testCaseIds } } }),
+      ...(assignee
+        ? [prisma.testPlanAssignment.createMany({
+          data: testCaseIds.map(testCaseId => ({ planId, testCaseId, assignee, createdBy: userEmail })),
+        })]
+        : []),
+    ]);
+
+    return NextResponse.json({ message: 'Assignments updated successfully', count: testCaseIds.length });
+  } catch (error) {
+    console.error('Error updating test plan assignments:', error);
+    return NextResponse.json(
+      { error: 'Failed to update test plan assignments' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { getTestPlanState, TestPlanSchema, toTestPlanResponse, validateTestPlanReferences } from '@/lib/test-plans/test-plans';
+
+// GET /api/projects/[id]/test-plans/[planId] - plan with its test cases, progress and runs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; planId: string }> }
+) {
+  try {
+    const { id: projectId, planId } = await params;
+
+    const hasPermission = await checkResourcePermission('testPlan', 'view', planId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const plan = await prisma.testPlan.findFirst({
+      where: { id: planId, projectId },
+      include: {
+        testCases: { select: { testCaseId: true } },
+        testResults: {
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, name: true, status: true, success: true, runType: true, createdAt: true, createdBy: true },
+        },
+      },
+    });
+
+    if (!plan) {
+      return NextResponse.json({ error: 'Test plan not found' }, { status: 404 });
+    }
+
+    const { testCases, progress } = await getTestPlanState(plan);
+    return NextResponse.json({ ...toTestPlanResponse(plan), scope: testCases, progress });
+  } catch (error) {
+    console.error('Error fetching test plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/projects/[id]/test-plans/[planId]
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; planId: string }> }
+) {
+  try {
+    const { id: projectId, planId } = await params;
+
+    const hasPermission = await checkResourcePermission('testPlan', 'update', planId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const existing = await prisma.testPlan.findFirst({ where: { id: planId, projectId } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Test plan not found' }, { status: 404 });
+    }
+
+    const validation = TestPlanSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid test plan',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const problems = await validateTestPlanReferences(projectId, data.testCaseIds, data.criteria);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid test plan', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const plan = await prisma.$transaction(async (tx) => {
+      await tx.testPlanTestCase.deleteMany({ where: { planId } });
+      return tx.testPlan.update({
+        where: { id: planId },
+        data: {
+          name: data.name,
+          description: data.description || null,
+          criteria: JSON.stringify(data.criteria),
+          updatedBy: userEmail,
+          testCases: {
+            create: Array.from(new Set(data.testCaseIds)).map(testCaseId => ({ testCaseId, createdBy: userEmail })),
+          },
+        },
+        include: { testCases: { select: { testCaseId: true } } },
+      });
+    });
+
+    return NextResponse.json(toTestPlanResponse(plan));
+  } catch (error) {
+    console.error('Error updating test plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to update test plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/projects/[id]/test-plans/[planId] - runs executed against the plan are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; planId: string }> }
+) {
+  try {
+    const { id: projectId, planId } = await params;
+
+    const hasPermission = await checkResourcePermission('testPlan', 'update', planId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { count } = await prisma.testPlan.deleteMany({
+      where: { id: planId, projectId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Test plan not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Test plan deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting test plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete test plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { getTestPlanState, TestPlanSchema, toTestPlanResponse, validateTestPlanReferences } from '@/lib/test-plans/test-plans';
+
+// GET /api/projects/[id]/test-plans - plans with their progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const plans = await prisma.testPlan.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      include: { testCases: { select: { testCaseId: true } } },
+    });
+
+    const response = [];
+    for (const plan of plans) {
+      const { progress } = await getTestPlanState(plan);
+      response.push({ ...toTestPlanResponse(plan), progress });
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching test plans:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test plans' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects/[id]/test-plans
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'update', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const validation = TestPlanSchema.safeParse(await request.json());
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid test plan',
+          details: validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+        },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const problems = await validateTestPlanReferences(projectId, data.testCaseIds, data.criteria);
+    if (problems.length > 0) {
+      return NextResponse.json({ error: 'Invalid test plan', details: problems }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const plan = await prisma.testPlan.create({
+      data: {
+        projectId,
+        name: data.name,
+        description: data.description || null,
+        criteria: JSON.stringify(data.criteria),
+        createdBy: userEmail,
+        updatedBy: userEmail,
+        testCases: {
+          create: Array.from(new Set(data.testCaseIds)).map(testCaseId => ({ testCaseId, createdBy: userEmail })),
+        },
+      },
+      include: { testCases: { select: { testCaseId: true } } },
+    });
+
+    return NextResponse.json(toTestPlanResponse(plan), { status: 201 });
+  } catch (error) {
+    console.error('Error creating test plan:', error);
+    return NextResponse.json(
+      { error: 'Failed to create test plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { createFileResponse } from '@/lib/utils/file-response';
+
+// Artifacts are written by test code, so only the media the result dialog shows are served inline
+const INLINE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'video/webm', 'application/zip'];
+
+// GET /api/projects/[id]/test-results/[resultId]/artifacts/[artifactId]
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string; artifactId: string }> }
+) {
+  try {
+    const { id: projectId, resultId, artifactId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const artifact = await prisma.testArtifact.findFirst({
+      where: { id: artifactId, testResultId: resultId, testResult: { projectId } },
+      include: { testResult: { include: { project: true } } },
+    });
+
+    if (!artifact) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+
+    if (!artifact.testResult.project.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project path not configured' }, { status: 400 });
+    }
+
+    // Artifact paths are stored relative to the project folder and must stay inside it
+    const projectPath = path.join(process.cwd(), artifact.testResult.project.playwrightProjectPath);
+    const filePath = path.resolve(projectPath, artifact.path);
+    if (!filePath.startsWith(projectPath + path.sep)) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+
+    const inline = INLINE_CONTENT_TYPES.includes(artifact.contentType);
+    return createFileResponse(filePath, {
+      contentType: inline ? artifact.contentType : 'application/octet-stream',
+      range: request.headers.get('range'),
+      download: !inline || request.nextUrl.searchParams.get('download') === '1',
+      fileName: path.basename(artifact.path),
+      sandbox: true,
+    });
+  } catch (error) {
+    console.error('Error serving test artifact:', error);
+    return NextResponse.json(
+      { error: 'Failed to serve test artifact' },
+      { status: 500 }
+    );
+  }
+}
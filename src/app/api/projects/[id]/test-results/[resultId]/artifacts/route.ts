@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getArtifactUrl } from '@/lib/test-run/artifact-indexer';
+
+// GET /api/projects/[id]/test-results/[resultId]/artifacts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  try {
+    const { id: projectId, resultId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testResult = await prisma.testResultHistory.findFirst({
+      where: { id: resultId, projectId },
+      select: { id: true },
+    });
+
+    if (!testResult) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    const artifacts = await prisma.testArtifact.findMany({
+      where: { testResultId: resultId },
+      include: {
+        attempt: { select: { projectName: true, retry: true } },
+        stepExecution: { select: { order: true, title: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(artifacts.map(artifact => ({
+      ...artifact,
+      url: getArtifactUrl(projectId, resultId, artifact.id),
+    })));
+  } catch (error) {
+    console.error('Error fetching test artifacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch test artifacts' },
+      { status: 500 }
+    );
+  }
+}
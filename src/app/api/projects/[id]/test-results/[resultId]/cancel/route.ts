@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { testRunWorker } from '@/lib/test-run/test-run-worker';
+
+// POST /api/projects/[id]/test-results/[resultId]/cancel
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  try {
+    const { id: projectId, resultId } = await params;
+
+    // Check permission
+    const hasPermission = await checkResourcePermission('project', 'run', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testResult = await prisma.testResultHistory.findUnique({
+      where: { id: resultId },
+      include: { jobs: { select: { id: true } } },
+    });
+
+    if (!testResult || testResult.projectId !== projectId) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    if (testResult.jobs.length === 0) {
+      return NextResponse.json({ error: 'Test run has no job to cancel' }, { status: 400 });
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const cancelled = await testRunWorker.cancelRun(resultId, userEmail);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Test run is already ${testResult.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Test run cancelled', testResultId: resultId });
+  } catch (error) {
+    console.error('Error cancelling test run:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to cancel test run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getMergedRunOutcome } from '@/lib/test-run/rerun';
+
+// GET /api/projects/[id]/test-results/[resultId]/merged
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  try {
+    const { id: projectId, resultId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testResult = await prisma.testResultHistory.findUnique({
+      where: { id: resultId },
+      select: { projectId: true },
+    });
+
+    if (!testResult || testResult.projectId !== projectId) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    const outcome = await getMergedRunOutcome(resultId);
+    return NextResponse.json(outcome);
+  } catch (error) {
+    console.error('Error fetching merged test result:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch merged test result' },
+      { status: 500 }
+    );
+  }
+}
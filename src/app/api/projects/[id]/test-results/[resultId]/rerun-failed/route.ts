@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+import { isRunActive, RERUNNABLE_STATUSES } from '@/lib/test-run/run-status';
+import { buildRerunSpec } from '@/lib/test-run/rerun';
+import { prepareTestRun, queueTestRun } from '@/lib/test-run/start-test-run';
+
+// POST /api/projects/[id]/test-results/[resultId]/rerun-failed
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  try {
+    const { id: projectId, resultId } = await params;
+
+    // Check permission
+    const hasPermission = await checkResourcePermission('project', 'run', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const parent = await prisma.testResultHistory.findUnique({
+      where: { id: resultId },
+      include: {
+        testCaseExecutions: {
+          where: { status: { in: RERUNNABLE_STATUSES } },
+          select: { testCaseId: true },
+        },
+      },
+    });
+
+    if (!parent || parent.projectId !== projectId) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    if (isRunActive(parent.status)) {
+      return NextResponse.json({ error: 'Test run is still in progress' }, { status: 409 });
+    }
+
+    if (parent.runType === 'manual') {
+      return NextResponse.json({ error: 'Manual runs are repeated from the manual runner' }, { status: 400 });
+    }
+
+    const testCaseIds = Array.from(new Set(parent.testCaseExecutions.map(execution => execution.testCaseId)));
+    if (testCaseIds.length === 0) {
+      return NextResponse.json({ error: 'Test run has no failed tests to rerun' }, { status: 400 });
+    }
+
+    let preparedRun;
+    try {
+      preparedRun = await prepareTestRun(projectId, buildRerunSpec(parent, testCaseIds));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Cannot rerun this test run' },
+        { status: 400 }
+      );
+    }
+
+    const userEmail = await getCurrentUserEmail();
+    const { testResult } = await queueTestRun(preparedRun, {
+      testRunName: `Rerun of ${parent.name || parent.testResultFileName || 'test run'}`,
+      createdBy: userEmail,
+      parentId: parent.id,
+    });
+
+    return NextResponse.json({
+      message: 'Test execution queued',
+      testResultId: testResult.id
+    });
+  } catch (error) {
+    console.error('Error rerunning failed tests:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rerun failed tests' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { runLogBroker, RunStreamEvent, RunStreamEventPayload, RunTestStatus } from '@/lib/test-run/run-log-broker';
+import { isRunActive } from '@/lib/test-run/run-status';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+function formatEvent(event: RunStreamEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// Statuses the live stream reports are kept, a test that never ran counts as skipped
+function toRunTestStatus(status: string): RunTestStatus {
+  if (status === 'passed' || status === 'failed' || status === 'skipped' || status === 'flaky') {
+    return status;
+  }
+  return status === 'queued' || status === 'running' || status === 'cancelled' ? 'skipped' : 'failed';
+}
+
+// GET /api/projects/[id]/test-results/[resultId]/stream
+// Server-Sent Events with log lines, per-test progress and status changes of a test run
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; resultId: string }> }
+) {
+  try {
+    const { id: projectId, resultId } = await params;
+
+    // Check permission
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const testResult = await prisma.testResultHistory.findUnique({
+      where: { id: resultId },
+      include: {
+        testCaseExecutions: {
+          include: { testCase: { select: { id: true, name: true } } },
+        },
+      },
+    });
+
+    if (!testResult || testResult.projectId !== projectId) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    // EventSource sends Last-Event-ID on reconnect so only missed events are replayed
+    const lastEventIdHeader = request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('lastEventId');
+    const lastEventId = lastEventIdHeader ? parseInt(lastEventIdHeader, 10) : -1;
+
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream({
+      start(controller) {
+        let closed = false;
+        const send = (event: RunStreamEvent) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(formatEvent(event)));
+          }
+        };
+
+        // Finished runs that are no longer buffered are replayed from the database
+        if (!runLogBroker.has(resultId) && !isRunActive(testResult.status)) {
+          const payloads: RunStreamEventPayload[] = [
+            ...(testResult.output || '').split(/\r?\n/).map(line => ({ type: 'log' as const, stream: 'stdout' as const, line })),
+            ...testResult.testCaseExecutions.map(execution => ({
+              type: 'test' as const,
+              title: execution.testCase.name,
+              status: toRunTestStatus(execution.status),
+              durationMs: execution.duration ?? undefined,
+              testCaseId: execution.testCaseId,
+            })),
+            { type: 'status', status: testResult.status },
+          ];
+          payloads.forEach((payload, id) => {
+            if (id > lastEventId) send({ ...payload, id });
+          });
+          controller.close();
+          return;
+        }
+
+        const heartbeat = setInterval(() => {
+          controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }, HEARTBEAT_INTERVAL_MS);
+
+        let unsubscribe: (() => void) | null = null;
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe?.();
+        };
+
+        const close = () => {
+          if (closed) return;
+          cleanup();
+          try {
+            controller.close();
+          } catch {
+            // Stream already closed by the client
+          }
+        };
+
+        unsubscribe = runLogBroker.subscribe(resultId, (event) => {
+          send(event);
+          if (event.type === 'status' && !isRunActive(event.status)) {
+            close();
+          }
+        }, lastEventId);
+
+        // The replay may already have contained the final status
+        if (closed) {
+          unsubscribe();
+        }
+
+        request.signal.addEventListener('abort', close);
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming test result:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream test result' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { compareTestRuns } from '@/lib/test-run/run-comparison';
+
+// GET /api/projects/[id]/test-results/compare?base=...&target=...
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const baseId = request.nextUrl.searchParams.get('base');
+    const targetId = request.nextUrl.searchParams.get('target');
+    if (!baseId || !targetId) {
+      return NextResponse.json({ error: 'Both base and target test result ids are required' }, { status: 400 });
+    }
+    if (baseId === targetId) {
+      return NextResponse.json({ error: 'Cannot compare a test run with itself' }, { status: 400 });
+    }
+
+    const comparison = await compareTestRuns(projectId, baseId, targetId);
+    if (!comparison) {
+      return NextResponse.json({ error: 'Test result not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error comparing test results:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare test results' },
+      { status: 500 }
+    );
+  }
+}
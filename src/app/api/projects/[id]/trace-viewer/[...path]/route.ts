@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { createFileResponse } from '@/lib/utils/file-response';
+
+// The trace viewer that ships with the project's own Playwright install, so it always reads its traces
+const TRACE_VIEWER_PATH = path.join('node_modules', 'playwright-core', 'lib', 'vite', 'traceViewer');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.ttf': 'font/ttf',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.map': 'application/json',
+};
+
+// GET /api/projects/[id]/trace-viewer/[...path]
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  try {
+    const { id: projectId, path: segments } = await params;
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project?.playwrightProjectPath) {
+      return NextResponse.json({ error: 'Playwright project path not configured' }, { status: 400 });
+    }
+
+    const viewerRoot = path.join(process.cwd(), project.playwrightProjectPath, TRACE_VIEWER_PATH);
+    const filePath = path.resolve(viewerRoot, ...segments);
+    if (!filePath.startsWith(viewerRoot + path.sep)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    return createFileResponse(filePath, {
+      contentType: CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream',
+      range: request.headers.get('range'),
+    });
+  } catch (error) {
+    console.error('Error serving trace viewer:', error);
+    return NextResponse.json(
+      { error: 'Failed to serve trace viewer' },
+      { status: 500 }
+    );
+  }
+}
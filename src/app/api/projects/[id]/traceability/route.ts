@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { checkResourcePermission } from '@/lib/rbac/check-permission';
+import { formatTraceabilityCsv, formatTraceabilityHtml, getTraceabilityMatrix } from '@/lib/requirements/requirements';
+
+// GET /api/projects/[id]/traceability?format=json|csv|html - requirement coverage matrix, csv and html download as files
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: projectId } = await params;
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    const hasPermission = await checkResourcePermission('project', 'view', projectId);
+    if (!hasPermission) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (!['json', 'csv', 'html'].includes(format)) {
+      return NextResponse.json({ error: 'Format must be json, csv or html' }, { status: 400 });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId }, select: { name: true } });
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const matrix = await getTraceabilityMatrix(projectId);
+    if (format === 'json') {
+      return NextResponse.json(matrix);
+    }
+
+    const generatedAt = new Date();
+    const fileName = `traceability-${project.name.replace(/[^\w.-]+/g, '_')}-${generatedAt.toISOString().slice(0, 10)}.${format}`;
+    const body = format === 'csv'
+      ? formatTraceabilityCsv(matrix)
+      : formatTraceabilityHtml(matrix, project.name, generatedAt);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'text/html; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error building traceability matrix:', error);
+    return NextResponse.json(
+      { error: 'Failed to build traceability matrix' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db/prisma';
 import { getCurrentUserEmail } from '@/lib/auth/session';
+import { scoreFlakiness } from '@/lib/test-run/flakiness';
 
 // GET /api/test-cases/failing
 export async function GET(request: NextRequest) {
@@ -48,7 +49,9 @@ export async function GET(request: NextRequest) {
         projectId: testCase.projectId,
         project: testCase.project,
         lastRun: testCase.lastRun,
-        failureRate
+        quarantined: testCase.quarantined,
+        failureRate,
+        flakiness: scoreFlakiness(testCase.executions)
       };
     });
 
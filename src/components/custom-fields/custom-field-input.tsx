@@ -0,0 +1,90 @@
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomField } from '@/types';
+import type { CustomFieldValue } from '@/lib/custom-fields/custom-fields';
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: CustomFieldValue | null | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}
+
+// Radix selects cannot hold an empty value, so clearing goes through this item
+const NO_VALUE = '__none__';
+
+/**
+ * Control for editing one custom field value of a test case
+ */
+export function CustomFieldInput({ field, value, onChange }: CustomFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        />
+      );
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : NO_VALUE}
+          onValueChange={(selected) => onChange(selected === NO_VALUE ? null : selected)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={`Select ${field.name.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>None</SelectItem>
+            {field.options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-4">
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => {
+                  const next = checked ? [...selected, option] : selected.filter(item => item !== option);
+                  onChange(next.length > 0 ? next : null);
+                }}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    case 'user':
+      return (
+        <Input
+          type="email"
+          placeholder="user@example.com"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+    default:
+      return (
+        <Input
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+        />
+      );
+  }
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CustomFieldService } from '@/lib/api/services';
+import { CustomField } from '@/types';
+import type { CustomFieldType } from '@/lib/custom-fields/custom-fields';
+
+interface CustomFieldManagerProps {
+  projectId: string;
+}
+
+interface CustomFieldFormState {
+  name: string;
+  type: CustomFieldType;
+  options: string;
+  required: boolean;
+}
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  multiselect: 'Multi-select',
+  user: 'User',
+  date: 'Date',
+};
+
+function toFormState(field?: CustomField | null): CustomFieldFormState {
+  return {
+    name: field?.name || '',
+    type: field?.type || 'text',
+    options: (field?.options || []).join('\n'),
+    required: field?.required || false,
+  };
+}
+
+export function CustomFieldManager({ projectId }: CustomFieldManagerProps) {
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingField, setEditingField] = useState<CustomField | null>(null);
+  const [form, setForm] = useState<CustomFieldFormState>(toFormState());
+  const [saving, setSaving] = useState(false);
+  const customFieldService = new CustomFieldService();
+
+  async function loadFields() {
+    try {
+      setFields(await customFieldService.getCustomFields(projectId));
+    } catch (error) {
+      console.error('Error loading custom fields:', error);
+      toast.error('Failed to load custom fields');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadFields();
+  }, [projectId]);
+
+  function openForm(field?: CustomField) {
+    setEditingField(field || null);
+    setForm(toFormState(field));
+    setIsFormOpen(true);
+  }
+
+  const hasOptions = form.type === 'select' || form.type === 'multiselect';
+
+  async function handleSave() {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      type: form.type,
+      options: hasOptions ? form.options.split('\n').map(option => option.trim()).filter(Boolean) : [],
+      required: form.required,
+    };
+    if (hasOptions && data.options.length === 0) {
+      toast.error('Add at least one option');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingField) {
+        await customFieldService.updateCustomField(projectId, editingField.id, data);
+        toast.success('Field updated');
+      } else {
+        await customFieldService.createCustomField(projectId, data);
+        toast.success('Field created');
+      }
+      setIsFormOpen(false);
+      await loadFields();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save field');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(field: CustomField) {
+    if (!confirm(`Delete field "${field.name}"? Its values are removed from all test cases.`)) {
+      return;
+    }
+
+    try {
+      await customFieldService.deleteCustomField(projectId, field.id);
+      setFields(prev => prev.filter(item => item.id !== field.id));
+      toast.success('Field deleted');
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error('Failed to delete field');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Custom Fields</CardTitle>
+          <CardDescription>Extra fields to fill in on the test cases of this project</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm()}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="text-muted-foreground">No custom fields yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {fields.map(field => (
+              <div key={field.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{field.name}</span>
+                    <Badge variant="secondary">{customFieldTypeLabels[field.type]}</Badge>
+                    {field.required && <Badge variant="outline">Required</Badge>}
+                  </div>
+                  {field.options.length > 0 && (
+                    <p className="text-sm text-muted-foreground">{field.options.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(field)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(field)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingField ? 'Edit Field' : 'Add Field'}</DialogTitle>
+            <DialogDescription>
+              Fields show up in the test case form and as optional columns of the test case table.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="field-name">Name</Label>
+              <Input
+                id="field-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Component"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value: CustomFieldType) => setForm(prev => ({ ...prev, type: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(customFieldTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasOptions && (
+              <div className="space-y-2">
+                <Label htmlFor="field-options">Options</Label>
+                <Textarea
+                  id="field-options"
+                  value={form.options}
+                  onChange={(e) => setForm(prev => ({ ...prev, options: e.target.value }))}
+                  rows={4}
+                  placeholder="One option per line"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="field-required"
+                checked={form.required}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, required: checked }))}
+              />
+              <Label htmlFor="field-required">Required</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
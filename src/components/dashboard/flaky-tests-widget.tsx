@@ -0,0 +1,94 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import type { FlakyTestStats } from '@/lib/dashboard/dashboard-service';
+
+interface FlakyTestsWidgetProps {
+  flakyTests: FlakyTestStats[];
+}
+
+interface SparklineProps {
+  history: FlakyTestStats['history'];
+  width?: number;
+  height?: number;
+}
+
+// One bar per run: passed, passed only after a retry, or failed
+function Sparkline({ history, width = 120, height = 24 }: SparklineProps) {
+  if (history.length === 0) {
+    return null;
+  }
+
+  const barWidth = width / history.length;
+
+  const getBarColor = (run: FlakyTestStats['history'][number]) => {
+    if (run.status === 'failed') return '#ef4444';
+    if (run.retries > 0) return '#eab308';
+    return '#22c55e';
+  };
+
+  return (
+    <svg width={width} height={height} role="img" aria-label="Recent run history">
+      {history.map((run, index) => (
+        <rect
+          key={index}
+          x={index * barWidth + 1}
+          y={run.status === 'failed' ? 0 : height / 3}
+          width={Math.max(barWidth - 2, 1)}
+          height={run.status === 'failed' ? height : (height * 2) / 3}
+          rx={1}
+          fill={getBarColor(run)}
+        >
+          <title>
+            {new Date(run.createdAt).toLocaleString()}: {run.status}{run.retries > 0 ? ` after ${run.retries} ${run.retries === 1 ? 'retry' : 'retries'}` : ''}
+          </title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+export function FlakyTestsWidget({ flakyTests }: FlakyTestsWidgetProps) {
+  if (flakyTests.length === 0) {
+    return (
+      <div className="text-center py-10 text-gray-500">
+        No flaky tests detected
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y">
+      {flakyTests.map(flakyTest => (
+        <div key={flakyTest.id} className="flex items-center justify-between gap-4 py-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <Link
+                href={`/projects/${flakyTest.projectId}/test-cases/${flakyTest.id}`}
+                className="font-medium truncate hover:underline"
+              >
+                {flakyTest.name}
+              </Link>
+              {flakyTest.quarantined && (
+                <Badge variant="outline" className="text-xs border-amber-500 text-amber-600">
+                  Quarantined
+                </Badge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {flakyTest.projectName} • {flakyTest.retryPasses} passed after retry, {flakyTest.flips} flips in {flakyTest.runs} runs
+            </p>
+          </div>
+          <div className="flex items-center gap-4 shrink-0">
+            <Sparkline history={flakyTest.history} />
+            <span className="w-12 text-right font-semibold text-yellow-600">
+              {Math.round(flakyTest.score * 100)}%
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Edit, KeyRound, Loader2, Lock, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { EnvironmentService } from '@/lib/api/services';
+import { ProjectEnvironment } from '@/types';
+
+interface EnvironmentManagerProps {
+  projectId: string;
+}
+
+interface EnvironmentFormState {
+  name: string;
+  description: string;
+  variables: Array<{ key: string; value: string; secret: boolean }>;
+}
+
+function toFormState(environment?: ProjectEnvironment): EnvironmentFormState {
+  return {
+    name: environment?.name || '',
+    description: environment?.description || '',
+    variables: environment?.variables.map(({ key, value, secret }) => ({ key, value, secret })) || [],
+  };
+}
+
+/**
+ * Manage a project's environments and their variables and secrets
+ */
+export function EnvironmentManager({ projectId }: EnvironmentManagerProps) {
+  const [environments, setEnvironments] = useState<ProjectEnvironment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingEnvironment, setEditingEnvironment] = useState<ProjectEnvironment | null>(null);
+  const [form, setForm] = useState<EnvironmentFormState>(toFormState());
+  const [saving, setSaving] = useState(false);
+  const environmentService = new EnvironmentService();
+
+  async function loadEnvironments() {
+    try {
+      setEnvironments(await environmentService.getEnvironments(projectId));
+    } catch (error) {
+      console.error('Error loading environments:', error);
+      toast.error('Failed to load environments');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadEnvironments();
+  }, [projectId]);
+
+  function openForm(environment?: ProjectEnvironment) {
+    setEditingEnvironment(environment || null);
+    setForm(toFormState(environment));
+    setIsFormOpen(true);
+  }
+
+  function updateVariable(index: number, changes: Partial<EnvironmentFormState['variables'][number]>) {
+    setForm(prev => ({
+      ...prev,
+      variables: prev.variables.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)),
+    }));
+  }
+
+  async function handleSave() {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      variables: form.variables
+        .filter(variable => variable.key.trim())
+        .map(variable => ({ ...variable, key: variable.key.trim().toUpperCase() })),
+    };
+
+    setSaving(true);
+    try {
+      if (editingEnvironment) {
+        await environmentService.updateEnvironment(projectId, editingEnvironment.id, data);
+        toast.success('Environment updated');
+      } else {
+        await environmentService.createEnvironment(projectId, data);
+        toast.success('Environment created');
+      }
+      setIsFormOpen(false);
+      await loadEnvironments();
+    } catch (error) {
+      console.error('Error saving environment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save environment');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(environment: ProjectEnvironment) {
+    if (!confirm(`Delete environment "${environment.name}"? Schedules using it will fail until they are updated.`)) {
+      return;
+    }
+
+    try {
+      await environmentService.deleteEnvironment(projectId, environment.id);
+      setEnvironments(prev => prev.filter(item => item.id !== environment.id));
+      toast.success('Environment deleted');
+    } catch (error) {
+      console.error('Error deleting environment:', error);
+      toast.error('Failed to delete environment');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Environments</CardTitle>
+          <CardDescription>
+            Variables and secrets for each environment. Steps and fixtures read them as <code>{'{{vars.NAME}}'}</code> or <code>process.env.NAME</code>.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm()}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Environment
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : environments.length === 0 ? (
+          <p className="text-muted-foreground">No environments yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {environments.map(environment => (
+              <div key={environment.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <KeyRound className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{environment.name}</span>
+                    <Badge variant="outline">
+                      {environment.variables.length} variable{environment.variables.length === 1 ? '' : 's'}
+                    </Badge>
+                  </div>
+                  {environment.description && (
+                    <p className="text-sm text-muted-foreground">{environment.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    {environment.variables.map(variable => (
+                      <span key={variable.id} className="flex items-center gap-1">
+                        {variable.secret && <Lock className="h-3 w-3" />}
+                        <code>{variable.key}</code>={variable.value}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => openForm(environment)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(environment)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>{editingEnvironment ? 'Edit Environment' : 'New Environment'}</DialogTitle>
+            <DialogDescription>
+              Secrets are stored encrypted and only shown masked. Leave a masked value as is to keep it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="environment-name">Name</Label>
+                <Input
+                  id="environment-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="staging"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="environment-description">Description</Label>
+                <Input
+                  id="environment-description"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Variables</Label>
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {form.variables.map((variable, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={variable.key}
+                      onChange={(e) => updateVariable(index, { key: e.target.value })}
+                      placeholder="NAME"
+                      className="w-1/3 font-mono"
+                    />
+                    <Input
+                      type={variable.secret ? 'password' : 'text'}
+                      value={variable.value}
+                      onChange={(e) => updateVariable(index, { value: e.target.value })}
+                      placeholder="Value"
+                    />
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={variable.secret}
+                        onCheckedChange={(checked) => updateVariable(index, { secret: checked })}
+                        aria-label="Secret"
+                      />
+                      <Lock className="h-3 w-3 text-muted-foreground" />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setForm(prev => ({ ...prev, variables: prev.variables.filter((_, i) => i !== index) }))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, variables: [...prev.variables, { key: '', value: '', secret: false }] }))}
+              >
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Add Variable
+              </Button>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingEnvironment ? 'Save Changes' : 'Create Environment'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
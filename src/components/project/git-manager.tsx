@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { formatDistance } from 'date-fns';
+import { GitBranch, Loader2, Upload } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { GitService } from '@/lib/api/services';
+import type { GitSettings, ProjectGitStatus } from '@/lib/playwright/project-git';
+
+interface GitManagerProps {
+  projectId: string;
+}
+
+/**
+ * Git repository of the generated Playwright project: remote settings, push and recent commits
+ */
+export function GitManager({ projectId }: GitManagerProps) {
+  const [status, setStatus] = useState<ProjectGitStatus | null>(null);
+  const [settings, setSettings] = useState<GitSettings>({ remoteUrl: '', branch: 'main', autoPush: false });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [pushing, setPushing] = useState(false);
+  const gitService = new GitService();
+
+  function applyStatus(next: ProjectGitStatus) {
+    setStatus(next);
+    setSettings(next.settings);
+  }
+
+  useEffect(() => {
+    gitService.getStatus(projectId)
+      .then(applyStatus)
+      .catch(error => console.error('Error loading git status:', error))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  async function handleInit() {
+    setSaving(true);
+    try {
+      applyStatus(await gitService.initRepository(projectId));
+      toast.success('Git repository initialized');
+    } catch (error) {
+      console.error('Error initializing git repository:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to initialize git repository');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      applyStatus(await gitService.updateSettings(projectId, { ...settings, remoteUrl: settings.remoteUrl.trim() }));
+      toast.success('Git settings saved');
+    } catch (error) {
+      console.error('Error saving git settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save git settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handlePush() {
+    setPushing(true);
+    try {
+      const result = await gitService.push(projectId);
+      toast.success(`Pushed to ${result.branch}`);
+    } catch (error) {
+      console.error('Error pushing git repository:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to push');
+    } finally {
+      setPushing(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Git
+            {status?.branch && <Badge variant="outline">{status.branch}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Every regeneration of a test case or fixture is committed to the Playwright project, authored by the user who made the change.
+          </CardDescription>
+        </div>
+        {status?.initialized && (
+          <Button size="sm" variant="outline" onClick={handlePush} disabled={pushing || !status.settings.remoteUrl}>
+            {pushing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Push
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !status ? (
+          <p className="text-muted-foreground">The Playwright project has not been created yet</p>
+        ) : !status.initialized ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-muted-foreground">The Playwright project is not a git repository yet.</p>
+            <Button size="sm" onClick={handleInit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Initialize Repository
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-[2fr_1fr]">
+              <div className="space-y-2">
+                <Label htmlFor="git-remote-url">Remote URL</Label>
+                <Input
+                  id="git-remote-url"
+                  placeholder="git@github.com:team/e2e-tests.git"
+                  value={settings.remoteUrl}
+                  onChange={(e) => setSettings(prev => ({ ...prev, remoteUrl: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="git-branch">Branch</Label>
+                <Input
+                  id="git-branch"
+                  value={settings.branch}
+                  onChange={(e) => setSettings(prev => ({ ...prev, branch: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="git-auto-push"
+                  checked={settings.autoPush}
+                  onCheckedChange={(checked) => setSettings(prev => ({ ...prev, autoPush: checked }))}
+                />
+                <Label htmlFor="git-auto-push">Push after every commit</Label>
+              </div>
+              <Button size="sm" onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Recent commits</h4>
+              {status.commits.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No commits yet</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {status.commits.map(commit => (
+                    <li key={commit.sha} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate">{commit.subject}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {commit.authorName} · {formatDistance(new Date(commit.date), new Date(), { addSuffix: true })}
+                        </p>
+                      </div>
+                      <code className="text-xs text-muted-foreground">{commit.sha.slice(0, 7)}</code>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,9 +5,23 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ProjectConfigFormProps, ConfigurationSettings } from '@/types/project';
 import { ProjectService } from '@/lib/api/services';
 
+const BROWSER_OPTIONS = [
+  { value: 'chromium', label: 'Chromium' },
+  { value: 'firefox', label: 'Firefox' },
+  { value: 'webkit', label: 'WebKit' },
+];
+
+const ARTIFACT_OPTIONS: Array<{ key: 'video' | 'screenshot' | 'trace'; label: string; values: string[] }> = [
+  { key: 'video', label: 'Video', values: ['off', 'on', 'retain-on-failure', 'on-first-retry'] },
+  { key: 'screenshot', label: 'Screenshot', values: ['off', 'on', 'only-on-failure'] },
+  { key: 'trace', label: 'Trace', values: ['off', 'on', 'retain-on-failure', 'on-first-retry'] },
+];
+
 export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
   const [config, setConfig] = useState<ConfigurationSettings>({
     playwright: {
@@ -16,6 +30,9 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
       retries: '2',
       workers: '50%',
       fullyParallel: 'true',
+      browsers: 'chromium,firefox,webkit',
+      reporters: 'list,html',
+      outputDir: 'test-results',
     },
     browser: {
       baseURL: '',
@@ -28,6 +45,11 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
       screenshot: 'only-on-failure',
       trace: 'retain-on-failure',
     },
+    webServer: {
+      command: '',
+      url: '',
+      reuseExistingServer: 'true',
+    },
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -54,8 +76,12 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
     setSaving(true);
 
     try {
-      await projectService.updateProjectConfiguration(projectId, config);
-      toast.success('Configuration saved successfully');
+      const result = await projectService.updateProjectConfiguration(projectId, config);
+      if (result?.warning) {
+        toast.warning(`${result.message}: ${result.warning}`);
+      } else {
+        toast.success('Configuration saved successfully');
+      }
     } catch (error) {
       console.error('Error saving configuration:', error);
       toast.error('Failed to save configuration');
@@ -74,6 +100,15 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
     }));
   }
 
+  const selectedBrowsers = (config.playwright?.browsers ?? 'chromium,firefox,webkit').split(',').filter(Boolean);
+
+  function toggleBrowser(browser: string, checked: boolean) {
+    const browsers = checked
+      ? [...selectedBrowsers, browser]
+      : selectedBrowsers.filter(item => item !== browser);
+    handleChange('playwright', 'browsers', BROWSER_OPTIONS.map(option => option.value).filter(value => browsers.includes(value)).join(','));
+  }
+
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-[200px]">
@@ -139,6 +174,39 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
               />
               <Label htmlFor="fullyParallel">Fully Parallel</Label>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="reporters">Reporters</Label>
+              <Input
+                id="reporters"
+                value={config.playwright?.reporters}
+                onChange={(e) => handleChange('playwright', 'reporters', e.target.value)}
+                placeholder="list,html"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outputDir">Output Directory</Label>
+              <Input
+                id="outputDir"
+                value={config.playwright?.outputDir}
+                onChange={(e) => handleChange('playwright', 'outputDir', e.target.value)}
+                placeholder="test-results"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Browser Projects</Label>
+              <div className="flex gap-4">
+                {BROWSER_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`project-browser-${option.value}`}
+                      checked={selectedBrowsers.includes(option.value)}
+                      onCheckedChange={(checked) => toggleBrowser(option.value, checked as boolean)}
+                    />
+                    <Label htmlFor={`project-browser-${option.value}`}>{option.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -204,6 +272,71 @@ export function ProjectConfigForm({ projectId }: ProjectConfigFormProps) {
                 placeholder="UTC"
               />
             </div>
+            {ARTIFACT_OPTIONS.map(option => (
+              <div key={option.key} className="space-y-2">
+                <Label htmlFor={option.key}>{option.label}</Label>
+                <Select
+                  value={config.browser?.[option.key]}
+                  onValueChange={(value) => handleChange('browser', option.key, value)}
+                >
+                  <SelectTrigger id={option.key}>
+                    <SelectValue placeholder="off" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {option.values.map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Web Server</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="webServerCommand">Command</Label>
+              <Input
+                id="webServerCommand"
+                value={config.webServer?.command}
+                onChange={(e) => handleChange('webServer', 'command', e.target.value)}
+                placeholder="Leave empty if the app is already running, e.g. npm run start"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webServerUrl">URL</Label>
+              <Input
+                id="webServerUrl"
+                value={config.webServer?.url}
+                onChange={(e) => handleChange('webServer', 'url', e.target.value)}
+                placeholder="http://localhost:3000"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webServerTimeout">Startup Timeout (ms)</Label>
+              <Input
+                id="webServerTimeout"
+                value={config.webServer?.timeout}
+                onChange={(e) => handleChange('webServer', 'timeout', e.target.value)}
+                placeholder="60000"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="reuseExistingServer"
+                checked={config.webServer?.reuseExistingServer !== 'false'}
+                onCheckedChange={(checked: boolean) =>
+                  handleChange('webServer', 'reuseExistingServer', checked.toString())
+                }
+              />
+              <Label htmlFor="reuseExistingServer">Reuse an already running server</Label>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ClipboardCheck, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ReviewService, ProjectReviewOverview } from '@/lib/api/services';
+import { formatDate } from '@/lib/utils/date';
+import { reviewStatusLabels } from '@/components/test-case/review-panel';
+
+interface ReviewSettingsProps {
+  projectId: string;
+}
+
+/**
+ * Review mode of a project and the test cases awaiting review
+ */
+export function ReviewSettings({ projectId }: ReviewSettingsProps) {
+  const [overview, setOverview] = useState<ProjectReviewOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const reviewService = new ReviewService();
+
+  useEffect(() => {
+    reviewService.getProjectReview(projectId)
+      .then(setOverview)
+      .catch(error => console.error('Error loading review settings:', error))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  async function handleToggle(enabled: boolean) {
+    if (!enabled && overview?.pending.length &&
+      !confirm(`Turn off review mode? ${overview.pending.length} unapproved draft(s) will be written to their test files.`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setOverview(await reviewService.setReviewMode(projectId, enabled));
+      toast.success(enabled ? 'Review mode enabled' : 'Review mode disabled');
+    } catch (error) {
+      console.error('Error updating review settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update review settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Review
+          </CardTitle>
+          <CardDescription>
+            In review mode, step changes are drafts until a reviewer approves them. Only approved versions are written to test files and added to releases.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {saving && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Switch
+            id="review-mode"
+            checked={!!overview?.enabled}
+            disabled={loading || saving}
+            onCheckedChange={handleToggle}
+          />
+          <Label htmlFor="review-mode">Require review</Label>
+        </div>
+      </CardHeader>
+      {overview?.enabled && (
+        <CardContent>
+          {overview.pending.length === 0 ? (
+            <p className="text-muted-foreground">No test cases are awaiting review</p>
+          ) : (
+            <div className="rounded-md border divide-y">
+              {overview.pending.map(testCase => (
+                <div key={testCase.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+                  <div>
+                    <Link href={`/projects/${projectId}/test-cases/${testCase.id}`} className="font-medium hover:underline">
+                      {testCase.name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      v{testCase.version}{testCase.approvedVersion ? `, approved v${testCase.approvedVersion}` : ', never approved'}
+                      {' · '}changed {formatDate(testCase.updatedAt)}{testCase.updatedBy && ` by ${testCase.updatedBy}`}
+                    </p>
+                  </div>
+                  <Badge variant={testCase.status === 'changes_requested' ? 'destructive' : 'outline'}>
+                    {reviewStatusLabels[testCase.status]}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
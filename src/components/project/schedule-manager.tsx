@@ -0,0 +1,427 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { formatDistance } from 'date-fns';
+import { CalendarClock, Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScheduleService, TestCaseService } from '@/lib/api/services';
+import { getNextFireTime, isValidCronExpression, isValidTimezone, TestScheduleInput } from '@/lib/test-run/schedule';
+import { formatDate } from '@/lib/utils/date';
+import { TestSchedule } from '@/types';
+
+interface ScheduleManagerProps {
+  projectId: string;
+}
+
+interface ScheduleFormState {
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  enabled: boolean;
+  mode: 'project' | 'list';
+  testCaseIds: string[];
+  tags: string;
+  browser: string;
+}
+
+const CRON_PRESETS = [
+  { label: 'Every hour', value: '0 * * * *' },
+  { label: 'Nightly at 02:00', value: '0 2 * * *' },
+  { label: 'Weekdays at 07:00', value: '0 7 * * 1-5' },
+];
+
+function defaultFormState(): ScheduleFormState {
+  return {
+    name: '',
+    cronExpression: '0 2 * * *',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+    enabled: true,
+    mode: 'project',
+    testCaseIds: [],
+    tags: '',
+    browser: 'chromium',
+  };
+}
+
+function toFormState(schedule: TestSchedule): ScheduleFormState {
+  const runSpec = schedule.runSpec || { mode: 'project' };
+  return {
+    name: schedule.name,
+    cronExpression: schedule.cronExpression,
+    timezone: schedule.timezone,
+    enabled: schedule.enabled,
+    mode: runSpec.mode === 'project' ? 'project' : 'list',
+    testCaseIds: runSpec.testCaseIds || [],
+    tags: (runSpec.tags || []).join(', '),
+    browser: runSpec.browsers?.[0] || 'chromium',
+  };
+}
+
+function describeRunSpec(schedule: TestSchedule): string {
+  const runSpec = schedule.runSpec;
+  if (!runSpec) {
+    return 'Invalid run spec';
+  }
+
+  const target = runSpec.mode === 'project'
+    ? 'All tests'
+    : `${runSpec.testCaseIds?.length || 0} test case${runSpec.testCaseIds?.length === 1 ? '' : 's'}`;
+  const tags = runSpec.tags && runSpec.tags.length > 0 ? ` tagged ${runSpec.tags.map(tag => `@${tag}`).join(', ')}` : '';
+  return `${target}${tags} on ${(runSpec.browsers || ['chromium']).join(', ')}`;
+}
+
+/**
+ * Manage a project's scheduled test runs
+ */
+export function ScheduleManager({ projectId }: ScheduleManagerProps) {
+  const [schedules, setSchedules] = useState<TestSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<TestSchedule | null>(null);
+  const [form, setForm] = useState<ScheduleFormState>(defaultFormState());
+  const [saving, setSaving] = useState(false);
+  const [testCases, setTestCases] = useState<Array<{ id: string; name: string }>>([]);
+  const scheduleService = new ScheduleService();
+  const testCaseService = new TestCaseService();
+
+  async function loadSchedules() {
+    try {
+      setSchedules(await scheduleService.getSchedules(projectId));
+    } catch (error) {
+      console.error('Error loading schedules:', error);
+      toast.error('Failed to load schedules');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSchedules();
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!isFormOpen || form.mode !== 'list' || testCases.length > 0) {
+      return;
+    }
+
+    testCaseService.getTestCases(projectId, { limit: 1000 })
+      .then(setTestCases)
+      .catch(error => {
+        console.error('Error loading test cases:', error);
+        toast.error('Failed to load test cases');
+      });
+  }, [isFormOpen, form.mode]);
+
+  function openForm(schedule?: TestSchedule) {
+    setEditingSchedule(schedule || null);
+    setForm(schedule ? toFormState(schedule) : defaultFormState());
+    setIsFormOpen(true);
+  }
+
+  const cronValid = isValidCronExpression(form.cronExpression);
+  const timezoneValid = isValidTimezone(form.timezone);
+  let nextFirePreview: Date | null = null;
+  if (cronValid && timezoneValid) {
+    nextFirePreview = getNextFireTime(form.cronExpression, form.timezone);
+  }
+
+  async function handleSave() {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+    if (!cronValid || !timezoneValid) {
+      toast.error('Please fix the cron expression and timezone');
+      return;
+    }
+    if (form.mode === 'list' && form.testCaseIds.length === 0) {
+      toast.error('Select at least one test case');
+      return;
+    }
+
+    const data: TestScheduleInput = {
+      name: form.name.trim(),
+      cronExpression: form.cronExpression.trim(),
+      timezone: form.timezone,
+      enabled: form.enabled,
+      runSpec: {
+        mode: form.mode,
+        testCaseIds: form.mode === 'list' ? form.testCaseIds : [],
+        tags: form.tags.split(',').map(tag => tag.trim().replace(/^@/, '')).filter(Boolean),
+        browsers: [form.browser],
+      },
+    };
+
+    setSaving(true);
+    try {
+      if (editingSchedule) {
+        await scheduleService.updateSchedule(projectId, editingSchedule.id, data);
+        toast.success('Schedule updated');
+      } else {
+        await scheduleService.createSchedule(projectId, data);
+        toast.success('Schedule created');
+      }
+      setIsFormOpen(false);
+      await loadSchedules();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(schedule: TestSchedule, enabled: boolean) {
+    try {
+      const updated = await scheduleService.updateSchedule(projectId, schedule.id, { enabled });
+      setSchedules(prev => prev.map(item => (item.id === schedule.id ? { ...item, ...updated } : item)));
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast.error('Failed to update schedule');
+    }
+  }
+
+  async function handleDelete(schedule: TestSchedule) {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) {
+      return;
+    }
+
+    try {
+      await scheduleService.deleteSchedule(projectId, schedule.id);
+      setSchedules(prev => prev.filter(item => item.id !== schedule.id));
+      toast.success('Schedule deleted');
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast.error('Failed to delete schedule');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Scheduled Runs</CardTitle>
+          <CardDescription>Run tests automatically on a cron schedule</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm()}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Add Schedule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <p className="text-muted-foreground">No schedules yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {schedules.map(schedule => {
+              const lastResult = schedule.testResults?.[0];
+              return (
+                <div key={schedule.id} className="flex items-start justify-between gap-4 p-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{schedule.name}</span>
+                      <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{schedule.cronExpression}</code>
+                      <span className="text-xs text-muted-foreground">{schedule.timezone}</span>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeRunSpec(schedule)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Last run: {schedule.lastRunAt
+                        ? formatDistance(new Date(schedule.lastRunAt), new Date(), { addSuffix: true })
+                        : 'Never'}
+                      {lastResult && (
+                        <Badge
+                          variant={lastResult.success ? 'default' : lastResult.status === 'completed' ? 'destructive' : 'secondary'}
+                          className="ml-2 capitalize"
+                        >
+                          {lastResult.success ? 'passed' : lastResult.status === 'completed' ? 'failed' : lastResult.status}
+                        </Badge>
+                      )}
+                      {' • '}
+                      Next run: {schedule.enabled && schedule.nextRunAt ? formatDate(schedule.nextRunAt) : 'Paused'}
+                    </p>
+                    {schedule.lastError && (
+                      <p className="text-xs text-red-500">{schedule.lastError}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                      aria-label="Enable schedule"
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => openForm(schedule)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingSchedule ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+            <DialogDescription>Runs are queued like manual runs and appear in the test results.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Nightly regression"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="schedule-cron">Cron Expression</Label>
+                <Input
+                  id="schedule-cron"
+                  value={form.cronExpression}
+                  onChange={(e) => setForm(prev => ({ ...prev, cronExpression: e.target.value }))}
+                  className={cronValid ? undefined : 'border-red-500'}
+                />
+                <div className="flex flex-wrap gap-1">
+                  {CRON_PRESETS.map(preset => (
+                    <Button
+                      key={preset.value}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-6 text-xs"
+                      onClick={() => setForm(prev => ({ ...prev, cronExpression: preset.value }))}
+                    >
+                      {preset.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="schedule-timezone">Timezone</Label>
+                <Input
+                  id="schedule-timezone"
+                  value={form.timezone}
+                  onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))}
+                  className={timezoneValid ? undefined : 'border-red-500'}
+                  placeholder="Europe/Berlin"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {nextFirePreview ? `Next run: ${formatDate(nextFirePreview)}` : 'Enter a five-field cron expression and a valid timezone'}
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Run</Label>
+                <Select
+                  value={form.mode}
+                  onValueChange={(value: 'project' | 'list') => setForm(prev => ({ ...prev, mode: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="project">Whole project</SelectItem>
+                    <SelectItem value="list">Selected test cases</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Browser</Label>
+                <Select
+                  value={form.browser}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, browser: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="chromium">Chromium</SelectItem>
+                    <SelectItem value="firefox">Firefox</SelectItem>
+                    <SelectItem value="webkit">WebKit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="schedule-tags">Tags</Label>
+              <Input
+                id="schedule-tags"
+                value={form.tags}
+                onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                placeholder="Optional, e.g. smoke, regression"
+              />
+            </div>
+
+            {form.mode === 'list' && (
+              <div className="space-y-2">
+                <Label>Test Cases</Label>
+                <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+                  {testCases.map(testCase => (
+                    <label key={testCase.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.testCaseIds.includes(testCase.id)}
+                        onCheckedChange={(checked) => setForm(prev => ({
+                          ...prev,
+                          testCaseIds: checked
+                            ? [...prev.testCaseIds, testCase.id]
+                            : prev.testCaseIds.filter(id => id !== testCase.id),
+                        }))}
+                      />
+                      {testCase.name}
+                    </label>
+                  ))}
+                  {testCases.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No test cases found</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-enabled"
+                checked={form.enabled}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, enabled: checked }))}
+              />
+              <Label htmlFor="schedule-enabled">Enabled</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
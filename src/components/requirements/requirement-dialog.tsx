@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RequirementService, TestCaseService } from '@/lib/api/services';
+import { Requirement } from '@/types';
+
+interface RequirementDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The requirement to edit, a new one is created without it
+  requirement?: Requirement | null;
+  onSaved: (requirement: Requirement) => void;
+}
+
+interface RequirementFormState {
+  key: string;
+  title: string;
+  description: string;
+  externalUrl: string;
+  testCaseIds: string[];
+}
+
+function toFormState(requirement?: Requirement | null): RequirementFormState {
+  return {
+    key: requirement?.key || '',
+    title: requirement?.title || '',
+    description: requirement?.description || '',
+    externalUrl: requirement?.externalUrl || '',
+    testCaseIds: requirement?.testCaseIds || [],
+  };
+}
+
+export function RequirementDialog({ projectId, open, onOpenChange, requirement, onSaved }: RequirementDialogProps) {
+  const [form, setForm] = useState<RequirementFormState>(toFormState(requirement));
+  const [testCases, setTestCases] = useState<Array<{ id: string; name: string; isManual: boolean }>>([]);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setForm(toFormState(requirement));
+    setSearch('');
+
+    new TestCaseService().getTestCases(projectId, { limit: 1000 })
+      .then(setTestCases)
+      .catch(error => {
+        console.error('Error loading test cases:', error);
+        toast.error('Failed to load test cases');
+      });
+  }, [open, requirement, projectId]);
+
+  async function handleSave() {
+    if (!form.key.trim() || !form.title.trim()) {
+      toast.error('Key and title are required');
+      return;
+    }
+
+    const data = {
+      key: form.key.trim(),
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      externalUrl: form.externalUrl.trim() || null,
+      testCaseIds: form.testCaseIds,
+    };
+
+    setSaving(true);
+    try {
+      const service = new RequirementService();
+      const saved = requirement
+        ? await service.updateRequirement(projectId, requirement.id, data)
+        : await service.createRequirement(projectId, data);
+      toast.success(requirement ? 'Requirement updated' : 'Requirement created');
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving requirement:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save requirement');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const visibleTestCases = testCases.filter(testCase => testCase.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{requirement ? 'Edit Requirement' : 'New Requirement'}</DialogTitle>
+          <DialogDescription>
+            Link the test cases that cover this requirement to track it in the traceability matrix.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="requirement-key">Key</Label>
+              <Input
+                id="requirement-key"
+                value={form.key}
+                onChange={(e) => setForm(prev => ({ ...prev, key: e.target.value }))}
+                placeholder="REQ-1"
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="requirement-title">Title</Label>
+              <Input
+                id="requirement-title"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Users can reset their password"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requirement-description">Description</Label>
+            <Textarea
+              id="requirement-description"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="requirement-url">External URL</Label>
+            <Input
+              id="requirement-url"
+              value={form.externalUrl}
+              onChange={(e) => setForm(prev => ({ ...prev, externalUrl: e.target.value }))}
+              placeholder="https://tracker.example.com/browse/REQ-1"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Covering Test Cases ({form.testCaseIds.length})</Label>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search test cases..."
+            />
+            <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+              {visibleTestCases.map(testCase => (
+                <label key={testCase.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.testCaseIds.includes(testCase.id)}
+                    onCheckedChange={(checked) => setForm(prev => ({
+                      ...prev,
+                      testCaseIds: checked
+                        ? [...prev.testCaseIds, testCase.id]
+                        : prev.testCaseIds.filter(id => id !== testCase.id),
+                    }))}
+                  />
+                  {testCase.name}
+                  {testCase.isManual && <span className="text-xs text-muted-foreground">manual</span>}
+                </label>
+              ))}
+              {visibleTestCases.length === 0 && (
+                <p className="text-sm text-muted-foreground">No test cases found</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
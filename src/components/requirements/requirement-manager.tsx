@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Edit, ExternalLink, Grid3X3, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RequirementService } from '@/lib/api/services';
+import { Requirement } from '@/types';
+import { RequirementDialog } from './requirement-dialog';
+
+interface RequirementManagerProps {
+  projectId: string;
+}
+
+export function RequirementManager({ projectId }: RequirementManagerProps) {
+  const [requirements, setRequirements] = useState<Requirement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRequirement, setEditingRequirement] = useState<Requirement | null>(null);
+  const requirementService = new RequirementService();
+
+  async function loadRequirements() {
+    try {
+      setRequirements(await requirementService.getRequirements(projectId));
+    } catch (error) {
+      console.error('Error loading requirements:', error);
+      toast.error('Failed to load requirements');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRequirements();
+  }, [projectId]);
+
+  function openForm(requirement?: Requirement) {
+    setEditingRequirement(requirement || null);
+    setIsFormOpen(true);
+  }
+
+  async function handleDelete(requirement: Requirement) {
+    if (!confirm(`Delete requirement "${requirement.key}"?`)) {
+      return;
+    }
+
+    try {
+      await requirementService.deleteRequirement(projectId, requirement.id);
+      setRequirements(prev => prev.filter(item => item.id !== requirement.id));
+      toast.success('Requirement deleted');
+    } catch (error) {
+      console.error('Error deleting requirement:', error);
+      toast.error('Failed to delete requirement');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Requirements</CardTitle>
+          <CardDescription>Requirements and user stories with the test cases covering them</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" asChild>
+            <Link href={`/projects/${projectId}/traceability`}>
+              <Grid3X3 className="h-4 w-4 mr-2" />
+              Traceability Matrix
+            </Link>
+          </Button>
+          <Button size="sm" onClick={() => openForm()}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            New Requirement
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requirements.length === 0 ? (
+          <p className="text-muted-foreground">No requirements yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {requirements.map(requirement => (
+              <div key={requirement.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <code className="text-xs bg-muted px-1.5 py-0.5 rounded">{requirement.key}</code>
+                    <span className="font-medium">{requirement.title}</span>
+                    {requirement.externalUrl && (
+                      <a href={requirement.externalUrl} target="_blank" rel="noopener noreferrer" className="text-muted-foreground hover:text-foreground">
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </a>
+                    )}
+                  </div>
+                  {requirement.description && (
+                    <p className="text-sm text-muted-foreground">{requirement.description}</p>
+                  )}
+                  {requirement.testCaseIds.length === 0 ? (
+                    <Badge variant="destructive">Not covered</Badge>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Covered by {requirement.testCaseIds.length} test case{requirement.testCaseIds.length === 1 ? '' : 's'}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(requirement)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(requirement)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <RequirementDialog
+        projectId={projectId}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        requirement={editingRequirement}
+        onSaved={() => loadRequirements()}
+      />
+    </Card>
+  );
+}
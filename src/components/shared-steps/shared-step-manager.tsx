@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Layers, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { SharedStepService } from '@/lib/api/services';
+import { SharedStepGroup } from '@/types';
+
+interface SharedStepManagerProps {
+  projectId: string;
+}
+
+export function SharedStepManager({ projectId }: SharedStepManagerProps) {
+  const router = useRouter();
+  const [groups, setGroups] = useState<SharedStepGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const sharedStepService = new SharedStepService();
+
+  async function loadGroups() {
+    try {
+      setGroups(await sharedStepService.getSharedStepGroups(projectId));
+    } catch (error) {
+      console.error('Error loading shared step groups:', error);
+      toast.error('Failed to load shared steps');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadGroups();
+  }, [projectId]);
+
+  function openForm() {
+    setName('');
+    setDescription('');
+    setIsFormOpen(true);
+  }
+
+  // Steps are added on the group page once the group exists
+  async function handleCreate() {
+    if (!name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const group = await sharedStepService.createSharedStepGroup(projectId, {
+        name: name.trim(),
+        description: description.trim() || null,
+      });
+      toast.success('Shared step group created');
+      router.push(`/projects/${projectId}/shared-steps/${group.id}`);
+    } catch (error) {
+      console.error('Error creating shared step group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create shared step group');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(group: SharedStepGroup) {
+    if (!confirm(`Delete shared step group "${group.name}"?`)) {
+      return;
+    }
+
+    try {
+      await sharedStepService.deleteSharedStepGroup(projectId, group.id);
+      setGroups(prev => prev.filter(item => item.id !== group.id));
+      toast.success('Shared step group deleted');
+    } catch (error) {
+      console.error('Error deleting shared step group:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete shared step group');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Shared Steps</CardTitle>
+          <CardDescription>Reusable steps that test cases call, expanded into every generated test</CardDescription>
+        </div>
+        <Button size="sm" onClick={openForm}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          New Group
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-muted-foreground">No shared steps yet. Type &quot;call&quot; in a step action to use a group.</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {groups.map(group => (
+              <div key={group.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Layers className="h-4 w-4 text-muted-foreground" />
+                    <Link href={`/projects/${projectId}/shared-steps/${group.id}`} className="font-medium hover:underline">
+                      {group.name}
+                    </Link>
+                    <Badge variant="secondary">{group.steps.length} {group.steps.length === 1 ? 'step' : 'steps'}</Badge>
+                  </div>
+                  {group.description && (
+                    <p className="text-sm text-muted-foreground">{group.description}</p>
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(group)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>New Shared Step Group</DialogTitle>
+            <DialogDescription>
+              Give the group a name, then add its steps on the group page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="group-name">Name</Label>
+              <Input
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Log in as admin"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-description">Description</Label>
+              <Textarea
+                id="group-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
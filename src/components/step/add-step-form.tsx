@@ -7,7 +7,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { 
   DialogFooter,
 } from '@/components/ui/dialog';
-import { Loader2, Code, ChevronRight, Wrench } from 'lucide-react';
+import { Loader2, Code, ChevronRight, Wrench, Layers, FileText } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 
 interface Fixture {
@@ -16,6 +16,12 @@ interface Fixture {
   type: string;
 }
 
+// A shared step group or test case a step can call
+interface CallTarget {
+  id: string;
+  name: string;
+}
+
 interface AddStepFormProps {
   onSubmit: (data: StepFormData) => Promise<void>;
   onCancel: () => void;
@@ -24,6 +30,8 @@ interface AddStepFormProps {
   title?: string;
   isFixture?: boolean; // Add isFixture prop to determine if we're in a fixture or test case
   fixtures?: Fixture[]; // Add fixtures prop to pass available fixtures
+  stepGroups?: CallTarget[];
+  testCases?: CallTarget[];
 }
 
 export interface StepFormData {
@@ -32,6 +40,8 @@ export interface StepFormData {
   expected: string;
   playwrightScript: string;
   fixtureId?: string;
+  calledGroupId?: string;
+  calledTestCaseId?: string;
 }
 
 export function AddStepForm({ 
@@ -41,12 +51,16 @@ export function AddStepForm({
   initialData = { action: '', data: '', expected: '', playwrightScript: '' },
   title = 'Add New Step',
   isFixture = false,
-  fixtures = []
+  fixtures = [],
+  stepGroups = [],
+  testCases = []
 }: AddStepFormProps) {
   const [formData, setFormData] = useState<StepFormData>(initialData);
   const [showPlaywrightScript, setShowPlaywrightScript] = useState(false);
   const [showFixtureSuggestions, setShowFixtureSuggestions] = useState(false);
   const [filteredFixtures, setFilteredFixtures] = useState<Fixture[]>([]);
+  const [filteredGroups, setFilteredGroups] = useState<CallTarget[]>([]);
+  const [filteredTestCases, setFilteredTestCases] = useState<CallTarget[]>([]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,23 +83,41 @@ export function AddStepForm({
       // Filter fixtures based on what's after "call " if anything
       const searchTerm = formData.action.trim().substring(5).toLowerCase();
       
-      const filtered = fixtures.filter(fixture => 
-        searchTerm === '' || fixture.name.toLowerCase().includes(searchTerm)
-      );
+      const matches = <T extends { name: string }>(items: T[]) =>
+        items.filter(item => searchTerm === '' || item.name.toLowerCase().includes(searchTerm));
+      const filtered = matches(fixtures);
+      const groups = matches(stepGroups);
+      const calledTestCases = matches(testCases);
       
       setFilteredFixtures(filtered);
-      setShowFixtureSuggestions(filtered.length > 0);
+      setFilteredGroups(groups);
+      setFilteredTestCases(calledTestCases);
+      setShowFixtureSuggestions(filtered.length + groups.length + calledTestCases.length > 0);
     } else {
       setShowFixtureSuggestions(false);
     }
-  }, [formData.action, fixtures, isFixture]);
+  }, [formData.action, fixtures, stepGroups, testCases, isFixture]);
 
   // Handle selecting a fixture from suggestions
   const handleSelectFixture = (fixture: Fixture) => {
     setFormData({
       ...formData,
       action: `Call fixture: ${fixture.name}`,
-      fixtureId: fixture.id
+      fixtureId: fixture.id,
+      calledGroupId: undefined,
+      calledTestCaseId: undefined
+    });
+    setShowFixtureSuggestions(false);
+  };
+
+  // The steps of the group or test case are generated in place of the step's own script
+  const handleSelectCall = (target: CallTarget, kind: 'group' | 'testCase') => {
+    setFormData({
+      ...formData,
+      action: kind === 'group' ? `Call shared steps: ${target.name}` : `Call test case: ${target.name}`,
+      fixtureId: undefined,
+      calledGroupId: kind === 'group' ? target.id : undefined,
+      calledTestCaseId: kind === 'testCase' ? target.id : undefined
     });
     setShowFixtureSuggestions(false);
   };
@@ -107,16 +139,18 @@ export function AddStepForm({
           
           {!isFixture && (
             <p className="text-xs text-muted-foreground mt-1">
-              Type 'call' to add a fixture
+              Type &apos;call&apos; to add a fixture, shared steps or another test case
             </p>
           )}
           
           {/* Fixture suggestions */}
           {showFixtureSuggestions && (
             <div className="absolute z-10 mt-1 w-full bg-background border border-border rounded-md shadow-md max-h-60 overflow-y-auto">
-              <div className="p-2 text-xs text-muted-foreground border-b">
-                Select a fixture:
-              </div>
+              {filteredFixtures.length > 0 && (
+                <div className="p-2 text-xs text-muted-foreground border-b">
+                  Select a fixture:
+                </div>
+              )}
               <div className="py-1">
                 {filteredFixtures.map((fixture) => (
                   <div
@@ -132,6 +166,44 @@ export function AddStepForm({
                   </div>
                 ))}
               </div>
+              {filteredGroups.length > 0 && (
+                <>
+                  <div className="p-2 text-xs text-muted-foreground border-y">
+                    Select shared steps:
+                  </div>
+                  <div className="py-1">
+                    {filteredGroups.map((group) => (
+                      <div
+                        key={group.id}
+                        className="px-4 py-2 text-sm hover:bg-muted cursor-pointer flex items-center"
+                        onClick={() => handleSelectCall(group, 'group')}
+                      >
+                        <Layers className="h-4 w-4 mr-2 text-muted-foreground" />
+                        {group.name}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+              {filteredTestCases.length > 0 && (
+                <>
+                  <div className="p-2 text-xs text-muted-foreground border-y">
+                    Select a test case:
+                  </div>
+                  <div className="py-1">
+                    {filteredTestCases.map((testCase) => (
+                      <div
+                        key={testCase.id}
+                        className="px-4 py-2 text-sm hover:bg-muted cursor-pointer flex items-center"
+                        onClick={() => handleSelectCall(testCase, 'testCase')}
+                      >
+                        <FileText className="h-4 w-4 mr-2 text-muted-foreground" />
+                        {testCase.name}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { formatDistance } from 'date-fns';
+import { GitCommit as GitCommitIcon, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { GitService } from '@/lib/api/services';
+import type { GitCommit } from '@/lib/playwright/project-git';
+
+interface FileHistoryProps {
+  projectId: string;
+  filePath: string;
+  // Reloads the history when the test case changes
+  version?: string;
+}
+
+function patchLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ') || line.startsWith('index ')) {
+    return 'text-muted-foreground';
+  }
+  if (line.startsWith('@@')) {
+    return 'text-blue-600';
+  }
+  if (line.startsWith('+')) {
+    return 'bg-green-50 text-green-700';
+  }
+  if (line.startsWith('-')) {
+    return 'bg-red-50 text-red-700';
+  }
+  return '';
+}
+
+/**
+ * Git history of a generated file, with the patch of each commit
+ */
+export function FileHistory({ projectId, filePath, version }: FileHistoryProps) {
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [initialized, setInitialized] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [openSha, setOpenSha] = useState<string | null>(null);
+  const [patches, setPatches] = useState<Record<string, string>>({});
+  const gitService = new GitService();
+
+  useEffect(() => {
+    gitService.getFileHistory(projectId, filePath)
+      .then(history => {
+        setInitialized(history.initialized);
+        setCommits(history.commits);
+      })
+      .catch(error => console.error('Error loading file history:', error))
+      .finally(() => setLoading(false));
+  }, [projectId, filePath, version]);
+
+  async function togglePatch(sha: string) {
+    if (openSha === sha) {
+      setOpenSha(null);
+      return;
+    }
+
+    setOpenSha(sha);
+    if (patches[sha] === undefined) {
+      try {
+        const { patch } = await gitService.getFilePatch(projectId, filePath, sha);
+        setPatches(prev => ({ ...prev, [sha]: patch }));
+      } catch (error) {
+        console.error('Error loading commit patch:', error);
+        setPatches(prev => ({ ...prev, [sha]: '' }));
+      }
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>File History</CardTitle>
+        <CardDescription>
+          Commits to <code>{filePath}</code> in the Playwright project
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !initialized ? (
+          <p className="text-muted-foreground">The Playwright project is not a git repository. Initialize it in the project configuration.</p>
+        ) : commits.length === 0 ? (
+          <p className="text-muted-foreground">No commits for this file yet</p>
+        ) : (
+          <div className="space-y-4">
+            {commits.map(commit => (
+              <div key={commit.sha} className="border-b pb-2 last:border-0">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{commit.subject}</p>
+                    <p className="text-sm text-muted-foreground">
+                      <GitCommitIcon className="inline h-3 w-3 mr-1" />
+                      <code>{commit.sha.slice(0, 7)}</code> by {commit.authorName} ({commit.authorEmail}),{' '}
+                      {formatDistance(new Date(commit.date), new Date(), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => togglePatch(commit.sha)}>
+                    {openSha === commit.sha ? 'Hide changes' : 'Show changes'}
+                  </Button>
+                </div>
+                {openSha === commit.sha && (
+                  patches[commit.sha] === undefined ? (
+                    <div className="flex justify-center p-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : (
+                    <pre className="mt-2 rounded-md border bg-slate-50 p-3 text-xs font-mono whitespace-pre-wrap overflow-auto max-h-[400px]">
+                      {patches[commit.sha].split('\n').map((line, index) => (
+                        <div key={index} className={patchLineClass(line)}>{line}</div>
+                      ))}
+                    </pre>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, FileCode, Loader2, Lock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TestCaseService } from '@/lib/api/services';
+import { diffLines } from '@/lib/utils/text-diff';
+import type { GeneratedFileSync, TestFileSync } from '@/lib/playwright/file-sync';
+
+interface FileSyncPanelProps {
+  projectId: string;
+  testCaseId: string;
+  // Reloads the sync state when the test case changes
+  version?: string;
+  onStepsChange: () => void;
+}
+
+const statusLabels: Record<GeneratedFileSync['status'], string> = {
+  'in-sync': 'In sync',
+  modified: 'Edited outside the app',
+  missing: 'File missing',
+  untracked: 'Not tracked',
+};
+
+function isDrifted(file: GeneratedFileSync | null): boolean {
+  return !!file && (file.status === 'modified' || file.status === 'missing');
+}
+
+function FileDiff({ file }: { file: GeneratedFileSync }) {
+  const lines = diffLines(file.generatedContent, file.content || '');
+
+  return (
+    <pre className="rounded-md border bg-slate-50 p-3 text-xs font-mono whitespace-pre-wrap overflow-auto max-h-[400px]">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={line.type === 'added' ? 'bg-green-50 text-green-700' : line.type === 'removed' ? 'bg-red-50 text-red-700' : ''}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.value}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
+/**
+ * Shows when the generated test file, or a fixture file it uses, was edited outside the app,
+ * with a diff against the DB and the actions to resolve it
+ */
+export function FileSyncPanel({ projectId, testCaseId, version, onStepsChange }: FileSyncPanelProps) {
+  const [sync, setSync] = useState<TestFileSync | null>(null);
+  const [openDiff, setOpenDiff] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const testCaseService = new TestCaseService();
+
+  useEffect(() => {
+    testCaseService.getTestFileSync(projectId, testCaseId)
+      .then(setSync)
+      .catch(error => console.error('Error loading test file sync state:', error));
+  }, [projectId, testCaseId, version]);
+
+  const driftedFixtures = sync?.fixtures.filter(isDrifted) || [];
+  if (!sync || (!sync.codeOwned && !isDrifted(sync.testFile) && driftedFixtures.length === 0)) {
+    return null;
+  }
+
+  const runAction = async (
+    action: Parameters<TestCaseService['syncTestFile']>[2],
+    successMessage: string
+  ) => {
+    setSaving(true);
+    try {
+      setSync(await testCaseService.syncTestFile(projectId, testCaseId, action));
+      setOpenDiff(null);
+      toast.success(successMessage);
+      if (action.action === 'accept') {
+        onStepsChange();
+      }
+    } catch (error) {
+      console.error('Error syncing test file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sync test file');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const testFile = sync.testFile;
+  const testFileChanged = !!testFile && testFile.content !== testFile.generatedContent;
+
+  return (
+    <Card className="border-amber-300">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {sync.codeOwned ? <Lock className="h-5 w-5" /> : <AlertTriangle className="h-5 w-5 text-amber-500" />}
+          {sync.codeOwned ? 'Code-owned test' : 'Files changed outside the app'}
+        </CardTitle>
+        <CardDescription>
+          {sync.codeOwned
+            ? 'The test file is the source of truth. Step changes made here are not written to it.'
+            : 'Generated files were edited in the Playwright project. They are not overwritten until you choose what to keep.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {testFile && (isDrifted(testFile) || testFileChanged) && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <FileCode className="h-4 w-4 text-muted-foreground" />
+                <code>{testFile.path}</code>
+                <Badge variant="outline">{statusLabels[testFile.status]}</Badge>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {testFileChanged && (
+                  <Button variant="ghost" size="sm" onClick={() => setOpenDiff(openDiff === testFile.path ? null : testFile.path)}>
+                    {openDiff === testFile.path ? 'Hide diff' : 'Show diff'}
+                  </Button>
+                )}
+                {testFile.status !== 'missing' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => runAction({ action: 'accept' }, 'Steps updated from the test file')}
+                  >
+                    Accept file into steps
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={saving}
+                  onClick={() => {
+                    if (confirm(`Overwrite ${testFile.path} from the steps? Edits made to the file are lost.`)) {
+                      runAction({ action: 'overwrite' }, 'Test file regenerated');
+                    }
+                  }}
+                >
+                  Overwrite from app
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={saving}
+                  onClick={() => runAction(
+                    { action: 'code-owned', codeOwned: !sync.codeOwned },
+                    sync.codeOwned ? 'The app manages the test file again' : 'Test marked as code-owned'
+                  )}
+                >
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {sync.codeOwned ? 'Stop code ownership' : 'Mark as code-owned'}
+                </Button>
+              </div>
+            </div>
+            {openDiff === testFile.path && (
+              <>
+                <p className="text-xs text-muted-foreground">- generated from the steps, + in the file</p>
+                <FileDiff file={testFile} />
+              </>
+            )}
+          </div>
+        )}
+
+        {sync.codeOwned && testFile && !isDrifted(testFile) && !testFileChanged && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-muted-foreground">The test file matches the steps.</span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={saving}
+              onClick={() => runAction({ action: 'code-owned', codeOwned: false }, 'The app manages the test file again')}
+            >
+              Stop code ownership
+            </Button>
+          </div>
+        )}
+
+        {driftedFixtures.map(fixture => (
+          <div key={fixture.fixtureId} className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2 text-sm">
+                <FileCode className="h-4 w-4 text-muted-foreground" />
+                <span>Fixture {fixture.name}</span>
+                <code>{fixture.path}</code>
+                <Badge variant="outline">{statusLabels[fixture.status]}</Badge>
+              </div>
+              <div className="flex gap-2">
+                {fixture.content !== null && (
+                  <Button variant="ghost" size="sm" onClick={() => setOpenDiff(openDiff === fixture.path ? null : fixture.path)}>
+                    {openDiff === fixture.path ? 'Hide diff' : 'Show diff'}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={saving}
+                  onClick={() => {
+                    if (confirm(`Overwrite ${fixture.path} from the fixture steps? Edits made to the file are lost.`)) {
+                      runAction({ action: 'overwrite', fixtureId: fixture.fixtureId }, 'Fixture file regenerated');
+                    }
+                  }}
+                >
+                  Overwrite from app
+                </Button>
+              </div>
+            </div>
+            {openDiff === fixture.path && (
+              <>
+                <p className="text-xs text-muted-foreground">- generated from the fixture steps, + in the file</p>
+                <FileDiff file={fixture} />
+              </>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { AlertTriangle, FileCode, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TestCaseService } from '@/lib/api/services';
+import type { SpecImportResult } from '@/lib/playwright/spec-importer';
+
+interface ImportSpecDialogProps {
+  projectId: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportSource = 'upload' | 'path';
+
+/**
+ * Import hand-written Playwright spec files as test cases, with a preview of what will be created
+ */
+export function ImportSpecDialog({ projectId, isOpen, onClose, onImported }: ImportSpecDialogProps) {
+  const [source, setSource] = useState<ImportSource>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [specPath, setSpecPath] = useState('tests');
+  const [result, setResult] = useState<SpecImportResult | null>(null);
+  const [imported, setImported] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const testCaseService = new TestCaseService();
+
+  function reset() {
+    setResult(null);
+    setImported(false);
+  }
+
+  function handleClose() {
+    reset();
+    setFile(null);
+    onClose();
+  }
+
+  async function runImport(dryRun: boolean) {
+    if (source === 'upload' && !file) {
+      toast.error('Choose a spec file or zip archive');
+      return;
+    }
+    if (source === 'path' && !specPath.trim()) {
+      toast.error('Enter a path inside the Playwright project');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const importResult = await testCaseService.importSpecFiles(
+        projectId,
+        source === 'upload' ? { file: file! } : { path: specPath.trim() },
+        dryRun
+      );
+      setResult(importResult);
+      setImported(!dryRun);
+      if (!dryRun) {
+        toast.success(`Imported ${importResult.created.length} test case${importResult.created.length === 1 ? '' : 's'}`);
+        onImported();
+      }
+    } catch (error) {
+      console.error('Error importing spec files:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import spec files');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const tests = imported
+    ? result?.created.map(({ name, file, steps, tags }) => ({ name, file, steps, tags })) || []
+    : result?.tests.map(({ name, file, steps, tags }) => ({ name, file, steps: steps.length, tags })) || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Import Spec Files</DialogTitle>
+          <DialogDescription>
+            Each test() becomes a test case, and its test.step() calls or statements become steps.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={source} onValueChange={(value) => { setSource(value as ImportSource); reset(); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="upload">Upload file or zip</SelectItem>
+                  <SelectItem value="path">Project path</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              {source === 'upload' ? (
+                <>
+                  <Label htmlFor="spec-file">File</Label>
+                  <Input
+                    id="spec-file"
+                    type="file"
+                    accept=".ts,.js,.zip"
+                    onChange={(e) => { setFile(e.target.files?.[0] || null); reset(); }}
+                  />
+                </>
+              ) : (
+                <>
+                  <Label htmlFor="spec-path">Path inside the Playwright project</Label>
+                  <Input
+                    id="spec-path"
+                    value={specPath}
+                    onChange={(e) => { setSpecPath(e.target.value); reset(); }}
+                    placeholder="tests/legacy"
+                  />
+                </>
+              )}
+            </div>
+          </div>
+
+          {result && (
+            <div className="space-y-4 max-h-[420px] overflow-y-auto">
+              <div className="space-y-2">
+                <Label>{imported ? 'Created test cases' : 'Test cases to create'} ({tests.length})</Label>
+                {tests.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing to import</p>
+                ) : (
+                  <div className="rounded-md border divide-y">
+                    {tests.map((test, index) => (
+                      <div key={index} className="flex items-center justify-between gap-4 px-3 py-2 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <FileCode className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate">{test.name}</span>
+                          {test.tags.map(tag => (
+                            <Badge key={tag} variant="outline">{tag}</Badge>
+                          ))}
+                        </div>
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          {test.steps} step{test.steps === 1 ? '' : 's'} · {test.file}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {result.issues.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Could not be mapped ({result.issues.length})</Label>
+                  <ul className="space-y-1 text-sm">
+                    {result.issues.map((issue, index) => (
+                      <li key={index} className="flex items-start gap-2">
+                        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                        <span>
+                          <code className="text-xs">{issue.file}{issue.line ? `:${issue.line}` : ''}</code> {issue.message}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            {imported ? 'Close' : 'Cancel'}
+          </Button>
+          {!imported && (
+            <>
+              <Button variant="outline" onClick={() => runImport(true)} disabled={loading}>
+                Preview
+              </Button>
+              <Button onClick={() => runImport(false)} disabled={loading || (result !== null && result.tests.length === 0)}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
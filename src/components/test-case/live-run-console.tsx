@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, XCircle, MinusCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { useRunStream, RunTestProgress } from '@/lib/api/hooks/use-run-stream';
+import { isRunActive } from '@/lib/test-run/run-status';
+
+interface LiveRunConsoleProps {
+  projectId: string;
+  testResultId: string;
+  onFinished?: (status: string) => void;
+}
+
+function TestStatusIcon({ status }: { status: RunTestProgress['status'] }) {
+  switch (status) {
+    case 'passed':
+      return <CheckCircle className="h-4 w-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-500" />;
+    case 'flaky':
+      return <AlertCircle className="h-4 w-4 text-yellow-500" />;
+    default:
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+  }
+}
+
+export function LiveRunConsole({ projectId, testResultId, onFinished }: LiveRunConsoleProps) {
+  const { lines, tests, status, connected } = useRunStream({ projectId, testResultId });
+  const consoleRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (consoleRef.current) {
+      consoleRef.current.scrollTop = consoleRef.current.scrollHeight;
+    }
+  }, [lines.length]);
+
+  useEffect(() => {
+    if (status && !isRunActive(status)) {
+      onFinished?.(status);
+    }
+  }, [status]);
+
+  const running = !status || isRunActive(status);
+  const passed = tests.filter(test => test.status === 'passed' || test.status === 'flaky').length;
+  const failed = tests.filter(test => test.status === 'failed').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center gap-2">
+          {running && <Loader2 className="h-4 w-4 animate-spin text-blue-500" />}
+          <Badge variant="outline" className="capitalize">
+            {status || 'connecting'}
+          </Badge>
+          {running && (
+            <span className="text-xs text-muted-foreground">
+              {connected ? 'Live' : 'Reconnecting...'}
+            </span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="default" className="bg-green-100 text-green-800">
+            {passed} Passed
+          </Badge>
+          <Badge variant="destructive">
+            {failed} Failed
+          </Badge>
+        </div>
+      </div>
+
+      {tests.length > 0 && (
+        <div className="rounded-md border divide-y">
+          {tests.map(test => (
+            <div key={test.key} className="flex items-center justify-between px-3 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <TestStatusIcon status={test.status} />
+                <span className="font-medium">{test.title}</span>
+                {test.project && (
+                  <Badge variant="outline" className="capitalize text-xs">{test.project}</Badge>
+                )}
+                {test.retry ? (
+                  <span className="text-xs text-muted-foreground">retry #{test.retry}</span>
+                ) : null}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {test.durationMs !== undefined ? `${(test.durationMs / 1000).toFixed(2)}s` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-md border bg-slate-950">
+        <pre
+          ref={consoleRef}
+          className="text-xs font-mono whitespace-pre-wrap overflow-auto max-h-[400px] p-4 text-slate-100"
+        >
+          {lines.length > 0 ? (
+            lines.map(line => (
+              <div key={line.id} className={line.stream === 'stderr' ? 'text-red-400' : undefined}>
+                {line.line || ' '}
+              </div>
+            ))
+          ) : (
+            <span className="text-slate-400">Waiting for output...</span>
+          )}
+        </pre>
+      </div>
+    </div>
+  );
+}
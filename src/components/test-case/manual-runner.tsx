@@ -0,0 +1,338 @@
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Ban, CheckCircle, ChevronLeft, ChevronRight, ImagePlus, Loader2, SkipForward, X, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TestCaseService } from '@/lib/api/services';
+import { Step, TestCase } from '@/lib/api/interfaces';
+import type { ManualStepStatus } from '@/lib/test-run/manual-run';
+
+export interface ManualRunTestCase {
+  testCase: TestCase;
+  steps: Step[];
+}
+
+interface StepResult {
+  status?: ManualStepStatus;
+  notes: string;
+  duration: number;
+  screenshots: File[];
+}
+
+interface ManualRunnerProps {
+  projectId: string;
+  testCases: ManualRunTestCase[];
+  // Test plan the run is recorded against
+  testPlanId?: string;
+  onSubmitted: (testResultId: string) => void;
+}
+
+const statusOptions: Array<{ status: ManualStepStatus; label: string; icon: typeof CheckCircle; className: string }> = [
+  { status: 'passed', label: 'Passed', icon: CheckCircle, className: 'text-green-600' },
+  { status: 'failed', label: 'Failed', icon: XCircle, className: 'text-red-600' },
+  { status: 'blocked', label: 'Blocked', icon: Ban, className: 'text-amber-600' },
+  { status: 'skipped', label: 'Skipped', icon: SkipForward, className: 'text-slate-500' },
+];
+
+const statusBadgeClasses: Record<ManualStepStatus, string> = {
+  passed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  blocked: 'bg-amber-100 text-amber-800',
+  skipped: 'bg-slate-100 text-slate-700',
+};
+
+const resultKey = (testCaseId: string, stepId: string) => `${testCaseId}:${stepId}`;
+
+/**
+ * Walks a tester through the steps of one or more manual test cases and records the outcome as a test run
+ */
+export function ManualRunner({ projectId, testCases, testPlanId, onSubmitted }: ManualRunnerProps) {
+  const [testCaseIndex, setTestCaseIndex] = useState(0);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [results, setResults] = useState<Record<string, StepResult>>({});
+  const [testCaseNotes, setTestCaseNotes] = useState<Record<string, string>>({});
+  const [runName, setRunName] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // Time spent on the current step is added to its duration when the tester moves on
+  const stepStartedAt = useRef(Date.now());
+
+  const current = testCases[testCaseIndex];
+  const step = current?.steps[stepIndex];
+  const key = step ? resultKey(current.testCase.id, step.id) : '';
+  const result: StepResult = results[key] || { notes: '', duration: 0, screenshots: [] };
+
+  const totalSteps = testCases.reduce((sum, item) => sum + item.steps.length, 0);
+  const recordedSteps = testCases.reduce(
+    (sum, item) => sum + item.steps.filter(s => results[resultKey(item.testCase.id, s.id)]?.status).length,
+    0
+  );
+
+  const updateResult = (changes: Partial<StepResult>, elapsed = 0) => {
+    setResults(previous => {
+      const existing = previous[key] || { notes: '', duration: 0, screenshots: [] };
+      return { ...previous, [key]: { ...existing, ...changes, duration: existing.duration + elapsed } };
+    });
+  };
+
+  const takeElapsed = () => {
+    const elapsed = Date.now() - stepStartedAt.current;
+    stepStartedAt.current = Date.now();
+    return elapsed;
+  };
+
+  const goTo = (nextTestCaseIndex: number, nextStepIndex: number) => {
+    updateResult({}, takeElapsed());
+    setTestCaseIndex(nextTestCaseIndex);
+    setStepIndex(nextStepIndex);
+  };
+
+  const markStep = (status: ManualStepStatus) => {
+    updateResult({ status }, takeElapsed());
+    if (stepIndex < current.steps.length - 1) {
+      setStepIndex(stepIndex + 1);
+    } else if (testCaseIndex < testCases.length - 1) {
+      setTestCaseIndex(testCaseIndex + 1);
+      setStepIndex(0);
+    }
+  };
+
+  const skipRemaining = () => {
+    setResults(previous => {
+      const next = { ...previous };
+      for (const item of testCases) {
+        for (const s of item.steps) {
+          const k = resultKey(item.testCase.id, s.id);
+          if (!next[k]?.status) {
+            next[k] = { ...(next[k] || { notes: '', duration: 0, screenshots: [] }), status: 'skipped' };
+          }
+        }
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const screenshots = testCases.flatMap(item => item.steps.flatMap(s =>
+        (results[resultKey(item.testCase.id, s.id)]?.screenshots || []).map(file => ({ testCaseId: item.testCase.id, stepId: s.id, file }))
+      ));
+      const { testResultId } = await new TestCaseService().recordManualRun(projectId, {
+        name: runName.trim() || undefined,
+        testPlanId,
+        testCases: testCases.map(item => ({
+          testCaseId: item.testCase.id,
+          version: String(item.testCase.version),
+          notes: testCaseNotes[item.testCase.id]?.trim() || undefined,
+          steps: item.steps.map(s => {
+            const stepResult = results[resultKey(item.testCase.id, s.id)];
+            return {
+              stepId: s.id,
+              status: stepResult!.status!,
+              notes: stepResult?.notes.trim() || undefined,
+              duration: stepResult?.duration,
+            };
+          }),
+        })),
+      }, screenshots);
+      toast.success('Manual run recorded');
+      onSubmitted(testResultId);
+    } catch (error) {
+      console.error('Error recording manual run:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to record manual run');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-1">
+        <CardHeader>
+          <CardTitle className="text-lg">Progress</CardTitle>
+          <CardDescription>{recordedSteps} of {totalSteps} steps recorded</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {testCases.map((item, itemIndex) => (
+            <div key={item.testCase.id} className="space-y-1">
+              <p className="text-sm font-medium">{item.testCase.name}</p>
+              {item.steps.map((s, index) => {
+                const status = results[resultKey(item.testCase.id, s.id)]?.status;
+                const active = itemIndex === testCaseIndex && index === stepIndex;
+                return (
+                  <button
+                    key={s.id}
+                    type="button"
+                    className={`flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm ${active ? 'bg-muted font-medium' : 'hover:bg-muted/50'}`}
+                    onClick={() => goTo(itemIndex, index)}
+                  >
+                    <span className="truncate">{index + 1}. {s.action}</span>
+                    {status && <Badge variant="outline" className={`capitalize ${statusBadgeClasses[status]}`}>{status}</Badge>}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardDescription>
+              {current.testCase.name} · Step {stepIndex + 1} of {current.steps.length}
+            </CardDescription>
+            <CardTitle className="text-xl">{step.action}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {step.data && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-1">Data</h3>
+                <p className="whitespace-pre-wrap">{step.data}</p>
+              </div>
+            )}
+            {step.expected && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-1">Expected Result</h3>
+                <p className="whitespace-pre-wrap">{step.expected}</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="step-notes">Notes</Label>
+              <Textarea
+                id="step-notes"
+                placeholder="What you observed, especially when the step failed or was blocked"
+                value={result.notes}
+                onChange={(e) => updateResult({ notes: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="step-screenshots" className="flex items-center gap-2">
+                <ImagePlus className="h-4 w-4" />
+                Screenshots
+              </Label>
+              <Input
+                id="step-screenshots"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  updateResult({ screenshots: [...result.screenshots, ...files] });
+                  e.target.value = '';
+                }}
+              />
+              {result.screenshots.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {result.screenshots.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="flex items-center gap-2">
+                      <span className="truncate">{file.name}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => updateResult({ screenshots: result.screenshots.filter((_, i) => i !== index) })}
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {statusOptions.map(option => (
+                <Button
+                  key={option.status}
+                  variant={result.status === option.status ? 'default' : 'outline'}
+                  onClick={() => markStep(option.status)}
+                >
+                  <option.icon className={`mr-2 h-4 w-4 ${result.status === option.status ? '' : option.className}`} />
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+
+            <div className="flex justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={testCaseIndex === 0 && stepIndex === 0}
+                onClick={() => stepIndex > 0
+                  ? goTo(testCaseIndex, stepIndex - 1)
+                  : goTo(testCaseIndex - 1, testCases[testCaseIndex - 1].steps.length - 1)}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" />
+                Previous
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={testCaseIndex === testCases.length - 1 && stepIndex === current.steps.length - 1}
+                onClick={() => stepIndex < current.steps.length - 1
+                  ? goTo(testCaseIndex, stepIndex + 1)
+                  : goTo(testCaseIndex + 1, 0)}
+              >
+                Next
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Finish Run</CardTitle>
+            <CardDescription>
+              A test case fails when any step failed, and is blocked when a step was blocked
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="run-name">Run name</Label>
+              <Input
+                id="run-name"
+                placeholder="Optional, e.g. Release 2.3 regression"
+                value={runName}
+                onChange={(e) => setRunName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="test-case-notes">Notes on {current.testCase.name}</Label>
+              <Textarea
+                id="test-case-notes"
+                value={testCaseNotes[current.testCase.id] || ''}
+                onChange={(e) => setTestCaseNotes(previous => ({ ...previous, [current.testCase.id]: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {recordedSteps < totalSteps && (
+                <Button variant="outline" onClick={skipRemaining}>
+                  Skip Remaining ({totalSteps - recordedSteps})
+                </Button>
+              )}
+              <Button onClick={handleSubmit} disabled={submitting || recordedSteps < totalSteps}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Submit Results
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistance } from 'date-fns';
+import { CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { TestCaseService } from '@/lib/api/services';
+import type { MergedRunOutcome as MergedOutcome } from '@/lib/test-run/rerun';
+
+interface MergedRunOutcomeProps {
+  projectId: string;
+  testResultId: string;
+}
+
+/**
+ * Combined outcome of a run and its reruns, shown once a run has been rerun
+ */
+export function MergedRunOutcome({ projectId, testResultId }: MergedRunOutcomeProps) {
+  const [outcome, setOutcome] = useState<MergedOutcome | null>(null);
+
+  useEffect(() => {
+    const testCaseService = new TestCaseService();
+    testCaseService.getMergedRunOutcome(projectId, testResultId)
+      .then(setOutcome)
+      .catch(error => console.error('Error loading merged test result:', error));
+  }, [projectId, testResultId]);
+
+  if (!outcome || outcome.runs.length < 2) {
+    return null;
+  }
+
+  const rerunExecutions = outcome.executions.filter(execution => execution.runCount > 1);
+  const failedCount = outcome.executions.filter(execution => !['passed', 'skipped'].includes(execution.status)).length;
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {outcome.success ? (
+            <CheckCircle className="text-green-500 h-4 w-4" />
+          ) : (
+            <XCircle className="text-red-500 h-4 w-4" />
+          )}
+          <h4 className="font-medium">
+            Merged outcome across {outcome.runs.length} runs: {outcome.success ? 'Passed' : `${failedCount} still failing`}
+          </h4>
+        </div>
+        <Badge variant="outline">{outcome.executions.length} test cases</Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        {outcome.runs.map((run, index) => (
+          <span
+            key={run.id}
+            className={`flex items-center gap-1 ${run.id === testResultId ? 'font-medium text-foreground' : ''}`}
+          >
+            {index > 0 && <RotateCcw className="h-3 w-3" />}
+            {index === 0 ? 'Original' : `Rerun ${index}`}
+            <span className="capitalize">({run.success ? 'passed' : run.status === 'completed' ? 'failed' : run.status})</span>
+            {formatDistance(new Date(run.createdAt), new Date(), { addSuffix: true })}
+          </span>
+        ))}
+      </div>
+
+      {rerunExecutions.length > 0 && (
+        <div className="divide-y text-sm">
+          {rerunExecutions.map(execution => (
+            <div key={execution.testCaseId} className="flex items-center justify-between py-1.5">
+              <span>{execution.testCaseName}</span>
+              <div className="flex items-center gap-2">
+                {execution.quarantined && (
+                  <Badge variant="outline" className="text-xs border-amber-500 text-amber-600">Quarantined</Badge>
+                )}
+                <span className="text-xs text-muted-foreground">{execution.runCount} runs</span>
+                <Badge
+                  variant={execution.status === 'passed' ? 'default' : execution.status === 'skipped' ? 'secondary' : 'destructive'}
+                  className="capitalize"
+                >
+                  {execution.status}
+                </Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
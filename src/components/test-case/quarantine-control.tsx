@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { ShieldAlert, ShieldCheck, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TestCaseService } from '@/lib/api/services';
+import { formatDate } from '@/lib/utils/date';
+import { TestCaseQuarantine } from '@/types';
+
+interface QuarantineControlProps {
+  projectId: string;
+  testCaseId: string;
+}
+
+/**
+ * Flakiness score of a test case, with actions to quarantine it or release it again
+ */
+export function QuarantineControl({ projectId, testCaseId }: QuarantineControlProps) {
+  const [quarantine, setQuarantine] = useState<TestCaseQuarantine | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const testCaseService = new TestCaseService();
+
+  useEffect(() => {
+    testCaseService.getQuarantine(projectId, testCaseId)
+      .then(setQuarantine)
+      .catch(error => console.error('Error loading quarantine state:', error));
+  }, [projectId, testCaseId]);
+
+  if (!quarantine) {
+    return null;
+  }
+
+  const handleQuarantine = async () => {
+    setSaving(true);
+    try {
+      const updated = await testCaseService.quarantineTestCase(projectId, testCaseId, reason);
+      setQuarantine(prev => ({ ...prev, ...updated }));
+      setIsDialogOpen(false);
+      setReason('');
+      toast.success('Test case quarantined');
+    } catch (error) {
+      console.error('Error quarantining test case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to quarantine test case');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    setSaving(true);
+    try {
+      const updated = await testCaseService.releaseTestCase(projectId, testCaseId);
+      setQuarantine(prev => ({ ...prev, ...updated }));
+      toast.success('Test case released from quarantine');
+    } catch (error) {
+      console.error('Error releasing test case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to release test case');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const flakiness = quarantine.flakiness;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {flakiness && flakiness.runs > 0 && (
+        <Badge
+          variant="outline"
+          title={`${flakiness.retryPasses} passed after retry, ${flakiness.flips} pass/fail flips in the last ${flakiness.runs} runs`}
+        >
+          Flakiness {Math.round(flakiness.score * 100)}%
+        </Badge>
+      )}
+      {quarantine.quarantined ? (
+        <>
+          <Badge
+            className="bg-amber-500 text-white"
+            title={[
+              quarantine.quarantineReason,
+              quarantine.quarantinedBy && `by ${quarantine.quarantinedBy}`,
+              quarantine.quarantinedAt && formatDate(quarantine.quarantinedAt),
+            ].filter(Boolean).join(' • ')}
+          >
+            Quarantined
+          </Badge>
+          <Button variant="outline" size="sm" onClick={handleRelease} disabled={saving}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            Release
+          </Button>
+        </>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setIsDialogOpen(true)}>
+          <ShieldAlert className="mr-2 h-4 w-4" />
+          Quarantine
+        </Button>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Quarantine Test Case</DialogTitle>
+            <DialogDescription>
+              Quarantined test cases keep running, but their failures no longer fail the test run until they are released.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="quarantine-reason">Reason</Label>
+            <Textarea
+              id="quarantine-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Optional, e.g. fails intermittently on slow CI agents"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleQuarantine} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Quarantine
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle2, ClipboardCheck, Loader2, MessageSquare, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ReviewService } from '@/lib/api/services';
+import { usePermission } from '@/lib/auth/use-permission';
+import { formatDate } from '@/lib/utils/date';
+import type { ReviewAction, ReviewStatus, TestCaseReviewState } from '@/lib/review/test-case-review';
+
+interface ReviewPanelProps {
+  projectId: string;
+  testCaseId: string;
+  // Reloads the review when the test case changes
+  version?: string;
+  onCompare: (approvedVersion: string) => void;
+}
+
+export const reviewStatusLabels: Record<ReviewStatus, string> = {
+  draft: 'Awaiting review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+};
+
+const actionLabels: Record<ReviewAction, string> = {
+  approved: 'approved',
+  changes_requested: 'requested changes to',
+  commented: 'commented on',
+  baselined: 'approved, as review mode was enabled,',
+};
+
+/**
+ * Review state of a test case in a project with review mode, with the review actions and history
+ */
+export function ReviewPanel({ projectId, testCaseId, version, onCompare }: ReviewPanelProps) {
+  const [review, setReview] = useState<TestCaseReviewState | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const canReview = usePermission('approve', 'testcase');
+  const canEdit = usePermission('update', 'project', projectId);
+  const reviewService = new ReviewService();
+
+  useEffect(() => {
+    reviewService.getTestCaseReview(projectId, testCaseId)
+      .then(setReview)
+      .catch(error => console.error('Error loading test case review:', error));
+  }, [projectId, testCaseId, version]);
+
+  if (!review?.reviewMode) {
+    return null;
+  }
+
+  async function submit(action: 'approve' | 'request_changes' | 'comment') {
+    if (!review) return;
+    if (action !== 'approve' && !comment.trim()) {
+      toast.error('Add a comment first');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setReview(await reviewService.reviewTestCase(projectId, testCaseId, {
+        action,
+        version: review.version,
+        comment: comment.trim() || undefined,
+      }));
+      setComment('');
+      toast.success(action === 'approve' ? `v${review.version} approved` : action === 'request_changes' ? 'Changes requested' : 'Comment added');
+    } catch (error) {
+      console.error('Error reviewing test case:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to review test case');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className={review.status === 'approved' ? '' : 'border-amber-300'}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClipboardCheck className="h-5 w-5" />
+          Review
+          <Badge variant={review.status === 'changes_requested' ? 'destructive' : review.status === 'approved' ? 'default' : 'outline'}>
+            {reviewStatusLabels[review.status]}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {review.status === 'approved'
+            ? `v${review.version} is approved and is the version in the test file.`
+            : review.approvedVersion
+              ? `v${review.version} is a draft. The test file and releases keep v${review.approvedVersion} until it is approved.`
+              : `v${review.version} is a draft. The test case has no test file until a version is approved.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {review.status !== 'approved' && review.approvedVersion && (
+          <Button variant="outline" size="sm" onClick={() => onCompare(review.approvedVersion!)}>
+            Compare with approved v{review.approvedVersion}
+          </Button>
+        )}
+
+        {(canReview || canEdit) && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Leave a comment for the author or the reviewers"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" disabled={saving} onClick={() => submit('comment')}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Comment
+              </Button>
+              {canReview && review.status !== 'approved' && (
+                <>
+                  <Button variant="outline" size="sm" disabled={saving} onClick={() => submit('request_changes')}>
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Request changes
+                  </Button>
+                  <Button size="sm" disabled={saving} onClick={() => submit('approve')}>
+                    {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                    Approve v{review.version}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {review.events.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">History</h4>
+            <ul className="space-y-2 text-sm">
+              {review.events.map(event => (
+                <li key={event.id} className="border-l-2 pl-3">
+                  <p className="text-muted-foreground">
+                    {event.createdBy || 'System'} {actionLabels[event.action]} v{event.version} on {formatDate(event.createdAt)}
+                  </p>
+                  {event.comment && <p className="whitespace-pre-wrap">{event.comment}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+
+export interface RunMatrixCell {
+  id: string;
+  browser: string;
+  environment?: string | null;
+  status: string;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  duration: number;
+}
+
+interface RunMatrixGridProps {
+  cells: RunMatrixCell[];
+}
+
+/**
+ * Browser × environment outcome of a matrix run. Plain single browser runs show nothing.
+ */
+export function RunMatrixGrid({ cells }: RunMatrixGridProps) {
+  const browsers = Array.from(new Set(cells.map(cell => cell.browser)));
+  const environments = Array.from(new Set(cells.map(cell => cell.environment ?? '')));
+
+  if (browsers.length < 2 && environments.every(environment => !environment)) {
+    return null;
+  }
+
+  const findCell = (browser: string, environment: string) =>
+    cells.find(cell => cell.browser === browser && (cell.environment ?? '') === environment);
+
+  return (
+    <div className="rounded-md border overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 border-b">
+          <tr>
+            <th className="p-3 text-left font-medium">Browser</th>
+            {environments.map(environment => (
+              <th key={environment} className="p-3 text-left font-medium">{environment || 'Default'}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {browsers.map(browser => (
+            <tr key={browser} className="border-b last:border-0">
+              <td className="p-3 font-medium capitalize">{browser}</td>
+              {environments.map(environment => {
+                const cell = findCell(browser, environment);
+                return (
+                  <td key={environment} className="p-3">
+                    {cell ? (
+                      <div className="flex flex-col gap-1">
+                        <Badge variant={cell.status === 'passed' ? 'default' : 'destructive'} className="w-fit capitalize">
+                          {cell.status}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {cell.passed} passed
+                          {cell.failed > 0 && ` • ${cell.failed} failed`}
+                          {cell.flaky > 0 && ` • ${cell.flaky} flaky`}
+                          {cell.skipped > 0 && ` • ${cell.skipped} skipped`}
+                          {` • ${(cell.duration / 1000).toFixed(2)}s`}
+                        </span>
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">Not run</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -5,15 +5,19 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { PlayCircle, Copy, Settings, CheckCircle, XCircle, Loader2, Video, Terminal, Download } from 'lucide-react';
+import { PlayCircle, Copy, Settings, CheckCircle, XCircle, Loader2, Video, Terminal, Download, Ban, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { formatDistance } from 'date-fns';
 import { Badge } from '@/components/ui/badge';
 import { TestCaseService } from '@/lib/api/services/test-case-service';
 import { ProjectService } from '@/lib/api/services/project-service';
-import { TestCase as ApiTestCase, TestResult as ApiTestResult } from '@/lib/api/interfaces';
-import { TestResultHistory } from '@/types';
+import { EnvironmentService } from '@/lib/api/services/environment-service';
+import { TestResult as ApiTestResult } from '@/lib/api/interfaces';
+import { ProjectEnvironment, TestResultHistory } from '@/types';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { isRunActive } from '@/lib/test-run/run-status';
+import type { RunSpecInput } from '@/lib/test-run/run-spec';
+import { LiveRunConsole } from './live-run-console';
 
 interface ConfigurationSettings {
   playwright?: {
@@ -41,9 +45,11 @@ export interface RunTestDialogProps {
   isOpen: boolean;
   onClose: () => void;
   projectId: string;
-  mode: 'file' | 'list' | 'project';
+  mode: 'file' | 'list' | 'project' | 'suite' | 'plan';
   testCaseId?: string;
   testCaseIds?: string[];
+  suiteIds?: string[];
+  planId?: string;
 }
 
 // Define internal component interface for TestResult that includes all needed properties
@@ -153,35 +159,42 @@ interface LocalTestResult {
   };
 }
 
-// Extended TestCase interface with testFilePath property
-interface TestCase extends Partial<ApiTestCase> {
-  id: string;
-  name: string;
-  testFilePath?: string;
-}
-
-export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, testCaseIds }: RunTestDialogProps) {
+export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, testCaseIds, suiteIds, planId }: RunTestDialogProps) {
   const [config, setConfig] = useState<ConfigurationSettings>({});
   const [loading, setLoading] = useState(true);
   const [command, setCommand] = useState('');
-  const [browser, setBrowser] = useState('chromium');
+  const [browsers, setBrowsers] = useState<string[]>(['chromium']);
+  const [environments, setEnvironments] = useState<Array<{ name: string; baseUrl: string }>>([]);
+  const [shards, setShards] = useState('1');
+  const [projectEnvironments, setProjectEnvironments] = useState<ProjectEnvironment[]>([]);
+  const [environmentId, setEnvironmentId] = useState('');
   const [headless, setHeadless] = useState(true);
   const [isConfigDialogOpen, setIsConfigDialogOpen] = useState(false);
-  const [testFilePath, setTestFilePath] = useState('tests/'); // Default test file path
   const [testResultId, setTestResultId] = useState<string | null>(null);
   const [isResultDialogOpen, setIsResultDialogOpen] = useState(false);
   const [testResult, setTestResult] = useState<LocalTestResult | null>(null);
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
-  const [testCaseData, setTestCaseData] = useState<TestCase | null>(null);
-  const [testCasesData, setTestCasesData] = useState<TestCase[]>([]);
   const [useReadableNames, setUseReadableNames] = useState(true);
   const [runMode, setRunMode] = useState<'background' | 'wait'>('background');
   const [activeTab, setActiveTab] = useState("logs"); // Default to logs tab
   const [isRunning, setIsRunning] = useState(false); // New state for running status
   const [testRunName, setTestRunName] = useState(''); // New state for test run name
   const [isDownloading, setIsDownloading] = useState(false); // New state for downloading
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [tags, setTags] = useState('');
+  const [grep, setGrep] = useState('');
   const testCaseService = new TestCaseService();
   const projectService = new ProjectService();
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    new EnvironmentService().getEnvironments(projectId)
+      .then(setProjectEnvironments)
+      .catch(error => console.error('Error loading environments:', error));
+  }, [isOpen, projectId]);
   
   // Log when activeTab changes
   useEffect(() => {
@@ -196,49 +209,6 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
     }
   }, [isResultDialogOpen]);
   
-  // Load test case data if we have a testCaseId
-  useEffect(() => {
-    async function loadTestCaseData() {
-      if (testCaseId && mode === 'file') {
-        try {
-          const data = await testCaseService.getTestCase(projectId, testCaseId);
-          setTestCaseData(data as TestCase);
-          // Use the testFilePath from the database if available
-          if (data.testFilePath) {
-            setTestFilePath(data.testFilePath);
-          }
-        } catch (error) {
-          console.error('Error loading test case data:', error);
-        }
-      }
-    }
-    
-    if (isOpen && testCaseId) {
-      loadTestCaseData();
-    }
-  }, [isOpen, projectId, testCaseId, mode]);
-  
-  // Load test cases data if we have testCaseIds
-  useEffect(() => {
-    async function loadTestCasesData() {
-      if (mode === 'list' && testCaseIds && testCaseIds.length > 0) {
-        try {
-          const cases = await Promise.all(
-            testCaseIds.map(id => testCaseService.getTestCase(projectId, id))
-          );
-          setTestCasesData(cases as TestCase[]);
-        } catch (error) {
-          console.error('Error loading test cases data:', error);
-          toast.error('Failed to load test cases data');
-        }
-      }
-    }
-    
-    if (isOpen) {
-      loadTestCasesData();
-    }
-  }, [isOpen, projectId, testCaseIds, mode]);
-  
   useEffect(() => {
     async function loadConfig() {
       try {
@@ -254,11 +224,6 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
             setHeadless(parsedConfig.browser.headless === 'true');
           }
           
-          // Set testFilePath if it exists in session config
-          if (parsedConfig.testFilePath) {
-            setTestFilePath(parsedConfig.testFilePath);
-          }
-
           // Set useReadableNames if it exists in session config
           if (parsedConfig.useReadableNames !== undefined) {
             setUseReadableNames(parsedConfig.useReadableNames);
@@ -283,7 +248,6 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
 
     if (isOpen) {
       loadConfig();
-      generateCommand();
     }
     
     // Cleanup polling interval when dialog closes
@@ -294,9 +258,24 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
     };
   }, [isOpen, projectId]);
   
+  // The preview comes from the same server-side builder that runs the tests
   useEffect(() => {
-    generateCommand();
-  }, [browser, headless, config, testFilePath, testCaseData, useReadableNames]);
+    if (!isOpen || loading) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const { command } = await testCaseService.previewRunCommand(projectId, buildRunSpec());
+        setCommand(command);
+      } catch (error) {
+        setCommand('');
+        console.error('Error previewing command:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [isOpen, loading, browsers, environments, shards, environmentId, headless, config, tags, grep]);
   
   // Effect to poll for test result updates
   useEffect(() => {
@@ -332,8 +311,8 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
           
           setTestResult(result);
           
-          // Stop polling immediately when test is completed or failed
-          if (apiResult.status === 'completed' || apiResult.status === 'failed') {
+          // Stop polling as soon as the run leaves the queue/running states
+          if (!isRunActive(apiResult.status)) {
             console.log(`Test ${apiResult.status}, stopping polling`);
             clearInterval(interval);
             setPollingInterval(null);
@@ -440,70 +419,75 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
     }
   };
   
-  function generateCommand() {
-    let envVars = '';
+  const handleCancelTestRun = async () => {
+    if (!testResult?.id) {
+      return;
+    }
 
-    // Add environment variables if configured
-    if (config.browser?.baseURL) {
-      envVars += `BASE_URL=${config.browser.baseURL} `;
+    setIsCancelling(true);
+    try {
+      await testCaseService.cancelTestRun(projectId, testResult.id);
+      await fetchTestResult(testResult.id);
+      toast.success('Test run cancelled');
+    } catch (error) {
+      console.error('Error cancelling test run:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel test run');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+  
+  function buildRunSpec(): RunSpecInput {
+    const env: Record<string, string> = {};
+
+    // Session overrides of the project settings are passed as environment variables,
+    // a selected environment brings its own base URL
+    if (config.browser?.baseURL && !environmentId) {
+      env.BASE_URL = config.browser.baseURL;
     }
     if (config.browser?.video) {
-      envVars += `VIDEO_MODE=${config.browser.video} `;
+      env.VIDEO_MODE = config.browser.video;
     }
     if (config.browser?.screenshot) {
-      envVars += `SCREENSHOT_MODE=${config.browser.screenshot} `;
+      env.SCREENSHOT_MODE = config.browser.screenshot;
     }
 
-    let baseCommand = 'npx playwright test';
-    
-    // Add the appropriate file pattern based on mode
-    if (mode === 'file' && testCaseId) {
-      // For single test case, use its testFilePath
-      const filePath = testCaseData?.testFilePath || testFilePath;
-      baseCommand += ` ${filePath}`;
-    } else if (mode === 'list' && testCasesData.length > 0) {
-      // For list mode, use testFilePath from each test case
-      const testFiles = testCasesData
-        .map(testCase => testCase.testFilePath || `${testFilePath}${testCase.id}.ts`)
-        .join(' ');
-      baseCommand += ` ${testFiles}`;
-    } else if (mode === 'project') {
-      // For project mode, use the testFilePath as is
-      baseCommand += ` ${testFilePath}`;
-    }
-    
-    // Add browser
-    baseCommand += ` --project=${browser}`;
-    
-    // Add headless/headed mode
-    if (!headless) {
-      baseCommand += ' --headed';
-    }
-    
-    // Add timeout if configured
-    if (config.playwright?.timeout) {
-      baseCommand += ` --timeout=${config.playwright.timeout}`;
-    }
-    
-    // Add retries if configured
-    if (config.playwright?.retries) {
-      baseCommand += ` --retries=${config.playwright.retries}`;
-    }
-    
-    // Add workers if configured
-    if (config.playwright?.workers) {
-      baseCommand += ` --workers=${config.playwright.workers}`;
-    }
+    // Percentages like "50%" are left to the project setting on the server
+    const toNumber = (value?: string) => (value && /^\d+$/.test(value) ? parseInt(value, 10) : undefined);
 
-    // Use JSON reporter for structured output
-    baseCommand += ' --reporter=json';
-    
-    // Combine env vars with command
-    const finalCommand = envVars + baseCommand;
-    
-    setCommand(finalCommand);
+    return {
+      mode,
+      testCaseIds: mode === 'file' ? (testCaseId ? [testCaseId] : []) : mode === 'list' ? testCaseIds || [] : [],
+      suiteIds: mode === 'suite' ? suiteIds || [] : [],
+      planId: mode === 'plan' ? planId : undefined,
+      tags: tags.split(',').map(tag => tag.trim().replace(/^@/, '')).filter(Boolean),
+      grep: grep.trim() || undefined,
+      browsers,
+      // Rows still being filled in are left out of the matrix
+      environments: environments
+        .map(environment => ({ name: environment.name.trim(), baseUrl: environment.baseUrl.trim() }))
+        .filter(environment => environment.name && environment.baseUrl),
+      shards: toNumber(shards) ?? 1,
+      environmentId: environmentId || undefined,
+      headed: !headless,
+      timeout: toNumber(config.playwright?.timeout),
+      retries: toNumber(config.playwright?.retries),
+      workers: toNumber(config.playwright?.workers),
+      env,
+    };
   }
   
+  function toggleBrowser(value: string, checked: boolean) {
+    setBrowsers(current => {
+      const next = checked ? [...current, value] : current.filter(item => item !== value);
+      return next.length > 0 ? next : current;
+    });
+  }
+
+  function updateEnvironment(index: number, field: 'name' | 'baseUrl', value: string) {
+    setEnvironments(current => current.map((environment, i) => (i === index ? { ...environment, [field]: value } : environment)));
+  }
+
   function handleCopyCommand() {
     navigator.clipboard.writeText(command);
     toast.success('Command copied to clipboard');
@@ -522,15 +506,7 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
       }
       
       const data = await testCaseService.runTest(projectId, {
-        command,
-        mode,
-        testCaseId: testCaseId || null,
-        testCaseIds: testCaseIds || [],
-        browser,
-        headless,
-        config,
-        testFilePath,
-        useReadableNames,
+        ...buildRunSpec(),
         waitForResult: runMode === 'wait',
         testRunName: testRunName.trim() || undefined
       });
@@ -539,10 +515,11 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
         const result = data.result;
         let parsedReport = null;
         
-        // Try to parse JSON from output if available
-        if (result?.output) {
+        // Try to parse the JSON report if available
+        const reportSource = result?.resultData || result?.output;
+        if (reportSource) {
           try {
-            parsedReport = JSON.parse(result.output);
+            parsedReport = JSON.parse(reportSource);
           } catch (e) {
             console.error('Failed to parse test output as JSON:', e);
           }
@@ -567,7 +544,7 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
       } else {
         setTestResultId(data.testResultId);
         toast.dismiss();
-        toast.success('Test run initiated');
+        toast.success('Test run queued');
         onClose();
         setIsResultDialogOpen(true);
       }
@@ -616,27 +593,113 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
               {mode === 'file' && 'Configure and run this test case.'}
               {mode === 'list' && 'Configure and run selected test cases.'}
               {mode === 'project' && 'Configure and run all tests in this project.'}
+              {mode === 'suite' && 'Configure and run the tests in this suite and its sub-suites.'}
+              {mode === 'plan' && 'Configure and run the automated tests in this test plan.'}
             </DialogDescription>
           </DialogHeader>
           
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="browser" className="text-right">
-                Browser
+              <Label className="text-right">
+                Browsers
               </Label>
-              <Select 
-                value={browser}
-                onValueChange={(value) => setBrowser(value)}
-              >
-                <SelectTrigger className="col-span-3">
-                  <SelectValue placeholder="Select browser" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="chromium">Chromium</SelectItem>
-                  <SelectItem value="firefox">Firefox</SelectItem>
-                  <SelectItem value="webkit">WebKit</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="col-span-3 flex gap-4">
+                {[
+                  { value: 'chromium', label: 'Chromium' },
+                  { value: 'firefox', label: 'Firefox' },
+                  { value: 'webkit', label: 'WebKit' },
+                ].map(option => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`browser-${option.value}`}
+                      checked={browsers.includes(option.value)}
+                      onCheckedChange={(checked) => toggleBrowser(option.value, checked as boolean)}
+                    />
+                    <Label htmlFor={`browser-${option.value}`}>{option.label}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="environment" className="text-right">
+                Environment
+              </Label>
+              <div className="col-span-3">
+                <Select
+                  value={environmentId || 'none'}
+                  onValueChange={(value) => setEnvironmentId(value === 'none' ? '' : value)}
+                >
+                  <SelectTrigger id="environment">
+                    <SelectValue placeholder="Select environment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Project defaults</SelectItem>
+                    {projectEnvironments.map(environment => (
+                      <SelectItem key={environment.id} value={environment.id}>{environment.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-2">
+                Base URL Matrix
+              </Label>
+              <div className="col-span-3 space-y-2">
+                {environments.map((environment, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={environment.name}
+                      onChange={(e) => updateEnvironment(index, 'name', e.target.value)}
+                      placeholder="Name, e.g. staging"
+                      className="w-1/3"
+                    />
+                    <Input
+                      value={environment.baseUrl}
+                      onChange={(e) => updateEnvironment(index, 'baseUrl', e.target.value)}
+                      placeholder="https://staging.example.com"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEnvironments(current => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEnvironments(current => [...current, { name: '', baseUrl: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Base URL
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Each browser runs once per environment, against its base URL
+                </p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="shards" className="text-right">
+                Shards
+              </Label>
+              <div className="col-span-3">
+                <Input
+                  id="shards"
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={shards}
+                  onChange={(e) => setShards(e.target.value)}
+                />
+              </div>
             </div>
             
             <div className="grid grid-cols-4 items-center gap-4">
@@ -691,6 +754,34 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
               </div>
             </div>
             
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="tags" className="text-right">
+                Tags
+              </Label>
+              <div className="col-span-3">
+                <Input
+                  id="tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="Optional, e.g. smoke, regression"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="grep" className="text-right">
+                Grep
+              </Label>
+              <div className="col-span-3">
+                <Input
+                  id="grep"
+                  value={grep}
+                  onChange={(e) => setGrep(e.target.value)}
+                  placeholder="Only run tests whose title contains this text"
+                />
+              </div>
+            </div>
+            
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="command" className="text-right">
                 Command
@@ -780,7 +871,7 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
               
               <div className="text-center">
                 <p className="text-sm text-muted-foreground">
-                  Browser: {browser} • Mode: {headless ? 'Headless' : 'Headed'}
+                  Browser: {browsers.join(', ')} • Mode: {headless ? 'Headless' : 'Headed'}
                 </p>
               </div>
             </div>
@@ -790,17 +881,24 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
               {/* Test Status Header */}
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  {testResult?.success ? (
+                  {testResult && isRunActive(testResult.status) ? (
+                    <Loader2 className="text-blue-500 h-5 w-5 animate-spin" />
+                  ) : testResult?.success ? (
                     <CheckCircle className="text-green-500 h-5 w-5" />
                   ) : (
                     <XCircle className="text-red-500 h-5 w-5" />
                   )}
                   <h3 className="text-lg font-medium">
-                    Test {testResult?.success ? 'Passed' : 'Failed'}
+                    {testResult?.status === 'queued' ? 'Test Queued' :
+                      testResult?.status === 'running' ? 'Test Running' :
+                      `Test ${testResult?.success ? 'Passed' : 'Failed'}`}
                   </h3>
                 </div>
-                <Badge variant="default" className="bg-red-500">
-                  completed
+                <Badge
+                  variant={testResult?.success ? 'default' : testResult && isRunActive(testResult.status) ? 'secondary' : 'destructive'}
+                  className="capitalize"
+                >
+                  {testResult?.status || 'unknown'}
                 </Badge>
               </div>
 
@@ -811,7 +909,14 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
                 Created {testResult?.createdAt ? formatDistance(new Date(testResult.createdAt), new Date(), { addSuffix: true }) : ''}
               </div>
 
-              {/* Tabs */}
+              {/* Live console while a background run is queued or running */}
+              {testResultId && runMode === 'background' && (!testResult || isRunActive(testResult.status)) ? (
+                <LiveRunConsole
+                  projectId={projectId}
+                  testResultId={testResultId}
+                  onFinished={() => fetchTestResult(testResultId)}
+                />
+              ) : (
               <Tabs defaultValue="results" className="w-full">
                 <TabsList>
                   <TabsTrigger value="results" className="flex items-center gap-2">
@@ -897,6 +1002,7 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
                   </div>
                 </TabsContent>
               </Tabs>
+              )}
 
               {/* Footer */}
               <div className="flex justify-between items-center gap-2 mt-4">
@@ -918,6 +1024,21 @@ export function RunTestDialog({ isOpen, onClose, projectId, mode, testCaseId, te
                   )}
                 </div>
                 <div className="flex gap-2">
+                  {testResult && isRunActive(testResult.status) && (
+                    <Button
+                      variant="destructive"
+                      onClick={handleCancelTestRun}
+                      disabled={isCancelling}
+                      className="flex items-center gap-2"
+                    >
+                      {isCancelling ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Ban className="h-4 w-4" />
+                      )}
+                      Cancel Run
+                    </Button>
+                  )}
                   <Button variant="outline" onClick={() => setIsResultDialogOpen(false)}>
                     Close
                   </Button>
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Image as ImageIcon } from 'lucide-react';
+import { TestCaseAttempt } from '@/types';
+
+interface StepTimelineProps {
+  attempts: TestCaseAttempt[];
+}
+
+const STEP_STATUS_CLASSES: Record<string, string> = {
+  passed: 'bg-green-500',
+  failed: 'bg-red-500',
+  blocked: 'bg-amber-500',
+  skipped: 'bg-slate-300',
+};
+
+/**
+ * Step-by-step pass/fail timeline of a test case run, one row per attempt
+ */
+export function StepTimeline({ attempts }: StepTimelineProps) {
+  const attemptsWithSteps = attempts.filter(attempt => attempt.stepExecutions && attempt.stepExecutions.length > 0);
+
+  if (attemptsWithSteps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {attemptsWithSteps.map(attempt => {
+        const failedStep = attempt.stepExecutions!.find(step => step.status === 'failed' || step.status === 'blocked');
+        const attachmentCount = failedStep?.artifacts?.length || 0;
+
+        return (
+          <div key={attempt.id} className="space-y-1">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {attempt.projectName && (
+                <Badge variant="outline" className="capitalize text-xs">{attempt.projectName}</Badge>
+              )}
+              <span>{attempt.retry > 0 ? `Retry #${attempt.retry}` : 'First attempt'}</span>
+            </div>
+
+            <div className="flex gap-1">
+              {attempt.stepExecutions!.map(step => (
+                <div
+                  key={step.id}
+                  className={`h-3 flex-1 rounded-sm ${STEP_STATUS_CLASSES[step.status] || 'bg-slate-300'}`}
+                  title={`Step ${step.order}: ${step.title} - ${step.status}${
+                    step.duration !== undefined && step.duration !== null ? ` (${(step.duration / 1000).toFixed(2)}s)` : ''
+                  }${step.notes ? `\n${step.notes}` : ''}`}
+                />
+              ))}
+            </div>
+
+            {failedStep && (
+              <div className="text-xs">
+                <span className="font-medium text-red-600">
+                  {failedStep.status === 'blocked' ? 'Blocked' : 'Failed'} at step {failedStep.order}: {failedStep.title}
+                </span>
+                {failedStep.errorMessage && (
+                  <p className="text-muted-foreground truncate" title={failedStep.errorMessage}>
+                    {failedStep.errorMessage}
+                  </p>
+                )}
+                {attachmentCount > 0 && (
+                  <p className="flex items-center gap-1 text-muted-foreground">
+                    <ImageIcon className="h-3 w-3" />
+                    {attachmentCount} screenshot{attachmentCount > 1 ? 's' : ''} attached
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
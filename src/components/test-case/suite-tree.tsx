@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronRight, Edit, Folder, FolderOpen, FolderPlus, Layers, Loader2, MoreHorizontal, Play, Trash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cn } from '@/lib/utils';
+import { SuiteService } from '@/lib/api/services';
+import { TestSuite } from '@/types';
+
+// Drag payloads, test case rows carry a comma separated list of ids
+export const TEST_CASES_DRAG_TYPE = 'application/x-test-case-ids';
+const SUITE_DRAG_TYPE = 'application/x-suite-id';
+
+interface SuiteTreeProps {
+  projectId: string;
+  suites: TestSuite[];
+  // null shows every test case
+  selectedSuiteId: string | null;
+  onSelect: (suiteId: string | null) => void;
+  onSuitesChanged: () => void;
+  onDropTestCases: (testCaseIds: string[], suiteId: string | null) => void;
+  onRunSuite?: (suiteId: string) => void;
+}
+
+interface SuiteFormState {
+  suiteId?: string;
+  parentId: string | null;
+  name: string;
+  beforeEach: string;
+}
+
+const suiteService = new SuiteService();
+
+/**
+ * Folder tree of a project's test suites. Test cases and suites can be dropped onto a suite to move them.
+ */
+export function SuiteTree({
+  projectId,
+  suites,
+  selectedSuiteId,
+  onSelect,
+  onSuitesChanged,
+  onDropTestCases,
+  onRunSuite,
+}: SuiteTreeProps) {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [form, setForm] = useState<SuiteFormState | null>(null);
+  const [suiteToDelete, setSuiteToDelete] = useState<TestSuite | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const childrenOf = (parentId: string | null) => suites
+    .filter(suite => suite.parentId === parentId)
+    .sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+
+  // A suite cannot be dropped into itself or one of its sub-suites
+  const isInside = (suiteId: string, ancestorId: string) => {
+    for (let current = suites.find(suite => suite.id === suiteId); current; current = suites.find(suite => suite.id === current!.parentId)) {
+      if (current.id === ancestorId) return true;
+    }
+    return false;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    setSaving(true);
+    try {
+      const data = { name: form.name.trim(), beforeEach: form.beforeEach.trim() || null };
+      if (form.suiteId) {
+        await suiteService.updateSuite(projectId, form.suiteId, data);
+        toast.success('Suite updated');
+      } else {
+        await suiteService.createSuite(projectId, { ...data, parentId: form.parentId });
+        toast.success('Suite created');
+      }
+      setForm(null);
+      onSuitesChanged();
+    } catch (error) {
+      console.error('Error saving suite:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save suite');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!suiteToDelete) return;
+
+    setSaving(true);
+    try {
+      await suiteService.deleteSuite(projectId, suiteToDelete.id);
+      toast.success('Suite deleted');
+      if (selectedSuiteId === suiteToDelete.id) {
+        onSelect(suiteToDelete.parentId);
+      }
+      setSuiteToDelete(null);
+      onSuitesChanged();
+    } catch (error) {
+      console.error('Error deleting suite:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete suite');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const moveSuite = async (suiteId: string, parentId: string | null) => {
+    const suite = suites.find(s => s.id === suiteId);
+    if (!suite || suite.parentId === parentId) return;
+    if (parentId && isInside(parentId, suiteId)) {
+      toast.error('A suite cannot be moved into itself');
+      return;
+    }
+
+    try {
+      await suiteService.updateSuite(projectId, suiteId, { parentId });
+      toast.success(`Moved "${suite.name}"`);
+      onSuitesChanged();
+    } catch (error) {
+      console.error('Error moving suite:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move suite');
+    }
+  };
+
+  const dropProps = (suiteId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (e.dataTransfer.types.includes(TEST_CASES_DRAG_TYPE) || e.dataTransfer.types.includes(SUITE_DRAG_TYPE)) {
+        e.preventDefault();
+        setDropTarget(suiteId ?? '');
+      }
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const testCaseIds = e.dataTransfer.getData(TEST_CASES_DRAG_TYPE);
+      const draggedSuiteId = e.dataTransfer.getData(SUITE_DRAG_TYPE);
+      if (testCaseIds) {
+        onDropTestCases(testCaseIds.split(','), suiteId);
+      } else if (draggedSuiteId) {
+        moveSuite(draggedSuiteId, suiteId);
+      }
+    },
+  });
+
+  const renderSuite = (suite: TestSuite, depth: number): React.ReactNode => {
+    const children = childrenOf(suite.id);
+    const isCollapsed = collapsed.includes(suite.id);
+
+    return (
+      <div key={suite.id}>
+        <div
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(SUITE_DRAG_TYPE, suite.id)}
+          {...dropProps(suite.id)}
+          className={cn(
+            'group flex items-center gap-1 rounded px-1 py-1 text-sm cursor-pointer',
+            selectedSuiteId === suite.id ? 'bg-muted font-medium' : 'hover:bg-muted/50',
+            dropTarget === suite.id && 'ring-2 ring-primary'
+          )}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          onClick={() => onSelect(suite.id)}
+        >
+          <button
+            type="button"
+            className={cn('h-4 w-4 shrink-0', children.length === 0 && 'invisible')}
+            onClick={(e) => {
+              e.stopPropagation();
+              setCollapsed(prev => isCollapsed ? prev.filter(id => id !== suite.id) : [...prev, suite.id]);
+            }}
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+          {selectedSuiteId === suite.id
+            ? <FolderOpen className="h-4 w-4 shrink-0 text-muted-foreground" />
+            : <Folder className="h-4 w-4 shrink-0 text-muted-foreground" />}
+          <span className="truncate flex-1">{suite.name}</span>
+          {suite.beforeEach && <span className="text-xs text-muted-foreground" title="Has a beforeEach hook">hook</span>}
+          <span className="text-xs text-muted-foreground">{suite._count?.testCases ?? 0}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+              <Button variant="ghost" size="icon" className="h-5 w-5 opacity-0 group-hover:opacity-100">
+                <MoreHorizontal className="h-3 w-3" />
+                <span className="sr-only">Suite actions</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              {onRunSuite && (
+                <DropdownMenuItem onClick={() => onRunSuite(suite.id)}>
+                  <Play className="mr-2 h-4 w-4" />
+                  <span>Run Suite</span>
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => setForm({ parentId: suite.id, name: '', beforeEach: '' })}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                <span>New Sub-suite</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setForm({ suiteId: suite.id, parentId: suite.parentId, name: suite.name, beforeEach: suite.beforeEach || '' })}>
+                <Edit className="mr-2 h-4 w-4" />
+                <span>Edit</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem className="text-red-600" onClick={() => setSuiteToDelete(suite)}>
+                <Trash className="mr-2 h-4 w-4" />
+                <span>Delete</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {!isCollapsed && children.map(child => renderSuite(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Suites</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setForm({ parentId: null, name: '', beforeEach: '' })}
+        >
+          <FolderPlus className="h-4 w-4" />
+          <span className="sr-only">New Suite</span>
+        </Button>
+      </div>
+
+      <div
+        {...dropProps(null)}
+        className={cn(
+          'flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer',
+          selectedSuiteId === null ? 'bg-muted font-medium' : 'hover:bg-muted/50',
+          dropTarget === '' && 'ring-2 ring-primary'
+        )}
+        onClick={() => onSelect(null)}
+      >
+        <Layers className="h-4 w-4 text-muted-foreground" />
+        All Test Cases
+      </div>
+      {childrenOf(null).map(suite => renderSuite(suite, 0))}
+      {suites.length === 0 && (
+        <p className="px-2 py-1 text-xs text-muted-foreground">
+          Group test cases into suites, then drag test cases onto them.
+        </p>
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.suiteId ? 'Edit Suite' : 'New Suite'}</DialogTitle>
+            <DialogDescription>
+              Generated specs of the suite are wrapped in a describe block and placed in its own folder.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="suite-name">Name</Label>
+                <Input
+                  id="suite-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="suite-before-each">beforeEach hook</Label>
+                <Textarea
+                  id="suite-before-each"
+                  className="font-mono text-sm"
+                  placeholder="await page.goto('/login');"
+                  value={form.beforeEach}
+                  onChange={(e) => setForm({ ...form, beforeEach: e.target.value })}
+                  rows={5}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Runs before every test in the suite and its sub-suites, with access to page.
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form?.name.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!suiteToDelete} onOpenChange={(open) => !open && setSuiteToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Suite</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the suite &quot;{suiteToDelete?.name}&quot;? Its test cases and sub-suites are kept and moved up one level.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700 text-white"
+              disabled={saving}
+              onClick={(e) => {
+                e.preventDefault();
+                handleDelete();
+              }}
+            >
+              {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash className="mr-2 h-4 w-4" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
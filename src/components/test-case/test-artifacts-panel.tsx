@@ -0,0 +1,122 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Download, Loader2 } from 'lucide-react';
+import { useTestArtifacts } from '@/lib/api/hooks/use-test-artifacts';
+import { TestArtifact } from '@/types';
+
+interface TestArtifactsPanelProps {
+  projectId: string;
+  testResultId: string;
+}
+
+function ArtifactLabel({ artifact }: { artifact: TestArtifact }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      {artifact.attempt?.projectName && (
+        <Badge variant="outline" className="capitalize text-xs">{artifact.attempt.projectName}</Badge>
+      )}
+      {artifact.attempt && artifact.attempt.retry > 0 && <span>Retry #{artifact.attempt.retry}</span>}
+      {artifact.stepExecution && (
+        <span>Step {artifact.stepExecution.order}: {artifact.stepExecution.title}</span>
+      )}
+      <span>{artifact.name}</span>
+    </div>
+  );
+}
+
+function getTraceViewerUrl(projectId: string, artifact: TestArtifact): string {
+  const traceUrl = `${window.location.origin}${artifact.url}`;
+  return `/api/projects/${projectId}/trace-viewer/index.html?trace=${encodeURIComponent(traceUrl)}`;
+}
+
+/**
+ * Screenshots, videos and traces captured during a test run
+ */
+export function TestArtifactsPanel({ projectId, testResultId }: TestArtifactsPanelProps) {
+  const { artifacts, loading, error } = useTestArtifacts(projectId, testResultId);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="p-4 text-center text-sm text-red-500">{error}</p>;
+  }
+
+  if (artifacts.length === 0) {
+    return <p className="p-4 text-center text-muted-foreground">No artifacts were captured for this run</p>;
+  }
+
+  const screenshots = artifacts.filter(artifact => artifact.type === 'screenshot');
+  const videos = artifacts.filter(artifact => artifact.type === 'video');
+  const traces = artifacts.filter(artifact => artifact.type === 'trace');
+  const others = artifacts.filter(artifact => artifact.type === 'other');
+
+  return (
+    <div className="space-y-6">
+      {screenshots.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Screenshots</h4>
+          <div className="grid grid-cols-2 gap-4">
+            {screenshots.map(artifact => (
+              <div key={artifact.id} className="space-y-1">
+                <a href={artifact.url} target="_blank" rel="noopener noreferrer">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={artifact.url} alt={artifact.name} className="w-full rounded-md border" loading="lazy" />
+                </a>
+                <ArtifactLabel artifact={artifact} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {videos.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Videos</h4>
+          {videos.map(artifact => (
+            <div key={artifact.id} className="space-y-1">
+              <video src={artifact.url} controls preload="metadata" className="w-full rounded-md">
+                Your browser does not support the video tag.
+              </video>
+              <ArtifactLabel artifact={artifact} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(traces.length > 0 || others.length > 0) && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Traces and Other Files</h4>
+          <div className="rounded-md border divide-y">
+            {[...traces, ...others].map(artifact => (
+              <div key={artifact.id} className="flex items-center justify-between px-3 py-2">
+                <ArtifactLabel artifact={artifact} />
+                <div className="flex gap-2">
+                  {artifact.type === 'trace' && (
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={getTraceViewerUrl(projectId, artifact)} target="_blank" rel="noopener noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-1" />
+                        Open Trace
+                      </a>
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`${artifact.url}?download=1`}>
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
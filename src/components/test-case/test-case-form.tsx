@@ -26,18 +26,23 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { usePermission } from '@/lib/rbac/use-permission';
 import { Badge } from '@/components/ui/badge';
 import { X, Plus } from 'lucide-react';
-import { TestCaseService } from '@/lib/api/services';
+import { CustomFieldService, TestCaseService } from '@/lib/api/services';
 import { TestCase as ApiTestCase } from '@/lib/api/interfaces';
+import { CustomFieldInput } from '@/components/custom-fields/custom-field-input';
+import { CustomField, TEST_CASE_PRIORITIES } from '@/types';
+import type { CustomFieldValue } from '@/lib/custom-fields/custom-fields';
 import { fixTestCaseNameClient, isAutoUseAISuggestionEnabledClient } from '@/lib/ai/ai-client';
 
 // Define form schema with Zod
 const formSchema = z.object({
   name: z.string().min(3, { message: 'Name must be at least 3 characters' }),
   status: z.string().min(1, { message: 'Status is required' }),
+  priority: z.string().min(1, { message: 'Priority is required' }),
   isManual: z.boolean(),
   tags: z.string().optional(),
 });
@@ -62,17 +67,21 @@ interface TestCaseFormProps {
   projectId: string;
   testCase?: any; // Use any to avoid type issues
   isEditing?: boolean;
+  suiteId?: string; // Suite a new test case is created in
 }
 
 // Define a compatible interface for API calls
 interface ApiPayload {
   name: string;
   status: string;
+  priority: string;
   isManual: boolean;
   tags: string; // String format for API
+  suiteId?: string;
+  customFields: Record<string, CustomFieldValue | null>; // Keyed by field id, null clears the value
 }
 
-export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCaseFormProps) {
+export function TestCaseForm({ projectId, testCase, isEditing = false, suiteId }: TestCaseFormProps) {
   console.log('TestCaseForm render');
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -82,6 +91,8 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const [tagOptions, setTagOptions] = useState<TagOption[]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<Record<string, CustomFieldValue | null>>({});
   
   // Per seed-roles.ts: "project.update" permission is for both "Create and update projects, fixtures and test cases"
   const hasUpdatePermission = usePermission('project.update');
@@ -97,6 +108,8 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
     { value: 'draft', label: 'Draft' },
   ], []);
 
+  const priorityOptions = useMemo(() => TEST_CASE_PRIORITIES.map(priority => ({ value: priority, label: priority })), []);
+
   // Sample tag suggestions if API fails
   const defaultTagOptions = useMemo(() => [
     { value: 'regression', label: 'Regression' },
@@ -112,9 +125,10 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
   const defaultValues = useMemo(() => ({
     name: testCase?.name || '',
     status: testCase?.status || 'pending',
+    priority: testCase?.priority || 'Medium',
     isManual: testCase?.isManual || false,
     tags: '',  // Initialize empty and set separately to avoid loops
-  }), [testCase?.name, testCase?.status, testCase?.isManual]);
+  }), [testCase?.name, testCase?.status, testCase?.priority, testCase?.isManual]);
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -197,6 +211,20 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
     };
   }, [projectId]); // Remove testCaseService from dependency array since it's stable
 
+  // Load the project's custom fields and, when editing, the test case's values
+  useEffect(() => {
+    const customFieldService = new CustomFieldService();
+    customFieldService.getCustomFields(projectId)
+      .then(setCustomFields)
+      .catch(error => console.error('Error fetching custom fields:', error));
+
+    if (testCase?.id) {
+      customFieldService.getCustomFieldValues(projectId, testCase.id)
+        .then(values => setCustomFieldValues(values[testCase.id] || {}))
+        .catch(error => console.error('Error fetching custom field values:', error));
+    }
+  }, [projectId, testCase?.id]);
+
   // Create a new project tag
   const createProjectTag = useCallback(async (tagValue: string) => {
     try {
@@ -289,6 +317,12 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
       return;
     }
 
+    const missingField = customFields.find(field => field.required && (customFieldValues[field.id] ?? null) === null);
+    if (missingField) {
+      toast.error(`${missingField.name} is required`);
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -296,8 +330,11 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
       const payload: ApiPayload = {
         name: values.name,
         status: values.status,
+        priority: values.priority,
         isManual: values.isManual,
-        tags: selectedTags.join(',') // Join tags as comma-separated string
+        tags: selectedTags.join(','), // Join tags as comma-separated string
+        ...(!isEditing && suiteId ? { suiteId } : {}),
+        customFields: Object.fromEntries(customFields.map(field => [field.id, customFieldValues[field.id] ?? null])),
       };
 
       console.log('[TestCaseForm] Submitting test case with payload:', payload);
@@ -423,6 +460,37 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Priority</FormLabel>
+                  <Select 
+                    onValueChange={field.onChange} 
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select priority" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {priorityOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Test plans can select test cases by priority
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="tags"
@@ -488,6 +556,20 @@ export function TestCaseForm({ projectId, testCase, isEditing = false }: TestCas
               )}
             />
 
+            {customFields.map(field => (
+              <div key={field.id} className="space-y-2">
+                <Label>
+                  {field.name}
+                  {field.required && <span className="text-red-500"> *</span>}
+                </Label>
+                <CustomFieldInput
+                  field={field}
+                  value={customFieldValues[field.id]}
+                  onChange={(value) => setCustomFieldValues(prev => ({ ...prev, [field.id]: value }))}
+                />
+              </div>
+            ))}
+
             <FormField
               control={form.control}
               name="isManual"
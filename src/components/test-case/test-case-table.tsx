@@ -31,10 +31,14 @@ import {
 } from '@/components/ui/card';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -48,9 +52,12 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
 import { formatDate } from '@/lib/utils/date';
-import { Edit, Play, MoreHorizontal, Copy, Trash, Search, X, ArrowUpDown, ArrowDown, ArrowUp, Loader2 } from 'lucide-react';
+import { Edit, Play, MoreHorizontal, Copy, Trash, Search, X, ArrowUpDown, ArrowDown, ArrowUp, Loader2, ClipboardList, Columns, Filter } from 'lucide-react';
 import { toast } from 'sonner';
-import { TestCaseService } from '@/lib/api/services';
+import { CustomFieldService, SuiteService, TestCaseService } from '@/lib/api/services';
+import { SuiteTree, TEST_CASES_DRAG_TYPE } from '@/components/test-case/suite-tree';
+import { CustomField, CustomFieldValuesByTestCase, TestSuite } from '@/types';
+import type { CustomFieldValue } from '@/lib/custom-fields/custom-fields';
 
 // Type for sorting direction
 type SortDirection = 'asc' | 'desc' | null;
@@ -58,6 +65,12 @@ type SortDirection = 'asc' | 'desc' | null;
 // Type for sorting field
 type SortField = 'createdAt' | 'lastRun' | null;
 
+// Radix selects cannot hold an empty value, so "any value" goes through this item
+const ANY_VALUE = '__any__';
+
+const formatFieldValue = (value: CustomFieldValue | undefined) =>
+  value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+
 interface TestCase {
   id: string;
   name: string;
@@ -68,6 +81,8 @@ interface TestCase {
   createdAt: string;
   updatedAt: string;
   lastRun?: string | null;
+  quarantined?: boolean;
+  suiteId?: string | null;
   _count?: {
     steps: number;
   };
@@ -88,6 +103,7 @@ interface TestCaseTableProps {
     tags: string[];
   };
   onRunSelected?: (testCaseIds: string[]) => void;
+  onRunSuite?: (suiteId: string) => void;
   onTestCaseDeleted?: (deletedTestCaseId: string) => void;
 }
 
@@ -97,6 +113,7 @@ export function TestCaseTable({
   pagination, 
   filters,
   onRunSelected,
+  onRunSuite,
   onTestCaseDeleted
 }: TestCaseTableProps) {
   const router = useRouter();
@@ -121,13 +138,83 @@ export function TestCaseTable({
   // Local state to track test cases for immediate UI updates
   const [localTestCases, setLocalTestCases] = useState<TestCase[]>(Array.isArray(testCases) ? testCases : []);
   
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [selectedSuiteId, setSelectedSuiteId] = useState<string | null>(null);
+
+  const [customFields, setCustomFields] = useState<CustomField[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValuesByTestCase>({});
+  const [visibleFieldIds, setVisibleFieldIds] = useState<string[]>([]);
+  const [fieldFilters, setFieldFilters] = useState<Record<string, string>>({});
+  
   // Create a memoized instance of TestCaseService
   const testCaseService = useMemo(() => new TestCaseService(), []);
+  const suiteService = useMemo(() => new SuiteService(), []);
+  const customFieldService = useMemo(() => new CustomFieldService(), []);
   
   // Update local state when prop changes
   useEffect(() => {
     setLocalTestCases(Array.isArray(testCases) ? testCases : []);
   }, [testCases]);
+
+  const loadSuites = async () => {
+    try {
+      setSuites(await suiteService.getSuites(projectId));
+    } catch (error) {
+      console.error('Error loading suites:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadSuites();
+  }, [projectId]);
+
+  // Column choices are kept per project in the browser
+  const columnsStorageKey = `project_${projectId}_custom_field_columns`;
+
+  useEffect(() => {
+    Promise.all([
+      customFieldService.getCustomFields(projectId),
+      customFieldService.getCustomFieldValues(projectId),
+    ])
+      .then(([fields, values]) => {
+        setCustomFields(fields);
+        setCustomFieldValues(values);
+        const stored = JSON.parse(localStorage.getItem(columnsStorageKey) || '[]') as string[];
+        setVisibleFieldIds(stored.filter(fieldId => fields.some(field => field.id === fieldId)));
+      })
+      .catch(error => console.error('Error loading custom fields:', error));
+  }, [projectId, testCases]);
+
+  const toggleFieldColumn = (fieldId: string, visible: boolean) => {
+    const next = visible ? [...visibleFieldIds, fieldId] : visibleFieldIds.filter(id => id !== fieldId);
+    setVisibleFieldIds(next);
+    localStorage.setItem(columnsStorageKey, JSON.stringify(next));
+  };
+
+  const setFieldFilter = (fieldId: string, value: string) => {
+    setFieldFilters(prev => {
+      const next = { ...prev };
+      if (value) {
+        next[fieldId] = value;
+      } else {
+        delete next[fieldId];
+      }
+      return next;
+    });
+    setCurrentPage(1);
+  };
+
+  const visibleFields = customFields.filter(field => visibleFieldIds.includes(field.id));
+
+  // The selected suite shows the test cases of its sub-suites too
+  const selectedSuiteIds = useMemo(() => {
+    if (!selectedSuiteId) return null;
+    const ids = [selectedSuiteId];
+    for (let i = 0; i < ids.length; i++) {
+      ids.push(...suites.filter(suite => suite.parentId === ids[i]).map(suite => suite.id));
+    }
+    return ids;
+  }, [suites, selectedSuiteId]);
   
   // Status options
   const statusOptions = [
@@ -177,7 +264,20 @@ export function TestCaseTable({
           return false;
         }));
       
-      return matchesSearch && matchesStatus && matchesTags;
+      const matchesSuite = !selectedSuiteIds || (!!testCase.suiteId && selectedSuiteIds.includes(testCase.suiteId));
+
+      // Choice fields match an option exactly, other fields match on the text shown
+      const matchesFields = Object.entries(fieldFilters).every(([fieldId, filterValue]) => {
+        const field = customFields.find(item => item.id === fieldId);
+        const value = customFieldValues[testCase.id]?.[fieldId];
+        if (!field) return true;
+        if (field.type === 'select' || field.type === 'multiselect') {
+          return Array.isArray(value) ? value.includes(filterValue) : value === filterValue;
+        }
+        return formatFieldValue(value).toLowerCase().includes(filterValue.toLowerCase());
+      });
+      
+      return matchesSearch && matchesStatus && matchesTags && matchesSuite && matchesFields;
     });
     
     // Sort test cases if field and direction exist
@@ -207,7 +307,7 @@ export function TestCaseTable({
     }
     
     return result;
-  }, [localTestCases, searchTerm, statusFilter, tagsFilter, sortField, sortDirection]);
+  }, [localTestCases, searchTerm, statusFilter, tagsFilter, selectedSuiteIds, fieldFilters, customFields, customFieldValues, sortField, sortDirection]);
   
   // Paginate filtered and sorted data
   const paginatedTestCases = useMemo(() => {
@@ -313,6 +413,7 @@ export function TestCaseTable({
     setSearchTerm('');
     setStatusFilter('all');
     setTagsFilter([]);
+    setFieldFilters({});
     setCurrentPage(1);
     setSortField(null);
     setSortDirection(null);
@@ -405,6 +506,33 @@ export function TestCaseTable({
     }
   };
 
+  // Manual test cases are walked through in the manual runner instead of Playwright
+  const selectedManualTestCases = testCases.filter(tc => tc.isManual && selectedTestCases.includes(tc.id)).map(tc => tc.id);
+
+  const runManually = (testCaseIds: string[]) => {
+    router.push(`/projects/${projectId}/manual-run?testCaseIds=${testCaseIds.join(',')}`);
+  };
+
+  // Dragging a selected row moves the whole selection
+  const handleRowDragStart = (e: React.DragEvent, testCaseId: string) => {
+    const testCaseIds = selectedTestCases.includes(testCaseId) ? selectedTestCases : [testCaseId];
+    e.dataTransfer.setData(TEST_CASES_DRAG_TYPE, testCaseIds.join(','));
+  };
+
+  const handleMoveToSuite = async (testCaseIds: string[], suiteId: string | null) => {
+    try {
+      await suiteService.moveTestCases(projectId, testCaseIds, suiteId);
+      setLocalTestCases(prevTestCases =>
+        prevTestCases.map(tc => testCaseIds.includes(tc.id) ? { ...tc, suiteId } : tc)
+      );
+      toast.success(`Moved ${testCaseIds.length} test case(s)`);
+      loadSuites();
+    } catch (error) {
+      console.error('Error moving test cases:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to move test cases');
+    }
+  };
+
   // Function to update status for selected test cases
   const handleBulkStatusUpdate = async () => {
     if (!bulkStatus || selectedTestCases.length === 0) return;
@@ -473,6 +601,71 @@ export function TestCaseTable({
                     ))}
                   </SelectContent>
                 </Select>
+
+                {customFields.length > 0 && (
+                  <>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" className="h-9">
+                          <Filter className="mr-2 h-4 w-4" />
+                          Fields
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent align="start" className="w-72 space-y-3">
+                        {customFields.map(field => (
+                          <div key={field.id} className="space-y-1">
+                            <p className="text-sm font-medium">{field.name}</p>
+                            {field.type === 'select' || field.type === 'multiselect' ? (
+                              <Select
+                                value={fieldFilters[field.id] || ANY_VALUE}
+                                onValueChange={(value) => setFieldFilter(field.id, value === ANY_VALUE ? '' : value)}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={ANY_VALUE}>Any</SelectItem>
+                                  {field.options.map(option => (
+                                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                className="h-8"
+                                placeholder="Contains..."
+                                value={fieldFilters[field.id] || ''}
+                                onChange={(e) => setFieldFilter(field.id, e.target.value)}
+                              />
+                            )}
+                          </div>
+                        ))}
+                      </PopoverContent>
+                    </Popover>
+
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="h-9">
+                          <Columns className="mr-2 h-4 w-4" />
+                          Columns
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuLabel>Custom fields</DropdownMenuLabel>
+                        <DropdownMenuSeparator />
+                        {customFields.map(field => (
+                          <DropdownMenuCheckboxItem
+                            key={field.id}
+                            checked={visibleFieldIds.includes(field.id)}
+                            onCheckedChange={(checked) => toggleFieldColumn(field.id, !!checked)}
+                          >
+                            {field.name}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </>
+                )}
                 
                 {selectedTestCases.length > 0 && (
                   <>
@@ -519,7 +712,22 @@ export function TestCaseTable({
                   </Button>
                 )}
                 
-                <Button variant="outline" size="sm" onClick={() => router.push(`/projects/${projectId}/test-cases/new`)}>
+                {selectedManualTestCases.length > 0 && (
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => runManually(selectedManualTestCases)}
+                  >
+                    <ClipboardList className="mr-2 h-4 w-4" />
+                    Run Manually ({selectedManualTestCases.length})
+                  </Button>
+                )}
+                
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => router.push(`/projects/${projectId}/test-cases/new${selectedSuiteId ? `?suiteId=${selectedSuiteId}` : ''}`)}
+                >
                   New Test Case
                 </Button>
               </div>
@@ -531,7 +739,7 @@ export function TestCaseTable({
             </div>
             
             {/* Display active filters */}
-            {(searchTerm || statusFilter !== 'all' || tagsFilter.length > 0) && (
+            {(searchTerm || statusFilter !== 'all' || tagsFilter.length > 0 || Object.keys(fieldFilters).length > 0) && (
               <div className="flex flex-wrap gap-2">
                 <div className="text-sm text-muted-foreground mr-2">Active filters:</div>
                 
@@ -565,6 +773,15 @@ export function TestCaseTable({
                     </button>
                   </Badge>
                 ))}
+
+                {Object.entries(fieldFilters).map(([fieldId, value]) => (
+                  <Badge key={fieldId} variant="secondary" className="flex items-center gap-1">
+                    {customFields.find(field => field.id === fieldId)?.name}: {value}
+                    <button onClick={() => setFieldFilter(fieldId, '')} className="ml-1">
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
                 
                 <Button variant="ghost" size="sm" onClick={resetFilters} className="text-xs h-6">
                   Clear all
@@ -575,155 +792,191 @@ export function TestCaseTable({
         </CardHeader>
         
         <CardContent>
-          {filteredAndSortedTestCases.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-muted-foreground">No test cases found matching your filters.</p>
-              <Button
-                variant="link"
-                onClick={resetFilters}
-                className="mt-2"
-              >
-                Clear all filters
-              </Button>
-              <Button
-                variant="outline"
-                onClick={() => router.push(`/projects/${projectId}/test-cases/new`)}
-                className="mt-4"
-              >
-                Create your first test case
-              </Button>
+          <div className="flex gap-6">
+            <div className="w-56 shrink-0">
+              <SuiteTree
+                projectId={projectId}
+                suites={suites}
+                selectedSuiteId={selectedSuiteId}
+                onSelect={(suiteId) => {
+                  setSelectedSuiteId(suiteId);
+                  setCurrentPage(1);
+                }}
+                onSuitesChanged={loadSuites}
+                onDropTestCases={handleMoveToSuite}
+                onRunSuite={onRunSuite}
+              />
             </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <Table className="w-full">
-                <TableHeader>
-                  <TableRow className="h-10 hover:bg-transparent">
-                    {onRunSelected && (
-                      <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 w-10 [&>[role=checkbox]]:translate-y-[2px]">
-                        <Checkbox 
-                          checked={selectedTestCases.length > 0 && selectedTestCases.length === filteredAndSortedTestCases.length}
-                          onCheckedChange={selectAllTestCases}
-                          aria-label="Select all"
-                        />
-                      </TableHead>
-                    )}
-                    <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Name</TableHead>
-                    <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Status</TableHead>
-                    <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Tags</TableHead>
-                    <TableHead 
-                      className="h-12 px-4 text-left align-middle font-medium text-muted-foreground cursor-pointer hover:text-accent-foreground" 
-                      onClick={() => handleSort('createdAt')}
-                    >
-                      <div className="flex items-center">
-                        Created {renderSortIcon('createdAt')}
-                      </div>
-                    </TableHead>
-                    <TableHead 
-                      className="h-12 px-4 text-left align-middle font-medium text-muted-foreground cursor-pointer hover:text-accent-foreground"
-                      onClick={() => handleSort('lastRun')}
-                    >
-                      <div className="flex items-center">
-                        Last Run {renderSortIcon('lastRun')}
-                      </div>
-                    </TableHead>
-                    <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {paginatedTestCases.map((testCase) => (
-                    <TableRow key={testCase.id} className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted">
-                      {onRunSelected && (
-                        <TableCell className="p-4 align-middle [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]">
-                          <Checkbox 
-                            checked={selectedTestCases.includes(testCase.id)}
-                            onCheckedChange={() => toggleTestCaseSelection(testCase.id)}
-                            aria-label={`Select ${testCase.name}`}
-                          />
-                        </TableCell>
-                      )}
-                      <TableCell className="p-4 align-middle font-medium">
-                        <Link 
-                          href={`/projects/${projectId}/test-cases/${testCase.id}`}
-                          className="hover:underline text-sm text-foreground"
+            <div className="flex-1 min-w-0">
+              {filteredAndSortedTestCases.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground">No test cases found matching your filters.</p>
+                  <Button
+                    variant="link"
+                    onClick={resetFilters}
+                    className="mt-2"
+                  >
+                    Clear all filters
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/projects/${projectId}/test-cases/new`)}
+                    className="mt-4"
+                  >
+                    Create your first test case
+                  </Button>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table className="w-full">
+                    <TableHeader>
+                      <TableRow className="h-10 hover:bg-transparent">
+                        {onRunSelected && (
+                          <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 w-10 [&>[role=checkbox]]:translate-y-[2px]">
+                            <Checkbox 
+                              checked={selectedTestCases.length > 0 && selectedTestCases.length === filteredAndSortedTestCases.length}
+                              onCheckedChange={selectAllTestCases}
+                              aria-label="Select all"
+                            />
+                          </TableHead>
+                        )}
+                        <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Name</TableHead>
+                        <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Status</TableHead>
+                        <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">Tags</TableHead>
+                        {visibleFields.map(field => (
+                          <TableHead key={field.id} className="h-12 px-4 text-left align-middle font-medium text-muted-foreground">{field.name}</TableHead>
+                        ))}
+                        <TableHead 
+                          className="h-12 px-4 text-left align-middle font-medium text-muted-foreground cursor-pointer hover:text-accent-foreground" 
+                          onClick={() => handleSort('createdAt')}
                         >
-                          {testCase.name}
-                        </Link>
-                      </TableCell>
-                      <TableCell className="p-4 align-middle">
-                        <Badge className={cn("text-white text-xs", getStatusColor(testCase.status))}>
-                          {testCase.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="p-4 align-middle">
-                        <div className="flex flex-wrap gap-1 max-w-[200px]">
-                          {renderTags(testCase.tags)}
-                        </div>
-                      </TableCell>
-                      <TableCell className="p-4 align-middle text-sm">{formatDate(testCase.createdAt)}</TableCell>
-                      <TableCell className="p-4 align-middle text-sm">
-                        {testCase.lastRun ? formatDate(testCase.lastRun) : "Never"}
-                      </TableCell>
-                      <TableCell className="p-4 align-middle">
-                        <div className="flex items-center justify-end gap-1">
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="h-6 w-6"
-                            onClick={() => router.push(`/projects/${projectId}/test-cases/${testCase.id}/edit`)}
-                          >
-                            <Edit className="h-3 w-3" />
-                            <span className="sr-only">Edit</span>
-                          </Button>
-                          <Button 
-                            variant="ghost" 
-                            size="icon"
-                            className="h-6 w-6"
-                            onClick={() => onRunSelected ? onRunSelected([testCase.id]) : null}
-                          >
-                            <Play className="h-3 w-3" />
-                            <span className="sr-only">Run</span>
-                          </Button>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon" className="h-6 w-6">
-                                <MoreHorizontal className="h-3 w-3" />
-                                <span className="sr-only">More</span>
+                          <div className="flex items-center">
+                            Created {renderSortIcon('createdAt')}
+                          </div>
+                        </TableHead>
+                        <TableHead 
+                          className="h-12 px-4 text-left align-middle font-medium text-muted-foreground cursor-pointer hover:text-accent-foreground"
+                          onClick={() => handleSort('lastRun')}
+                        >
+                          <div className="flex items-center">
+                            Last Run {renderSortIcon('lastRun')}
+                          </div>
+                        </TableHead>
+                        <TableHead className="h-12 px-4 text-left align-middle font-medium text-muted-foreground text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {paginatedTestCases.map((testCase) => (
+                        <TableRow
+                          key={testCase.id}
+                          draggable
+                          onDragStart={(e) => handleRowDragStart(e, testCase.id)}
+                          className="border-b transition-colors hover:bg-muted/50 data-[state=selected]:bg-muted"
+                        >
+                          {onRunSelected && (
+                            <TableCell className="p-4 align-middle [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]">
+                              <Checkbox 
+                                checked={selectedTestCases.includes(testCase.id)}
+                                onCheckedChange={() => toggleTestCaseSelection(testCase.id)}
+                                aria-label={`Select ${testCase.name}`}
+                              />
+                            </TableCell>
+                          )}
+                          <TableCell className="p-4 align-middle font-medium">
+                            <Link 
+                              href={`/projects/${projectId}/test-cases/${testCase.id}`}
+                              className="hover:underline text-sm text-foreground"
+                            >
+                              {testCase.name}
+                            </Link>
+                            {testCase.quarantined && (
+                              <Badge variant="outline" className="ml-2 text-xs border-amber-500 text-amber-600">
+                                Quarantined
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="p-4 align-middle">
+                            <Badge className={cn("text-white text-xs", getStatusColor(testCase.status))}>
+                              {testCase.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="p-4 align-middle">
+                            <div className="flex flex-wrap gap-1 max-w-[200px]">
+                              {renderTags(testCase.tags)}
+                            </div>
+                          </TableCell>
+                          {visibleFields.map(field => (
+                            <TableCell key={field.id} className="p-4 align-middle text-sm">
+                              {formatFieldValue(customFieldValues[testCase.id]?.[field.id]) || '-'}
+                            </TableCell>
+                          ))}
+                          <TableCell className="p-4 align-middle text-sm">{formatDate(testCase.createdAt)}</TableCell>
+                          <TableCell className="p-4 align-middle text-sm">
+                            {testCase.lastRun ? formatDate(testCase.lastRun) : "Never"}
+                          </TableCell>
+                          <TableCell className="p-4 align-middle">
+                            <div className="flex items-center justify-end gap-1">
+                              <Button 
+                                variant="ghost" 
+                                size="icon" 
+                                className="h-6 w-6"
+                                onClick={() => router.push(`/projects/${projectId}/test-cases/${testCase.id}/edit`)}
+                              >
+                                <Edit className="h-3 w-3" />
+                                <span className="sr-only">Edit</span>
                               </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => handleCloneTestCase(testCase)}>
-                                <Copy className="mr-2 h-4 w-4" />
-                                <span>Clone</span>
-                              </DropdownMenuItem>
-                              <DropdownMenuItem className="text-red-600" onClick={() => {
-                                setTestCaseToDelete(testCase);
-                                setIsDeleteDialogOpen(true);
-                              }}>
-                                <Trash className="mr-2 h-4 w-4" />
-                                <span>Delete</span>
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
+                              <Button 
+                                variant="ghost" 
+                                size="icon"
+                                className="h-6 w-6"
+                                onClick={() => testCase.isManual ? runManually([testCase.id]) : onRunSelected ? onRunSelected([testCase.id]) : null}
+                              >
+                                <Play className="h-3 w-3" />
+                                <span className="sr-only">Run</span>
+                              </Button>
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-6 w-6">
+                                    <MoreHorizontal className="h-3 w-3" />
+                                    <span className="sr-only">More</span>
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => handleCloneTestCase(testCase)}>
+                                    <Copy className="mr-2 h-4 w-4" />
+                                    <span>Clone</span>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem className="text-red-600" onClick={() => {
+                                    setTestCaseToDelete(testCase);
+                                    setIsDeleteDialogOpen(true);
+                                  }}>
+                                    <Trash className="mr-2 h-4 w-4" />
+                                    <span>Delete</span>
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
               
-              {totalPages > 1 && (
-                <CustomPagination
-                  currentPage={currentPage}
-                  totalPages={totalPages}
-                  totalCount={filteredAndSortedTestCases.length}
-                  pageSize={itemsPerPage}
-                  onPageChange={handlePageChange}
-                  hasNextPage={currentPage < totalPages}
-                  hasPreviousPage={currentPage > 1}
-                />
+                  {totalPages > 1 && (
+                    <CustomPagination
+                      currentPage={currentPage}
+                      totalPages={totalPages}
+                      totalCount={filteredAndSortedTestCases.length}
+                      pageSize={itemsPerPage}
+                      onPageChange={handlePageChange}
+                      hasNextPage={currentPage < totalPages}
+                      hasPreviousPage={currentPage > 1}
+                    />
+                  )}
+                </div>
               )}
             </div>
-          )}
+          </div>
         </CardContent>
       </Card>
       
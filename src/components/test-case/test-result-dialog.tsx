@@ -5,8 +5,14 @@ import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { formatDate } from '@/lib/utils/date';
 import { formatDistance } from 'date-fns';
-import { CheckCircle, XCircle, Terminal, Clock, AlertCircle, Download, Loader2 } from 'lucide-react';
+import { CheckCircle, XCircle, Terminal, Clock, AlertCircle, Download, Loader2, Paperclip, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { isRunActive, RERUNNABLE_STATUSES } from '@/lib/test-run/run-status';
+import { LiveRunConsole } from './live-run-console';
+import { TestArtifactsPanel } from './test-artifacts-panel';
+import { MergedRunOutcome } from './merged-run-outcome';
+import { RunMatrixCell, RunMatrixGrid } from './run-matrix-grid';
+import { TestCaseService } from '@/lib/api/services';
 
 interface TestCaseExecution {
   id: string;
@@ -25,6 +31,15 @@ interface TestCaseExecution {
     name: string;
     tags?: string;
   };
+  attempts?: Array<{
+    id: string;
+    projectName?: string;
+    environment?: string;
+    retry: number;
+    status: string;
+    duration?: number;
+    errorMessage?: string;
+  }>;
 }
 
 interface TestResultHistory {
@@ -43,7 +58,10 @@ interface TestResultHistory {
   lastRunBy?: string;
   browser?: string;
   videoUrl?: string;
+  parentId?: string | null;
+  runType?: string;
   testCaseExecutions: TestCaseExecution[];
+  cells?: RunMatrixCell[];
 }
 
 interface TestResultDialogProps {
@@ -54,6 +72,7 @@ interface TestResultDialogProps {
 
 export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDialogProps) {
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isRerunning, setIsRerunning] = useState(false);
 
   if (!testResult) return null;
 
@@ -72,6 +91,21 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
   const passedExecutions = testResult.testCaseExecutions.filter(exec => exec.status === 'passed').length;
   const failedExecutions = testResult.testCaseExecutions.filter(exec => exec.status === 'failed').length;
   const totalDuration = testResult.testCaseExecutions.reduce((sum, exec) => sum + (exec.duration || 0), 0);
+  const rerunnableExecutions = testResult.testCaseExecutions.filter(exec => RERUNNABLE_STATUSES.includes(exec.status)).length;
+
+  const handleRerunFailed = async () => {
+    setIsRerunning(true);
+    try {
+      await new TestCaseService().rerunFailedTests(testResult.projectId, testResult.id);
+      toast.success(`Rerunning ${rerunnableExecutions} failed test${rerunnableExecutions !== 1 ? 's' : ''}`);
+      onClose();
+    } catch (error) {
+      console.error('Error rerunning failed tests:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to rerun failed tests');
+    } finally {
+      setIsRerunning(false);
+    }
+  };
 
   // Download test result function
   const handleDownloadTestResult = async () => {
@@ -153,7 +187,7 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
 
           {/* Execution Info */}
           <div className="text-sm text-muted-foreground">
-            Browser: {testResult.browser || 'chromium'} • 
+            {testResult.runType === 'manual' ? `Manual run by ${testResult.createdBy || 'unknown'}` : `Browser: ${testResult.browser || 'chromium'}`} • 
             Total Duration: {totalDuration ? (totalDuration / 1000).toFixed(2) : '0'}s • 
             {testResult.testResultFileName && (
               <>
@@ -163,16 +197,24 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
             Created {testResult.createdAt ? formatDistance(new Date(testResult.createdAt), new Date(), { addSuffix: true }) : ''}
           </div>
 
+          {testResult.cells && testResult.cells.length > 0 && <RunMatrixGrid cells={testResult.cells} />}
+
+          <MergedRunOutcome projectId={testResult.projectId} testResultId={testResult.id} />
+
           {/* Tabs */}
-          <Tabs defaultValue="executions" className="w-full">
+          <Tabs defaultValue={isRunActive(testResult.status) ? 'logs' : 'executions'} className="w-full">
             <TabsList>
               <TabsTrigger value="executions" className="flex items-center gap-2">
                 <Terminal className="h-4 w-4" />
                 Test Case Executions
               </TabsTrigger>
+              <TabsTrigger value="artifacts" className="flex items-center gap-2">
+                <Paperclip className="h-4 w-4" />
+                Artifacts
+              </TabsTrigger>
               <TabsTrigger value="logs" className="flex items-center gap-2">
                 <Terminal className="h-4 w-4" />
-                Raw Output
+                {isRunActive(testResult.status) ? 'Live Console' : 'Raw Output'}
               </TabsTrigger>
             </TabsList>
 
@@ -239,6 +281,37 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
                             'N/A'
                           }
                         </div>
+
+                        {/* Attempts per browser project, including retries */}
+                        {execution.attempts && execution.attempts.length > 1 && (
+                          <div className="col-span-12 space-y-1 pl-4 border-l-2">
+                            {execution.attempts.map((attempt) => (
+                              <div key={attempt.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                                {attempt.status === 'passed' ? (
+                                  <CheckCircle className="h-3 w-3 text-green-500" />
+                                ) : (
+                                  <XCircle className="h-3 w-3 text-red-500" />
+                                )}
+                                {attempt.projectName && (
+                                  <Badge variant="outline" className="capitalize text-xs">{attempt.projectName}</Badge>
+                                )}
+                                {attempt.environment && (
+                                  <Badge variant="outline" className="text-xs">{attempt.environment}</Badge>
+                                )}
+                                <span>{attempt.retry > 0 ? `Retry #${attempt.retry}` : 'First attempt'}</span>
+                                <span className="capitalize">{attempt.status}</span>
+                                {attempt.duration !== undefined && (
+                                  <span>{(attempt.duration / 1000).toFixed(2)}s</span>
+                                )}
+                                {attempt.errorMessage && (
+                                  <span className="truncate text-red-500" title={attempt.errorMessage}>
+                                    {attempt.errorMessage}
+                                  </span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))
                   ) : (
@@ -268,12 +341,20 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
               </div>
             </TabsContent>
 
+            <TabsContent value="artifacts" className="mt-4">
+              <TestArtifactsPanel projectId={testResult.projectId} testResultId={testResult.id} />
+            </TabsContent>
+
             <TabsContent value="logs" className="mt-4">
-              <div className="rounded-md border bg-slate-50 p-4">
-                <pre className="text-sm font-mono whitespace-pre-wrap overflow-auto max-h-[500px]">
-                  {typeof parsedOutput === 'string' ? parsedOutput : JSON.stringify(parsedOutput, null, 2)}
-                </pre>
-              </div>
+              {isRunActive(testResult.status) ? (
+                <LiveRunConsole projectId={testResult.projectId} testResultId={testResult.id} />
+              ) : (
+                <div className="rounded-md border bg-slate-50 p-4">
+                  <pre className="text-sm font-mono whitespace-pre-wrap overflow-auto max-h-[500px]">
+                    {typeof parsedOutput === 'string' ? parsedOutput : JSON.stringify(parsedOutput, null, 2)}
+                  </pre>
+                </div>
+              )}
             </TabsContent>
           </Tabs>
 
@@ -296,9 +377,25 @@ export function TestResultDialog({ isOpen, onClose, testResult }: TestResultDial
                 </Button>
               )}
             </div>
-            <Button variant="outline" onClick={onClose}>
-              Close
-            </Button>
+            <div className="flex gap-2">
+              {!isRunActive(testResult.status) && testResult.runType !== 'manual' && rerunnableExecutions > 0 && (
+                <Button
+                  onClick={handleRerunFailed}
+                  disabled={isRerunning}
+                  className="flex items-center gap-2"
+                >
+                  {isRerunning ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                  Rerun Failed ({rerunnableExecutions})
+                </Button>
+              )}
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+            </div>
           </div>
         </div>
       </DialogContent>
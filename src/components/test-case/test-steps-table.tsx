@@ -55,6 +55,7 @@ import {
 } from 'lucide-react';
 import { TestCaseService } from '@/lib/api/services/test-case-service';
 import { FixtureService } from '@/lib/api/services/fixture-service';
+import { SharedStepService } from '@/lib/api/services/shared-step-service';
 import { Step as ApiStep } from '@/lib/api/interfaces';
 import { AddStepForm, StepFormData } from '@/components/step/add-step-form';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -112,6 +113,8 @@ export function TestStepsTable({
   const [stepToMove, setStepToMove] = useState<Step | null>(null);
   const [fixtures, setFixtures] = useState<Fixture[]>([]);
   const [isLoadingFixtures, setIsLoadingFixtures] = useState(false);
+  const [stepGroups, setStepGroups] = useState<Array<{ id: string; name: string }>>([]);
+  const [callableTestCases, setCallableTestCases] = useState<Array<{ id: string; name: string }>>([]);
   const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [importCode, setImportCode] = useState('');
   const [isImporting, setIsImporting] = useState(false);
@@ -122,6 +125,7 @@ export function TestStepsTable({
   // Memoize service instances to prevent unnecessary re-creation
   const testCaseService = useMemo(() => new TestCaseService(), []);
   const fixtureService = useMemo(() => new FixtureService(), []);
+  const sharedStepService = useMemo(() => new SharedStepService(), []);
   
   // Update local steps when props change
   useEffect(() => {
@@ -151,6 +155,16 @@ export function TestStepsTable({
       
       const response = await fixtureService.getFixtures(projectId);
       setFixtures(response.fixtures || []);
+
+      // Test case steps can also call shared step groups and other test cases
+      if (testCaseId) {
+        const [groups, testCases] = await Promise.all([
+          sharedStepService.getSharedStepGroups(projectId),
+          testCaseService.getTestCases(projectId),
+        ]);
+        setStepGroups(groups);
+        setCallableTestCases(testCases.filter(testCase => testCase.id !== testCaseId));
+      }
     } catch (error) {
       console.error('Error fetching fixtures:', error);
     } finally {
@@ -471,6 +485,8 @@ export function TestStepsTable({
           expected: data.expected || undefined,
           playwrightScript: data.playwrightScript || undefined,
           fixtureId: data.fixtureId,
+          calledGroupId: data.calledGroupId || null,
+          calledTestCaseId: data.calledTestCaseId || null,
         };
 
         result = await testCaseService.createTestCaseStep(projectId, testCaseId, stepData);
@@ -545,6 +561,8 @@ export function TestStepsTable({
               expected: data.expected || undefined,
               playwrightScript: data.playwrightScript || undefined,
               fixtureId: data.fixtureId,
+              calledGroupId: data.calledGroupId || null,
+              calledTestCaseId: data.calledTestCaseId || null,
             }
           );
         }
@@ -946,6 +964,8 @@ export function TestStepsTable({
             initialData={{ action: '', data: '', expected: '', playwrightScript: '' }}
             isFixture={isFixture}
             fixtures={fixtures}
+            stepGroups={stepGroups}
+            testCases={callableTestCases}
           />
         </DialogContent>
       </Dialog>
@@ -972,11 +992,15 @@ export function TestStepsTable({
                 data: activeStep.data || '', 
                 expected: activeStep.expected || '', 
                 playwrightScript: activeStep.playwrightScript || '',
-                fixtureId: activeStep.fixtureId || ''
+                fixtureId: activeStep.fixtureId || '',
+                calledGroupId: activeStep.calledGroupId || undefined,
+                calledTestCaseId: activeStep.calledTestCaseId || undefined
               }}
               title="Update Step"
               isFixture={isFixture}
               fixtures={fixtures}
+              stepGroups={stepGroups}
+              testCases={callableTestCases}
             />
           )}
         </DialogContent>
@@ -0,0 +1,260 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SuiteService, TestCaseService, TestPlanService } from '@/lib/api/services';
+import { TEST_CASE_PRIORITIES, TestPlan, TestSuite } from '@/types';
+import type { TestPlanCriteria } from '@/lib/test-plans/test-plans';
+
+interface TestPlanDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The plan to edit, a new plan is created without one
+  plan?: TestPlan | null;
+  onSaved: (plan: TestPlan) => void;
+}
+
+interface TestPlanFormState {
+  name: string;
+  description: string;
+  testCaseIds: string[];
+  tags: string;
+  suiteIds: string[];
+  priorities: TestPlanCriteria['priorities'];
+  testType: TestPlanCriteria['testType'];
+}
+
+function toFormState(plan?: TestPlan | null): TestPlanFormState {
+  return {
+    name: plan?.name || '',
+    description: plan?.description || '',
+    testCaseIds: plan?.testCaseIds || [],
+    tags: (plan?.criteria.tags || []).join(', '),
+    suiteIds: plan?.criteria.suiteIds || [],
+    priorities: plan?.criteria.priorities || [],
+    testType: plan?.criteria.testType || 'all',
+  };
+}
+
+function toggle<T>(values: T[], value: T, checked: boolean): T[] {
+  return checked ? [...values, value] : values.filter(item => item !== value);
+}
+
+/**
+ * Create or edit a test plan: its picked test cases and the criteria that pull in more
+ */
+export function TestPlanDialog({ projectId, open, onOpenChange, plan, onSaved }: TestPlanDialogProps) {
+  const [form, setForm] = useState<TestPlanFormState>(toFormState(plan));
+  const [testCases, setTestCases] = useState<Array<{ id: string; name: string; isManual: boolean }>>([]);
+  const [suites, setSuites] = useState<TestSuite[]>([]);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+    setForm(toFormState(plan));
+    setSearch('');
+
+    new TestCaseService().getTestCases(projectId, { limit: 1000 })
+      .then(setTestCases)
+      .catch(error => {
+        console.error('Error loading test cases:', error);
+        toast.error('Failed to load test cases');
+      });
+    new SuiteService().getSuites(projectId)
+      .then(setSuites)
+      .catch(error => console.error('Error loading suites:', error));
+  }, [open, plan, projectId]);
+
+  async function handleSave() {
+    if (!form.name.trim()) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      testCaseIds: form.testCaseIds,
+      criteria: {
+        tags: form.tags.split(',').map(tag => tag.trim().replace(/^@/, '')).filter(Boolean),
+        suiteIds: form.suiteIds,
+        priorities: form.priorities,
+        testType: form.testType,
+      },
+    };
+
+    setSaving(true);
+    try {
+      const service = new TestPlanService();
+      const saved = plan
+        ? await service.updateTestPlan(projectId, plan.id, data)
+        : await service.createTestPlan(projectId, data);
+      toast.success(plan ? 'Test plan updated' : 'Test plan created');
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      console.error('Error saving test plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save test plan');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const visibleTestCases = testCases.filter(testCase => testCase.name.toLowerCase().includes(search.toLowerCase()));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{plan ? 'Edit Test Plan' : 'New Test Plan'}</DialogTitle>
+          <DialogDescription>
+            A plan holds the test cases picked below plus every test case matching its criteria, including ones added later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="plan-name">Name</Label>
+            <Input
+              id="plan-name"
+              value={form.name}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Checkout regression"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-description">Description</Label>
+            <Textarea
+              id="plan-description"
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm font-medium">Criteria</p>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan-tags">Tags</Label>
+                <Input
+                  id="plan-tags"
+                  value={form.tags}
+                  onChange={(e) => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                  placeholder="Any of, e.g. smoke, checkout"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={form.testType}
+                  onValueChange={(value: TestPlanCriteria['testType']) => setForm(prev => ({ ...prev, testType: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Manual and automated</SelectItem>
+                    <SelectItem value="manual">Manual only</SelectItem>
+                    <SelectItem value="automated">Automated only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <div className="flex gap-4">
+                {TEST_CASE_PRIORITIES.map(priority => (
+                  <label key={priority} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.priorities.includes(priority)}
+                      onCheckedChange={(checked) => setForm(prev => ({ ...prev, priorities: toggle(prev.priorities, priority, !!checked) }))}
+                    />
+                    {priority}
+                  </label>
+                ))}
+              </div>
+            </div>
+            {suites.length > 0 && (
+              <div className="space-y-2">
+                <Label>Suites</Label>
+                <div className="max-h-32 overflow-y-auto space-y-1">
+                  {suites.map(suite => (
+                    <label key={suite.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.suiteIds.includes(suite.id)}
+                        onCheckedChange={(checked) => setForm(prev => ({ ...prev, suiteIds: toggle(prev.suiteIds, suite.id, !!checked) }))}
+                      />
+                      {suite.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              All criteria that are set must match. Leave them empty to only use the picked test cases.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Picked Test Cases ({form.testCaseIds.length})</Label>
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search test cases..."
+            />
+            <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-1">
+              {visibleTestCases.map(testCase => (
+                <label key={testCase.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.testCaseIds.includes(testCase.id)}
+                    onCheckedChange={(checked) => setForm(prev => ({ ...prev, testCaseIds: toggle(prev.testCaseIds, testCase.id, !!checked) }))}
+                  />
+                  {testCase.name}
+                  {testCase.isManual && <span className="text-xs text-muted-foreground">manual</span>}
+                </label>
+              ))}
+              {visibleTestCases.length === 0 && (
+                <p className="text-sm text-muted-foreground">No test cases found</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { ClipboardList, Edit, Loader2, PlusCircle, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { TestPlanService } from '@/lib/api/services';
+import { TestPlan } from '@/types';
+import { TestPlanDialog } from './test-plan-dialog';
+import { TestPlanProgressBar } from './test-plan-progress';
+
+interface TestPlanManagerProps {
+  projectId: string;
+}
+
+export function TestPlanManager({ projectId }: TestPlanManagerProps) {
+  const [plans, setPlans] = useState<TestPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<TestPlan | null>(null);
+  const testPlanService = new TestPlanService();
+
+  async function loadPlans() {
+    try {
+      setPlans(await testPlanService.getTestPlans(projectId));
+    } catch (error) {
+      console.error('Error loading test plans:', error);
+      toast.error('Failed to load test plans');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPlans();
+  }, [projectId]);
+
+  function openForm(plan?: TestPlan) {
+    setEditingPlan(plan || null);
+    setIsFormOpen(true);
+  }
+
+  async function handleDelete(plan: TestPlan) {
+    if (!confirm(`Delete test plan "${plan.name}"? Its runs are kept.`)) {
+      return;
+    }
+
+    try {
+      await testPlanService.deleteTestPlan(projectId, plan.id);
+      setPlans(prev => prev.filter(item => item.id !== plan.id));
+      toast.success('Test plan deleted');
+    } catch (error) {
+      console.error('Error deleting test plan:', error);
+      toast.error('Failed to delete test plan');
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle>Test Plans</CardTitle>
+          <CardDescription>Group test cases into reusable scopes and track their progress across runs</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm()}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          New Test Plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : plans.length === 0 ? (
+          <p className="text-muted-foreground">No test plans yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {plans.map(plan => (
+              <div key={plan.id} className="flex items-start justify-between gap-4 p-4">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                    <Link href={`/projects/${projectId}/test-plans/${plan.id}`} className="font-medium hover:underline">
+                      {plan.name}
+                    </Link>
+                  </div>
+                  {plan.description && (
+                    <p className="text-sm text-muted-foreground">{plan.description}</p>
+                  )}
+                  {plan.progress && <TestPlanProgressBar progress={plan.progress} />}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="ghost" size="icon" onClick={() => openForm(plan)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(plan)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <TestPlanDialog
+        projectId={projectId}
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        plan={editingPlan}
+        onSaved={() => loadPlans()}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import type { TestPlanProgress } from '@/lib/test-plans/test-plans';
+
+interface TestPlanProgressBarProps {
+  progress: TestPlanProgress;
+}
+
+const segments: Array<{ key: keyof Omit<TestPlanProgress, 'total'>; label: string; className: string }> = [
+  { key: 'passed', label: 'Passed', className: 'bg-green-500' },
+  { key: 'failed', label: 'Failed', className: 'bg-red-500' },
+  { key: 'blocked', label: 'Blocked', className: 'bg-amber-500' },
+  { key: 'untested', label: 'Untested', className: 'bg-slate-300' },
+];
+
+/**
+ * Share of a plan's test cases per latest outcome
+ */
+export function TestPlanProgressBar({ progress }: TestPlanProgressBarProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex h-2 w-full overflow-hidden rounded bg-muted">
+        {progress.total > 0 && segments.map(segment => (
+          <div
+            key={segment.key}
+            className={segment.className}
+            style={{ width: `${(progress[segment.key] / progress.total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {segments.map(segment => (
+          <span key={segment.key} className="flex items-center gap-1">
+            <span className={`inline-block h-2 w-2 rounded-full ${segment.className}`} />
+            {segment.label} {progress[segment.key]}
+          </span>
+        ))}
+        <span>of {progress.total}</span>
+      </div>
+    </div>
+  );
+}
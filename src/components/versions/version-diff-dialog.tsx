@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/utils/date';
+import type { DiffLine } from '@/lib/utils/text-diff';
+import type { DiffableStep, StepDiff, VersionDiff } from '@/lib/utils/version-diff';
+
+interface VersionOption {
+  id: string;
+  version: string | number;
+  createdAt: string | Date;
+}
+
+interface VersionDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: VersionOption[];
+  fromVersionId: string | null;
+  // "current" compares with the live test case or fixture
+  toVersionId?: string;
+  loadDiff: (fromVersionId: string, toVersionId: string) => Promise<VersionDiff>;
+  onRevert?: (versionId: string) => void;
+}
+
+const statusStyles: Record<StepDiff['status'], string> = {
+  unchanged: '',
+  added: 'bg-green-50',
+  removed: 'bg-red-50',
+  modified: 'bg-amber-50',
+};
+
+// Pairs removed and added runs of a line diff into rows of a two column view
+function toSideBySide(lines: DiffLine[]): Array<{ left: DiffLine | null; right: DiffLine | null }> {
+  const rows: Array<{ left: DiffLine | null; right: DiffLine | null }> = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++]);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++]);
+    for (let row = 0; row < Math.max(removed.length, added.length); row++) {
+      rows.push({ left: removed[row] || null, right: added[row] || null });
+    }
+  }
+  return rows;
+}
+
+function CodeDiff({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="grid grid-cols-2 rounded border bg-slate-50 font-mono text-xs overflow-auto max-h-[300px]">
+      {toSideBySide(lines).map((row, index) => (
+        <div key={index} className="contents">
+          <div className={`whitespace-pre-wrap px-2 border-r ${row.left?.type === 'removed' ? 'bg-red-100 text-red-800' : ''}`}>
+            {row.left?.value ?? ''}
+          </div>
+          <div className={`whitespace-pre-wrap px-2 ${row.right?.type === 'added' ? 'bg-green-100 text-green-800' : ''}`}>
+            {row.right?.value ?? ''}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StepCell({ step, fields }: { step: DiffableStep | null; fields: string[] }) {
+  if (!step) {
+    return <div className="text-muted-foreground italic">-</div>;
+  }
+  const highlight = (field: string) => (fields.includes(field) ? 'font-semibold' : '');
+
+  return (
+    <div className="space-y-1 min-w-0">
+      <p className={highlight('action')}>
+        {step.order}. {step.action}
+        {step.disabled && <Badge variant="outline" className="ml-2">Disabled</Badge>}
+      </p>
+      {step.data && <p className={`text-xs text-muted-foreground ${highlight('data')}`}>Data: {step.data}</p>}
+      {step.expected && <p className={`text-xs text-muted-foreground ${highlight('expected')}`}>Expected: {step.expected}</p>}
+      {(step.calledGroupId || step.calledTestCaseId) && (
+        <p className={`text-xs text-muted-foreground ${highlight('call')}`}>
+          Calls {step.calledGroupId ? 'shared steps' : 'test case'}: {step.calledName || 'deleted'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two versions of a test case or fixture, to review a change before reverting
+ */
+export function VersionDiffDialog({
+  open,
+  onOpenChange,
+  versions,
+  fromVersionId,
+  toVersionId = 'current',
+  loadDiff,
+  onRevert,
+}: VersionDiffDialogProps) {
+  const [from, setFrom] = useState<string | null>(fromVersionId);
+  const [to, setTo] = useState(toVersionId);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFrom(fromVersionId);
+      setTo(toVersionId);
+    }
+  }, [open, fromVersionId, toVersionId]);
+
+  useEffect(() => {
+    if (!open || !from) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    loadDiff(from, to)
+      .then(setDiff)
+      .catch(err => {
+        console.error('Error comparing versions:', err);
+        setDiff(null);
+        setError(err instanceof Error ? err.message : 'Failed to compare versions');
+      })
+      .finally(() => setLoading(false));
+  }, [open, from, to]);
+
+  const versionSelect = (value: string | null, onChange: (value: string) => void, allowCurrent: boolean) => (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowCurrent && <SelectItem value="current">Current</SelectItem>}
+        {versions.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            v{version.version} · {formatDate(version.createdAt)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>Steps added, removed, moved or edited between two versions</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {versionSelect(from, setFrom, false)}
+          {versionSelect(to, setTo, true)}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : diff && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline" className="bg-green-50">{diff.summary.added} added</Badge>
+              <Badge variant="outline" className="bg-red-50">{diff.summary.removed} removed</Badge>
+              <Badge variant="outline" className="bg-amber-50">{diff.summary.modified} edited</Badge>
+              <Badge variant="outline">{diff.summary.moved} moved</Badge>
+            </div>
+
+            {diff.nameChanged && (
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <p className="bg-red-50 px-2 py-1 rounded">Name: {diff.from.name}</p>
+                <p className="bg-green-50 px-2 py-1 rounded">Name: {diff.to.name}</p>
+              </div>
+            )}
+
+            {diff.scriptDiff && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Script</p>
+                <CodeDiff lines={diff.scriptDiff} />
+              </div>
+            )}
+
+            {diff.steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Neither version has steps</p>
+            ) : (
+              <div className="divide-y rounded-md border text-sm">
+                {diff.steps.map((step, index) => (
+                  <div key={index} className={`p-2 space-y-2 ${statusStyles[step.status]}`}>
+                    <div className="grid grid-cols-2 gap-4">
+                      <StepCell step={step.before} fields={step.changedFields} />
+                      <div className="flex items-start justify-between gap-2">
+                        <StepCell step={step.after} fields={step.changedFields} />
+                        {(step.status !== 'unchanged' || step.moved) && (
+                          <Badge variant="outline" className="shrink-0 capitalize">
+                            {step.status === 'unchanged' ? 'moved' : step.moved ? `${step.status}, moved` : step.status}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    {step.codeDiff && <CodeDiff lines={step.codeDiff} />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {onRevert && from && (
+            <Button onClick={() => onRevert(from)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Revert to v{diff?.from.version ?? versions.find(version => version.id === from)?.version}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Runs once when the Next.js server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { testRunWorker } = await import('@/lib/test-run/test-run-worker');
+
+  // Runs left 'running' by a previous server process can never finish
+  await testRunWorker.recoverOrphanedRuns();
+  testRunWorker.start();
+
+  const { testScheduler } = await import('@/lib/test-run/test-scheduler');
+  testScheduler.start();
+}
@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import type { RunComparison } from '@/lib/test-run/run-comparison';
+
+/**
+ * Load the test case by test case comparison of two runs
+ */
+export function useRunComparison(projectId: string, baseId: string | null, targetId: string | null) {
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!baseId || !targetId) {
+      setComparison(null);
+      return;
+    }
+
+    const fetchComparison = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ base: baseId, target: targetId });
+        const response = await fetch(`/api/projects/${projectId}/test-results/compare?${params}`);
+
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to compare test runs');
+        }
+
+        setComparison(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setComparison(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [projectId, baseId, targetId]);
+
+  return {
+    comparison,
+    loading,
+    error
+  };
+}
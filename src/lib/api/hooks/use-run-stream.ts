@@ -0,0 +1,117 @@
+import { useState, useEffect, useRef } from 'react';
+import type { RunStreamEvent, RunTestStatus } from '@/lib/test-run/run-log-broker';
+import { isRunActive } from '@/lib/test-run/run-status';
+
+export interface RunLogLine {
+  id: number;
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+export interface RunTestProgress {
+  key: string;
+  title: string;
+  status: RunTestStatus;
+  project?: string;
+  durationMs?: number;
+  retry?: number;
+  testCaseId?: string;
+}
+
+interface UseRunStreamOptions {
+  projectId: string;
+  testResultId: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Follow the live output of a test run over Server-Sent Events.
+ * The browser reconnects on its own and the server replays what was missed.
+ */
+export function useRunStream({ projectId, testResultId, enabled = true }: UseRunStreamOptions) {
+  const [lines, setLines] = useState<RunLogLine[]>([]);
+  const [tests, setTests] = useState<RunTestProgress[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const lastEventId = useRef(-1);
+
+  useEffect(() => {
+    if (!testResultId || !enabled) {
+      return;
+    }
+
+    setLines([]);
+    setTests([]);
+    setStatus(null);
+    lastEventId.current = -1;
+
+    const source = new EventSource(`/api/projects/${projectId}/test-results/${testResultId}/stream`);
+
+    // Ignore anything already seen, e.g. when a reconnect replays from the start
+    const parse = (message: MessageEvent): RunStreamEvent | null => {
+      const event = JSON.parse(message.data) as RunStreamEvent;
+      if (event.id <= lastEventId.current) {
+        return null;
+      }
+      lastEventId.current = event.id;
+      return event;
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener('log', (message) => {
+      const event = parse(message as MessageEvent);
+      if (event?.type === 'log') {
+        setLines(prev => [...prev, { id: event.id, stream: event.stream, line: event.line }]);
+      }
+    });
+
+    source.addEventListener('test', (message) => {
+      const event = parse(message as MessageEvent);
+      if (event?.type !== 'test') {
+        return;
+      }
+
+      // A retry replaces the earlier attempt of the same test
+      const key = `${event.project || ''}:${event.testCaseId || event.title}`;
+      setTests(prev => [
+        ...prev.filter(test => test.key !== key),
+        {
+          key,
+          title: event.title,
+          status: event.status,
+          project: event.project,
+          durationMs: event.durationMs,
+          retry: event.retry,
+          testCaseId: event.testCaseId,
+        },
+      ]);
+    });
+
+    source.addEventListener('status', (message) => {
+      const event = parse(message as MessageEvent);
+      if (event?.type !== 'status') {
+        return;
+      }
+
+      setStatus(event.status);
+      if (!isRunActive(event.status)) {
+        source.close();
+        setConnected(false);
+      }
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [projectId, testResultId, enabled]);
+
+  return {
+    lines,
+    tests,
+    status,
+    connected
+  };
+}
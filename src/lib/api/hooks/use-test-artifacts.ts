@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { TestArtifact } from '@/types';
+
+/**
+ * Load the indexed screenshots, videos and traces of a test run
+ */
+export function useTestArtifacts(projectId: string, testResultId: string | null) {
+  const [artifacts, setArtifacts] = useState<TestArtifact[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!testResultId) {
+      setArtifacts([]);
+      return;
+    }
+
+    const fetchArtifacts = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/projects/${projectId}/test-results/${testResultId}/artifacts`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch test artifacts');
+        }
+
+        setArtifacts(await response.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+        setArtifacts([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchArtifacts();
+  }, [projectId, testResultId]);
+
+  return {
+    artifacts,
+    loading,
+    error
+  };
+}
@@ -77,11 +77,23 @@ export function useTestResults({
     fetchTestResults();
   };
 
+  // Link to the comparison page, with the older of the two runs as the base
+  const getCompareUrl = (firstId: string, secondId: string) => {
+    const runs = data?.data || [];
+    const first = runs.find(result => result.id === firstId);
+    const second = runs.find(result => result.id === secondId);
+    const [baseId, targetId] = first && second && new Date(first.createdAt) > new Date(second.createdAt)
+      ? [secondId, firstId]
+      : [firstId, secondId];
+    return `/projects/${projectId}/test-results/compare?${new URLSearchParams({ base: baseId, target: targetId })}`;
+  };
+
   return {
     data: data?.data || [],
     pagination: data?.pagination,
     loading,
     error,
-    refetch
+    refetch,
+    getCompareUrl
   };
 } 
\ No newline at end of file
@@ -87,6 +87,8 @@ export interface Step {
   order: number;
   disabled?: boolean;
   fixtureId?: string;
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
   testCaseId?: string;
   playwrightScript?: string;
   createdAt: string;
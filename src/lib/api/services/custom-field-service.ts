@@ -0,0 +1,33 @@
+import { ApiClient } from '../api-client';
+import { CustomField, CustomFieldValuesByTestCase } from '@/types';
+import type { CustomFieldInput } from '@/lib/custom-fields/custom-fields';
+
+export class CustomFieldService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getCustomFields(projectId: string) {
+    return this.apiClient.get<CustomField[]>(`/projects/${projectId}/custom-fields`);
+  }
+
+  async createCustomField(projectId: string, data: CustomFieldInput) {
+    return this.apiClient.post<CustomField>(`/projects/${projectId}/custom-fields`, data);
+  }
+
+  async updateCustomField(projectId: string, fieldId: string, data: CustomFieldInput) {
+    return this.apiClient.put<CustomField>(`/projects/${projectId}/custom-fields/${fieldId}`, data);
+  }
+
+  async deleteCustomField(projectId: string, fieldId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/custom-fields/${fieldId}`);
+  }
+
+  // Values of every test case in the project, or of a single one
+  async getCustomFieldValues(projectId: string, testCaseId?: string) {
+    const query = testCaseId ? `?testCaseId=${testCaseId}` : '';
+    return this.apiClient.get<CustomFieldValuesByTestCase>(`/projects/${projectId}/custom-fields/values${query}`);
+  }
+}
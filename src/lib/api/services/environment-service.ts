@@ -0,0 +1,27 @@
+import { ApiClient } from '../api-client';
+import { ProjectEnvironment } from '@/types';
+import type { EnvironmentInput } from '@/lib/environments/environment';
+
+export class EnvironmentService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getEnvironments(projectId: string) {
+    return this.apiClient.get<ProjectEnvironment[]>(`/projects/${projectId}/environments`);
+  }
+
+  async createEnvironment(projectId: string, data: EnvironmentInput) {
+    return this.apiClient.post<ProjectEnvironment>(`/projects/${projectId}/environments`, data);
+  }
+
+  async updateEnvironment(projectId: string, environmentId: string, data: EnvironmentInput) {
+    return this.apiClient.put<ProjectEnvironment>(`/projects/${projectId}/environments/${environmentId}`, data);
+  }
+
+  async deleteEnvironment(projectId: string, environmentId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/environments/${environmentId}`);
+  }
+}
@@ -1,5 +1,6 @@
 import { ApiClient } from '../api-client';
 import { Fixture, FixtureVersion, Step } from '../interfaces';
+import type { VersionDiff } from '@/lib/utils/version-diff';
 
 export class FixtureService {
   private apiClient: ApiClient;
@@ -68,6 +69,13 @@ export class FixtureService {
     return this.apiClient.get<FixtureVersion[]>(`/projects/${projectId}/fixtures/${fixtureId}/versions`);
   }
 
+  // toVersionId "current" compares with the fixture as it is now
+  async diffFixtureVersions(projectId: string, fixtureId: string, fromVersionId: string, toVersionId = 'current'): Promise<VersionDiff> {
+    return this.apiClient.get<VersionDiff>(
+      `/projects/${projectId}/fixtures/${fixtureId}/versions/diff?from=${fromVersionId}&to=${toVersionId}`
+    );
+  }
+
   async getFixtureSteps(projectId: string, fixtureId: string): Promise<Step[]> {
     const response = await this.apiClient.get<Step[]>(
       `/projects/${projectId}/fixtures/${fixtureId}/steps`
@@ -0,0 +1,54 @@
+import { ApiClient } from '../api-client';
+import type { GitCommit, GitSettings, ProjectGitStatus } from '@/lib/playwright/project-git';
+
+export class GitService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getStatus(projectId: string) {
+    return this.apiClient.get<ProjectGitStatus>(`/projects/${projectId}/git`);
+  }
+
+  async initRepository(projectId: string) {
+    return this.apiClient.post<ProjectGitStatus>(`/projects/${projectId}/git`, {});
+  }
+
+  async updateSettings(projectId: string, settings: GitSettings) {
+    const response = await fetch(`/api/projects/${projectId}/git`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(settings),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.details ? error.details.join('\n') : error.error || 'Failed to save git settings');
+    }
+
+    return response.json() as Promise<ProjectGitStatus>;
+  }
+
+  async push(projectId: string) {
+    const response = await fetch(`/api/projects/${projectId}/git/push`, { method: 'POST' });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.details ? `${error.error}:\n${error.details.join('\n')}` : error.error || 'Failed to push');
+    }
+
+    return response.json() as Promise<{ remoteUrl: string; branch: string; output: string }>;
+  }
+
+  async getFileHistory(projectId: string, filePath: string) {
+    return this.apiClient.get<{ initialized: boolean; path: string; commits: GitCommit[] }>(
+      `/projects/${projectId}/git/history?path=${encodeURIComponent(filePath)}`
+    );
+  }
+
+  async getFilePatch(projectId: string, filePath: string, sha: string) {
+    return this.apiClient.get<{ sha: string; path: string; patch: string }>(
+      `/projects/${projectId}/git/history?path=${encodeURIComponent(filePath)}&sha=${sha}`
+    );
+  }
+}
@@ -3,4 +3,13 @@ export * from './test-case-service';
 export * from './fixture-service';
 export * from './dashboard-service';
 export * from './user-service'; 
-export * from './release-service';
\ No newline at end of file
+export * from './release-service';
+export * from './schedule-service';
+export * from './environment-service';
+export * from './git-service';
+export * from './review-service';
+export * from './suite-service';
+export * from './test-plan-service';
+export * from './requirement-service';
+export * from './custom-field-service';
+export * from './shared-step-service';
\ No newline at end of file
@@ -53,7 +53,7 @@ export class ProjectService {
     return apiClient.get<ConfigurationSettings>(`/projects/${projectId}/configuration`);
   }
 
-  async updateProjectConfiguration(projectId: string, config: ConfigurationSettings): Promise<void> {
-    return apiClient.put<void>(`/projects/${projectId}/configuration`, config);
+  async updateProjectConfiguration(projectId: string, config: ConfigurationSettings): Promise<{ message: string; warning?: string }> {
+    return apiClient.put<{ message: string; warning?: string }>(`/projects/${projectId}/configuration`, config);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { ApiClient } from '../api-client';
+import { Requirement, TraceabilityMatrix } from '@/types';
+import type { RequirementInput } from '@/lib/requirements/requirements';
+
+export class RequirementService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getRequirements(projectId: string) {
+    return this.apiClient.get<Requirement[]>(`/projects/${projectId}/requirements`);
+  }
+
+  async createRequirement(projectId: string, data: RequirementInput) {
+    return this.apiClient.post<Requirement>(`/projects/${projectId}/requirements`, data);
+  }
+
+  async updateRequirement(projectId: string, requirementId: string, data: RequirementInput) {
+    return this.apiClient.put<Requirement>(`/projects/${projectId}/requirements/${requirementId}`, data);
+  }
+
+  async deleteRequirement(projectId: string, requirementId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/requirements/${requirementId}`);
+  }
+
+  async getTraceabilityMatrix(projectId: string) {
+    return this.apiClient.get<TraceabilityMatrix>(`/projects/${projectId}/traceability`);
+  }
+}
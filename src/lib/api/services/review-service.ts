@@ -0,0 +1,43 @@
+import { ApiClient } from '../api-client';
+import type { ReviewStatus, TestCaseReviewState } from '@/lib/review/test-case-review';
+
+export interface ProjectReviewOverview {
+  enabled: boolean;
+  pending: Array<{
+    id: string;
+    name: string;
+    version: string;
+    approvedVersion: string | null;
+    status: ReviewStatus;
+    updatedAt: string;
+    updatedBy: string | null;
+  }>;
+}
+
+export class ReviewService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getProjectReview(projectId: string) {
+    return this.apiClient.get<ProjectReviewOverview>(`/projects/${projectId}/review`);
+  }
+
+  async setReviewMode(projectId: string, enabled: boolean) {
+    return this.apiClient.put<ProjectReviewOverview>(`/projects/${projectId}/review`, { enabled });
+  }
+
+  async getTestCaseReview(projectId: string, testCaseId: string) {
+    return this.apiClient.get<TestCaseReviewState>(`/projects/${projectId}/test-cases/${testCaseId}/review`);
+  }
+
+  async reviewTestCase(
+    projectId: string,
+    testCaseId: string,
+    review: { action: 'approve' | 'request_changes' | 'comment'; version: string; comment?: string }
+  ) {
+    return this.apiClient.post<TestCaseReviewState>(`/projects/${projectId}/test-cases/${testCaseId}/review`, review);
+  }
+}
@@ -0,0 +1,27 @@
+import { ApiClient } from '../api-client';
+import { TestSchedule } from '@/types';
+import type { TestScheduleInput } from '@/lib/test-run/schedule';
+
+export class ScheduleService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getSchedules(projectId: string) {
+    return this.apiClient.get<TestSchedule[]>(`/projects/${projectId}/schedules`);
+  }
+
+  async createSchedule(projectId: string, data: TestScheduleInput) {
+    return this.apiClient.post<TestSchedule>(`/projects/${projectId}/schedules`, data);
+  }
+
+  async updateSchedule(projectId: string, scheduleId: string, data: Partial<TestScheduleInput>) {
+    return this.apiClient.put<TestSchedule>(`/projects/${projectId}/schedules/${scheduleId}`, data);
+  }
+
+  async deleteSchedule(projectId: string, scheduleId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/schedules/${scheduleId}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { ApiClient } from '../api-client';
+import { SharedStepGroup } from '@/types';
+import type { SharedStepGroupInput } from '@/lib/shared-steps/shared-steps';
+
+export class SharedStepService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getSharedStepGroups(projectId: string) {
+    return this.apiClient.get<SharedStepGroup[]>(`/projects/${projectId}/shared-steps`);
+  }
+
+  async getSharedStepGroup(projectId: string, groupId: string) {
+    return this.apiClient.get<SharedStepGroup>(`/projects/${projectId}/shared-steps/${groupId}`);
+  }
+
+  async createSharedStepGroup(projectId: string, data: SharedStepGroupInput) {
+    return this.apiClient.post<SharedStepGroup>(`/projects/${projectId}/shared-steps`, data);
+  }
+
+  async updateSharedStepGroup(projectId: string, groupId: string, data: SharedStepGroupInput) {
+    return this.apiClient.put<SharedStepGroup>(`/projects/${projectId}/shared-steps/${groupId}`, data);
+  }
+
+  async deleteSharedStepGroup(projectId: string, groupId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/shared-steps/${groupId}`);
+  }
+}
@@ -0,0 +1,32 @@
+import { ApiClient } from '../api-client';
+import { TestSuite } from '@/types';
+import type { TestSuiteInput } from '@/lib/suites/test-suites';
+
+export class SuiteService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getSuites(projectId: string) {
+    return this.apiClient.get<TestSuite[]>(`/projects/${projectId}/suites`);
+  }
+
+  async createSuite(projectId: string, data: TestSuiteInput) {
+    return this.apiClient.post<TestSuite>(`/projects/${projectId}/suites`, data);
+  }
+
+  async updateSuite(projectId: string, suiteId: string, data: Partial<TestSuiteInput>) {
+    return this.apiClient.put<TestSuite>(`/projects/${projectId}/suites/${suiteId}`, data);
+  }
+
+  async deleteSuite(projectId: string, suiteId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/suites/${suiteId}`);
+  }
+
+  // A null suite moves the test cases back to the top level
+  async moveTestCases(projectId: string, testCaseIds: string[], suiteId: string | null) {
+    return this.apiClient.patch<{ count: number }>(`/projects/${projectId}/test-cases/move-to-suite`, { testCaseIds, suiteId });
+  }
+}
@@ -1,16 +1,14 @@
 import { ApiClient } from '../api-client';
 import { TestCase, TestCaseVersion, Step, TestResult } from '../interfaces';
-
-interface RunTestRequest {
-  command: string;
-  mode: 'file' | 'list' | 'project';
-  testCaseId?: string | null;
-  testCaseIds?: string[];
-  browser: string;
-  headless: boolean;
-  config: any;
-  testFilePath: string;
-  useReadableNames?: boolean;
+import type { RunSpecInput } from '@/lib/test-run/run-spec';
+import type { TestCaseQuarantine } from '@/types';
+import type { MergedRunOutcome } from '@/lib/test-run/rerun';
+import type { SpecImportResult } from '@/lib/playwright/spec-importer';
+import type { TestFileSync } from '@/lib/playwright/file-sync';
+import type { VersionDiff } from '@/lib/utils/version-diff';
+import type { ManualRunInput } from '@/lib/test-run/manual-run';
+
+interface RunTestRequest extends RunSpecInput {
   waitForResult?: boolean;
   testRunName?: string;
 }
@@ -35,7 +33,7 @@ export class TestCaseService {
     status?: string;
     priority?: string;
     tags?: string;
-  }): Promise<{ testCases: TestCase[]; total: number }> {
+  }): Promise<TestCase[]> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append('page', params.page.toString());
     if (params?.limit) searchParams.append('limit', params.limit.toString());
@@ -44,7 +42,7 @@ export class TestCaseService {
     if (params?.priority) searchParams.append('priority', params.priority);
     if (params?.tags) searchParams.append('tags', params.tags);
 
-    const response = await this.apiClient.get<{ testCases: TestCase[]; total: number }>(
+    const response = await this.apiClient.get<TestCase[]>(
       `/projects/${projectId}/test-cases?${searchParams.toString()}`
     );
     return response;
@@ -103,6 +101,13 @@ export class TestCaseService {
     return response.versions;
   }
 
+  // toVersionId "current" compares with the test case as it is now
+  async diffTestCaseVersions(projectId: string, testCaseId: string, fromVersionId: string, toVersionId = 'current'): Promise<VersionDiff> {
+    return this.apiClient.get<VersionDiff>(
+      `/projects/${projectId}/test-cases/${testCaseId}/versions/diff?from=${fromVersionId}&to=${toVersionId}`
+    );
+  }
+
   async getTestCaseVersion(projectId: string, testCaseId: string, versionId: string): Promise<TestCaseVersion> {
     const response = await this.apiClient.get<TestCaseVersion>(
       `/projects/${projectId}/test-cases/${testCaseId}/versions/${versionId}`
@@ -154,7 +159,100 @@ export class TestCaseService {
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to run test');
+      throw new Error(error.details ? error.details.join('\n') : error.error || 'Failed to run test');
+    }
+
+    return response.json();
+  }
+
+  async previewRunCommand(projectId: string, spec: RunSpecInput): Promise<{ command: string }> {
+    return this.apiClient.post<{ command: string }>(`/projects/${projectId}/run-test/preview`, spec);
+  }
+
+  async cancelTestRun(projectId: string, resultId: string): Promise<{ message: string; testResultId: string }> {
+    return this.apiClient.post<{ message: string; testResultId: string }>(
+      `/projects/${projectId}/test-results/${resultId}/cancel`,
+      {}
+    );
+  }
+
+  async rerunFailedTests(projectId: string, resultId: string): Promise<{ message: string; testResultId: string }> {
+    return this.apiClient.post<{ message: string; testResultId: string }>(
+      `/projects/${projectId}/test-results/${resultId}/rerun-failed`,
+      {}
+    );
+  }
+
+  async recordManualRun(
+    projectId: string,
+    run: ManualRunInput,
+    screenshots: Array<{ testCaseId: string; stepId: string; file: File }>
+  ): Promise<{ testResultId: string }> {
+    const formData = new FormData();
+    formData.append('run', JSON.stringify(run));
+    for (const screenshot of screenshots) {
+      formData.append(`screenshot:${screenshot.testCaseId}:${screenshot.stepId}`, screenshot.file);
+    }
+
+    const response = await fetch(`/api/projects/${projectId}/manual-runs`, { method: 'POST', body: formData });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.details ? `${error.error}:\n${error.details.join('\n')}` : error.error || 'Failed to record manual run');
+    }
+
+    return response.json();
+  }
+
+  async getMergedRunOutcome(projectId: string, resultId: string): Promise<MergedRunOutcome> {
+    return this.apiClient.get<MergedRunOutcome>(`/projects/${projectId}/test-results/${resultId}/merged`);
+  }
+
+  async importSpecFiles(
+    projectId: string,
+    source: { file: File } | { path: string },
+    dryRun = false
+  ): Promise<SpecImportResult> {
+    let init: RequestInit;
+    if ('file' in source) {
+      const formData = new FormData();
+      formData.append('file', source.file);
+      formData.append('dryRun', String(dryRun));
+      init = { method: 'POST', body: formData };
+    } else {
+      init = {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: source.path, dryRun }),
+      };
+    }
+
+    const response = await fetch(`/api/projects/${projectId}/test-cases/import`, init);
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to import spec files');
+    }
+
+    return response.json();
+  }
+
+  async getTestFileSync(projectId: string, testCaseId: string): Promise<TestFileSync> {
+    return this.apiClient.get<TestFileSync>(`/projects/${projectId}/test-cases/${testCaseId}/sync`);
+  }
+
+  async syncTestFile(
+    projectId: string,
+    testCaseId: string,
+    action: { action: 'accept' } | { action: 'overwrite'; fixtureId?: string } | { action: 'code-owned'; codeOwned: boolean }
+  ): Promise<TestFileSync> {
+    const response = await fetch(`/api/projects/${projectId}/test-cases/${testCaseId}/sync`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(action),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.details ? `${error.error}:\n${error.details.join('\n')}` : error.error || 'Failed to sync test file');
     }
 
     return response.json();
@@ -294,6 +392,18 @@ export class TestCaseService {
     return data.content;
   }
 
+  async getQuarantine(projectId: string, testCaseId: string): Promise<TestCaseQuarantine> {
+    return this.apiClient.get<TestCaseQuarantine>(`/projects/${projectId}/test-cases/${testCaseId}/quarantine`);
+  }
+
+  async quarantineTestCase(projectId: string, testCaseId: string, reason?: string): Promise<TestCaseQuarantine> {
+    return this.apiClient.post<TestCaseQuarantine>(`/projects/${projectId}/test-cases/${testCaseId}/quarantine`, { reason });
+  }
+
+  async releaseTestCase(projectId: string, testCaseId: string): Promise<TestCaseQuarantine> {
+    return this.apiClient.delete<TestCaseQuarantine>(`/projects/${projectId}/test-cases/${testCaseId}/quarantine`);
+  }
+
   async bulkUpdateStatus(projectId: string, testCaseIds: string[], status: string): Promise<{ count: number }> {
     const response = await this.apiClient.patch<{ count: number }>(
       `/projects/${projectId}/test-cases/bulk-update-status`,
@@ -0,0 +1,36 @@
+import { ApiClient } from '../api-client';
+import { TestPlan, TestPlanDetail } from '@/types';
+import type { TestPlanInput } from '@/lib/test-plans/test-plans';
+
+export class TestPlanService {
+  private apiClient: ApiClient;
+
+  constructor() {
+    this.apiClient = ApiClient.getInstance();
+  }
+
+  async getTestPlans(projectId: string) {
+    return this.apiClient.get<TestPlan[]>(`/projects/${projectId}/test-plans`);
+  }
+
+  async getTestPlan(projectId: string, planId: string) {
+    return this.apiClient.get<TestPlanDetail>(`/projects/${projectId}/test-plans/${planId}`);
+  }
+
+  async createTestPlan(projectId: string, data: TestPlanInput) {
+    return this.apiClient.post<TestPlan>(`/projects/${projectId}/test-plans`, data);
+  }
+
+  async updateTestPlan(projectId: string, planId: string, data: TestPlanInput) {
+    return this.apiClient.put<TestPlan>(`/projects/${projectId}/test-plans/${planId}`, data);
+  }
+
+  async deleteTestPlan(projectId: string, planId: string) {
+    return this.apiClient.delete<void>(`/projects/${projectId}/test-plans/${planId}`);
+  }
+
+  // A null assignee unassigns the test cases
+  async assignTestCases(projectId: string, planId: string, testCaseIds: string[], assignee: string | null) {
+    return this.apiClient.put<{ count: number }>(`/projects/${projectId}/test-plans/${planId}/assignments`, { testCaseIds, assignee });
+  }
+}
@@ -0,0 +1,15 @@
+import { prisma } from '@/lib/db/prisma';
+
+/**
+ * The given emails that belong to a user, e.g. to refuse assigning work to someone without an account
+ */
+export async function findUserEmails(emails: string[]): Promise<Set<string>> {
+  if (emails.length === 0) {
+    return new Set();
+  }
+  const users = await prisma.user.findMany({
+    where: { email: { in: Array.from(new Set(emails)) } },
+    select: { email: true },
+  });
+  return new Set(users.map(user => user.email).filter((email): email is string => !!email));
+}
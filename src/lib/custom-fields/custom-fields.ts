@@ -0,0 +1,217 @@
+import { z } from 'zod';
+import { CustomField } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { findUserEmails } from '@/lib/auth/users';
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'select', 'multiselect', 'user', 'date'] as const;
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+// Dates are plain YYYY-MM-DD days and users are email addresses
+export type CustomFieldValue = string | number | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const CustomFieldSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(50),
+  type: z.enum(CUSTOM_FIELD_TYPES),
+  options: z.array(z.string().trim().min(1).max(100)).default([]),
+  required: z.boolean().default(false),
+}).refine(
+  field => (field.type !== 'select' && field.type !== 'multiselect') || field.options.length > 0,
+  { message: 'Select fields need at least one option', path: ['options'] }
+).refine(
+  field => new Set(field.options).size === field.options.length,
+  { message: 'Options must be unique', path: ['options'] }
+);
+
+export type CustomFieldInput = z.input<typeof CustomFieldSchema>;
+
+export function parseCustomFieldOptions(options: string | null): string[] {
+  try {
+    const parsed = options ? JSON.parse(options) : [];
+    return Array.isArray(parsed) ? parsed.filter((option): option is string => typeof option === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * API shape of a stored field, with its options parsed
+ */
+export function toCustomFieldResponse(field: CustomField) {
+  return { ...field, type: field.type as CustomFieldType, options: parseCustomFieldOptions(field.options) };
+}
+
+/**
+ * Check a submitted value against its field. Empty values come back as null so the stored value
+ * is cleared.
+ */
+function normalizeCustomFieldValue(
+  field: CustomField,
+  value: unknown
+): { value: CustomFieldValue | null } | { error: string } {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return { value: null };
+  }
+
+  const options = parseCustomFieldOptions(field.options);
+  switch (field.type) {
+    case 'text':
+      return typeof value === 'string' && value.length <= 1000
+        ? { value: value.trim() || null }
+        : { error: 'must be text of up to 1000 characters' };
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? { value: number } : { error: 'must be a number' };
+    }
+    case 'select':
+      return typeof value === 'string' && options.includes(value)
+        ? { value }
+        : { error: `must be one of ${options.join(', ')}` };
+    case 'multiselect':
+      return Array.isArray(value) && value.every(item => typeof item === 'string' && options.includes(item))
+        ? { value: Array.from(new Set(value as string[])) }
+        : { error: `must only contain ${options.join(', ')}` };
+    case 'user':
+      return typeof value === 'string' && z.string().email().safeParse(value.trim()).success
+        ? { value: value.trim() }
+        : { error: 'must be the email of a user' };
+    case 'date':
+      return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`))
+        ? { value }
+        : { error: 'must be a date formatted as YYYY-MM-DD' };
+    default:
+      return { error: 'has an unknown type' };
+  }
+}
+
+/**
+ * Validate submitted values keyed by field id against a project's fields. With requireAll, required
+ * fields without a value are reported too, as when a test case is saved from its form. Values of
+ * user fields must be the email of an existing user.
+ */
+export async function validateCustomFieldValues(
+  fields: CustomField[],
+  values: unknown,
+  requireAll: boolean
+): Promise<{ values: Record<string, CustomFieldValue | null>; problems: string[] }> {
+  const problems: string[] = [];
+  const normalized: Record<string, CustomFieldValue | null> = {};
+
+  if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+    return { values: normalized, problems: ['customFields: Expected an object keyed by field id'] };
+  }
+
+  const submitted = values as Record<string, unknown>;
+  for (const fieldId of Object.keys(submitted)) {
+    if (!fields.some(field => field.id === fieldId)) {
+      problems.push(`customFields.${fieldId}: Field not found in this project`);
+    }
+  }
+
+  for (const field of fields) {
+    if (!(field.id in submitted)) {
+      if (requireAll && field.required) {
+        problems.push(`customFields.${field.id}: ${field.name} is required`);
+      }
+      continue;
+    }
+
+    const result = normalizeCustomFieldValue(field, submitted[field.id]);
+    if ('error' in result) {
+      problems.push(`customFields.${field.id}: ${field.name} ${result.error}`);
+    } else if (result.value === null && field.required) {
+      problems.push(`customFields.${field.id}: ${field.name} is required`);
+    } else {
+      normalized[field.id] = result.value;
+    }
+  }
+
+  const userFields = fields.filter(field => field.type === 'user' && typeof normalized[field.id] === 'string');
+  const userEmails = await findUserEmails(userFields.map(field => normalized[field.id] as string));
+  for (const field of userFields.filter(field => !userEmails.has(normalized[field.id] as string))) {
+    problems.push(`customFields.${field.id}: ${field.name}: no user has the email ${normalized[field.id]}`);
+    delete normalized[field.id];
+  }
+
+  return { values: normalized, problems };
+}
+
+function toValueColumns(type: string, value: CustomFieldValue) {
+  return {
+    textValue: type === 'multiselect' ? JSON.stringify(value) : type === 'number' || type === 'date' ? null : String(value),
+    numberValue: type === 'number' ? Number(value) : null,
+    dateValue: type === 'date' ? new Date(`${value}T00:00:00Z`) : null,
+  };
+}
+
+function fromValueColumns(
+  type: string,
+  row: { textValue: string | null; numberValue: number | null; dateValue: Date | null }
+): CustomFieldValue | null {
+  if (type === 'number') return row.numberValue;
+  if (type === 'date') return row.dateValue ? row.dateValue.toISOString().slice(0, 10) : null;
+  if (type === 'multiselect') return parseCustomFieldOptions(row.textValue);
+  return row.textValue;
+}
+
+/**
+ * Store validated values on a test case; null values remove the stored value
+ */
+export async function saveCustomFieldValues(
+  testCaseId: string,
+  fields: CustomField[],
+  values: Record<string, CustomFieldValue | null>,
+  userEmail?: string | null
+) {
+  await prisma.$transaction(
+    fields
+      .filter(field => field.id in values)
+      .map(field => {
+        const value = values[field.id];
+        if (value === null) {
+          return prisma.customFieldValue.deleteMany({ where: { fieldId: field.id, testCaseId } });
+        }
+        const columns = toValueColumns(field.type, value);
+        return prisma.customFieldValue.upsert({
+          where: { fieldId_testCaseId: { fieldId: field.id, testCaseId } },
+          create: { fieldId: field.id, testCaseId, ...columns, updatedBy: userEmail },
+          update: { ...columns, updatedBy: userEmail },
+        });
+      })
+  );
+}
+
+/**
+ * Custom field values of a project's test cases, keyed by test case id and then field id
+ */
+export async function getCustomFieldValues(
+  projectId: string,
+  testCaseIds?: string[]
+): Promise<Record<string, CustomFieldValues>> {
+  const rows = await prisma.customFieldValue.findMany({
+    where: {
+      field: { projectId },
+      ...(testCaseIds ? { testCaseId: { in: testCaseIds } } : {}),
+    },
+    include: { field: { select: { type: true } } },
+  });
+
+  const valuesByTestCase: Record<string, CustomFieldValues> = {};
+  for (const row of rows) {
+    const value = fromValueColumns(row.field.type, row);
+    if (value !== null) {
+      valuesByTestCase[row.testCaseId] = { ...valuesByTestCase[row.testCaseId], [row.fieldId]: value };
+    }
+  }
+  return valuesByTestCase;
+}
+
+/**
+ * Display text of a value, as shown in tables and exports
+ */
+export function formatCustomFieldValue(value: CustomFieldValue | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
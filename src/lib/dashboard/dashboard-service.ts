@@ -1,4 +1,8 @@
 import { prisma } from "../db/prisma";
+import { FLAKINESS_WINDOW, FLAKINESS_WINDOW_DAYS, FLAKY_THRESHOLD, scoreFlakiness } from "../test-run/flakiness";
+
+// Most test cases scored for the flaky tests widget
+const FLAKY_CANDIDATE_LIMIT = 500;
 
 export interface TestResultTrend {
   date: string;
@@ -13,6 +17,19 @@ export interface TagStats {
   passRate: number;
 }
 
+export interface FlakyTestStats {
+  id: string;
+  name: string;
+  projectId: string;
+  projectName: string;
+  score: number;
+  runs: number;
+  retryPasses: number;
+  flips: number;
+  quarantined: boolean;
+  history: Array<{ status: string; retries: number; createdAt: Date }>;  // Oldest first
+}
+
 export interface DashboardStats {
   totalProjects: number;
   totalTestCases: number;
@@ -20,6 +37,7 @@ export interface DashboardStats {
   passRate: number;
   trends: TestResultTrend[];
   tagStats: TagStats[];
+  flakyTests: FlakyTestStats[];
 }
 
 export interface ProjectStats {
@@ -60,6 +78,8 @@ export class DashboardService {
     // Get tag statistics
     const tagStats = await this.getTagStats();
 
+    const flakyTests = await this.getFlakyTests();
+
     return {
       totalProjects,
       totalTestCases,
@@ -67,6 +87,7 @@ export class DashboardService {
       passRate,
       trends,
       tagStats,
+      flakyTests,
     };
   }
 
@@ -249,4 +270,76 @@ export class DashboardService {
     
     return tagStats;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the flakiest test cases, scored on their recent executions
+   */
+  static async getFlakyTests(limit: number = 10, projectId?: string): Promise<FlakyTestStats[]> {
+    const since = new Date();
+    since.setDate(since.getDate() - FLAKINESS_WINDOW_DAYS);
+
+    const testCases = await prisma.testCase.findMany({
+      where: {
+        ...(projectId && { projectId }),
+        // Only test cases that recently failed, or passed only after a retry, can be flaky
+        executions: {
+          some: {
+            createdAt: { gte: since },
+            OR: [
+              { status: 'failed' },
+              { status: 'passed', retries: { gt: 0 } },
+            ],
+          },
+        },
+      },
+      // Scoring happens in memory, so only the most run candidates are scored
+      orderBy: { executions: { _count: 'desc' } },
+      take: FLAKY_CANDIDATE_LIMIT,
+      select: {
+        id: true,
+        name: true,
+        projectId: true,
+        quarantined: true,
+        project: {
+          select: {
+            name: true,
+          },
+        },
+        executions: {
+          where: {
+            status: {
+              in: ['passed', 'failed'],
+            },
+            createdAt: { gte: since },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          take: FLAKINESS_WINDOW,
+          select: {
+            status: true,
+            retries: true,
+            testCaseVersion: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    return testCases
+      .map(testCase => ({
+        id: testCase.id,
+        name: testCase.name,
+        projectId: testCase.projectId,
+        projectName: testCase.project.name,
+        quarantined: testCase.quarantined,
+        ...scoreFlakiness(testCase.executions),
+        history: testCase.executions
+          .map(({ status, retries, createdAt }) => ({ status, retries, createdAt }))
+          .reverse(),
+      }))
+      .filter(flakyTest => flakyTest.score >= FLAKY_THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ import { prisma } from '@/lib/db/prisma';
 type StepCreateInput = {
   testCaseId?: string;
   fixtureId?: string;
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
   action: string;
   data?: string;
   expected?: string;
@@ -16,6 +18,8 @@ type StepCreateInput = {
 type StepUpdateInput = {
   testCaseId?: string;
   fixtureId?: string;
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
   action?: string;
   data?: string;
   expected?: string;
@@ -10,6 +10,8 @@ type StepVersionCreateInput = {
   selector?: string;
   order: number;
   disabled?: boolean;
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
   createdBy?: string | null | undefined;
 };
 
@@ -38,6 +40,8 @@ export class StepVersionRepository {
       selector: data.selector,
       order: data.order,
       disabled: data.disabled,
+      calledGroupId: data.calledGroupId,
+      calledTestCaseId: data.calledTestCaseId,
       createdBy: data.createdBy,
       ...(data.testCaseVersionId ? { testCaseVersionId: data.testCaseVersionId } : {}),
       ...(data.fixtureVersionId ? { fixtureVersionId: data.fixtureVersionId } : {}),
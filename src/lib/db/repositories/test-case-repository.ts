@@ -6,7 +6,9 @@ type TestCaseCreateInput = {
   status?: string;
   version?: string;
   isManual?: boolean;
+  priority?: string;
   tags?: string;
+  suiteId?: string | null;
   testFilePath?: string;
   playwrightScript?: string;
   createdBy?: string | null;
@@ -18,6 +20,7 @@ type TestCaseUpdateInput = {
   status?: string;
   version?: string;
   isManual?: boolean;
+  priority?: string;
   tags?: string;
   testFilePath?: string;
   playwrightScript?: string;
@@ -81,7 +84,9 @@ export class TestCaseRepository {
         status: data.status || 'pending',
         version: data.version || '1.0.0',
         isManual: data.isManual !== undefined ? data.isManual : true,
+        priority: data.priority,
         projectId: data.projectId,
+        suiteId: data.suiteId || null,
         testFilePath: data.testFilePath,
         playwrightScript: data.playwrightScript,
         createdBy: data.createdBy || null,
@@ -106,6 +111,10 @@ export class TestCaseRepository {
       updateData.isManual = data.isManual;
     }
     
+    if (data.priority !== undefined) {
+      updateData.priority = data.priority;
+    }
+    
     if (data.updatedBy !== undefined) {
       updateData.updatedBy = data.updatedBy;
     }
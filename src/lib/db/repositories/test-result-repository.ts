@@ -30,8 +30,14 @@ export class TestResultRepository {
       include: {
         testCaseExecutions: {
           include: {
-            testCase: true
+            testCase: true,
+            attempts: {
+              orderBy: [{ projectName: 'asc' }, { environment: 'asc' }, { retry: 'asc' }]
+            }
           }
+        },
+        cells: {
+          orderBy: [{ browser: 'asc' }, { environment: 'asc' }]
         }
       }
     });
@@ -140,7 +146,22 @@ export class TestResultRepository {
       include: {
         testCaseExecutions: {
           include: {
-            testCase: true
+            testCase: true,
+            executedVersion: { select: { id: true, version: true } },
+            fixtureVersions: {
+              include: { fixtureVersion: { select: { id: true, fixtureId: true, name: true, version: true } } },
+            },
+            attempts: {
+              orderBy: [{ projectName: 'asc' }, { retry: 'asc' }],
+              include: {
+                stepExecutions: {
+                  orderBy: { order: 'asc' },
+                  include: {
+                    artifacts: { select: { id: true, name: true, type: true } }
+                  }
+                }
+              }
+            }
           }
         }
       }
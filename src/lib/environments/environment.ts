@@ -0,0 +1,90 @@
+import { Environment, EnvironmentVariable } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { decryptValue, encryptValue } from '@/lib/utils/encryption';
+import { maskApiKey } from '@/lib/utils/mask-utils';
+import { EnvVarKeySchema } from '@/lib/test-run/run-spec';
+
+/**
+ * Environment data accepted by the environment API. The variables replace the stored ones.
+ */
+export const EnvironmentSchema = z.object({
+  name: z.string().max(50).regex(/^[A-Za-z0-9][\w.-]*$/, 'Names may only contain letters, numbers, ".", "_" and "-"'),
+  description: z.string().max(500).nullable().optional(),
+  variables: z.array(z.object({
+    key: EnvVarKeySchema,
+    value: z.string().max(2000),
+    secret: z.boolean().default(false),
+  })).max(100).default([]),
+}).refine(
+  environment => new Set(environment.variables.map(variable => variable.key)).size === environment.variables.length,
+  { message: 'Variable names must be unique', path: ['variables'] }
+);
+
+export type EnvironmentInput = z.input<typeof EnvironmentSchema>;
+
+type EnvironmentWithVariables = Environment & { variables: EnvironmentVariable[] };
+
+function readValue(variable: Pick<EnvironmentVariable, 'value' | 'secret'>): string {
+  return variable.secret ? decryptValue(variable.value) : variable.value;
+}
+
+function maskSecret(variable: EnvironmentVariable): string {
+  try {
+    return maskApiKey(readValue(variable));
+  } catch {
+    // Stored with another key, the secret has to be entered again
+    return '';
+  }
+}
+
+/**
+ * API shape of an environment. Secret values are masked and never leave the server.
+ */
+export function toEnvironmentResponse(environment: EnvironmentWithVariables) {
+  return {
+    ...environment,
+    variables: [...environment.variables]
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map(({ id, key, secret, ...variable }) => ({
+        id,
+        key,
+        secret,
+        value: secret ? maskSecret({ id, key, secret, ...variable }) : variable.value,
+      })),
+  };
+}
+
+/**
+ * Rows to store for the submitted variables. A secret submitted with its masked
+ * value is unchanged, so its stored value is kept.
+ */
+export function buildVariableRows(
+  variables: z.output<typeof EnvironmentSchema>['variables'],
+  existing: EnvironmentVariable[] = []
+): Array<Pick<EnvironmentVariable, 'key' | 'value' | 'secret'>> {
+  const existingByKey = new Map(existing.map(variable => [variable.key, variable]));
+
+  return variables.map(({ key, value, secret }) => {
+    const stored = existingByKey.get(key);
+    const masked = stored?.secret ? maskSecret(stored) : '';
+    const plainValue = stored && masked && value === masked ? readValue(stored) : value;
+    return { key, secret, value: secret ? encryptValue(plainValue) : plainValue };
+  });
+}
+
+/**
+ * Variables and decrypted secrets of an environment, for the run process only.
+ * Throws when the environment no longer exists.
+ */
+export async function resolveEnvironmentVariables(environmentId: string): Promise<Record<string, string>> {
+  const environment = await prisma.environment.findUnique({
+    where: { id: environmentId },
+    include: { variables: true },
+  });
+  if (!environment) {
+    throw new Error('The environment selected for this run no longer exists');
+  }
+
+  return Object.fromEntries(environment.variables.map(variable => [variable.key, readValue(variable)]));
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+
+/**
+ * State of a generated file compared to the hash recorded when the app last wrote or accepted it.
+ * "untracked" files were generated before hashes were recorded.
+ */
+export type FileSyncStatus = 'in-sync' | 'modified' | 'missing' | 'untracked';
+
+export interface FileSyncState {
+  status: FileSyncStatus;
+  content: string | null;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export async function readFileSyncState(absolutePath: string, recordedHash: string | null): Promise<FileSyncState> {
+  const content = await fs.readFile(absolutePath, 'utf8').catch(() => null);
+
+  if (content === null) {
+    return { status: 'missing', content };
+  }
+  if (!recordedHash) {
+    return { status: 'untracked', content };
+  }
+  return { status: hashContent(content) === recordedHash ? 'in-sync' : 'modified', content };
+}
+
+export interface GeneratedFileSync extends FileSyncState {
+  path: string;
+  // What the app would write from the DB now
+  generatedContent: string;
+}
+
+export interface TestFileSync {
+  codeOwned: boolean;
+  testFile: GeneratedFileSync | null;
+  fixtures: Array<GeneratedFileSync & { fixtureId: string; name: string }>;
+}
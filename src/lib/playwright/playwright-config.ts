@@ -0,0 +1,187 @@
+import { ProjectSetting } from '@prisma/client';
+import { z } from 'zod';
+
+// Lines between these markers belong to the user and survive regenerating playwright.config.ts
+export const CUSTOM_SECTION_START = '// <custom-config>';
+export const CUSTOM_SECTION_END = '// </custom-config>';
+
+const DEFAULT_CUSTOM_SECTION = [
+  CUSTOM_SECTION_START,
+  '// Anything between these markers is kept when the configuration is regenerated.',
+  '// Options set here override the generated ones.',
+  'const customConfig: PlaywrightTestConfig = {};',
+  CUSTOM_SECTION_END,
+].join('\n');
+
+// Device descriptors the generated browser projects start from
+const BROWSER_DEVICES: Record<string, string> = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari',
+};
+
+const DEFAULT_BROWSERS = ['chromium', 'firefox', 'webkit'];
+const DEFAULT_REPORTERS = ['list', 'html'];
+
+// Only Playwright's own reporters, a custom reporter path would load arbitrary code
+const BUILT_IN_REPORTERS = ['list', 'line', 'dot', 'html', 'json', 'junit', 'github', 'blob', 'null'];
+
+// Values Playwright accepts for use.video, use.screenshot and use.trace
+export const VIDEO_MODES = ['off', 'on', 'retain-on-failure', 'on-first-retry'] as const;
+export const SCREENSHOT_MODES = ['off', 'on', 'only-on-failure'] as const;
+export const TRACE_MODES = ['off', 'on', 'retain-on-failure', 'on-first-retry'] as const;
+
+const optionalMode = (modes: readonly [string, ...string[]]) => z.union([z.literal(''), z.enum(modes)]).optional();
+
+/**
+ * Saved configuration, category then key then value, checked before it is stored and rendered into
+ * playwright.config.ts. Keys and categories outside the known ones are kept as they are.
+ */
+export const ConfigurationSettingsSchema = z.object({
+  playwright: z.object({
+    reporters: z.string().refine(
+      value => parseList(value, []).every(name => BUILT_IN_REPORTERS.includes(name)),
+      { message: `Reporters must be built-in Playwright reporters: ${BUILT_IN_REPORTERS.join(', ')}` }
+    ).optional(),
+  }).catchall(z.string()).optional(),
+  browser: z.object({
+    video: optionalMode(VIDEO_MODES),
+    screenshot: optionalMode(SCREENSHOT_MODES),
+    trace: optionalMode(TRACE_MODES),
+  }).catchall(z.string()).optional(),
+  webServer: z.object({
+    command: z.string().max(500).refine(value => !/[\r\n]/.test(value), { message: 'Command must be a single line' }).optional(),
+    url: z.union([z.literal(''), z.string().url()]).optional(),
+    timeout: z.string().regex(/^\d*$/, 'Timeout must be a number of milliseconds').optional(),
+  }).catchall(z.string()).optional(),
+}).catchall(z.record(z.string(), z.string()));
+
+export type ConfigurationSettings = z.infer<typeof ConfigurationSettingsSchema>;
+
+export interface PlaywrightConfigContext {
+  timeout?: number;
+  expectTimeout?: number;
+  retries?: number;
+  workers?: number | string;
+  fullyParallel: boolean;
+  outputDir: string;
+  reporters: Array<{ name: string; options?: Record<string, unknown> }>;
+  use: {
+    baseURL: string;
+    headless: boolean;
+    locale?: string;
+    timezoneId?: string;
+    video: typeof VIDEO_MODES[number];
+    screenshot: typeof SCREENSHOT_MODES[number];
+    trace: typeof TRACE_MODES[number];
+  };
+  videoModes: readonly string[];
+  screenshotModes: readonly string[];
+  viewport?: { width: number; height: number };
+  projects: Array<{ name: string; device: string }>;
+  webServer?: {
+    command: string;
+    url?: string;
+    reuseExistingServer: boolean;
+    timeout?: number;
+  };
+  customSection: string;
+}
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+function parseMode<T extends string>(value: string | undefined, modes: readonly T[], fallback: T): T {
+  return modes.find(mode => mode === value) ?? fallback;
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  const items = (value || '').split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+/**
+ * Whether a config has the custom section markers, i.e. was generated by the app
+ */
+export function hasCustomSection(config: string): boolean {
+  const start = config.indexOf(CUSTOM_SECTION_START);
+  return start !== -1 && config.indexOf(CUSTOM_SECTION_END, start) !== -1;
+}
+
+/**
+ * Read the user's custom section from an existing config, or the empty default
+ * when the file is missing or was written before the section existed
+ */
+export function extractCustomSection(existingConfig: string | null | undefined): string {
+  if (!existingConfig) {
+    return DEFAULT_CUSTOM_SECTION;
+  }
+
+  const start = existingConfig.indexOf(CUSTOM_SECTION_START);
+  const end = existingConfig.indexOf(CUSTOM_SECTION_END, start);
+  if (start === -1 || end === -1) {
+    return DEFAULT_CUSTOM_SECTION;
+  }
+  return existingConfig.substring(start, end + CUSTOM_SECTION_END.length);
+}
+
+/**
+ * Values for playwright.config.template, from the project's saved settings.
+ * Settings left empty fall back to Playwright's own defaults.
+ */
+export function buildPlaywrightConfigContext(
+  settings: Array<Pick<ProjectSetting, 'category' | 'key' | 'value'>>,
+  existingConfig?: string | null
+): PlaywrightConfigContext {
+  const setting = (category: string, key: string) => {
+    const value = settings.find(s => s.category === category && s.key === key)?.value;
+    return value?.trim() ? value.trim() : undefined;
+  };
+
+  // "50%" is a share of CPU cores, anything else is a worker count
+  const workers = setting('playwright', 'workers');
+  const width = parseOptionalInt(setting('browser', 'viewport.width'));
+  const height = parseOptionalInt(setting('browser', 'viewport.height'));
+  const webServerCommand = setting('webServer', 'command');
+
+  return {
+    timeout: parseOptionalInt(setting('playwright', 'timeout')),
+    expectTimeout: parseOptionalInt(setting('playwright', 'expectTimeout')),
+    retries: parseOptionalInt(setting('playwright', 'retries')),
+    workers: workers && /^\d+%$/.test(workers) ? workers : parseOptionalInt(workers),
+    fullyParallel: setting('playwright', 'fullyParallel') !== 'false',
+    outputDir: setting('playwright', 'outputDir') || 'test-results',
+    reporters: parseList(setting('playwright', 'reporters'), DEFAULT_REPORTERS)
+      .filter(name => BUILT_IN_REPORTERS.includes(name))
+      .map(name => name === 'html' ? { name, options: { open: 'never' } } : { name }),
+    use: {
+      baseURL: setting('browser', 'baseURL') || 'http://localhost:3000',
+      headless: setting('browser', 'headless') !== 'false',
+      locale: setting('browser', 'locale'),
+      timezoneId: setting('browser', 'timezoneId'),
+      video: parseMode(setting('browser', 'video'), VIDEO_MODES, 'off'),
+      screenshot: parseMode(setting('browser', 'screenshot'), SCREENSHOT_MODES, 'off'),
+      trace: parseMode(setting('browser', 'trace'), TRACE_MODES, 'on-first-retry'),
+    },
+    videoModes: VIDEO_MODES,
+    screenshotModes: SCREENSHOT_MODES,
+    viewport: width && height ? { width, height } : undefined,
+    projects: parseList(setting('playwright', 'browsers'), DEFAULT_BROWSERS)
+      .filter(name => BROWSER_DEVICES[name])
+      .map(name => ({ name, device: BROWSER_DEVICES[name] })),
+    webServer: webServerCommand
+      ? {
+        command: webServerCommand,
+        url: setting('webServer', 'url'),
+        reuseExistingServer: setting('webServer', 'reuseExistingServer') !== 'false',
+        timeout: parseOptionalInt(setting('webServer', 'timeout')),
+      }
+      : undefined,
+    customSection: extractCustomSection(existingConfig),
+  };
+}
@@ -3,7 +3,10 @@ import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import Handlebars from 'handlebars';
+import { ProjectSetting } from '@prisma/client';
 import { PLAYWRIGHT_PROJECT_PATH } from '@/lib/utils/config';
+import { formatStepTitle } from '@/lib/test-run/playwright-report';
+import { buildPlaywrightConfigContext, hasCustomSection } from './playwright-config';
 
 const execAsync = promisify(exec);
 
@@ -15,6 +18,10 @@ function sanitizeFolderName(name: string): string {
     .replace(/^-|-$/g, '');
 }
 
+function commentOutLines(code: string): string {
+  return code.split('\n').map(line => `// ${line}`.trimEnd()).join('\n');
+}
+
 // Register handlebar helpers
 Handlebars.registerHelper('any', function(array: any[], prop: string, value: any) {
   if (!array || !array.length) return false;
@@ -29,12 +36,70 @@ Handlebars.registerHelper('add', function(a: number, b: number) {
   return a + b;
 });
 
+// Title of a generated test.step(); the step id lets results be mapped back to the Step row
+Handlebars.registerHelper('stepTitle', function(stepNumber: number, action: string, stepId?: string) {
+  return JSON.stringify(formatStepTitle(stepNumber, action, typeof stepId === 'string' ? stepId : undefined));
+});
+
+// Values rendered into TypeScript source are written as literals, never as raw text
+Handlebars.registerHelper('json', function(value: unknown) {
+  return JSON.stringify(value);
+});
+
+Handlebars.registerHelper('isDefined', function(value: unknown) {
+  return value !== undefined && value !== null;
+});
+
 // Add capitalize helper
 Handlebars.registerHelper('capitalize', function(str: string) {
   if (typeof str !== 'string') return '';
   return str.charAt(0).toUpperCase() + str.slice(1);
 });
 
+export type TestFileStep = {
+  id?: string;
+  order: number;
+  action: string;
+  playwrightCode: string;
+  expected?: string;
+  disabled?: boolean;
+  fixtureId?: string;
+  // Steps of the shared step group or test case this step calls, generated in place of its own code
+  calls?: {
+    kind: 'group' | 'testCase';
+    name: string;
+    steps: TestFileStep[];
+  };
+};
+
+export type TestFileParams = {
+  testCaseId?: string;
+  testCaseName: string;
+  // Import path of the fixtures folder, relative to the test file
+  fixturesImport: string;
+  // Suites the test is nested in, outermost first, each rendered as a test.describe block
+  suites?: Array<{
+    name: string;
+    beforeEach?: string;
+  }>;
+  fixtures?: Array<{
+    name: string;
+    path: string;
+    mode: 'extend' | 'inline';
+    exportName: string;
+  }>;
+  steps: TestFileStep[];
+  tags?: string[];
+};
+
+export type FixtureFileParams = {
+  name: string;
+  type: 'extend' | 'inline' | 'inlineExtend';
+  description?: string;
+  exportName: string;
+  content: string;
+};
+
 export class PlaywrightService {
   private readonly projectRoot: string;
   private readonly templatePath: string;
@@ -57,24 +122,27 @@ export class PlaywrightService {
     });
   }
 
-  private async updatePlaywrightConfig(projectPath: string) {
+  /**
+   * Render playwright.config.ts from the project's settings, keeping the custom section of the current file.
+   * A hand-written config without the custom section is first copied to a backup, whose project relative path is returned.
+   */
+  async generatePlaywrightConfig(
+    projectPath: string,
+    settings: Array<Pick<ProjectSetting, 'category' | 'key' | 'value'>> = []
+  ): Promise<string | null> {
     const configPath = path.join(projectPath, 'playwright.config.ts');
-    
-    // Read existing config file
-    const content = await fs.readFile(configPath, 'utf8');
-    
-    // Replace or add the use configuration
-    const updatedContent = content.replace(
-      /use:\s*{[^}]*}/,
-      `use: {
-    baseURL: process.env.BASE_URL || 'http://localhost:3000',
-    video: (process.env.VIDEO_MODE) as any || 'off',
-    screenshot: (process.env.SCREENSHOT_MODE) as any || 'off',
-    trace: 'on-first-retry'
-  }`
-    );
-
-    await fs.writeFile(configPath, updatedContent, 'utf8');
+    const existingConfig = await fs.readFile(configPath, 'utf8').catch(() => null);
+
+    let backupPath: string | null = null;
+    if (existingConfig !== null && !hasCustomSection(existingConfig)) {
+      backupPath = `playwright.config.${Date.now()}.ts.bak`;
+      await fs.writeFile(path.join(projectPath, backupPath), existingConfig, 'utf8');
+    }
+
+    const template = await this.loadTemplate('playwright.config');
+    const content = template(buildPlaywrightConfigContext(settings, existingConfig));
+    await fs.writeFile(configPath, content, 'utf8');
+    return backupPath;
   }
 
   async createPlaywrightProject(projectId: string, projectName: string): Promise<string> {
@@ -104,8 +172,9 @@ export class PlaywrightService {
       // Create index.ts in fixtures folder using our template
       await this.updateFixturesIndexFile(path.join(projectPath, 'fixtures'), []);
 
-      // Update playwright.config.ts with custom configuration
-      await this.updatePlaywrightConfig(projectPath);
+      // Replace the scaffolded playwright.config.ts with ours, without a backup; settings are applied once saved
+      await fs.rm(path.join(projectPath, 'playwright.config.ts'), { force: true });
+      await this.generatePlaywrightConfig(projectPath);
 
       return projectPath;
     } catch (error: any) {
@@ -119,28 +188,48 @@ export class PlaywrightService {
     return Handlebars.compile(templateContent);
   }
 
-  async generateTestFile(params: {
-    testCaseName: string;
-    fixtures?: Array<{
-      name: string;
-      path: string;
-      mode: 'extend' | 'inline';
-      exportName: string;
-    }>;
-    steps: Array<{
-      order: number;
-      action: string;
-      playwrightCode: string;
-      expected?: string;
-      disabled?: boolean;
-      fixtureId?: string;
-    }>;
-    tags?: string[];
-    outputPath: string;
-  }): Promise<void> {
-    const template = await this.loadTemplate('test');
-    const content = template(params);
+  async generateTestFile(params: TestFileParams & { outputPath: string }): Promise<string> {
+    const content = await this.renderTestFile(params);
     await fs.writeFile(params.outputPath, content, 'utf-8');
+    return content;
+  }
+
+  /**
+   * Content of a generated test file, without writing it
+   */
+  async renderTestFile(params: TestFileParams): Promise<string> {
+    const template = await this.loadTemplate('test');
+    return template({
+      ...params,
+      // The template indents the first line of a step's code, the expanded lines after it line up with it.
+      // Disabled steps are commented out line by line, a block comment would be closed by one in their code.
+      steps: params.steps.map(step => {
+        const code = step.calls ? this.expandCalledSteps(step.calls) : step.playwrightCode;
+        if (step.disabled) {
+          return { ...step, playwrightCode: code.trim() ? commentOutLines(code).split('\n').join('\n  ') : '' };
+        }
+        return step.calls ? { ...step, playwrightCode: code.split('\n').join('\n    ') } : step;
+      }),
+    });
+  }
+
+  // Code of a called group or test case, each of its steps a nested test.step() titled with its id so its
+  // result can be told apart. Steps without code are left out, calls among its own steps are expanded in turn.
+  private expandCalledSteps(calls: NonNullable<TestFileStep['calls']>): string {
+    const lines = [`// ${calls.kind === 'group' ? 'Shared steps' : 'Test case'}: ${calls.name}`];
+    calls.steps.forEach((step, index) => {
+      const code = step.calls ? this.expandCalledSteps(step.calls) : step.playwrightCode.trim();
+      if (!code) {
+        return;
+      }
+      const block = [
+        `await test.step(${JSON.stringify(formatStepTitle(index + 1, step.action, step.id))}, async () => {`,
+        ...code.split('\n').map(line => `  ${line}`),
+        '});',
+      ].join('\n');
+      lines.push(step.disabled ? ['// DISABLED STEP', commentOutLines(block)].join('\n') : block);
+    });
+    return lines.join('\n');
   }
 
   async updateFixturesIndexFile(fixturesDir: string, fixtures: Array<{importName: string, fileName: string, exportName?: string}>): Promise<void> {
@@ -156,16 +245,8 @@ export class PlaywrightService {
     }
   }
 
-  async generateFixtureFile(params: {
-    name: string;
-    type: 'extend' | 'inline' | 'inlineExtend';
-    description?: string;
-    exportName: string;
-    content: string;
-    outputPath: string;
-  }): Promise<void> {
-    const template = await this.loadTemplate('fixture');
-    const content = template(params);
+  async generateFixtureFile(params: FixtureFileParams & { outputPath: string }): Promise<string> {
+    const content = await this.renderFixtureFile(params);
     await fs.writeFile(params.outputPath, content, 'utf-8');
     
     // Add fixture to index.ts
@@ -205,6 +286,16 @@ export class PlaywrightService {
     } catch (error: any) {
       console.warn(`Warning: Could not update index.ts: ${error.message}`);
     }
+
+    return content;
+  }
+
+  /**
+   * Content of a generated fixture file, without writing it
+   */
+  async renderFixtureFile(params: FixtureFileParams): Promise<string> {
+    const template = await this.loadTemplate('fixture');
+    return template(params);
   }
 
   async removeFixtureFromIndex(fixturesDir: string, fixtureFileName: string): Promise<void> {
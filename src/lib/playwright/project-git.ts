@@ -0,0 +1,300 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { getCurrentUserEmail } from '@/lib/auth/session';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  authorName: string;
+  authorEmail: string;
+  date: string;
+  subject: string;
+}
+
+export const GIT_SETTINGS_CATEGORY = 'git';
+export const DEFAULT_GIT_BRANCH = 'main';
+
+const SYSTEM_AUTHOR: GitAuthor = { name: 'Test Manager', email: 'test-manager@localhost' };
+
+// Run output and dependencies stay out of the repository
+const GITIGNORE = ['node_modules/', 'test-results/', 'manual-results/', 'playwright-report/', 'blob-report/', 'playwright/.cache/', ''].join('\n');
+
+/**
+ * Why a remote may not be pushed to, or null when it may. Local remotes, i.e. absolute paths and
+ * file URLs, must lie inside GIT_LOCAL_REMOTES_DIR, so the server cannot be made to write a
+ * repository anywhere on its filesystem; without it set, only network remotes are allowed.
+ */
+export function getRemoteUrlError(remoteUrl: string): string | null {
+  if (!remoteUrl.startsWith('/') && !remoteUrl.startsWith('file://')) {
+    return null;
+  }
+
+  const baseDir = process.env.GIT_LOCAL_REMOTES_DIR;
+  if (!baseDir) {
+    return 'Local remotes are disabled; set GIT_LOCAL_REMOTES_DIR to allow them';
+  }
+
+  let remotePath: string;
+  try {
+    remotePath = remoteUrl.startsWith('file://') ? fileURLToPath(remoteUrl) : remoteUrl;
+  } catch {
+    return 'Invalid file URL';
+  }
+
+  const root = path.resolve(baseDir);
+  const target = path.resolve(remotePath);
+  if (!target.startsWith(root + path.sep)) {
+    return `Local remotes must be inside ${root}`;
+  }
+  return null;
+}
+
+export const GitSettingsSchema = z.object({
+  // https, ssh, scp-like (git@host:repo) or a local path, e.g. a bare repository
+  remoteUrl: z.string().max(500).regex(
+    /^(https?:\/\/|ssh:\/\/|file:\/\/|git@|\/)[^\s]*$/,
+    'Use an https, ssh or file URL, or an absolute path'
+  ).superRefine((remoteUrl, ctx) => {
+    const error = getRemoteUrlError(remoteUrl);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }
+  }).or(z.literal('')),
+  branch: z.string().max(100).regex(/^(?!-)(?!.*\.\.)[\w./-]+$/, 'Invalid branch name').default(DEFAULT_GIT_BRANCH),
+  autoPush: z.boolean().default(false),
+});
+
+export type GitSettings = z.output<typeof GitSettingsSchema>;
+
+export interface ProjectGitStatus {
+  initialized: boolean;
+  branch: string | null;
+  settings: GitSettings;
+  commits: GitCommit[];
+}
+
+export async function getGitSettings(projectId: string): Promise<GitSettings> {
+  const settings = await prisma.projectSetting.findMany({
+    where: { projectId, category: GIT_SETTINGS_CATEGORY },
+  });
+  const values = Object.fromEntries(settings.map(setting => [setting.key, setting.value]));
+
+  return {
+    remoteUrl: values.remoteUrl || '',
+    branch: values.branch || DEFAULT_GIT_BRANCH,
+    autoPush: values.autoPush === 'true',
+  };
+}
+
+/**
+ * Author for commits made on behalf of a user: the one given, else the signed-in user. Outside a
+ * request, e.g. in the run worker, commits are made by the app itself rather than whoever last edited the file.
+ */
+export async function getActingGitAuthor(actingEmail?: string | null): Promise<GitAuthor> {
+  const email = actingEmail || (await getCurrentUserEmail().catch(() => null));
+  if (!email) {
+    return SYSTEM_AUTHOR;
+  }
+
+  const user = await prisma.user.findFirst({ where: { email }, select: { username: true } });
+  return { name: user?.username || email, email };
+}
+
+// Git commands on the same repository run one at a time, so concurrent regenerations do not race for the index lock
+const repositoryQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * The generated Playwright project folder as a git repository
+ */
+export class ProjectGitRepository {
+  constructor(private readonly projectPath: string) {}
+
+  async isRepository(): Promise<boolean> {
+    return fs.access(path.join(this.projectPath, '.git')).then(() => true, () => false);
+  }
+
+  /**
+   * Initialize the repository with an initial commit of the current files. Returns false when it already exists.
+   */
+  async init(author: GitAuthor, branch = DEFAULT_GIT_BRANCH): Promise<boolean> {
+    return this.serialize(async () => {
+      if (await this.isRepository()) {
+        return false;
+      }
+
+      await this.git(['init', '--initial-branch', branch]);
+      const gitignorePath = path.join(this.projectPath, '.gitignore');
+      if (!(await fs.access(gitignorePath).then(() => true, () => false))) {
+        await fs.writeFile(gitignorePath, GITIGNORE, 'utf8');
+      }
+      await this.git(['add', '-A']);
+      await this.git(['commit', '--allow-empty', '-m', 'Initialize Playwright project'], author);
+      return true;
+    });
+  }
+
+  /**
+   * Commit the changes to the given project relative paths, including deletions.
+   * Returns the commit sha, or null when the folder is not a repository or nothing changed.
+   */
+  async commit(paths: string[], message: string, author: GitAuthor): Promise<string | null> {
+    return this.serialize(async () => {
+      if (!(await this.isRepository()) || paths.length === 0) {
+        return null;
+      }
+
+      // git add rejects paths that neither exist nor are tracked, e.g. an old file that was never committed
+      const tracked = new Set((await this.git(['ls-files', '--', ...paths])).split('\n').filter(Boolean));
+      const existing = await Promise.all(paths.map(filePath =>
+        tracked.has(filePath) || fs.access(path.join(this.projectPath, filePath)).then(() => true, () => false)
+      ));
+      const changedPaths = paths.filter((_, index) => existing[index]);
+      if (changedPaths.length === 0) {
+        return null;
+      }
+
+      await this.git(['add', '-A', '--', ...changedPaths]);
+      const staged = await this.git(['diff', '--cached', '--name-only', '--', ...changedPaths]);
+      if (!staged.trim()) {
+        return null;
+      }
+
+      await this.git(['commit', '-m', message, '--', ...changedPaths], author);
+      return (await this.git(['rev-parse', 'HEAD'])).trim();
+    });
+  }
+
+  /**
+   * Commits touching a file, following renames, or all commits without a path
+   */
+  async log(filePath?: string, limit = 50): Promise<GitCommit[]> {
+    if (!(await this.isRepository())) {
+      return [];
+    }
+
+    const args = ['log', `-n${limit}`, '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s'];
+    if (filePath) {
+      args.push('--follow', '--', filePath);
+    }
+
+    const output = await this.serialize(() => this.git(args)).catch(error => {
+      // A repository without commits has no history yet
+      if (/does not have any commits/.test(String(error?.stderr))) {
+        return '';
+      }
+      throw error;
+    });
+
+    return output.split('\n').filter(Boolean).map(line => {
+      const [sha, authorName, authorEmail, date, subject] = line.split('\x1f');
+      return { sha, authorName, authorEmail, date, subject };
+    });
+  }
+
+  /**
+   * Patch of a commit, limited to one file when a path is given
+   */
+  async show(sha: string, filePath?: string): Promise<string> {
+    if (!/^[0-9a-f]{7,40}$/.test(sha)) {
+      throw new Error('Invalid commit');
+    }
+    return this.serialize(() => this.git(['show', '--format=', sha, ...(filePath ? ['--', filePath] : [])]));
+  }
+
+  async currentBranch(): Promise<string | null> {
+    if (!(await this.isRepository())) {
+      return null;
+    }
+    return (await this.serialize(() => this.git(['symbolic-ref', '--short', 'HEAD']))).trim() || null;
+  }
+
+  /**
+   * Push the current branch to the remote branch. Returns git's output.
+   */
+  async push(remoteUrl: string, branch: string): Promise<string> {
+    // Checked again here, as the base directory may have changed since the remote was saved
+    const remoteError = getRemoteUrlError(remoteUrl);
+    if (remoteError) {
+      throw new Error(remoteError);
+    }
+
+    return this.serialize(async () => {
+      const { stdout, stderr } = await execFileAsync(
+        'git',
+        ['push', '--porcelain', '--', remoteUrl, `HEAD:refs/heads/${branch}`],
+        { cwd: this.projectPath, env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }, timeout: 120000 }
+      );
+      return [stdout, stderr].filter(Boolean).join('\n').trim();
+    });
+  }
+
+  private async git(args: string[], author?: GitAuthor): Promise<string> {
+    const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: '0' };
+    const identity = author || SYSTEM_AUTHOR;
+    env.GIT_AUTHOR_NAME = identity.name;
+    env.GIT_AUTHOR_EMAIL = identity.email;
+    env.GIT_COMMITTER_NAME = identity.name;
+    env.GIT_COMMITTER_EMAIL = identity.email;
+
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.projectPath,
+      env,
+      maxBuffer: 10 * 1024 * 1024,
+      timeout: 60000,
+    });
+    return stdout;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const previous = repositoryQueues.get(this.projectPath) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    repositoryQueues.set(this.projectPath, next);
+    next.finally(() => {
+      if (repositoryQueues.get(this.projectPath) === next) {
+        repositoryQueues.delete(this.projectPath);
+      }
+    }).catch(() => undefined);
+    return next;
+  }
+}
+
+/**
+ * Commit regenerated files of a project, then push when the project pushes automatically.
+ * Git failures are logged and never fail the regeneration itself.
+ */
+export async function commitProjectFiles(
+  project: { id: string; playwrightProjectPath: string | null },
+  paths: string[],
+  message: string,
+  actingEmail?: string | null
+): Promise<void> {
+  if (!project.playwrightProjectPath) {
+    return;
+  }
+
+  try {
+    const repository = new ProjectGitRepository(path.join(process.cwd(), project.playwrightProjectPath));
+    const sha = await repository.commit(paths, message, await getActingGitAuthor(actingEmail));
+    if (!sha) {
+      return;
+    }
+
+    const settings = await getGitSettings(project.id);
+    if (settings.autoPush && settings.remoteUrl) {
+      await repository.push(settings.remoteUrl, settings.branch);
+    }
+  } catch (error) {
+    console.error('Error committing project files:', error);
+  }
+}
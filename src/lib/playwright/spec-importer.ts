@@ -0,0 +1,294 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import { prisma } from '@/lib/db/prisma';
+import { TagRepository } from '@/lib/db/repositories/tag-repository';
+import { getFixtureExportName, TestManagerService } from './test-manager.service';
+import { parseSpecFile, ParsedSpecTest, SpecImportIssue } from './spec-parser';
+
+export interface SpecSource {
+  file: string;
+  content: string;
+}
+
+export interface SpecImportResult {
+  created: Array<{ id: string; name: string; file: string; steps: number; tags: string[] }>;
+  tests: ParsedSpecTest[];
+  issues: SpecImportIssue[];
+}
+
+const SPEC_FILE_PATTERN = /\.(spec|test)\.[jt]sx?$/;
+const MAX_SPEC_FILES = 200;
+const MAX_SPEC_FILE_SIZE = 1024 * 1024;
+
+function isSpecFile(file: string): boolean {
+  return SPEC_FILE_PATTERN.test(file) && !file.split(/[\\/]/).includes('node_modules');
+}
+
+function checkSpecFiles(sources: SpecSource[]): SpecSource[] {
+  if (sources.length === 0) {
+    throw new Error('No spec files found (expected *.spec.ts or *.test.ts files)');
+  }
+  if (sources.length > MAX_SPEC_FILES) {
+    throw new Error(`Too many spec files (${sources.length}); import at most ${MAX_SPEC_FILES} at a time`);
+  }
+  return sources.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Text of a zip entry. Inflating stops once the limit is passed, so a forged size cannot make it
+ * inflate more than that.
+ */
+function readZipEntry(entry: JSZip.JSZipObject, maxSize: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize) {
+        stream.destroy();
+        reject(new Error(`${entry.name} is larger than 1 MB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Step index each fixture the test uses is linked through, as a step holds one fixture: the first
+ * step mentioning the fixture that has none yet, else the first step without one
+ */
+function assignFixtureSteps(test: ParsedSpecTest, fixtureIds: Map<string, string>): Map<number, string> {
+  const assigned = new Map<number, string>();
+  for (const name of test.fixtures) {
+    const free = (index: number) => !assigned.has(index);
+    let index = test.steps.findIndex((step, stepIndex) => free(stepIndex) && step.playwrightScript.split(/[^\w$]+/).includes(name));
+    if (index === -1) {
+      index = test.steps.findIndex((_, stepIndex) => free(stepIndex));
+    }
+    const fixtureId = fixtureIds.get(name);
+    if (index !== -1 && fixtureId) {
+      assigned.set(index, fixtureId);
+    }
+  }
+  return assigned;
+}
+
+/**
+ * Spec files from an uploaded .ts/.js file or a .zip archive of them
+ */
+export async function readUploadedSpecFiles(fileName: string, data: Buffer): Promise<SpecSource[]> {
+  if (fileName.toLowerCase().endsWith('.zip')) {
+    const zip = await JSZip.loadAsync(data);
+    const entries = Object.values(zip.files).filter(entry => !entry.dir && isSpecFile(entry.name));
+    if (entries.length > MAX_SPEC_FILES) {
+      throw new Error(`Too many spec files (${entries.length}); import at most ${MAX_SPEC_FILES} at a time`);
+    }
+    const sources: SpecSource[] = [];
+    for (const entry of entries) {
+      sources.push({ file: entry.name, content: await readZipEntry(entry, MAX_SPEC_FILE_SIZE) });
+    }
+    return checkSpecFiles(sources);
+  }
+
+  if (!/\.[jt]sx?$/.test(fileName)) {
+    throw new Error('Upload a .ts or .js spec file, or a .zip archive of them');
+  }
+  if (data.length > MAX_SPEC_FILE_SIZE) {
+    throw new Error(`${fileName} is larger than 1 MB`);
+  }
+  return [{ file: fileName, content: data.toString('utf8') }];
+}
+
+/**
+ * Spec files at a file or directory path inside the project's Playwright folder
+ */
+export async function readProjectSpecFiles(playwrightProjectPath: string, relativePath: string): Promise<SpecSource[]> {
+  const root = path.resolve(process.cwd(), playwrightProjectPath);
+  const target = path.resolve(root, relativePath);
+  if (target !== root && !target.startsWith(root + path.sep)) {
+    throw new Error('Path must be inside the Playwright project folder');
+  }
+
+  const stat = await fs.stat(target).catch(() => null);
+  if (!stat) {
+    throw new Error(`Path not found: ${relativePath}`);
+  }
+
+  const files: string[] = [];
+  const walk = async (dir: string) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        await walk(fullPath);
+      } else if (entry.isFile() && isSpecFile(entry.name)) {
+        files.push(fullPath);
+      }
+      if (files.length > MAX_SPEC_FILES) {
+        return;
+      }
+    }
+  };
+
+  if (stat.isDirectory()) {
+    await walk(target);
+  } else {
+    files.push(target);
+  }
+
+  const sources: SpecSource[] = [];
+  for (const file of files.slice(0, MAX_SPEC_FILES + 1)) {
+    const content = await fs.readFile(file, 'utf8');
+    if (content.length > MAX_SPEC_FILE_SIZE) {
+      throw new Error(`${path.relative(root, file)} is larger than 1 MB`);
+    }
+    sources.push({ file: path.relative(root, file), content });
+  }
+  return checkSpecFiles(sources);
+}
+
+/**
+ * Create test cases and steps from spec files. With dryRun nothing is saved and
+ * the parsed tests are returned for preview. Tests whose name is already taken
+ * in the project, and files that are already generated from a test case, are skipped.
+ */
+export async function importSpecFiles(
+  projectId: string,
+  sources: SpecSource[],
+  userEmail: string | null | undefined,
+  options: { dryRun?: boolean } = {}
+): Promise<SpecImportResult> {
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+
+  const existing = await prisma.testCase.findMany({
+    where: { projectId },
+    select: { name: true, testFilePath: true },
+  });
+  const takenNames = new Set(existing.map(testCase => testCase.name));
+  const generatedFiles = new Set(existing.map(testCase => testCase.testFilePath).filter(Boolean));
+
+  // Tests may use the project's extend fixtures, as generated tests receive them
+  const extendFixtures = await prisma.fixture.findMany({ where: { projectId, type: 'extend' } });
+  const fixtureIds = new Map(extendFixtures.map(fixture => [getFixtureExportName(fixture), fixture.id]));
+
+  const result: SpecImportResult = { created: [], tests: [], issues: [] };
+
+  for (const source of sources) {
+    if (generatedFiles.has(path.normalize(source.file))) {
+      result.issues.push({ file: source.file, message: 'File is generated from an existing test case and is skipped' });
+      continue;
+    }
+
+    const parsed = parseSpecFile(source.file, source.content, { availableFixtures: Array.from(fixtureIds.keys()) });
+    result.issues.push(...parsed.issues);
+
+    for (const test of parsed.tests) {
+      if (takenNames.has(test.name)) {
+        result.issues.push({ file: test.file, line: test.line, message: `A test case named "${test.name}" already exists; test skipped` });
+        continue;
+      }
+      takenNames.add(test.name);
+      result.tests.push(test);
+    }
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const projectRoot = project.playwrightProjectPath ? path.join(process.cwd(), project.playwrightProjectPath) : null;
+  const testManager = projectRoot ? new TestManagerService(projectRoot) : null;
+  const tagRepository = new TagRepository();
+
+  for (const test of result.tests) {
+    const fixtureSteps = assignFixtureSteps(test, fixtureIds);
+    if (fixtureSteps.size < test.fixtures.length) {
+      result.issues.push({ file: test.file, line: test.line, message: `Test "${test.name}" has fewer steps than fixtures; not every fixture is linked` });
+    }
+
+    const testCase = await prisma.$transaction(async (tx) => {
+      const created = await tx.testCase.create({
+        data: {
+          name: test.name,
+          projectId,
+          isManual: false,
+          tags: test.tags.length > 0 ? test.tags.join(',') : null,
+          version: '1.0.0',
+          createdBy: userEmail || undefined,
+          updatedBy: userEmail || undefined,
+        },
+      });
+
+      for (const [index, step] of test.steps.entries()) {
+        await tx.step.create({
+          data: {
+            testCaseId: created.id,
+            action: step.action,
+            playwrightScript: step.playwrightScript,
+            fixtureId: fixtureSteps.get(index),
+            order: index + 1,
+            createdBy: userEmail || undefined,
+            updatedBy: userEmail || undefined,
+          },
+        });
+      }
+
+      await tx.testCaseVersion.create({
+        data: {
+          testCaseId: created.id,
+          version: created.version,
+          name: created.name,
+          createdBy: userEmail || undefined,
+          stepVersions: {
+            create: test.steps.map((step, index) => ({
+              action: step.action,
+              playwrightCode: step.playwrightScript,
+              order: index + 1,
+            })),
+          },
+        },
+      });
+
+      return created;
+    });
+
+    if (test.tags.length > 0) {
+      await tagRepository.createFromString(test.tags.join(','), projectId);
+    }
+
+    result.created.push({ id: testCase.id, name: testCase.name, file: test.file, steps: test.steps.length, tags: test.tags });
+
+    if (!testManager || !projectRoot) {
+      continue;
+    }
+
+    // Never overwrite a hand-written file, e.g. the one being imported
+    const testFilePath = testManager.getTestFilePath(testCase.name);
+    const fileExists = await fs.access(path.join(projectRoot, testFilePath)).then(() => true, () => false);
+    if (fileExists && !generatedFiles.has(testFilePath)) {
+      result.issues.push({
+        file: test.file,
+        line: test.line,
+        message: `The test file for "${testCase.name}" would replace ${testFilePath}; remove the original file, then save the test case to generate it`,
+      });
+      continue;
+    }
+
+    try {
+      await testManager.createTestFile(testCase.id);
+    } catch (error) {
+      console.error('Error creating test file for imported test case:', error);
+      result.issues.push({ file: test.file, line: test.line, message: `Test file for "${testCase.name}" could not be generated` });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,368 @@
+import ts from 'typescript';
+import { TEST_CASE_ID_ANNOTATION } from '@/lib/test-run/playwright-report';
+
+export interface ParsedSpecStep {
+  action: string;
+  playwrightScript: string;
+}
+
+export interface ParsedSpecTest {
+  name: string;
+  tags: string[];
+  steps: ParsedSpecStep[];
+  // Extra fixtures from availableFixtures the test uses
+  fixtures: string[];
+  file: string;
+  line: number;
+}
+
+export interface SpecImportIssue {
+  file: string;
+  line?: number;
+  message: string;
+}
+
+export interface ParsedSpecFile {
+  tests: ParsedSpecTest[];
+  issues: SpecImportIssue[];
+}
+
+const TEST_MODIFIERS = ['only', 'skip', 'fixme', 'fail', 'slow'];
+const HOOKS = ['beforeEach', 'afterEach', 'beforeAll', 'afterAll'];
+const PLAYWRIGHT_MODULES = ['@playwright/test'];
+// Fixtures every generated test receives (see test.template)
+const DEFAULT_FIXTURES = ['page'];
+const MAX_ACTION_LENGTH = 120;
+
+interface DescribeScope {
+  titles: string[];
+  tags: string[];
+}
+
+/**
+ * Parse errors of a source file, read through a program holding only that file
+ */
+function getSyntaxErrors(sourceFile: ts.SourceFile): readonly ts.Diagnostic[] {
+  const options: ts.CompilerOptions = { noLib: true, noResolve: true };
+  const host = ts.createCompilerHost(options);
+  host.getSourceFile = () => sourceFile;
+  return ts.createProgram([sourceFile.fileName], options, host).getSyntacticDiagnostics(sourceFile);
+}
+
+/**
+ * Split a Playwright spec file into test cases and steps without running it.
+ * Each `test()` becomes a test case; its `test.step()` calls, or else its
+ * statements, become steps. Anything that cannot be carried over is reported as an issue.
+ * availableFixtures lists extra fixtures, e.g. the project's extend fixtures, that tests may use.
+ * With suiteHooks, beforeEach hooks are skipped without an issue, as they belong to the test's suites.
+ */
+export function parseSpecFile(
+  file: string,
+  source: string,
+  options: { availableFixtures?: string[]; suiteHooks?: boolean } = {}
+): ParsedSpecFile {
+  const availableFixtures = [...DEFAULT_FIXTURES, ...(options.availableFixtures || [])];
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  const result: ParsedSpecFile = { tests: [], issues: [] };
+
+  const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+  const report = (node: ts.Node | undefined, message: string) => {
+    result.issues.push({ file, line: node ? lineOf(node) : undefined, message });
+  };
+
+  const syntaxErrors = getSyntaxErrors(sourceFile);
+  if (syntaxErrors.length > 0) {
+    report(undefined, `File has syntax errors: ${ts.flattenDiagnosticMessageText(syntaxErrors[0].messageText, ' ')}`);
+    return result;
+  }
+
+  const testNames = findTestIdentifiers(sourceFile);
+
+  const visitStatements = (statements: readonly ts.Statement[], scope: DescribeScope) => {
+    for (const statement of statements) {
+      if (ts.isImportDeclaration(statement)) {
+        const moduleName = (statement.moduleSpecifier as ts.StringLiteral).text;
+        if (!PLAYWRIGHT_MODULES.includes(moduleName) && !isFixturesModule(moduleName)) {
+          report(statement, `Import from "${moduleName}" is not carried over`);
+        }
+        continue;
+      }
+
+      const call = getCallExpression(statement);
+      const target = call && getTestCallTarget(call, testNames);
+      if (!call || !target) {
+        report(statement, `Top-level code is not carried over: ${summarize(statement.getText(sourceFile))}`);
+        continue;
+      }
+
+      const [member, modifier] = target;
+      if (member === 'describe') {
+        visitDescribe(call, modifier, scope);
+      } else if (member === 'test') {
+        visitTest(call, modifier, scope);
+      } else if (member === 'beforeEach' && options.suiteHooks) {
+        continue;
+      } else if (member && HOOKS.includes(member)) {
+        report(statement, `Hook test.${member} is not carried over; move its code into a fixture`);
+      } else {
+        report(statement, `test.${[member, modifier].filter(Boolean).join('.')} is not carried over`);
+      }
+    }
+  };
+
+  const visitDescribe = (call: ts.CallExpression, modifier: string | undefined, scope: DescribeScope) => {
+    // test.describe.configure({ ... }) and friends take no title
+    if (modifier && !['only', 'skip', 'fixme', 'serial', 'parallel'].includes(modifier)) {
+      report(call, `test.describe.${modifier} is not carried over`);
+      return;
+    }
+    if (modifier && modifier !== 'only') {
+      report(call, `Describe modifier "${modifier}" is not carried over`);
+    }
+
+    const { title, details, body } = readTestArguments(call);
+    if (!body) {
+      report(call, 'Describe block without a callback is skipped');
+      return;
+    }
+
+    visitStatements(body.statements, {
+      titles: title ? [...scope.titles, title] : scope.titles,
+      tags: [...scope.tags, ...readTags(details, call)],
+    });
+  };
+
+  const visitTest = (call: ts.CallExpression, modifier: string | undefined, scope: DescribeScope) => {
+    const { title, details, body, callback } = readTestArguments(call);
+    if (title === undefined) {
+      report(call, 'Test without a literal title is skipped');
+      return;
+    }
+    if (!callback || !body) {
+      // e.g. test.skip() or test.fixme(title) without a body
+      report(call, `Test "${title}" has no body and is skipped`);
+      return;
+    }
+    if (modifier && modifier !== 'only') {
+      report(call, `Test "${title}" is marked "${modifier}"; it is imported as a regular test`);
+    }
+
+    const titleTags = title.match(/@[\w-]+/g) || [];
+    const name = [...scope.titles, title.replace(/\s*@[\w-]+/g, '').trim()].join(' > ');
+
+    const fixtureNames = readFixtureNames(callback);
+    const fixtures = fixtureNames.filter(fixture => !availableFixtures.includes(fixture));
+    if (fixtures.length > 0) {
+      report(call, `Test "${name}" uses ${fixtures.join(', ')}, which generated tests do not receive`);
+    }
+
+    result.tests.push({
+      name,
+      tags: unique([...scope.tags, ...readTags(details, call), ...titleTags.map(stripTagPrefix)]),
+      steps: body.statements.map(statement => readStep(statement, testNames, sourceFile)),
+      fixtures: fixtureNames.filter(fixture => !DEFAULT_FIXTURES.includes(fixture) && availableFixtures.includes(fixture)),
+      file,
+      line: lineOf(call),
+    });
+  };
+
+  const readTags = (details: ts.Expression | undefined, call: ts.CallExpression): string[] => {
+    if (!details || !ts.isObjectLiteralExpression(details)) {
+      return [];
+    }
+
+    const tags: string[] = [];
+    for (const property of details.properties) {
+      const name = property.name && ts.isIdentifier(property.name) ? property.name.text : undefined;
+      if (name !== 'tag') {
+        if (name && !isTestCaseIdAnnotation(property)) {
+          report(property, `Test detail "${name}" is not carried over`);
+        }
+        continue;
+      }
+
+      const initializer = ts.isPropertyAssignment(property) ? property.initializer : undefined;
+      const values = initializer && ts.isArrayLiteralExpression(initializer) ? [...initializer.elements] : [initializer];
+      for (const value of values) {
+        const text = value && readString(value);
+        if (text === undefined) {
+          report(value || call, 'Tag that is not a string literal is skipped');
+        } else {
+          tags.push(stripTagPrefix(text));
+        }
+      }
+    }
+    return tags;
+  };
+
+  visitStatements(sourceFile.statements, { titles: [], tags: [] });
+
+  if (result.tests.length === 0) {
+    report(undefined, 'No tests found');
+  }
+
+  return result;
+}
+
+/**
+ * Local names `test` is imported under, e.g. `import { test as it } from '@playwright/test'`
+ */
+function findTestIdentifiers(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !statement.importClause?.namedBindings) {
+      continue;
+    }
+    const bindings = statement.importClause.namedBindings;
+    if (!ts.isNamedImports(bindings)) {
+      continue;
+    }
+    for (const element of bindings.elements) {
+      if ((element.propertyName || element.name).text === 'test') {
+        names.add(element.name.text);
+      }
+    }
+  }
+
+  return names.size > 0 ? names : new Set(['test']);
+}
+
+// The annotation generated files carry to map results back to their test case
+function isTestCaseIdAnnotation(property: ts.ObjectLiteralElementLike): boolean {
+  if (!ts.isPropertyAssignment(property) || !ts.isObjectLiteralExpression(property.initializer)) {
+    return false;
+  }
+  return property.initializer.properties.some(item =>
+    ts.isPropertyAssignment(item) &&
+    item.name.getText() === 'type' &&
+    readString(item.initializer) === TEST_CASE_ID_ANNOTATION
+  );
+}
+
+function isFixturesModule(moduleName: string): boolean {
+  return /^\.{1,2}\/(.*\/)?fixtures(\/index)?(\.[jt]s)?$/.test(moduleName);
+}
+
+function getCallExpression(statement: ts.Statement): ts.CallExpression | undefined {
+  if (!ts.isExpressionStatement(statement)) {
+    return undefined;
+  }
+  const expression = ts.isAwaitExpression(statement.expression) ? statement.expression.expression : statement.expression;
+  return ts.isCallExpression(expression) ? expression : undefined;
+}
+
+/**
+ * For `test(...)` returns ['test'], for `test.describe.serial(...)` returns ['describe', 'serial']
+ */
+function getTestCallTarget(call: ts.CallExpression, testNames: Set<string>): [string, string?] | undefined {
+  const parts: string[] = [];
+  let expression: ts.Expression = call.expression;
+
+  while (ts.isPropertyAccessExpression(expression)) {
+    parts.unshift(expression.name.text);
+    expression = expression.expression;
+  }
+  if (!ts.isIdentifier(expression) || !testNames.has(expression.text)) {
+    return undefined;
+  }
+
+  if (parts.length === 0) {
+    return ['test'];
+  }
+  if (TEST_MODIFIERS.includes(parts[0]) && parts.length === 1) {
+    return ['test', parts[0]];
+  }
+  return [parts[0], parts[1]];
+}
+
+function readTestArguments(call: ts.CallExpression) {
+  const [first, second, third] = call.arguments;
+  const callback = [third, second, first].find(
+    (argument): argument is ts.ArrowFunction | ts.FunctionExpression =>
+      !!argument && (ts.isArrowFunction(argument) || ts.isFunctionExpression(argument))
+  );
+
+  return {
+    title: first ? readString(first) : undefined,
+    details: second && second !== callback ? second : undefined,
+    callback,
+    body: callback && ts.isBlock(callback.body) ? callback.body : undefined,
+  };
+}
+
+function readFixtureNames(callback: ts.ArrowFunction | ts.FunctionExpression): string[] {
+  const parameter = callback.parameters[0];
+  if (!parameter || !ts.isObjectBindingPattern(parameter.name)) {
+    return [];
+  }
+  return parameter.name.elements.map(element => (element.propertyName || element.name).getText());
+}
+
+function readStep(statement: ts.Statement, testNames: Set<string>, sourceFile: ts.SourceFile): ParsedSpecStep {
+  const call = getCallExpression(statement);
+  const target = call && getTestCallTarget(call, testNames);
+
+  if (call && target?.[0] === 'step' && !target[1]) {
+    const { title, callback } = readTestArguments(call);
+    if (title !== undefined && callback) {
+      return {
+        action: title,
+        playwrightScript: ts.isBlock(callback.body)
+          ? sliceStatements(callback.body.statements, sourceFile)
+          : `await ${callback.body.getText(sourceFile)};`,
+      };
+    }
+  }
+
+  return {
+    action: readLeadingComment(statement, sourceFile) || summarize(statement.getText(sourceFile)),
+    playwrightScript: sliceStatements([statement], sourceFile),
+  };
+}
+
+/**
+ * Source text of the statements, dedented to the indentation of the first one
+ */
+function sliceStatements(statements: readonly ts.Statement[], sourceFile: ts.SourceFile): string {
+  if (statements.length === 0) {
+    return '';
+  }
+
+  const start = statements[0].getStart(sourceFile);
+  const indent = sourceFile.getLineAndCharacterOfPosition(start).character;
+  const text = sourceFile.text.slice(start, statements[statements.length - 1].getEnd());
+
+  return text
+    .split('\n')
+    .map((line, index) => (index === 0 ? line : line.replace(new RegExp(`^[ \\t]{0,${indent}}`), '')))
+    .join('\n');
+}
+
+function readLeadingComment(statement: ts.Statement, sourceFile: ts.SourceFile): string | undefined {
+  const ranges = ts.getLeadingCommentRanges(sourceFile.text, statement.getFullStart()) || [];
+  const comment = ranges
+    .map(range => sourceFile.text.slice(range.pos, range.end))
+    .filter(text => text.startsWith('//'))
+    .map(text => text.replace(/^\/\/\s*/, '').trim())
+    .filter(Boolean)
+    .join(' ');
+  return comment ? summarize(comment) : undefined;
+}
+
+function readString(node: ts.Node): string | undefined {
+  return ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) ? node.text : undefined;
+}
+
+function summarize(text: string): string {
+  const line = text.replace(/^await\s+/, '').replace(/;\s*$/, '').replace(/\s+/g, ' ').trim();
+  return line.length > MAX_ACTION_LENGTH ? `${line.slice(0, MAX_ACTION_LENGTH - 3)}...` : line;
+}
+
+function stripTagPrefix(tag: string): string {
+  return tag.replace(/^@/, '').trim();
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
@@ -1,8 +1,33 @@
-import { PrismaClient, TestCase, Fixture, Step } from '@prisma/client';
-import { PlaywrightService } from './playwright.service';
+import { PrismaClient, TestCase, TestSuite, Fixture, Step } from '@prisma/client';
+import { PlaywrightService, FixtureFileParams, TestFileParams, TestFileStep } from './playwright.service';
+import { resolveVariableReferences } from './variable-references';
+import { hashContent, readFileSyncState, TestFileSync } from './file-sync';
+import { commitProjectFiles, getActingGitAuthor, ProjectGitRepository } from './project-git';
+import { parseSpecFile, SpecImportIssue } from './spec-parser';
+import { parseStepAction, parseStepId } from '@/lib/test-run/playwright-report';
+import { incrementVersion } from '@/lib/utils/version';
+import { toFileSlug } from '@/lib/utils/string-utils';
+import { getReleasableVersion, getTestFileSyncError, isReviewModeEnabled } from '@/lib/review/test-case-review';
+import { getTestCaseSuitePath } from '@/lib/suites/test-suites';
+import { getCalledStepOwners, getCallingTestCaseIds } from '@/lib/shared-steps/shared-steps';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 
+// Name generated tests receive a fixture by; a default exportName is generated if none exists
+export function getFixtureExportName(fixture: Pick<Fixture, 'name' | 'exportName'>): string {
+  return fixture.exportName || fixture.name
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '') // Remove special characters
+    .replace(/\s+(.)/g, (_, c) => c.toUpperCase()) // Convert to camelCase
+    .replace(/\s/g, '') // Remove spaces
+    .replace(/^(.)/, (_, c) => c.toLowerCase()); // Ensure first character is lowercase
+}
+
+// A step as rendered into a test file: a live step, or a step of an approved version which has no row
+type RenderedStep = Pick<Step, 'order' | 'action' | 'playwrightScript' | 'expected' | 'disabled' | 'fixtureId' | 'calledGroupId' | 'calledTestCaseId'> & {
+  id?: string;
+};
+
 export class TestManagerService {
   private prisma: PrismaClient;
   private playwrightService: PlaywrightService;
@@ -14,14 +39,25 @@ export class TestManagerService {
 
   // Helper function to slugify a name for file naming
   private slugify(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-') // Replace non-alphanumeric chars with hyphens
-      .replace(/^-|-$/g, '')       // Remove leading/trailing hyphens
-      || 'test';                   // Fallback if name is empty after processing
+    return toFileSlug(name);
+  }
+
+  // Project relative path of the file generated for a test case name, in a subdirectory per suite
+  getTestFilePath(name: string, suites: Array<{ name: string }> = []): string {
+    return path.join('tests', ...suites.map(suite => this.slugify(suite.name)), `${this.slugify(name)}.spec.ts`);
   }
 
-  async createTestFile(testCaseId: string, useIdAsFilename: boolean = false): Promise<void> {
+  /**
+   * Write the test file from the DB. Code-owned tests and files edited outside the app
+   * are left alone unless force is set, so manual edits are never lost silently.
+   * In review mode the last approved version is written, drafts wait for approval.
+   * The files of test cases calling this one are regenerated too, unless skipCallers is set.
+   */
+  async createTestFile(
+    testCaseId: string,
+    useIdAsFilename: boolean = false,
+    options: { force?: boolean; skipCallers?: boolean } = {}
+  ): Promise<void> {
     const testCase = await this.prisma.testCase.findUnique({
       where: { id: testCaseId },
       include: {
@@ -36,11 +72,27 @@ export class TestManagerService {
       throw new Error('Test case or project path not found');
     }
 
-    const fixtures = await this.getTestFixtures(testCaseId);
-    
     // Convert relative project path to absolute path
     const appRoot = process.cwd();
     const absoluteProjectPath = path.join(appRoot, testCase.project.playwrightProjectPath);
+
+    const releasableVersion = getReleasableVersion(testCase, await isReviewModeEnabled(testCase.projectId));
+    if (!releasableVersion) {
+      console.log(`Test case ${testCaseId} has no approved version yet, leaving its test file unchanged`);
+      return;
+    }
+
+    if (!options.force && testCase.testFilePath) {
+      if (testCase.codeOwned) {
+        console.log(`Test case ${testCaseId} is code-owned, leaving ${testCase.testFilePath} unchanged`);
+        return;
+      }
+      const { status } = await readFileSyncState(path.join(absoluteProjectPath, testCase.testFilePath), testCase.testFileHash);
+      if (status === 'modified') {
+        console.warn(`${testCase.testFilePath} was edited outside the app, not overwriting it`);
+        return;
+      }
+    }
     
     // Create filename based on settings
     let filename;
@@ -50,18 +102,13 @@ export class TestManagerService {
       filename = `${this.slugify(testCase.name)}.spec.ts`;
     }
     
-    // Create absolute path for writing the file
-    const absoluteTestFilePath = path.join(
-      absoluteProjectPath,
-      'tests',
-      filename
-    );
-    
     // Create relative path for storing in database
-    const relativeTestFilePath = path.join(
-      'tests',
-      filename
-    );
+    const suites = await getTestCaseSuitePath(testCase.projectId, testCase.suiteId);
+    const relativeTestFilePath = path.join(path.dirname(this.getTestFilePath(testCase.name, suites)), filename);
+
+    // Create absolute path for writing the file
+    const absoluteTestFilePath = path.join(absoluteProjectPath, relativeTestFilePath);
+    await fs.mkdir(path.dirname(absoluteTestFilePath), { recursive: true });
     
     // Kiểm tra xem tên file có thay đổi hay không
     if (testCase.testFilePath && testCase.testFilePath !== relativeTestFilePath) {
@@ -80,47 +127,155 @@ export class TestManagerService {
       }
     }
 
-    // Create a map of fixtures by ID for faster lookup
-    const fixtureMap = new Map(fixtures.map(f => [f.id, f]));
-
-    await this.playwrightService.generateTestFile({
-      testCaseName: testCase.name,
-      fixtures: fixtures.map(fixture => {
-        // Generate a default exportName if none exists
-        const exportName = fixture.exportName || fixture.name
-          .toLowerCase()
-          .replace(/[^\w\s]/g, '') // Remove special characters
-          .replace(/\s+(.)/g, (_, c) => c.toUpperCase()) // Convert to camelCase
-          .replace(/\s/g, '') // Remove spaces
-          .replace(/^(.)/, (_, c) => c.toLowerCase()); // Ensure first character is lowercase
-
-        return {
-          name: fixture.name,
-          path: fixture.fixtureFilePath || '',
-          mode: fixture.type as 'extend' | 'inline',
-          exportName
-        };
-      }),
-      steps: testCase.steps.map(step => ({
-        order: step.order,
-        action: step.action,
-        playwrightCode: step.playwrightScript || '',
-        expected: step.expected || undefined,
-        disabled: step.disabled,
-        fixtureId: step.fixtureId || undefined
-      })),
-      tags: testCase.tags ? testCase.tags.split(',') : undefined,
+    const content = await this.playwrightService.generateTestFile({
+      ...(await this.buildTestFileParams(testCase, relativeTestFilePath, suites)),
       outputPath: absoluteTestFilePath,
     });
 
-    // Store the relative path in the database
+    // Store the relative path and hash in the database
     await this.prisma.testCase.update({
       where: { id: testCaseId },
-      data: { testFilePath: relativeTestFilePath },
+      data: { testFilePath: relativeTestFilePath, testFileHash: hashContent(content) },
+    });
+
+    await commitProjectFiles(
+      testCase.project,
+      [relativeTestFilePath, ...(testCase.testFilePath && testCase.testFilePath !== relativeTestFilePath ? [testCase.testFilePath] : [])],
+      `Update test case "${testCase.name}" (v${releasableVersion})\n\nTest case: ${testCase.id}`
+    );
+
+    if (!options.skipCallers) {
+      await this.regenerateTestFiles(await getCallingTestCaseIds({ testCaseId }), { skipCallers: true });
+    }
+  }
+
+  /**
+   * Regenerate the files of automated test cases, e.g. after their suites were moved or renamed.
+   * A file that cannot be written is logged and skipped.
+   */
+  async regenerateTestFiles(testCaseIds: string[], options: { skipCallers?: boolean } = {}): Promise<void> {
+    const testCases = await this.prisma.testCase.findMany({
+      where: { id: { in: testCaseIds }, isManual: false },
+      select: { id: true },
+    });
+
+    for (const testCase of testCases) {
+      try {
+        await this.createTestFile(testCase.id, false, options);
+      } catch (error) {
+        console.error(`Error updating test file for test case ${testCase.id}:`, error);
+      }
+    }
+  }
+
+  private async buildTestFileParams(
+    testCase: TestCase & { steps: Step[] },
+    relativeTestFilePath: string,
+    suites: TestSuite[]
+  ): Promise<TestFileParams> {
+    const fixtures = await this.getTestFixtures(testCase.id);
+    const reviewMode = await isReviewModeEnabled(testCase.projectId);
+    // In review mode a draft is not rendered, the file keeps the last approved version
+    const steps = getReleasableVersion(testCase, reviewMode) === testCase.version
+      ? testCase.steps
+      : await this.getApprovedSteps(testCase);
+
+    return {
+      testCaseId: testCase.id,
+      testCaseName: testCase.name,
+      fixturesImport: path.posix.relative(path.posix.dirname(relativeTestFilePath.split(path.sep).join('/')), 'fixtures'),
+      suites: suites.map(suite => ({
+        name: suite.name,
+        beforeEach: suite.beforeEach ? resolveVariableReferences(suite.beforeEach) : undefined,
+      })),
+      fixtures: fixtures.map(fixture => ({
+        name: fixture.name,
+        path: fixture.fixtureFilePath || '',
+        mode: fixture.type as 'extend' | 'inline',
+        exportName: this.getFixtureExportName(fixture),
+      })),
+      steps: await this.buildTestFileSteps(steps, [`testCase:${testCase.id}`], reviewMode),
+      tags: testCase.tags ? testCase.tags.split(',') : undefined,
+    };
+  }
+
+  // The trail holds the groups and test cases being expanded, so a cycle of calls stops instead of recursing
+  private async buildTestFileSteps(steps: RenderedStep[], trail: string[], reviewMode: boolean): Promise<TestFileStep[]> {
+    return Promise.all(steps.map(async step => ({
+      id: step.id,
+      order: step.order,
+      action: step.action,
+      playwrightCode: resolveVariableReferences(step.playwrightScript || ''),
+      expected: step.expected || undefined,
+      disabled: step.disabled,
+      fixtureId: step.fixtureId || undefined,
+      calls: await this.loadCalledSteps(step, trail, reviewMode),
+    })));
+  }
+
+  private async loadCalledSteps(step: RenderedStep, trail: string[], reviewMode: boolean): Promise<TestFileStep['calls']> {
+    const key = step.calledGroupId ? `group:${step.calledGroupId}` : step.calledTestCaseId ? `testCase:${step.calledTestCaseId}` : null;
+    if (!key || trail.includes(key)) {
+      return undefined;
+    }
+
+    const include = { steps: { orderBy: { order: 'asc' as const } } };
+    if (step.calledGroupId) {
+      const group = await this.prisma.sharedStepGroup.findUnique({ where: { id: step.calledGroupId }, include });
+      return group ? {
+        kind: 'group',
+        name: group.name,
+        steps: await this.buildTestFileSteps(group.steps, [...trail, key], reviewMode),
+      } : undefined;
+    }
+
+    const calledTestCase = await this.prisma.testCase.findUnique({ where: { id: step.calledTestCaseId! }, include });
+    if (!calledTestCase) {
+      return undefined;
+    }
+
+    // Like the test case itself, a called test case contributes its approved version in review mode
+    const steps = getReleasableVersion(calledTestCase, reviewMode) === calledTestCase.version
+      ? calledTestCase.steps
+      : await this.getApprovedSteps(calledTestCase);
+    return {
+      kind: 'testCase',
+      name: calledTestCase.name,
+      steps: await this.buildTestFileSteps(steps, [...trail, key], reviewMode),
+    };
+  }
+
+  // Steps of the test case's last approved version, none if no version was approved yet
+  private async getApprovedSteps(testCase: TestCase): Promise<RenderedStep[]> {
+    if (!testCase.approvedVersion) {
+      return [];
+    }
+
+    const version = await this.prisma.testCaseVersion.findFirst({
+      where: { testCaseId: testCase.id, version: testCase.approvedVersion },
+      orderBy: { createdAt: 'desc' },
+      include: { stepVersions: { orderBy: { order: 'asc' } } },
     });
+    return (version?.stepVersions || []).map(step => ({
+      order: step.order,
+      action: step.action,
+      playwrightScript: step.playwrightCode,
+      expected: step.expected,
+      disabled: step.disabled,
+      fixtureId: null,
+      calledGroupId: step.calledGroupId,
+      calledTestCaseId: step.calledTestCaseId,
+    }));
   }
 
-  async createFixtureFile(fixtureId: string): Promise<void> {
+  private getFixtureExportName(fixture: Fixture): string {
+    return getFixtureExportName(fixture);
+  }
+
+  /**
+   * Write the fixture file from the DB. A file edited outside the app is left alone unless force is set.
+   */
+  async createFixtureFile(fixtureId: string, options: { force?: boolean } = {}): Promise<void> {
     const fixture = await this.prisma.fixture.findUnique({
       where: { id: fixtureId },
       include: {
@@ -139,6 +294,14 @@ export class TestManagerService {
     const appRoot = process.cwd();
     const absoluteProjectPath = path.join(appRoot, fixture.project.playwrightProjectPath);
 
+    if (!options.force && fixture.fixtureFilePath) {
+      const { status } = await readFileSyncState(path.join(absoluteProjectPath, fixture.fixtureFilePath), fixture.fixtureFileHash);
+      if (status === 'modified') {
+        console.warn(`${fixture.fixtureFilePath} was edited outside the app, not overwriting it`);
+        return;
+      }
+    }
+
     // Ensure filename follows the pattern: lowercase-name.fixture.ts
     let fixtureFileName: string;
     
@@ -173,8 +336,25 @@ export class TestManagerService {
       fixtureFileName
     );
 
-    const content = this.generateFixtureContent(fixture);
-    
+    const content = await this.playwrightService.generateFixtureFile({
+      ...this.buildFixtureFileParams(fixture),
+      outputPath: absoluteFixtureFilePath,
+    });
+
+    // Store the relative path in the database
+    await this.prisma.fixture.update({
+      where: { id: fixtureId },
+      data: { fixtureFilePath: relativeFixtureFilePath, fixtureFileHash: hashContent(content) },
+    });
+
+    await commitProjectFiles(
+      fixture.project,
+      [relativeFixtureFilePath, path.join('fixtures', 'index.ts')],
+      `Update fixture "${fixture.name}"\n\nFixture: ${fixture.id}`
+    );
+  }
+
+  private buildFixtureFileParams(fixture: Fixture & { steps: Step[] }): FixtureFileParams {
     // Ensure exportName follows camelCase convention and doesn't contain spaces
     let exportName = fixture.exportName || '';
     if (!exportName || exportName.includes(' ')) {
@@ -187,26 +367,198 @@ export class TestManagerService {
         .replace(/^(.)/, (_, c) => c.toLowerCase()); // Ensure first character is lowercase
     }
 
-    await this.playwrightService.generateFixtureFile({
+    return {
       name: fixture.name,
       type: fixture.type as 'extend' | 'inline' | 'inlineExtend',
       description: fixture.name,
       exportName: exportName,
-      content,
-      outputPath: absoluteFixtureFilePath,
+      content: this.generateFixtureContent(fixture),
+    };
+  }
+
+  /**
+   * Compare the test file, and the files of the fixtures it uses, with the recorded hashes and
+   * with what the DB would generate now
+   */
+  async getTestFileSync(testCaseId: string): Promise<TestFileSync> {
+    const testCase = await this.prisma.testCase.findUnique({
+      where: { id: testCaseId },
+      include: {
+        steps: { orderBy: { order: 'asc' } },
+        project: true,
+      },
     });
 
-    // Store the relative path in the database
-    await this.prisma.fixture.update({
-      where: { id: fixtureId },
-      data: { fixtureFilePath: relativeFixtureFilePath },
+    if (!testCase || !testCase.project.playwrightProjectPath) {
+      throw new Error('Test case or project path not found');
+    }
+
+    const absoluteProjectPath = path.join(process.cwd(), testCase.project.playwrightProjectPath);
+
+    let testFile: TestFileSync['testFile'] = null;
+    if (testCase.testFilePath) {
+      const suites = await getTestCaseSuitePath(testCase.projectId, testCase.suiteId);
+      testFile = {
+        path: testCase.testFilePath,
+        ...(await readFileSyncState(path.join(absoluteProjectPath, testCase.testFilePath), testCase.testFileHash)),
+        generatedContent: await this.playwrightService.renderTestFile(
+          await this.buildTestFileParams(testCase, this.getTestFilePath(testCase.name, suites), suites)
+        ),
+      };
+    }
+
+    const fixtureIds = (await this.getTestFixtures(testCaseId)).map(fixture => fixture.id);
+    const fixtures = await this.prisma.fixture.findMany({
+      where: { id: { in: fixtureIds }, fixtureFilePath: { not: null } },
+      include: { steps: { orderBy: { order: 'asc' } } },
+      orderBy: { name: 'asc' },
     });
+
+    return {
+      codeOwned: testCase.codeOwned,
+      testFile,
+      fixtures: await Promise.all(fixtures.map(async fixture => ({
+        fixtureId: fixture.id,
+        name: fixture.name,
+        path: fixture.fixtureFilePath!,
+        ...(await readFileSyncState(path.join(absoluteProjectPath, fixture.fixtureFilePath!), fixture.fixtureFileHash)),
+        generatedContent: await this.playwrightService.renderFixtureFile(this.buildFixtureFileParams(fixture)),
+      }))),
+    };
+  }
+
+  /**
+   * Replace the test case's steps and tags with the content of its test file, keeping the
+   * step rows (and their expected results and fixtures) that the file's step titles refer to.
+   * Disabled steps only exist as comments in the file and are kept where they were.
+   * Nothing is changed when part of the file cannot be mapped to steps.
+   */
+  async acceptTestFile(
+    testCaseId: string,
+    userEmail?: string | null
+  ): Promise<{ accepted: boolean; issues: SpecImportIssue[]; steps: number }> {
+    const testCase = await this.prisma.testCase.findUnique({
+      where: { id: testCaseId },
+      include: {
+        steps: { orderBy: { order: 'asc' } },
+        project: true,
+      },
+    });
+
+    if (!testCase || !testCase.project.playwrightProjectPath || !testCase.testFilePath) {
+      throw new Error('Test case, project path or test file not found');
+    }
+
+    const filePath = testCase.testFilePath;
+
+    const syncError = await getTestFileSyncError(testCase, 'accept');
+    if (syncError) {
+      return { accepted: false, issues: [{ file: filePath, message: syncError }], steps: 0 };
+    }
+
+    const content = await fs.readFile(path.join(process.cwd(), testCase.project.playwrightProjectPath, filePath), 'utf8').catch(() => null);
+    if (content === null) {
+      return { accepted: false, issues: [{ file: filePath, message: 'Test file not found' }], steps: 0 };
+    }
+
+    const fixtures = await this.getTestFixtures(testCaseId);
+    const parsed = parseSpecFile(filePath, content, {
+      availableFixtures: fixtures.filter(fixture => fixture.type === 'extend').map(fixture => this.getFixtureExportName(fixture)),
+      // beforeEach hooks come from the test case's suites and are edited there
+      suiteHooks: !!testCase.suiteId,
+    });
+    if (parsed.tests.length > 1) {
+      parsed.issues.push({ file: filePath, message: 'The file must contain a single test' });
+    }
+    if (parsed.issues.length > 0) {
+      return { accepted: false, issues: parsed.issues, steps: 0 };
+    }
+
+    // The template always starts by opening the base URL
+    const fileSteps = parsed.tests[0].steps.filter((step, index) => index > 0 || step.playwrightScript !== "await page.goto('/');");
+    const existingSteps = new Map(testCase.steps.map(step => [step.id, step]));
+
+    const keptSteps: Array<{ id?: string; action: string; playwrightScript: string | null; disabled: boolean }> = fileSteps.map(step => {
+      const stepId = parseStepId(step.action);
+      const existing = stepId ? existingSteps.get(stepId) : undefined;
+      return {
+        id: existing && !existing.disabled ? existing.id : undefined,
+        action: parseStepAction(step.action),
+        // The code of a calling step is the expanded group or test case, which is edited there
+        playwrightScript: existing && (existing.calledGroupId || existing.calledTestCaseId) ? existing.playwrightScript : step.playwrightScript,
+        disabled: false,
+      };
+    });
+    for (const step of testCase.steps.filter(step => step.disabled)) {
+      keptSteps.splice(Math.min(step.order - 1, keptSteps.length), 0, step);
+    }
+
+    const newVersion = incrementVersion(testCase.version);
+    const keptIds = keptSteps.map(step => step.id).filter((id): id is string => !!id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.step.deleteMany({ where: { testCaseId, id: { notIn: keptIds } } });
+
+      const savedSteps: Step[] = [];
+      for (const [index, step] of keptSteps.entries()) {
+        const data = { action: step.action, playwrightScript: step.playwrightScript, order: index + 1, updatedBy: userEmail || undefined };
+        savedSteps.push(step.id
+          ? await tx.step.update({ where: { id: step.id }, data })
+          : await tx.step.create({ data: { ...data, testCaseId, createdBy: userEmail || undefined } }));
+      }
+
+      await tx.testCase.update({
+        where: { id: testCaseId },
+        data: {
+          version: newVersion,
+          tags: parsed.tests[0].tags.length > 0 ? parsed.tests[0].tags.join(',') : null,
+          testFileHash: hashContent(content),
+          updatedBy: userEmail || undefined,
+        },
+      });
+
+      await tx.testCaseVersion.create({
+        data: {
+          testCaseId,
+          version: newVersion,
+          name: testCase.name,
+          createdBy: userEmail || undefined,
+          stepVersions: {
+            create: savedSteps.map(step => ({
+              action: step.action,
+              data: step.data,
+              expected: step.expected,
+              playwrightCode: step.playwrightScript,
+              order: step.order,
+              disabled: step.disabled,
+              calledGroupId: step.calledGroupId,
+              calledTestCaseId: step.calledTestCaseId,
+            })),
+          },
+        },
+      });
+    });
+
+    await commitProjectFiles(
+      testCase.project,
+      [testCase.testFilePath],
+      `Accept edited test case "${testCase.name}" (v${newVersion})\n\nTest case: ${testCase.id}`,
+      userEmail
+    );
+
+    return { accepted: true, issues: [], steps: keptSteps.length };
   }
 
   private async getTestFixtures(testCaseId: string): Promise<Fixture[]> {
-    // Get steps that directly reference fixtures
+    // Get steps that reference fixtures, including the steps of the groups and test cases it calls
+    const called = await getCalledStepOwners({ testCaseId });
     const steps = await this.prisma.step.findMany({
-      where: { testCaseId },
+      where: {
+        OR: [
+          { testCaseId: { in: [testCaseId, ...called.flatMap(owner => 'testCaseId' in owner ? [owner.testCaseId] : [])] } },
+          { sharedStepGroupId: { in: called.flatMap(owner => 'groupId' in owner ? [owner.groupId] : []) } },
+        ],
+      },
       include: { fixture: true },
     });
 
@@ -257,7 +609,7 @@ export class TestManagerService {
       } else {
         // Use playwrightScript if available, otherwise use TODO comment
         if (step.playwrightScript && step.playwrightScript.trim() !== '') {
-          scriptLines.push(step.playwrightScript);
+          scriptLines.push(resolveVariableReferences(step.playwrightScript));
         } else {
           scriptLines.push(`// TODO: Implement this step`);
         }
@@ -330,6 +682,12 @@ export class TestManagerService {
         where: { id: fixtureId },
         data: { fixtureFilePath: newRelativeFixtureFilePath },
       });
+
+      await commitProjectFiles(
+        fixture.project,
+        [fixture.fixtureFilePath, newRelativeFixtureFilePath],
+        `Rename fixture "${oldName}" to "${newName}"\n\nFixture: ${fixture.id}`
+      );
       
       return newRelativeFixtureFilePath;
     } catch (error: any) {
@@ -371,6 +729,13 @@ export class TestManagerService {
       where: { id: projectId },
       data: { playwrightProjectPath: relativePlaywrightProjectPath },
     });
+
+    // Version the generated project; the app still works without git
+    try {
+      await new ProjectGitRepository(absolutePlaywrightProjectPath).init(await getActingGitAuthor());
+    } catch (error) {
+      console.error('Error initializing git repository:', error);
+    }
   }
 
   /**
@@ -0,0 +1,55 @@
+// e.g. "{{vars.BASE_URL}}" or "{{ vars.ADMIN_PASSWORD }}"
+const VARIABLE_REFERENCE = /\{\{\s*vars\.([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+function hasReference(text: string): boolean {
+  VARIABLE_REFERENCE.lastIndex = 0;
+  return VARIABLE_REFERENCE.test(text);
+}
+
+/**
+ * Turn `{{vars.NAME}}` references in step code into reads of the environment
+ * variables the worker injects. Inside string literals the string becomes a
+ * template literal, e.g. `'{{vars.HOST}}/login'` becomes `` `${process.env.HOST ?? ''}/login` ``.
+ */
+export function resolveVariableReferences(code: string): string {
+  if (!hasReference(code)) {
+    return code;
+  }
+
+  let result = '';
+  let index = 0;
+
+  while (index < code.length) {
+    const char = code[index];
+
+    if (char !== '\'' && char !== '"' && char !== '`') {
+      // Plain code: replace up to the next string literal
+      let end = index;
+      while (end < code.length && !['\'', '"', '`'].includes(code[end])) {
+        end++;
+      }
+      result += code.slice(index, end).replace(VARIABLE_REFERENCE, 'process.env.$1');
+      index = end;
+      continue;
+    }
+
+    // Find the end of the string literal, skipping escaped characters
+    let end = index + 1;
+    while (end < code.length && code[end] !== char) {
+      end += code[end] === '\\' ? 2 : 1;
+    }
+    const body = code.slice(index + 1, Math.min(end, code.length));
+    index = end + 1;
+
+    if (!hasReference(body)) {
+      result += char + body + (end < code.length ? char : '');
+    } else if (char === '`') {
+      result += `\`${body.replace(VARIABLE_REFERENCE, '${process.env.$1 ?? \'\'}')}\``;
+    } else {
+      const escaped = body.replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+      result += `\`${escaped.replace(VARIABLE_REFERENCE, '${process.env.$1 ?? \'\'}')}\``;
+    }
+  }
+
+  return result;
+}
@@ -69,8 +69,10 @@ export async function checkPermission(resource: string, action: string): Promise
 
 /**
  * Resource-specific permission check with simplified inheritance model.
- * All fixture and testcase permissions inherit from project permissions.
+ * All fixture, suite, test plan, requirement and testcase permissions inherit from project permissions.
  * This eliminates the need for individual resource-specific permission assignments.
+ * Suites therefore have no permissions of their own: every suite, and the test cases under it,
+ * is governed by the project's permissions, and access cannot be granted or narrowed per suite.
  */
 export async function checkResourcePermission(
   resource: string,
@@ -124,6 +126,24 @@ export async function checkResourcePermission(
           select: { projectId: true }
         });
         projectId = testResult?.projectId || null;
+      } else if (resource === 'suite') {
+        const suite = await prisma.testSuite.findUnique({
+          where: { id: resourceId },
+          select: { projectId: true }
+        });
+        projectId = suite?.projectId || null;
+      } else if (resource === 'testPlan') {
+        const testPlan = await prisma.testPlan.findUnique({
+          where: { id: resourceId },
+          select: { projectId: true }
+        });
+        projectId = testPlan?.projectId || null;
+      } else if (resource === 'requirement') {
+        const requirement = await prisma.requirement.findUnique({
+          where: { id: resourceId },
+          select: { projectId: true }
+        });
+        projectId = requirement?.projectId || null;
       }
       
       if (projectId) {
@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { CustomFieldValues, formatCustomFieldValue, getCustomFieldValues } from '@/lib/custom-fields/custom-fields';
+
+export type RequirementCoverage = 'uncovered' | 'passing' | 'failing' | 'not-run';
+
+export const RequirementSchema = z.object({
+  key: z.string().trim().min(1, 'Key is required').max(50),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().max(5000).nullable().optional(),
+  // Rendered as a link in the matrix and its exports, so only web URLs are accepted
+  externalUrl: z.string().trim().url().refine(url => /^https?:\/\//i.test(url), 'Must be an http or https URL').nullable().optional(),
+  testCaseIds: z.array(z.string().min(1)).default([]),
+});
+
+export type RequirementInput = z.input<typeof RequirementSchema>;
+
+export interface TraceabilityTestCase {
+  id: string;
+  name: string;
+  isManual: boolean;
+  status: string | null;           // Latest passed, flaky, failed or blocked execution, null when never run
+  lastRunAt: Date | null;
+  lastTestResultId: string | null;
+  customFields: CustomFieldValues;  // Keyed by custom field id
+}
+
+export interface TraceabilityRow {
+  id: string;
+  key: string;
+  title: string;
+  description: string | null;
+  externalUrl: string | null;
+  coverage: RequirementCoverage;
+  testCases: TraceabilityTestCase[];
+}
+
+export interface TraceabilitySummary {
+  total: number;
+  covered: number;
+  uncovered: number;
+  passing: number;
+  failing: number;
+  notRun: number;
+}
+
+export interface TraceabilityMatrix {
+  requirements: TraceabilityRow[];
+  customFields: Array<{ id: string; name: string }>;
+  summary: TraceabilitySummary;
+}
+
+/**
+ * A requirement fails when any covering test case last failed or was blocked, and passes once
+ * every covering test case last passed
+ */
+export function getRequirementCoverage(testCases: Array<Pick<TraceabilityTestCase, 'status'>>): RequirementCoverage {
+  if (testCases.length === 0) return 'uncovered';
+  if (testCases.some(testCase => testCase.status === 'failed' || testCase.status === 'blocked')) return 'failing';
+  if (testCases.every(testCase => testCase.status === 'passed' || testCase.status === 'flaky')) return 'passing';
+  return 'not-run';
+}
+
+/**
+ * Requirements of a project with the test cases covering them and their latest execution status
+ */
+export async function getTraceabilityMatrix(projectId: string): Promise<TraceabilityMatrix> {
+  const requirements = await prisma.requirement.findMany({
+    where: { projectId },
+    orderBy: { key: 'asc' },
+    include: {
+      testCases: {
+        include: { testCase: { select: { id: true, name: true, isManual: true } } },
+      },
+    },
+  });
+
+  const testCaseIds = Array.from(new Set(requirements.flatMap(requirement => requirement.testCases.map(link => link.testCaseId))));
+  const executions = await prisma.testCaseExecution.findMany({
+    where: { testCaseId: { in: testCaseIds }, status: { in: ['passed', 'flaky', 'failed', 'blocked'] } },
+    orderBy: { createdAt: 'desc' },
+    distinct: ['testCaseId'],
+    select: { testCaseId: true, testResultId: true, status: true, createdAt: true },
+  });
+
+  const [customFields, customFieldValues] = await Promise.all([
+    prisma.customField.findMany({
+      where: { projectId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true, name: true },
+    }),
+    getCustomFieldValues(projectId, testCaseIds),
+  ]);
+
+  const latestByTestCase = new Map(executions.map(execution => [execution.testCaseId, execution]));
+
+  const rows: TraceabilityRow[] = requirements.map(requirement => {
+    const testCases = requirement.testCases
+      .map(link => {
+        const latest = latestByTestCase.get(link.testCaseId);
+        return {
+          ...link.testCase,
+          status: latest?.status || null,
+          lastRunAt: latest?.createdAt || null,
+          lastTestResultId: latest?.testResultId || null,
+          customFields: customFieldValues[link.testCaseId] || {},
+        };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return {
+      id: requirement.id,
+      key: requirement.key,
+      title: requirement.title,
+      description: requirement.description,
+      externalUrl: requirement.externalUrl,
+      coverage: getRequirementCoverage(testCases),
+      testCases,
+    };
+  });
+
+  const count = (coverage: RequirementCoverage) => rows.filter(row => row.coverage === coverage).length;
+  return {
+    requirements: rows,
+    customFields,
+    summary: {
+      total: rows.length,
+      covered: rows.length - count('uncovered'),
+      uncovered: count('uncovered'),
+      passing: count('passing'),
+      failing: count('failing'),
+      notRun: count('not-run'),
+    },
+  };
+}
+
+/**
+ * Problems with the test cases a requirement links to, which must all belong to its project
+ */
+export async function validateRequirementTestCases(projectId: string, testCaseIds: string[]): Promise<string[]> {
+  const count = await prisma.testCase.count({ where: { projectId, id: { in: testCaseIds } } });
+  return count === new Set(testCaseIds).size ? [] : ['testCaseIds: One or more test cases were not found in this project'];
+}
+
+/**
+ * API shape of a stored requirement, with the test cases covering it listed
+ */
+export function toRequirementResponse<T extends { testCases: Array<{ testCaseId: string }> }>(
+  requirement: T
+): Omit<T, 'testCases'> & { testCaseIds: string[] } {
+  const { testCases, ...rest } = requirement;
+  return { ...rest, testCaseIds: testCases.map(link => link.testCaseId) };
+}
+
+// Cells a spreadsheet would read as a formula are prefixed with a quote, so they stay text
+function escapeCsv(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * One line per requirement and covering test case; uncovered requirements get a line of their own
+ */
+export function formatTraceabilityCsv(matrix: TraceabilityMatrix): string {
+  const lines = [[
+    'Requirement', 'Title', 'Coverage', 'Test Case', 'Type', 'Latest Status', 'Last Run', 'External URL',
+    ...matrix.customFields.map(field => field.name),
+  ]];
+  for (const row of matrix.requirements) {
+    const testCases = row.testCases.length > 0 ? row.testCases : [null];
+    for (const testCase of testCases) {
+      lines.push([
+        row.key,
+        row.title,
+        row.coverage,
+        testCase?.name || '',
+        testCase ? (testCase.isManual ? 'manual' : 'automated') : '',
+        testCase ? testCase.status || 'not run' : '',
+        testCase?.lastRunAt ? testCase.lastRunAt.toISOString() : '',
+        row.externalUrl || '',
+        ...matrix.customFields.map(field => formatCustomFieldValue(testCase?.customFields[field.id])),
+      ]);
+    }
+  }
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Self-contained HTML report of the matrix that can be archived or attached to an audit
+ */
+export function formatTraceabilityHtml(matrix: TraceabilityMatrix, projectName: string, generatedAt: Date): string {
+  const { summary } = matrix;
+  const rows = matrix.requirements.map(row => {
+    const key = row.externalUrl
+      ? `<a href="${escapeHtml(row.externalUrl)}">${escapeHtml(row.key)}</a>`
+      : escapeHtml(row.key);
+    const testCases = row.testCases.length === 0
+      ? '<em>No test cases</em>'
+      : `<ul>${row.testCases.map(testCase => {
+        const fields = matrix.customFields
+          .filter(field => testCase.customFields[field.id] !== undefined)
+          .map(field => `${escapeHtml(field.name)}: ${escapeHtml(formatCustomFieldValue(testCase.customFields[field.id]))}`);
+        return `<li>${escapeHtml(testCase.name)} (${testCase.isManual ? 'manual' : 'automated'}): ${escapeHtml(testCase.status || 'not run')}` +
+          `${fields.length > 0 ? `<br><small>${fields.join('; ')}</small>` : ''}</li>`;
+      }).join('')}</ul>`;
+    return `<tr class="${row.coverage}"><td>${key}</td><td>${escapeHtml(row.title)}</td><td>${row.coverage}</td><td>${testCases}</td></tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Traceability matrix - ${escapeHtml(projectName)}</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ccc; padding: 0.5rem; text-align: left; vertical-align: top; }
+ul { margin: 0; padding-left: 1.25rem; }
+tr.uncovered td:nth-child(3), tr.failing td:nth-child(3) { color: #b91c1c; font-weight: bold; }
+tr.passing td:nth-child(3) { color: #15803d; }
+</style>
+</head>
+<body>
+<h1>Traceability matrix - ${escapeHtml(projectName)}</h1>
+<p>Generated ${generatedAt.toISOString()}</p>
+<p>${summary.total} requirements: ${summary.covered} covered, ${summary.uncovered} uncovered, ${summary.passing} passing, ${summary.failing} failing, ${summary.notRun} not run</p>
+<table>
+<thead><tr><th>Requirement</th><th>Title</th><th>Coverage</th><th>Test Cases</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
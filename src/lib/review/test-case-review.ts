@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+import { incrementVersion } from '@/lib/utils/version';
+
+export const REVIEW_SETTINGS_CATEGORY = 'review';
+
+export type ReviewStatus = 'draft' | 'changes_requested' | 'approved';
+
+export type ReviewAction = 'approved' | 'changes_requested' | 'commented' | 'baselined';
+
+export const ReviewActionSchema = z.object({
+  action: z.enum(['approve', 'request_changes', 'comment']),
+  // The version the reviewer looked at, so a change made meanwhile is not approved unseen
+  version: z.string().min(1),
+  comment: z.string().trim().max(5000).optional(),
+}).refine(
+  data => data.action === 'approve' || !!data.comment,
+  { message: 'A comment is required', path: ['comment'] }
+);
+
+export interface TestCaseReviewState {
+  reviewMode: boolean;
+  status: ReviewStatus;
+  version: string;
+  approvedVersion: string | null;
+  events: Array<{
+    id: string;
+    version: string;
+    action: ReviewAction;
+    comment: string | null;
+    createdAt: Date;
+    createdBy: string | null;
+  }>;
+}
+
+export async function isReviewModeEnabled(projectId: string): Promise<boolean> {
+  const setting = await prisma.projectSetting.findUnique({
+    where: { projectId_category_key: { projectId, category: REVIEW_SETTINGS_CATEGORY, key: 'enabled' } },
+  });
+  return setting?.value === 'true';
+}
+
+/**
+ * The version that may be rendered and released: the current one outside review mode,
+ * otherwise the last approved one, if any
+ */
+export function getReleasableVersion(
+  testCase: { version: string; approvedVersion: string | null },
+  reviewMode: boolean
+): string | null {
+  return reviewMode ? testCase.approvedVersion : testCase.version;
+}
+
+/**
+ * Why a test file cannot be synced with the test case, or null when it can. In review mode the
+ * file only holds the approved version: edits to it cannot be accepted, as that would skip the
+ * review, and it cannot be overwritten before a version was approved.
+ */
+export async function getTestFileSyncError(
+  testCase: { projectId: string; approvedVersion: string | null },
+  action: 'accept' | 'overwrite'
+): Promise<string | null> {
+  if (!(await isReviewModeEnabled(testCase.projectId))) {
+    return null;
+  }
+  if (action === 'accept') {
+    return 'Review mode is enabled: make the change in the app and have it approved, or overwrite the file';
+  }
+  return testCase.approvedVersion ? null : 'No version of this test case has been approved yet, so there is nothing to write';
+}
+
+export function getReviewStatus(
+  testCase: { version: string; approvedVersion: string | null },
+  latestEvent?: { version: string; action: string } | null
+): ReviewStatus {
+  if (testCase.approvedVersion === testCase.version) {
+    return 'approved';
+  }
+  return latestEvent?.version === testCase.version && latestEvent.action === 'changes_requested'
+    ? 'changes_requested'
+    : 'draft';
+}
+
+export async function getTestCaseReviewState(testCaseId: string): Promise<TestCaseReviewState | null> {
+  const testCase = await prisma.testCase.findUnique({
+    where: { id: testCaseId },
+    include: { reviewEvents: { orderBy: { createdAt: 'desc' } } },
+  });
+  if (!testCase) {
+    return null;
+  }
+
+  const decision = testCase.reviewEvents.find(event => event.action !== 'commented');
+  return {
+    reviewMode: await isReviewModeEnabled(testCase.projectId),
+    status: getReviewStatus(testCase, decision),
+    version: testCase.version,
+    approvedVersion: testCase.approvedVersion,
+    events: testCase.reviewEvents.map(event => ({
+      id: event.id,
+      version: event.version,
+      action: event.action as ReviewAction,
+      comment: event.comment,
+      createdAt: event.createdAt,
+      createdBy: event.createdBy,
+    })),
+  };
+}
+
+/**
+ * Record a review decision or comment on the test case's current version
+ */
+export async function recordReviewEvent(
+  testCase: { id: string; version: string },
+  action: ReviewAction,
+  comment: string | null | undefined,
+  userEmail: string | null
+) {
+  const testCaseVersion = await prisma.testCaseVersion.findFirst({
+    where: { testCaseId: testCase.id, version: testCase.version },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  });
+
+  return prisma.$transaction(async (tx) => {
+    if (action === 'approved') {
+      await tx.testCase.update({ where: { id: testCase.id }, data: { approvedVersion: testCase.version } });
+    }
+    return tx.testCaseReviewEvent.create({
+      data: {
+        testCaseId: testCase.id,
+        testCaseVersionId: testCaseVersion?.id,
+        version: testCase.version,
+        action,
+        comment: comment || null,
+        createdBy: userEmail,
+      },
+    });
+  });
+}
+
+/**
+ * Give each test case a new version holding its current steps, after steps it calls changed. Its spec
+ * would render the change, so in review mode the new version is a draft that waits for approval.
+ */
+export async function createCallerDrafts(testCaseIds: string[], userEmail: string | null): Promise<void> {
+  const testCases = await prisma.testCase.findMany({
+    where: { id: { in: testCaseIds } },
+    include: { steps: { orderBy: { order: 'asc' } } },
+  });
+
+  for (const testCase of testCases) {
+    const version = incrementVersion(testCase.version);
+    await prisma.$transaction([
+      prisma.testCase.update({ where: { id: testCase.id }, data: { version, updatedBy: userEmail } }),
+      prisma.testCaseVersion.create({
+        data: {
+          testCaseId: testCase.id,
+          version,
+          name: testCase.name,
+          createdBy: userEmail || undefined,
+          stepVersions: {
+            create: testCase.steps.map(step => ({
+              action: step.action,
+              data: step.data,
+              expected: step.expected,
+              playwrightCode: step.playwrightScript,
+              order: step.order,
+              disabled: step.disabled,
+              calledGroupId: step.calledGroupId,
+              calledTestCaseId: step.calledTestCaseId,
+            })),
+          },
+        },
+      }),
+    ]);
+  }
+}
+
+/**
+ * Turn review mode on or off. Turning it on approves every test case as it is now, since its
+ * content already went into the generated specs. Returns the test cases with unapproved drafts,
+ * which are rendered again once review mode is off.
+ */
+export async function setReviewMode(projectId: string, enabled: boolean, userEmail: string | null): Promise<string[]> {
+  await prisma.projectSetting.upsert({
+    where: { projectId_category_key: { projectId, category: REVIEW_SETTINGS_CATEGORY, key: 'enabled' } },
+    update: { value: String(enabled), updatedBy: userEmail },
+    create: {
+      projectId,
+      category: REVIEW_SETTINGS_CATEGORY,
+      key: 'enabled',
+      value: String(enabled),
+      createdBy: userEmail,
+      updatedBy: userEmail,
+    },
+  });
+
+  const testCases = await prisma.testCase.findMany({
+    where: { projectId },
+    select: { id: true, version: true, approvedVersion: true, isManual: true },
+  });
+  const drafts = testCases.filter(testCase => testCase.approvedVersion !== testCase.version);
+
+  if (enabled) {
+    for (const testCase of drafts) {
+      await recordReviewEvent(testCase, 'baselined', 'Review mode enabled', userEmail);
+      await prisma.testCase.update({ where: { id: testCase.id }, data: { approvedVersion: testCase.version } });
+    }
+    return [];
+  }
+
+  return drafts.filter(testCase => !testCase.isManual).map(testCase => testCase.id);
+}
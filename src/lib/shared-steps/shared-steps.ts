@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db/prisma';
+
+export const SharedStepSchema = z.object({
+  action: z.string().trim().min(1, 'Action is required'),
+  data: z.string().nullable().optional(),
+  expected: z.string().nullable().optional(),
+  playwrightScript: z.string().nullable().optional(),
+  disabled: z.boolean().default(false),
+  calledGroupId: z.string().min(1).nullable().optional(),
+  calledTestCaseId: z.string().min(1).nullable().optional(),
+}).refine(
+  step => !(step.calledGroupId && step.calledTestCaseId),
+  { message: 'A step calls either a shared step group or a test case', path: ['calledGroupId'] }
+);
+
+export const SharedStepGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(2000).nullable().optional(),
+  steps: z.array(SharedStepSchema).default([]),
+});
+
+export type SharedStepGroupInput = z.input<typeof SharedStepGroupSchema>;
+
+export const sharedStepGroupInclude = {
+  steps: { orderBy: { order: 'asc' as const } },
+};
+
+// What owns a list of steps: a test case or a shared step group
+export type StepOwner = { testCaseId: string } | { groupId: string };
+
+export interface StepCall {
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
+}
+
+export interface SharedStepGroupUsages {
+  testCases: Array<{ id: string; name: string }>;
+  groups: Array<{ id: string; name: string }>;
+}
+
+function ownerKey(owner: StepOwner): string {
+  return 'testCaseId' in owner ? `testCase:${owner.testCaseId}` : `group:${owner.groupId}`;
+}
+
+function collectOwnerIds(owners: StepOwner[]) {
+  return {
+    testCaseIds: owners.flatMap(owner => 'testCaseId' in owner ? [owner.testCaseId] : []),
+    groupIds: owners.flatMap(owner => 'groupId' in owner ? [owner.groupId] : []),
+  };
+}
+
+/**
+ * Follow step calls breadth first from an owner, each owner visited once so cycles end
+ */
+async function walkStepCalls(
+  owner: StepOwner,
+  next: (owners: StepOwner[]) => Promise<Array<StepOwner | null>>
+): Promise<StepOwner[]> {
+  const seen = new Set([ownerKey(owner)]);
+  const found: StepOwner[] = [];
+  let pending = [owner];
+
+  while (pending.length > 0) {
+    const reached = await next(pending);
+    pending = [];
+    for (const item of reached) {
+      if (item && !seen.has(ownerKey(item))) {
+        seen.add(ownerKey(item));
+        found.push(item);
+        pending.push(item);
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Owners whose steps call the given owner, directly or through other groups and test cases
+ */
+function getTransitiveCallers(owner: StepOwner): Promise<StepOwner[]> {
+  return walkStepCalls(owner, async owners => {
+    const { testCaseIds, groupIds } = collectOwnerIds(owners);
+    const steps = await prisma.step.findMany({
+      where: { OR: [{ calledGroupId: { in: groupIds } }, { calledTestCaseId: { in: testCaseIds } }] },
+      select: { testCaseId: true, sharedStepGroupId: true },
+    });
+    return steps.map(step => step.testCaseId
+      ? { testCaseId: step.testCaseId }
+      : step.sharedStepGroupId ? { groupId: step.sharedStepGroupId } : null);
+  });
+}
+
+/**
+ * Test cases whose generated file includes the steps of the given owner, so they need regenerating
+ * when those steps change
+ */
+export async function getCallingTestCaseIds(owner: StepOwner): Promise<string[]> {
+  const callers = await getTransitiveCallers(owner);
+  return callers.flatMap(caller => 'testCaseId' in caller ? [caller.testCaseId] : []);
+}
+
+/**
+ * Problems with the groups and test cases that steps call: they must belong to the project and must
+ * not call back into the owner of the steps, which would expand forever. A group being created has no owner yet.
+ */
+export async function validateStepCalls(projectId: string, owner: StepOwner | null, calls: StepCall[]): Promise<string[]> {
+  const groupIds = Array.from(new Set(calls.flatMap(call => call.calledGroupId ? [call.calledGroupId] : [])));
+  const testCaseIds = Array.from(new Set(calls.flatMap(call => call.calledTestCaseId ? [call.calledTestCaseId] : [])));
+  if (groupIds.length === 0 && testCaseIds.length === 0) return [];
+
+  const problems: string[] = [];
+  const [groupCount, testCaseCount] = await Promise.all([
+    prisma.sharedStepGroup.count({ where: { projectId, id: { in: groupIds } } }),
+    prisma.testCase.count({ where: { projectId, id: { in: testCaseIds } } }),
+  ]);
+  if (groupCount !== groupIds.length) {
+    problems.push('calledGroupId: One or more shared step groups were not found in this project');
+  }
+  if (testCaseCount !== testCaseIds.length) {
+    problems.push('calledTestCaseId: One or more test cases were not found in this project');
+  }
+
+  const blocked = new Set(owner ? [ownerKey(owner), ...(await getTransitiveCallers(owner)).map(ownerKey)] : []);
+  if (groupIds.some(id => blocked.has(`group:${id}`)) || testCaseIds.some(id => blocked.has(`testCase:${id}`))) {
+    problems.push('steps: A step cannot call a group or test case that calls back into these steps');
+  }
+
+  return problems;
+}
+
+/**
+ * Step rows of a group, numbered in the order given
+ */
+export function toSharedStepRows(steps: z.output<typeof SharedStepSchema>[], userEmail: string | null) {
+  return steps.map((step, index) => ({
+    action: step.action,
+    data: step.data || null,
+    expected: step.expected || null,
+    playwrightScript: step.playwrightScript || null,
+    disabled: step.disabled,
+    calledGroupId: step.calledGroupId || null,
+    calledTestCaseId: step.calledTestCaseId || null,
+    order: index + 1,
+    createdBy: userEmail,
+    updatedBy: userEmail,
+  }));
+}
+
+/**
+ * Test cases and groups with a step calling the group
+ */
+export async function getSharedStepGroupUsages(groupId: string): Promise<SharedStepGroupUsages> {
+  const steps = await prisma.step.findMany({
+    where: { calledGroupId: groupId },
+    select: {
+      testCase: { select: { id: true, name: true } },
+      sharedStepGroup: { select: { id: true, name: true } },
+    },
+  });
+
+  const unique = (items: Array<{ id: string; name: string }>) =>
+    Array.from(new Map(items.map(item => [item.id, item])).values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    testCases: unique(steps.flatMap(step => step.testCase ? [step.testCase] : [])),
+    groups: unique(steps.flatMap(step => step.sharedStepGroup ? [step.sharedStepGroup] : [])),
+  };
+}
+
+/**
+ * Groups and test cases whose steps the given owner calls, directly or through other calls
+ */
+export function getCalledStepOwners(owner: StepOwner): Promise<StepOwner[]> {
+  return walkStepCalls(owner, async owners => {
+    const { testCaseIds, groupIds } = collectOwnerIds(owners);
+    const steps = await prisma.step.findMany({
+      where: {
+        OR: [{ testCaseId: { in: testCaseIds } }, { sharedStepGroupId: { in: groupIds } }],
+        NOT: { calledGroupId: null, calledTestCaseId: null },
+      },
+      select: { calledGroupId: true, calledTestCaseId: true },
+    });
+    return steps.map(step => step.calledTestCaseId
+      ? { testCaseId: step.calledTestCaseId }
+      : step.calledGroupId ? { groupId: step.calledGroupId } : null);
+  });
+}
@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { TestSuite } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { toFileSlug } from '@/lib/utils/string-utils';
+
+export const TestSuiteSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  parentId: z.string().min(1).nullable().optional(),
+  order: z.number().int().min(0).optional(),
+  beforeEach: z.string().max(20000).nullable().optional(),
+});
+
+export type TestSuiteInput = z.infer<typeof TestSuiteSchema>;
+
+export const MoveToSuiteSchema = z.object({
+  testCaseIds: z.array(z.string().min(1)).min(1),
+  // null moves the test cases back to the top level
+  suiteId: z.string().min(1).nullable(),
+});
+
+type SuiteNode = Pick<TestSuite, 'id' | 'parentId'>;
+
+/**
+ * The suite and its ancestors, outermost first
+ */
+export function getSuiteAncestors<T extends SuiteNode>(suites: T[], suiteId: string | null | undefined): T[] {
+  const suitesById = new Map(suites.map(suite => [suite.id, suite]));
+  const path: T[] = [];
+  const seen = new Set<string>();
+
+  for (let suite = suiteId ? suitesById.get(suiteId) : undefined; suite && !seen.has(suite.id); suite = suite.parentId ? suitesById.get(suite.parentId) : undefined) {
+    seen.add(suite.id);
+    path.unshift(suite);
+  }
+  return path;
+}
+
+/**
+ * Ids of the given suites and every suite nested below them
+ */
+export function getSuiteSubtreeIds(suites: SuiteNode[], suiteIds: string[]): string[] {
+  const result = new Set(suiteIds);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const suite of suites) {
+      if (suite.parentId && result.has(suite.parentId) && !result.has(suite.id)) {
+        result.add(suite.id);
+        added = true;
+      }
+    }
+  }
+  return [...result];
+}
+
+/**
+ * Whether moving a suite under the new parent would nest it inside itself
+ */
+export function wouldCreateCycle(suites: SuiteNode[], suiteId: string, parentId: string | null | undefined): boolean {
+  return !!parentId && getSuiteSubtreeIds(suites, [suiteId]).includes(parentId);
+}
+
+/**
+ * Whether another suite under the same parent has a name with the same slug, so both would share a directory
+ */
+export function hasSiblingNamed(
+  suites: Array<SuiteNode & { name: string }>,
+  parentId: string | null,
+  name: string,
+  excludeId?: string
+): boolean {
+  const slug = toFileSlug(name);
+  return suites.some(suite => suite.id !== excludeId && suite.parentId === parentId && toFileSlug(suite.name) === slug);
+}
+
+/**
+ * Suites a test case is generated under, outermost first
+ */
+export async function getTestCaseSuitePath(projectId: string, suiteId: string | null): Promise<TestSuite[]> {
+  if (!suiteId) {
+    return [];
+  }
+  const suites = await prisma.testSuite.findMany({ where: { projectId } });
+  return getSuiteAncestors(suites, suiteId);
+}
+
+/**
+ * Test cases filed under the given suites or their sub-suites
+ */
+export async function findSuiteTestCaseIds(projectId: string, suiteIds: string[]): Promise<string[]> {
+  const suites = await prisma.testSuite.findMany({ where: { projectId }, select: { id: true, parentId: true } });
+  const testCases = await prisma.testCase.findMany({
+    where: { projectId, suiteId: { in: getSuiteSubtreeIds(suites, suiteIds) } },
+    select: { id: true },
+  });
+  return testCases.map(testCase => testCase.id);
+}
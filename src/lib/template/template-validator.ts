@@ -4,6 +4,7 @@ import { z } from 'zod';
  * Test step schema for validation
  */
 export const TestStepSchema = z.object({
+  id: z.string().optional(),
   order: z.number(),
   action: z.string().min(1, "Action is required"),
   data: z.string().nullable().optional(),
@@ -31,6 +32,7 @@ export const SetupStepSchema = z.object({
  * Test template data schema
  */
 export const TestTemplateSchema = z.object({
+  testCaseId: z.string().optional(),
   testCaseName: z.string().min(1, "Test case name is required"),
   fixtures: z.array(FixtureSchema).optional(),
   setup: z.array(SetupStepSchema).optional(),
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import { TestCase } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { getSuiteSubtreeIds } from '@/lib/suites/test-suites';
+import { TEST_CASE_PRIORITIES } from '@/types/test-case';
+
+export type TestPlanOutcome = 'passed' | 'failed' | 'blocked' | 'untested';
+
+/**
+ * Test cases a plan picks up dynamically. Each criterion matches any of its values and all set
+ * criteria must match; a plan without criteria only holds its picked test cases.
+ */
+export const TestPlanCriteriaSchema = z.object({
+  tags: z.array(z.string().trim().min(1)).default([]),
+  // Sub-suites of a selected suite are included
+  suiteIds: z.array(z.string().min(1)).default([]),
+  priorities: z.array(z.enum(TEST_CASE_PRIORITIES)).default([]),
+  testType: z.enum(['all', 'manual', 'automated']).default('all'),
+});
+
+export type TestPlanCriteria = z.infer<typeof TestPlanCriteriaSchema>;
+
+export const TestPlanSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(5000).nullable().optional(),
+  testCaseIds: z.array(z.string().min(1)).default([]),
+  criteria: TestPlanCriteriaSchema.default({}),
+});
+
+export type TestPlanInput = z.input<typeof TestPlanSchema>;
+
+export const TestPlanAssignmentSchema = z.object({
+  testCaseIds: z.array(z.string().min(1)).min(1),
+  // null removes the assignment
+  assignee: z.string().trim().email().nullable(),
+});
+
+export interface TestPlanProgress {
+  total: number;
+  passed: number;
+  failed: number;
+  blocked: number;
+  untested: number;
+}
+
+export interface TestPlanTestCaseState {
+  id: string;
+  name: string;
+  isManual: boolean;
+  priority: string;
+  tags: string | null;
+  suiteId: string | null;
+  picked: boolean;                 // Added by hand rather than through the criteria
+  assignee: string | null;
+  outcome: TestPlanOutcome;
+  lastRunAt: Date | null;
+  lastTestResultId: string | null;
+}
+
+export function parseTestPlanCriteria(criteria: string | null): TestPlanCriteria {
+  try {
+    const result = TestPlanCriteriaSchema.safeParse(criteria ? JSON.parse(criteria) : {});
+    return result.success ? result.data : TestPlanCriteriaSchema.parse({});
+  } catch {
+    return TestPlanCriteriaSchema.parse({});
+  }
+}
+
+export function hasCriteria(criteria: TestPlanCriteria): boolean {
+  return criteria.tags.length > 0 || criteria.suiteIds.length > 0 || criteria.priorities.length > 0 || criteria.testType !== 'all';
+}
+
+function matchesCriteria(
+  testCase: Pick<TestCase, 'tags' | 'suiteId' | 'priority' | 'isManual'>,
+  criteria: TestPlanCriteria,
+  suiteIds: string[]
+): boolean {
+  const tags = (testCase.tags || '').split(',').map(tag => tag.trim().toLowerCase());
+  return (criteria.tags.length === 0 || criteria.tags.some(tag => tags.includes(tag.toLowerCase())))
+    && (criteria.suiteIds.length === 0 || (!!testCase.suiteId && suiteIds.includes(testCase.suiteId)))
+    && (criteria.priorities.length === 0 || (criteria.priorities as string[]).includes(testCase.priority))
+    && (criteria.testType === 'all' || testCase.isManual === (criteria.testType === 'manual'));
+}
+
+/**
+ * Outcome of a test case execution as counted by a plan. Runs that were queued, cancelled or
+ * skipped the test case leave the earlier outcome in place.
+ */
+export function getPlanOutcome(status: string): TestPlanOutcome {
+  if (status === 'passed' || status === 'flaky') return 'passed';
+  if (status === 'failed') return 'failed';
+  if (status === 'blocked') return 'blocked';
+  return 'untested';
+}
+
+/**
+ * Test cases in a plan's scope: the picked ones plus those matching its criteria
+ */
+export async function resolveTestPlanTestCases(plan: { id: string; projectId: string; criteria: string | null }) {
+  const criteria = parseTestPlanCriteria(plan.criteria);
+  const picked = await prisma.testPlanTestCase.findMany({
+    where: { planId: plan.id },
+    select: { testCaseId: true },
+  });
+  const pickedIds = new Set(picked.map(item => item.testCaseId));
+
+  const testCases = await prisma.testCase.findMany({
+    where: { projectId: plan.projectId },
+    orderBy: [{ order: 'asc' }, { name: 'asc' }],
+  });
+
+  let suiteIds: string[] = [];
+  if (criteria.suiteIds.length > 0) {
+    const suites = await prisma.testSuite.findMany({ where: { projectId: plan.projectId }, select: { id: true, parentId: true } });
+    suiteIds = getSuiteSubtreeIds(suites, criteria.suiteIds);
+  }
+
+  const dynamic = hasCriteria(criteria);
+  return testCases
+    .filter(testCase => pickedIds.has(testCase.id) || (dynamic && matchesCriteria(testCase, criteria, suiteIds)))
+    .map(testCase => ({ ...testCase, picked: pickedIds.has(testCase.id) }));
+}
+
+/**
+ * Every test case in the plan's scope with its assignee and the latest outcome across the runs
+ * executed against the plan
+ */
+export async function getTestPlanState(plan: { id: string; projectId: string; criteria: string | null }): Promise<{
+  testCases: TestPlanTestCaseState[];
+  progress: TestPlanProgress;
+}> {
+  const testCases = await resolveTestPlanTestCases(plan);
+  const [assignments, executions] = await Promise.all([
+    prisma.testPlanAssignment.findMany({ where: { planId: plan.id } }),
+    prisma.testCaseExecution.findMany({
+      where: { testResult: { testPlanId: plan.id }, status: { in: ['passed', 'flaky', 'failed', 'blocked'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { testCaseId: true, testResultId: true, status: true, createdAt: true },
+    }),
+  ]);
+
+  const assigneesByTestCase = new Map(assignments.map(assignment => [assignment.testCaseId, assignment.assignee]));
+  const latestByTestCase = new Map<string, typeof executions[number]>();
+  for (const execution of executions) {
+    if (!latestByTestCase.has(execution.testCaseId)) {
+      latestByTestCase.set(execution.testCaseId, execution);
+    }
+  }
+
+  const states: TestPlanTestCaseState[] = testCases.map(testCase => {
+    const latest = latestByTestCase.get(testCase.id);
+    return {
+      id: testCase.id,
+      name: testCase.name,
+      isManual: testCase.isManual,
+      priority: testCase.priority,
+      tags: testCase.tags,
+      suiteId: testCase.suiteId,
+      picked: testCase.picked,
+      assignee: assigneesByTestCase.get(testCase.id) || null,
+      outcome: latest ? getPlanOutcome(latest.status) : 'untested',
+      lastRunAt: latest?.createdAt || null,
+      lastTestResultId: latest?.testResultId || null,
+    };
+  });
+
+  const count = (outcome: TestPlanOutcome) => states.filter(state => state.outcome === outcome).length;
+  return {
+    testCases: states,
+    progress: {
+      total: states.length,
+      passed: count('passed'),
+      failed: count('failed'),
+      blocked: count('blocked'),
+      untested: count('untested'),
+    },
+  };
+}
+
+/**
+ * Problems with the test cases and suites a plan refers to, which must all belong to its project
+ */
+export async function validateTestPlanReferences(
+  projectId: string,
+  testCaseIds: string[],
+  criteria: TestPlanCriteria
+): Promise<string[]> {
+  const problems: string[] = [];
+  const testCaseCount = await prisma.testCase.count({ where: { projectId, id: { in: testCaseIds } } });
+  if (testCaseCount !== new Set(testCaseIds).size) {
+    problems.push('testCaseIds: One or more test cases were not found in this project');
+  }
+  const suiteCount = await prisma.testSuite.count({ where: { projectId, id: { in: criteria.suiteIds } } });
+  if (suiteCount !== new Set(criteria.suiteIds).size) {
+    problems.push('criteria.suiteIds: One or more suites were not found in this project');
+  }
+  return problems;
+}
+
+/**
+ * API shape of a stored plan, with its criteria parsed and its picked test cases listed
+ */
+export function toTestPlanResponse<T extends { criteria: string | null; testCases: Array<{ testCaseId: string }> }>(
+  plan: T
+): Omit<T, 'criteria' | 'testCases'> & { criteria: TestPlanCriteria; testCaseIds: string[] } {
+  const { testCases, criteria, ...rest } = plan;
+  return { ...rest, criteria: parseTestPlanCriteria(criteria), testCaseIds: testCases.map(item => item.testCaseId) };
+}
@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { prisma } from '@/lib/db/prisma';
+import { ReportAttachment } from './playwright-report';
+
+export type ArtifactType = 'screenshot' | 'video' | 'trace' | 'other';
+
+interface IndexAttachmentsParams {
+  testResultId: string;
+  executionId: string;
+  attemptId: string;
+  failedStepExecutionId?: string | null;
+  projectPath: string;
+  attachments: ReportAttachment[];
+}
+
+/**
+ * Classify a report attachment by what the result viewer can do with it
+ */
+export function getArtifactType(attachment: Pick<ReportAttachment, 'name' | 'contentType'>): ArtifactType {
+  if (attachment.contentType.startsWith('image/')) return 'screenshot';
+  if (attachment.contentType.startsWith('video/')) return 'video';
+  if (attachment.name === 'trace' && attachment.contentType === 'application/zip') return 'trace';
+  return 'other';
+}
+
+/**
+ * URL the app serves an artifact from
+ */
+export function getArtifactUrl(projectId: string, testResultId: string, artifactId: string): string {
+  return `/api/projects/${projectId}/test-results/${testResultId}/artifacts/${artifactId}`;
+}
+
+/**
+ * Store the file attachments of one attempt. Screenshots are linked to the step that failed.
+ * Files outside the Playwright project folder are never indexed, so they can never be served.
+ */
+export async function indexAttachments(params: IndexAttachmentsParams): Promise<number> {
+  let indexed = 0;
+
+  for (const attachment of params.attachments) {
+    if (!attachment.path) {
+      continue;
+    }
+
+    const relativePath = path.relative(params.projectPath, path.resolve(params.projectPath, attachment.path));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      console.warn(`Skipping attachment outside the project folder: ${attachment.path}`);
+      continue;
+    }
+
+    const stats = await fs.stat(path.join(params.projectPath, relativePath)).catch(() => null);
+    const type = getArtifactType(attachment);
+
+    await prisma.testArtifact.create({
+      data: {
+        testResultId: params.testResultId,
+        executionId: params.executionId,
+        attemptId: params.attemptId,
+        stepExecutionId: type === 'screenshot' ? params.failedStepExecutionId ?? null : null,
+        name: attachment.name,
+        type,
+        contentType: attachment.contentType,
+        path: relativePath,
+        size: stats?.size ?? null,
+      },
+    });
+    indexed++;
+  }
+
+  return indexed;
+}
@@ -0,0 +1,272 @@
+import { prisma } from '@/lib/db/prisma';
+import { findSuiteTestCaseIds } from '@/lib/suites/test-suites';
+import { resolveTestPlanTestCases } from '@/lib/test-plans/test-plans';
+import { getMatrixCells, RunCell } from './matrix';
+import { isMatrixSpec, RunSpec } from './run-spec';
+
+export interface BuiltJob {
+  args: string[];                  // Arguments for the Playwright CLI, never passed through a shell
+  env: Record<string, string>;     // Extra environment variables for the Playwright process
+  display: string;                 // Human readable command, for previews and history only
+  cell: RunCell | null;            // Matrix cell the job runs, null for a plain run
+}
+
+export interface BuiltCommand {
+  args: string[];                  // Arguments for the Playwright CLI, never passed through a shell
+  env: Record<string, string>;     // Extra environment variables for the Playwright process
+  display: string;                 // Human readable command, for previews and history only
+  testCaseIds: string[];           // Test cases the run will execute, empty when grep leaves them to the report
+  environmentId?: string;          // Project environment the worker injects, secrets never appear in `env`
+  jobs: BuiltJob[];                // One per matrix cell, or the single command above
+}
+
+interface BuildOptions {
+  outputDir?: string;
+}
+
+// Project settings that are exposed to playwright.config.ts as environment variables
+const SETTING_ENV_VARS: Record<string, string> = {
+  'browser.baseURL': 'BASE_URL',
+  'browser.video': 'VIDEO_MODE',
+  'browser.screenshot': 'SCREENSHOT_MODE',
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function quoteArg(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function formatDisplay(args: string[], env: Record<string, string>): string {
+  return [
+    ...Object.entries(env).map(([key, value]) => `${key}=${quoteArg(value)}`),
+    'npx',
+    'playwright',
+    ...args.map(quoteArg),
+  ].join(' ');
+}
+
+// Each matrix job writes its artifacts to its own folder below the run's output directory
+function getCellOutputDir(outputDir: string, cell: RunCell): string {
+  const parts = [cell.browser, cell.environment, cell.shardTotal > 1 ? `shard-${cell.shardIndex}` : undefined];
+  return `${outputDir}/${parts.filter(Boolean).join('-')}`;
+}
+
+function parseOptionalInt(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Whether a test case carries one of the tags a run is filtered by, so it will actually run
+ */
+function hasAnyTag(testCase: { tags: string | null }, tags: string[]): boolean {
+  return tags.length === 0 || (testCase.tags || '').split(',').some(tag => tags.includes(tag.trim()));
+}
+
+/**
+ * Build the Playwright grep pattern. Tags match any of the given tags,
+ * free text is matched literally, and both must match when combined.
+ */
+function buildGrepPattern(tags: string[], grep?: string): string | undefined {
+  const tagPattern = tags.length > 0 ? `(${tags.map(tag => escapeRegExp(`@${tag}`)).join('|')})` : undefined;
+  const textPattern = grep?.trim() ? escapeRegExp(grep.trim()) : undefined;
+
+  if (tagPattern && textPattern) {
+    return `(?=.*${tagPattern})(?=.*${textPattern})`;
+  }
+  return tagPattern || textPattern;
+}
+
+/**
+ * Turn a validated run spec into the Playwright CLI invocation for a project.
+ * Values not set on the spec fall back to the project's saved configuration.
+ */
+export async function buildRunCommand(projectId: string, spec: RunSpec, options: BuildOptions = {}): Promise<BuiltCommand> {
+  const settings = await prisma.projectSetting.findMany({
+    where: { projectId },
+  });
+  const setting = (category: string, key: string) =>
+    settings.find(s => s.category === category && s.key === key)?.value;
+
+  let files: string[];
+  let testCaseIds: string[];
+
+  const testPlan = spec.planId
+    ? await prisma.testPlan.findFirst({ where: { id: spec.planId, projectId } })
+    : null;
+  if (spec.planId && !testPlan) {
+    throw new Error('Test plan not found in this project');
+  }
+
+  if (spec.mode === 'project') {
+    files = ['tests/'];
+    const testCases = await prisma.testCase.findMany({
+      where: { projectId },
+      select: { id: true, tags: true },
+    });
+
+    testCaseIds = testCases.filter(testCase => hasAnyTag(testCase, spec.tags)).map(testCase => testCase.id);
+  } else if (spec.mode === 'plan') {
+    // Manual test cases of the plan are recorded through the manual runner
+    const testCases = (await resolveTestPlanTestCases(testPlan!))
+      .filter(testCase => !testCase.isManual && testCase.testFilePath);
+    if (testCases.length === 0) {
+      throw new Error('The test plan has no automated test cases with generated test files');
+    }
+
+    files = Array.from(new Set(testCases.map(testCase => testCase.testFilePath as string)));
+    testCaseIds = testCases.filter(testCase => hasAnyTag(testCase, spec.tags)).map(testCase => testCase.id);
+  } else if (spec.mode === 'suite') {
+    const suiteCount = await prisma.testSuite.count({ where: { projectId, id: { in: spec.suiteIds } } });
+    if (suiteCount !== new Set(spec.suiteIds).size) {
+      throw new Error('One or more suites were not found in this project');
+    }
+
+    const testCases = await prisma.testCase.findMany({
+      where: { id: { in: await findSuiteTestCaseIds(projectId, spec.suiteIds) }, testFilePath: { not: null } },
+      select: { id: true, tags: true, testFilePath: true },
+    });
+    if (testCases.length === 0) {
+      throw new Error('The selected suites have no generated test files');
+    }
+
+    files = Array.from(new Set(testCases.map(testCase => testCase.testFilePath as string)));
+    testCaseIds = testCases.filter(testCase => hasAnyTag(testCase, spec.tags)).map(testCase => testCase.id);
+  } else {
+    const testCases = await prisma.testCase.findMany({
+      where: { projectId, id: { in: spec.testCaseIds } },
+      select: { id: true, name: true, tags: true, testFilePath: true },
+    });
+
+    if (testCases.length !== new Set(spec.testCaseIds).size) {
+      throw new Error('One or more test cases were not found in this project');
+    }
+
+    const missingFile = testCases.find(testCase => !testCase.testFilePath);
+    if (missingFile) {
+      throw new Error(`Test file has not been generated for test case "${missingFile.name}"`);
+    }
+
+    files = Array.from(new Set(testCases.map(testCase => testCase.testFilePath as string)));
+    testCaseIds = testCases.filter(testCase => hasAnyTag(testCase, spec.tags)).map(testCase => testCase.id);
+  }
+
+  // Which tests free text matches is only known once they ran, the results are recorded from the report
+  if (spec.grep?.trim()) {
+    testCaseIds = [];
+  }
+
+  const args = ['test', ...files];
+
+  if (spec.headed) {
+    args.push('--headed');
+  }
+
+  const timeout = spec.timeout ?? parseOptionalInt(setting('playwright', 'timeout'));
+  if (timeout !== undefined) {
+    args.push(`--timeout=${timeout}`);
+  }
+
+  const retries = spec.retries ?? parseOptionalInt(setting('playwright', 'retries'));
+  if (retries !== undefined) {
+    args.push(`--retries=${retries}`);
+  }
+
+  // The saved setting may be a share of CPU cores, like "50%"
+  const workers = spec.workers ?? setting('playwright', 'workers');
+  if (workers !== undefined && /^\d+%?$/.test(String(workers))) {
+    args.push(`--workers=${workers}`);
+  }
+
+  const grepPattern = buildGrepPattern(spec.tags, spec.grep);
+  if (grepPattern) {
+    args.push(`--grep=${grepPattern}`);
+  }
+
+  // List reporter feeds the live console, the worker points the JSON reporter at a file
+  args.push('--reporter=list,json');
+
+  const env: Record<string, string> = {};
+  for (const [settingKey, envName] of Object.entries(SETTING_ENV_VARS)) {
+    const [category, ...key] = settingKey.split('.');
+    const value = setting(category, key.join('.'));
+    if (value) {
+      env[envName] = value;
+    }
+  }
+
+  // Run overrides are limited to the settings above and the variables the project's environments define
+  const overrideKeys = Object.keys(spec.env);
+  if (overrideKeys.length > 0) {
+    const defined = await prisma.environmentVariable.findMany({
+      where: { key: { in: overrideKeys }, environment: { projectId } },
+      select: { key: true },
+    });
+    const allowedKeys = new Set([...Object.values(SETTING_ENV_VARS), ...defined.map(variable => variable.key)]);
+    const refused = overrideKeys.filter(key => !allowedKeys.has(key));
+    if (refused.length > 0) {
+      throw new Error(`Environment variables the project does not define cannot be set: ${refused.join(', ')}`);
+    }
+  }
+
+  if (spec.environmentId) {
+    const environment = await prisma.environment.findFirst({
+      where: { id: spec.environmentId, projectId },
+      include: { variables: { select: { key: true } } },
+    });
+    if (!environment) {
+      throw new Error('Environment not found in this project');
+    }
+    // The environment's values replace the project defaults, explicit run overrides still win
+    for (const { key } of environment.variables) {
+      delete env[key];
+    }
+  }
+  Object.assign(env, spec.env);
+
+  if (isMatrixSpec(spec)) {
+    const jobs = getMatrixCells(spec).map(cell => {
+      const jobArgs = [...args, `--project=${cell.browser}`];
+      if (cell.shardTotal > 1) {
+        jobArgs.push(`--shard=${cell.shardIndex}/${cell.shardTotal}`);
+      }
+      if (options.outputDir) {
+        jobArgs.push(`--output=${getCellOutputDir(options.outputDir, cell)}`);
+      }
+      const jobEnv = cell.baseUrl ? { ...env, BASE_URL: cell.baseUrl } : env;
+      return { args: jobArgs, env: jobEnv, display: formatDisplay(jobArgs, jobEnv), cell };
+    });
+
+    return {
+      args,
+      env,
+      display: jobs.map(job => job.display).join('\n'),
+      testCaseIds,
+      environmentId: spec.environmentId,
+      jobs,
+    };
+  }
+
+  for (const browser of spec.browsers) {
+    args.push(`--project=${browser}`);
+  }
+  if (options.outputDir) {
+    args.push(`--output=${options.outputDir}`);
+  }
+
+  const display = formatDisplay(args, env);
+  return {
+    args,
+    env,
+    display,
+    testCaseIds,
+    environmentId: spec.environmentId,
+    jobs: [{ args, env, display, cell: null }],
+  };
+}
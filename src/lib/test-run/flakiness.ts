@@ -0,0 +1,53 @@
+// Number of recent executions a test case is scored on
+export const FLAKINESS_WINDOW = 20;
+
+// Executions older than this many days are not scored on the dashboard
+export const FLAKINESS_WINDOW_DAYS = 30;
+
+// Test cases scoring at or above this are reported as flaky
+export const FLAKY_THRESHOLD = 0.1;
+
+export interface FlakinessExecution {
+  status: string;
+  retries: number;
+  testCaseVersion: string | null;
+  createdAt: Date;
+}
+
+export interface FlakinessScore {
+  score: number;          // 0 (stable) to 1 (flips on every run)
+  runs: number;           // Passed and failed executions that were scored
+  retryPasses: number;    // Runs that only passed after a retry
+  flips: number;          // Pass/fail changes between consecutive runs of the same version
+}
+
+/**
+ * Score how flaky a test case is from its recent executions.
+ * A pass after a retry within one run counts as one flaky signal, and so does every
+ * change between pass and fail across consecutive runs of an unchanged version;
+ * a failure that started with a new version is a regression, not flakiness.
+ */
+export function scoreFlakiness(executions: FlakinessExecution[]): FlakinessScore {
+  const finished = executions
+    .filter(execution => execution.status === 'passed' || execution.status === 'failed')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .slice(-FLAKINESS_WINDOW);
+
+  const retryPasses = finished.filter(execution => execution.status === 'passed' && execution.retries > 0).length;
+
+  let flips = 0;
+  for (let i = 1; i < finished.length; i++) {
+    const previous = finished[i - 1];
+    const current = finished[i];
+    if (previous.testCaseVersion && previous.testCaseVersion === current.testCaseVersion && previous.status !== current.status) {
+      flips++;
+    }
+  }
+
+  return {
+    score: finished.length > 0 ? Math.min(1, (retryPasses + flips) / finished.length) : 0,
+    runs: finished.length,
+    retryPasses,
+    flips,
+  };
+}
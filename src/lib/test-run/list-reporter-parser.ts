@@ -0,0 +1,61 @@
+import { RunTestStatus } from './run-log-broker';
+
+export interface ListReporterResult {
+  title: string;
+  titlePath: string[];
+  status: RunTestStatus;
+  project?: string;
+  durationMs?: number;
+  retry?: number;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+const STATUS_BY_SYMBOL: Record<string, RunTestStatus> = {
+  '✓': 'passed',
+  'ok': 'passed',
+  '✘': 'failed',
+  'x': 'failed',
+  '-': 'skipped',
+  '°': 'flaky',
+};
+
+// e.g. "  ✘  2 [chromium] › tests/login.spec.ts:10:5 › Login › Logout (retry #1) (3.0s)"
+const RESULT_LINE = /^\s*(✓|ok|✘|x|-|°)\s+\d+\s+(?:\[([^\]]+)\]\s+›\s+)?(.+?)(?:\s+\(retry #(\d+)\))?(?:\s+\((\d+(?:\.\d+)?)(ms|s|m)\))?\s*$/;
+
+function toMilliseconds(value: string, unit: string): number {
+  const amount = parseFloat(value);
+  if (unit === 'm') return Math.round(amount * 60000);
+  if (unit === 's') return Math.round(amount * 1000);
+  return Math.round(amount);
+}
+
+/**
+ * Parse a finished-test line printed by Playwright's `list` reporter.
+ * Returns null for any other output.
+ */
+export function parseListReporterLine(rawLine: string): ListReporterResult | null {
+  const line = rawLine.replace(ANSI_PATTERN, '');
+  const match = RESULT_LINE.exec(line);
+  if (!match) {
+    return null;
+  }
+
+  const [, symbol, project, location, retry, durationValue, durationUnit] = match;
+
+  // The first segment is the spec file location, the rest are describe blocks and the test title
+  const titlePath = location.split(' › ').map(part => part.trim());
+  if (titlePath.length < 2) {
+    return null;
+  }
+
+  return {
+    title: titlePath[titlePath.length - 1],
+    titlePath: titlePath.slice(1),
+    status: STATUS_BY_SYMBOL[symbol],
+    project,
+    durationMs: durationValue ? toMilliseconds(durationValue, durationUnit) : undefined,
+    retry: retry ? parseInt(retry, 10) : undefined,
+  };
+}
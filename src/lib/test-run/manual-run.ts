@@ -0,0 +1,225 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { TestResultHistory } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { snapshotExecutionVersions } from './version-snapshot';
+
+export type ManualStepStatus = 'passed' | 'failed' | 'blocked' | 'skipped';
+
+export const MANUAL_STEP_STATUSES: ManualStepStatus[] = ['passed', 'failed', 'blocked', 'skipped'];
+
+// Screenshots are kept in the Playwright project folder, where artifacts are served from
+export const MANUAL_RESULTS_DIR = 'manual-results';
+
+export const MAX_SCREENSHOT_SIZE = 10 * 1024 * 1024;
+
+export const ManualRunSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  // Test plan whose manual portion was run
+  testPlanId: z.string().min(1).optional(),
+  testCases: z.array(z.object({
+    testCaseId: z.string().min(1),
+    // The version the tester walked through, so steps edited meanwhile are not recorded against it
+    version: z.string().min(1),
+    notes: z.string().max(5000).optional(),
+    steps: z.array(z.object({
+      stepId: z.string().min(1),
+      status: z.enum(['passed', 'failed', 'blocked', 'skipped']),
+      notes: z.string().max(5000).optional(),
+      duration: z.number().int().min(0).optional(),
+    })).min(1),
+  })).min(1),
+});
+
+export type ManualRunInput = z.infer<typeof ManualRunSchema>;
+
+export interface ManualScreenshot {
+  testCaseId: string;
+  stepId: string;
+  name: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * Outcome of a test case from its step outcomes: any failed step fails it, otherwise any blocked
+ * step blocks it, and it only passes when a step passed.
+ */
+export function getManualExecutionStatus(statuses: ManualStepStatus[]): ManualStepStatus {
+  if (statuses.includes('failed')) return 'failed';
+  if (statuses.includes('blocked')) return 'blocked';
+  return statuses.includes('passed') ? 'passed' : 'skipped';
+}
+
+function sanitizeFileName(name: string): string {
+  return path.basename(name).replace(/[^\w.-]+/g, '_').slice(-100) || 'screenshot';
+}
+
+/**
+ * Store a manual run as a completed test result, with one execution per test case and its
+ * step outcomes and screenshots, so it shows next to automated runs.
+ * Nothing is stored when the results do not match the test cases.
+ */
+export async function recordManualRun(
+  project: { id: string; playwrightProjectPath: string | null },
+  input: ManualRunInput,
+  screenshots: ManualScreenshot[],
+  userEmail: string | null
+): Promise<{ success: true; testResult: TestResultHistory } | { success: false; errors: string[] }> {
+  const testCaseIds = input.testCases.map(testCase => testCase.testCaseId);
+  if (new Set(testCaseIds).size !== testCaseIds.length) {
+    return { success: false, errors: ['Each test case can only be recorded once per run'] };
+  }
+
+  const testCases = await prisma.testCase.findMany({
+    where: { id: { in: testCaseIds }, projectId: project.id },
+    include: { steps: { where: { disabled: false }, orderBy: { order: 'asc' } } },
+  });
+  const testCasesById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+
+  const problems: string[] = [];
+  for (const result of input.testCases) {
+    const testCase = testCasesById.get(result.testCaseId);
+    if (!testCase) {
+      problems.push(`${result.testCaseId}: test case not found`);
+      continue;
+    }
+    if (!testCase.isManual) {
+      problems.push(`${testCase.name}: not a manual test case`);
+      continue;
+    }
+    if (testCase.version !== result.version) {
+      problems.push(`${testCase.name}: changed to v${testCase.version} during the run`);
+      continue;
+    }
+    const stepIds = new Set(testCase.steps.map(step => step.id));
+    if (result.steps.some(step => !stepIds.has(step.stepId))) {
+      problems.push(`${testCase.name}: results for steps that are not in the test case`);
+    }
+    if (new Set(result.steps.map(step => step.stepId)).size !== result.steps.length) {
+      problems.push(`${testCase.name}: each step can only be recorded once`);
+    }
+  }
+  for (const screenshot of screenshots) {
+    if (!input.testCases.some(result => result.testCaseId === screenshot.testCaseId && result.steps.some(step => step.stepId === screenshot.stepId))) {
+      problems.push(`${screenshot.name}: screenshot for a step without a result`);
+    }
+  }
+  if (input.testPlanId && !(await prisma.testPlan.findFirst({ where: { id: input.testPlanId, projectId: project.id } }))) {
+    problems.push('Test plan not found in this project');
+  }
+  if (screenshots.length > 0 && !project.playwrightProjectPath) {
+    problems.push('Screenshots need the Playwright project path to be set');
+  }
+  if (problems.length > 0) {
+    return { success: false, errors: problems };
+  }
+
+  const versionSnapshots = await snapshotExecutionVersions(testCaseIds, userEmail);
+  const endTime = new Date();
+  const outcomes = input.testCases.map(result => getManualExecutionStatus(result.steps.map(step => step.status)));
+
+  // The run only appears once all its executions are written, screenshots follow once it is stored
+  const { testResult, executions } = await prisma.$transaction(async (tx) => {
+    const testResult = await tx.testResultHistory.create({
+      data: {
+        projectId: project.id,
+        name: input.name || `Manual run by ${userEmail || 'unknown'}`,
+        runType: 'manual',
+        testPlanId: input.testPlanId,
+        status: 'completed',
+        success: outcomes.every(status => status === 'passed' || status === 'skipped') && outcomes.includes('passed'),
+        executionTime: input.testCases.reduce((sum, result) => sum + result.steps.reduce((total, step) => total + (step.duration || 0), 0), 0),
+        createdBy: userEmail,
+        lastRunBy: userEmail,
+      },
+    });
+
+    const executions = [];
+    for (const [index, result] of input.testCases.entries()) {
+      const testCase = testCasesById.get(result.testCaseId)!;
+      const stepsById = new Map(testCase.steps.map(step => [step.id, step]));
+      const duration = result.steps.reduce((total, step) => total + (step.duration || 0), 0);
+      const startTime = new Date(endTime.getTime() - duration);
+      const stoppedAt = result.steps.find(step => step.status === 'failed' || step.status === 'blocked');
+      const stoppedStep = stoppedAt && stepsById.get(stoppedAt.stepId)!;
+
+      executions.push(await tx.testCaseExecution.create({
+        data: {
+          testResultId: testResult.id,
+          testCaseId: testCase.id,
+          status: outcomes[index],
+          duration,
+          output: result.notes || null,
+          errorMessage: stoppedStep
+            ? `${stoppedAt.status === 'failed' ? 'Failed' : 'Blocked'} at step ${stoppedStep.order}: ${stoppedAt.notes || stoppedStep.action}`
+            : null,
+          startTime,
+          endTime,
+          testCaseVersion: testCase.version,
+          testCaseVersionId: versionSnapshots.get(testCase.id)?.testCaseVersionId,
+          fixtureVersions: {
+            create: (versionSnapshots.get(testCase.id)?.fixtureVersionIds || []).map(fixtureVersionId => ({ fixtureVersionId })),
+          },
+          attempts: {
+            create: {
+              status: outcomes[index],
+              duration,
+              errorMessage: stoppedAt?.notes || null,
+              startTime,
+              endTime,
+              stepExecutions: {
+                create: result.steps.map(step => ({
+                  stepId: step.stepId,
+                  order: stepsById.get(step.stepId)!.order,
+                  title: stepsById.get(step.stepId)!.action,
+                  status: step.status,
+                  duration: step.duration,
+                  errorMessage: step.status === 'failed' || step.status === 'blocked' ? step.notes || null : null,
+                  notes: step.notes || null,
+                })),
+              },
+            },
+          },
+        },
+        include: { attempts: { include: { stepExecutions: true } } },
+      }));
+    }
+
+    return { testResult, executions };
+  });
+
+  for (const execution of executions) {
+    const attempt = execution.attempts[0];
+    const testCaseScreenshots = screenshots.filter(screenshot => screenshot.testCaseId === execution.testCaseId);
+    if (testCaseScreenshots.length === 0) {
+      continue;
+    }
+
+    const projectPath = path.join(process.cwd(), project.playwrightProjectPath!);
+    const relativeDir = path.join(MANUAL_RESULTS_DIR, testResult.id, execution.id);
+    await fs.mkdir(path.join(projectPath, relativeDir), { recursive: true });
+
+    for (const [screenshotIndex, screenshot] of testCaseScreenshots.entries()) {
+      const stepExecution = attempt.stepExecutions.find(step => step.stepId === screenshot.stepId);
+      const relativePath = path.join(relativeDir, `${stepExecution?.order ?? 0}-${screenshotIndex + 1}-${sanitizeFileName(screenshot.name)}`);
+      await fs.writeFile(path.join(projectPath, relativePath), screenshot.content);
+      await prisma.testArtifact.create({
+        data: {
+          testResultId: testResult.id,
+          executionId: execution.id,
+          attemptId: attempt.id,
+          stepExecutionId: stepExecution?.id,
+          name: screenshot.name,
+          type: 'screenshot',
+          contentType: screenshot.contentType,
+          path: relativePath,
+          size: screenshot.content.length,
+        },
+      });
+    }
+  }
+
+  return { success: true, testResult };
+}
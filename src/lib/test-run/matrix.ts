@@ -0,0 +1,145 @@
+import { collectSpecs, PlaywrightReport, ReportSuite } from './playwright-report';
+import { RunSpec } from './run-spec';
+
+/**
+ * One job of a run matrix: a browser, optionally against an environment, and one shard of the tests
+ */
+export interface RunCell {
+  browser: string;
+  environment?: string;
+  baseUrl?: string;
+  shardIndex: number;          // 1-based, as Playwright's --shard expects
+  shardTotal: number;
+}
+
+export interface MatrixJobReport {
+  cell: RunCell;
+  report: PlaywrightReport | null;   // Null when the job's process never wrote a report
+  errorOutput?: string;
+}
+
+export interface CellSummary {
+  browser: string;
+  environment: string | null;
+  status: string;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  duration: number;
+}
+
+/**
+ * Expand a matrix spec into its jobs: every browser for every environment, split into shards
+ */
+export function getMatrixCells(spec: RunSpec): RunCell[] {
+  const environments = spec.environments.length > 0 ? spec.environments : [undefined];
+  const cells: RunCell[] = [];
+
+  for (const browser of spec.browsers) {
+    for (const environment of environments) {
+      for (let shardIndex = 1; shardIndex <= spec.shards; shardIndex++) {
+        cells.push({
+          browser,
+          environment: environment?.name,
+          baseUrl: environment?.baseUrl,
+          shardIndex,
+          shardTotal: spec.shards,
+        });
+      }
+    }
+  }
+
+  return cells;
+}
+
+export function formatCellLabel(cell: Pick<RunCell, 'browser' | 'environment' | 'shardIndex' | 'shardTotal'>): string {
+  const name = cell.environment ? `${cell.browser}/${cell.environment}` : cell.browser;
+  return cell.shardTotal > 1 ? `${name} shard ${cell.shardIndex}/${cell.shardTotal}` : name;
+}
+
+// Files run in several jobs show up once per job, so tests are tagged with their environment
+function tagSuites(suites: ReportSuite[] = [], environment?: string): ReportSuite[] {
+  if (!environment) {
+    return suites;
+  }
+  for (const { spec } of collectSpecs(suites)) {
+    for (const test of spec.tests) {
+      test.environment = environment;
+    }
+  }
+  return suites;
+}
+
+/**
+ * Combine the JSON reports of a matrix run's jobs into one report.
+ * Jobs without a report become report errors, so the run cannot pass silently.
+ */
+export function mergeMatrixReports(jobReports: MatrixJobReport[]): PlaywrightReport {
+  const merged: Required<Pick<PlaywrightReport, 'suites' | 'errors'>> & Pick<PlaywrightReport, 'stats'> = {
+    suites: [],
+    errors: [],
+    stats: { duration: 0, expected: 0, unexpected: 0, flaky: 0, skipped: 0 },
+  };
+
+  for (const { cell, report, errorOutput } of jobReports) {
+    const label = formatCellLabel(cell);
+
+    if (!report) {
+      merged.errors.push({ message: `[${label}] ${errorOutput || 'No report was written'}` });
+      continue;
+    }
+
+    merged.suites.push(...tagSuites(report.suites, cell.environment));
+    merged.errors.push(...(report.errors || []).map(error => ({ ...error, message: `[${label}] ${error.message ?? ''}` })));
+
+    if (report.stats && merged.stats) {
+      merged.stats.expected += report.stats.expected;
+      merged.stats.unexpected += report.stats.unexpected;
+      merged.stats.flaky += report.stats.flaky;
+      merged.stats.skipped += report.stats.skipped;
+      // Shards may run one after another, so the wall time is the sum
+      merged.stats.duration = (merged.stats.duration ?? 0) + (report.stats.duration ?? 0);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Outcome per browser and environment, counted from the tests in a (merged) report
+ */
+export function summarizeCells(report: PlaywrightReport): CellSummary[] {
+  const cells = new Map<string, CellSummary>();
+
+  for (const { spec } of collectSpecs(report.suites)) {
+    for (const test of spec.tests) {
+      const key = `${test.projectName}\u0000${test.environment ?? ''}`;
+      const cell = cells.get(key) || {
+        browser: test.projectName,
+        environment: test.environment ?? null,
+        status: 'passed',
+        passed: 0,
+        failed: 0,
+        flaky: 0,
+        skipped: 0,
+        duration: 0,
+      };
+
+      if (test.status === 'unexpected') {
+        cell.failed++;
+        cell.status = 'failed';
+      } else if (test.status === 'flaky') {
+        cell.flaky++;
+      } else if (test.status === 'skipped') {
+        cell.skipped++;
+      } else {
+        cell.passed++;
+      }
+      cell.duration += test.results.reduce((sum, result) => sum + result.duration, 0);
+      cells.set(key, cell);
+    }
+  }
+
+  return Array.from(cells.values());
+}
@@ -0,0 +1,148 @@
+// Subset of the JSON written by Playwright's `json` reporter that the app reads
+
+export const TEST_CASE_ID_ANNOTATION = 'testCaseId';
+
+// e.g. "Step 2: Submit the form [step:5f0c...]"
+const STEP_TITLE_PATTERN = /\s\[step:([\w-]+)\]$/;
+
+export interface ReportError {
+  message?: string;
+  stack?: string;
+  location?: { file: string; line: number; column: number };
+}
+
+export interface ReportAnnotation {
+  type: string;
+  description?: string;
+}
+
+export interface ReportAttachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: string;
+}
+
+export interface ReportStep {
+  title: string;
+  duration: number;
+  error?: ReportError;
+  steps?: ReportStep[];
+}
+
+export interface ReportTestResult {
+  status: 'passed' | 'failed' | 'timedOut' | 'skipped' | 'interrupted';
+  duration: number;
+  retry: number;
+  startTime: string;
+  errors?: ReportError[];
+  steps?: ReportStep[];
+  attachments?: ReportAttachment[];
+  annotations?: ReportAnnotation[];
+}
+
+export interface ReportTest {
+  projectName: string;
+  environment?: string;         // Added when merging matrix reports, not written by Playwright
+  status: 'expected' | 'unexpected' | 'flaky' | 'skipped';
+  annotations?: ReportAnnotation[];
+  results: ReportTestResult[];
+}
+
+export interface ReportSpec {
+  title: string;
+  ok: boolean;
+  tags?: string[];
+  file?: string;
+  tests: ReportTest[];
+}
+
+export interface ReportSuite {
+  title: string;
+  file?: string;
+  specs?: ReportSpec[];
+  suites?: ReportSuite[];
+}
+
+export interface PlaywrightReport {
+  suites?: ReportSuite[];
+  errors?: ReportError[];
+  stats?: {
+    startTime?: string;
+    duration?: number;
+    expected: number;
+    unexpected: number;
+    flaky: number;
+    skipped: number;
+  };
+}
+
+export interface ReportSpecEntry {
+  spec: ReportSpec;
+  titlePath: string[];      // Describe blocks followed by the test title, without the file
+}
+
+/**
+ * Flatten the suite tree of a report into its specs, including those in nested describe blocks
+ */
+export function collectSpecs(suites: ReportSuite[] = [], parentTitles?: string[]): ReportSpecEntry[] {
+  const entries: ReportSpecEntry[] = [];
+
+  for (const suite of suites) {
+    // Top-level suites are files, their title is the file name
+    const titles = parentTitles ? [...parentTitles, suite.title] : [];
+
+    for (const spec of suite.specs || []) {
+      entries.push({ spec, titlePath: [...titles, spec.title] });
+    }
+    entries.push(...collectSpecs(suite.suites, titles));
+  }
+
+  return entries;
+}
+
+/**
+ * Read the test case id that the generated spec file stores as an annotation
+ */
+export function getTestCaseId(test: ReportTest): string | undefined {
+  const annotations = [...(test.annotations || []), ...test.results.flatMap(result => result.annotations || [])];
+  return annotations.find(annotation => annotation.type === TEST_CASE_ID_ANNOTATION)?.description;
+}
+
+/**
+ * Build the title of a generated test.step(), embedding the step id when known
+ */
+export function formatStepTitle(stepNumber: number, action: string, stepId?: string): string {
+  const title = `Step ${stepNumber}: ${action.replace(/\s+/g, ' ').trim()}`;
+  return stepId ? `${title} [step:${stepId}]` : title;
+}
+
+/**
+ * Read the step id back from a test.step() title, or undefined for other steps
+ */
+export function parseStepId(title: string): string | undefined {
+  return STEP_TITLE_PATTERN.exec(title)?.[1];
+}
+
+/**
+ * Read the action back from a title built by formatStepTitle
+ */
+export function parseStepAction(title: string): string {
+  return title.replace(STEP_TITLE_PATTERN, '').replace(/^Step \d+:\s*/, '');
+}
+
+/**
+ * Find the generated test steps of an attempt, looking inside hooks and nested steps
+ */
+export function collectGeneratedSteps(steps: ReportStep[] = []): Array<ReportStep & { stepId: string }> {
+  const found: Array<ReportStep & { stepId: string }> = [];
+  for (const step of steps) {
+    const stepId = parseStepId(step.title);
+    if (stepId) {
+      found.push({ ...step, stepId });
+    } else {
+      found.push(...collectGeneratedSteps(step.steps));
+    }
+  }
+  return found;
+}
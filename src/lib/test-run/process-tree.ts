@@ -0,0 +1,24 @@
+import { spawn } from 'child_process';
+
+/**
+ * Kill a process together with every process it started.
+ * On POSIX the child must have been spawned with `detached: true` so that it
+ * leads its own process group; on Windows taskkill walks the tree for us.
+ */
+export function killProcessTree(pid: number, signal: NodeJS.Signals = 'SIGTERM'): void {
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' });
+    return;
+  }
+
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // No process group (or already gone) - fall back to the single process
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Process already exited
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { TestResultHistory } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { RunSpec, validateRunSpec } from './run-spec';
+
+export interface MergedExecution {
+  testCaseId: string;
+  testCaseName: string;
+  status: string;              // Outcome in the latest run that executed the test case
+  testResultId: string;        // Run that produced that outcome
+  runCount: number;            // Number of runs in the family that executed the test case
+  quarantined: boolean;
+}
+
+export interface MergedRunOutcome {
+  rootId: string;
+  runs: Array<Pick<TestResultHistory, 'id' | 'name' | 'status' | 'success' | 'createdAt' | 'parentId'>>;
+  executions: MergedExecution[];
+  success: boolean;
+}
+
+/**
+ * Spec for rerunning the given test cases with the browsers and settings of the original run
+ */
+export function buildRerunSpec(parent: Pick<TestResultHistory, 'runSpec' | 'browser'>, testCaseIds: string[]): RunSpec {
+  let base: unknown = {};
+  try {
+    base = parent.runSpec ? JSON.parse(parent.runSpec) : {};
+  } catch {
+    // Fall back to the browsers recorded on the run
+  }
+
+  const baseSpec = validateRunSpec(base);
+  const browsers = parent.browser ? parent.browser.split(',').filter(Boolean) : undefined;
+  const validation = validateRunSpec({
+    ...(baseSpec.success ? baseSpec.spec : { browsers }),
+    mode: 'list',
+    testCaseIds,
+  });
+
+  if (!validation.success) {
+    throw new Error(`Cannot rerun this test run: ${validation.errors.join(', ')}`);
+  }
+  return validation.spec;
+}
+
+/**
+ * Outcome of a run together with all of its reruns. Each test case counts with
+ * its latest result, so tests that passed on a rerun no longer fail the run.
+ */
+export async function getMergedRunOutcome(testResultId: string): Promise<MergedRunOutcome | null> {
+  const start = await prisma.testResultHistory.findUnique({
+    where: { id: testResultId },
+    select: { id: true, parentId: true },
+  });
+  if (!start) {
+    return null;
+  }
+
+  let root: { id: string; parentId: string | null } = start;
+  const visited = new Set([root.id]);
+  while (root.parentId && !visited.has(root.parentId)) {
+    const parent: typeof root | null = await prisma.testResultHistory.findUnique({
+      where: { id: root.parentId },
+      select: { id: true, parentId: true },
+    });
+    if (!parent) {
+      break;
+    }
+    visited.add(parent.id);
+    root = parent;
+  }
+
+  // Reruns can be rerun again, so collect the whole tree below the original run
+  const runs: MergedRunOutcome['runs'] = [];
+  let frontier = [root.id];
+  const seen = new Set<string>();
+  while (frontier.length > 0) {
+    const level = await prisma.testResultHistory.findMany({
+      where: { id: { in: frontier } },
+      select: { id: true, name: true, status: true, success: true, createdAt: true, parentId: true, reruns: { select: { id: true } } },
+    });
+    frontier = [];
+    for (const { reruns, ...run } of level) {
+      if (seen.has(run.id)) {
+        continue;
+      }
+      seen.add(run.id);
+      runs.push(run);
+      frontier.push(...reruns.map(rerun => rerun.id));
+    }
+  }
+  runs.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const executions = await prisma.testCaseExecution.findMany({
+    where: { testResultId: { in: runs.map(run => run.id) } },
+    select: {
+      testCaseId: true,
+      testResultId: true,
+      status: true,
+      quarantined: true,
+      testCase: { select: { name: true } },
+    },
+  });
+
+  const runOrder = new Map(runs.map((run, index) => [run.id, index]));
+  executions.sort((a, b) => (runOrder.get(a.testResultId) ?? 0) - (runOrder.get(b.testResultId) ?? 0));
+
+  const merged = new Map<string, MergedExecution>();
+  for (const execution of executions) {
+    merged.set(execution.testCaseId, {
+      testCaseId: execution.testCaseId,
+      testCaseName: execution.testCase.name,
+      status: execution.status,
+      testResultId: execution.testResultId,
+      runCount: (merged.get(execution.testCaseId)?.runCount ?? 0) + 1,
+      quarantined: execution.quarantined,
+    });
+  }
+
+  const mergedExecutions = Array.from(merged.values());
+  return {
+    rootId: root.id,
+    runs,
+    executions: mergedExecutions,
+    success: mergedExecutions.length > 0 &&
+      mergedExecutions.every(execution => ['passed', 'skipped'].includes(execution.status) || execution.quarantined),
+  };
+}
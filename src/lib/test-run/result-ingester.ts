@@ -0,0 +1,345 @@
+import { prisma } from '@/lib/db/prisma';
+import { Step, TestResultHistory } from '@prisma/client';
+import { getArtifactUrl, indexAttachments } from './artifact-indexer';
+import { summarizeCells } from './matrix';
+import { snapshotExecutionVersions } from './version-snapshot';
+import { collectGeneratedSteps, collectSpecs, getTestCaseId, PlaywrightReport, ReportError, ReportTest, ReportTestResult } from './playwright-report';
+
+export interface ProcessResult {
+  success: boolean;
+  output: string;
+  errorOutput: string;
+  executionTime: number;
+  report?: string;             // Contents of the JSON reporter file, when one was written
+  exitCode?: number | null;
+}
+
+/**
+ * Decide whether a finished Playwright process should count as a successful run
+ */
+export function isSuccessfulRun(exitCode: number | null, output: string): boolean {
+  // Check exit code first - 0 means success
+  if (exitCode !== 0) {
+    return false;
+  }
+
+  // For JSON reporter, try to parse the output to get more details
+  try {
+    const jsonOutput = JSON.parse(output);
+    if (jsonOutput.stats) {
+      // Check if all tests passed (no unexpected failures)
+      return jsonOutput.stats.unexpected === 0 && jsonOutput.stats.expected > 0;
+    }
+    return true;
+  } catch {
+    // If JSON parsing fails but exit code is 0, still consider it success
+    return true;
+  }
+}
+
+/**
+ * Store the outcome of a finished process on the test run and its test case executions
+ */
+export async function ingestTestResults(testResultId: string, result: ProcessResult, projectPath?: string): Promise<void> {
+  const testRun = await prisma.testResultHistory.update({
+    where: { id: testResultId },
+    data: {
+      status: 'completed',
+      success: result.success,
+      output: result.output.substring(0, 10000),
+      errorMessage: result.errorOutput || null,
+      executionTime: result.executionTime,
+      resultData: result.report ?? null,
+    }
+  });
+
+  let report: PlaywrightReport | null = null;
+  try {
+    report = JSON.parse(result.report ?? result.output);
+  } catch {
+    console.log('Could not parse JSON for individual test results, using overall result');
+  }
+
+  if (report?.suites) {
+    await recordReportedExecutions(testRun, report);
+  }
+
+  const executions = await prisma.testCaseExecution.findMany({
+    where: { testResultId },
+    include: {
+      testCase: {
+        include: {
+          steps: {
+            where: { disabled: false },
+            orderBy: { order: 'asc' }
+          }
+        }
+      }
+    }
+  });
+
+  // Outcome per browser and environment, shown as a grid on the result
+  if (report?.suites) {
+    const cells = summarizeCells(report);
+    if (cells.length > 0) {
+      await prisma.testRunCell.createMany({
+        data: cells.map(cell => ({ testResultId, ...cell }))
+      });
+    }
+  }
+
+  if (report?.suites && executions.length > 0) {
+    const testsByTestCase = groupTestsByTestCase(report, executions.map(execution => execution.testCase));
+    const reportError = report.errors?.map(error => error.message).filter(Boolean).join('; ');
+    const failedExecutions: typeof executions = [];
+
+    for (const execution of executions) {
+      const tests = testsByTestCase.get(execution.testCaseId);
+
+      // Not in the report: filtered out by grep, or the run failed before reaching it
+      if (!tests) {
+        await prisma.testCaseExecution.update({
+          where: { id: execution.id },
+          data: {
+            status: result.success ? 'skipped' : 'failed',
+            output: result.output,
+            errorMessage: result.success ? null : reportError || result.errorOutput || null,
+            endTime: new Date()
+          }
+        });
+        if (!result.success) {
+          failedExecutions.push(execution);
+        }
+        continue;
+      }
+
+      const outcome = summarizeTests(tests);
+      if (outcome.status === 'failed') {
+        failedExecutions.push(execution);
+      }
+      await prisma.testCaseExecution.update({
+        where: { id: execution.id },
+        data: {
+          status: outcome.status,
+          duration: outcome.duration,
+          retries: outcome.retries,
+          output: result.output,
+          errorMessage: outcome.errorMessage,
+          startTime: outcome.startTime,
+          endTime: outcome.endTime
+        }
+      });
+
+      for (const test of tests) {
+        for (const testResult of test.results) {
+          const startTime = new Date(testResult.startTime);
+          const attempt = await prisma.testCaseAttempt.create({
+            data: {
+              executionId: execution.id,
+              projectName: test.projectName || null,
+              environment: test.environment ?? null,
+              retry: testResult.retry,
+              status: testResult.status,
+              duration: testResult.duration,
+              errorMessage: formatErrors(testResult.errors),
+              startTime,
+              endTime: new Date(startTime.getTime() + testResult.duration),
+              stepExecutions: {
+                create: buildStepExecutions(testResult, execution.testCase.steps)
+              }
+            },
+            include: { stepExecutions: true }
+          });
+
+          if (projectPath && testResult.attachments) {
+            await indexAttachments({
+              testResultId,
+              executionId: execution.id,
+              attemptId: attempt.id,
+              failedStepExecutionId: attempt.stepExecutions.find(step => step.status === 'failed')?.id,
+              projectPath,
+              attachments: testResult.attachments
+            });
+          }
+        }
+      }
+    }
+
+    // Quarantined test cases still run, but only the others decide whether the run passed
+    if (!result.success && !reportError && failedExecutions.length > 0 && failedExecutions.every(execution => execution.quarantined)) {
+      await prisma.testResultHistory.update({
+        where: { id: testResultId },
+        data: { success: true }
+      });
+    }
+  } else {
+    await prisma.testCaseExecution.updateMany({
+      where: { testResultId },
+      data: {
+        status: result.success ? 'passed' : 'failed',
+        duration: result.executionTime,
+        output: result.output,
+        errorMessage: result.errorOutput || null,
+        endTime: new Date()
+      }
+    });
+  }
+
+  // The run's first recording doubles as its video
+  const video = await prisma.testArtifact.findFirst({
+    where: { testResultId, type: 'video' },
+    orderBy: { createdAt: 'asc' }
+  });
+  if (video) {
+    await prisma.testResultHistory.update({
+      where: { id: testResultId },
+      data: { videoUrl: getArtifactUrl(testRun.projectId, testResultId, video.id) }
+    });
+  }
+
+  // Update test case last run time
+  if (executions.length > 0) {
+    await prisma.testCase.updateMany({
+      where: { id: { in: executions.map(execution => execution.testCaseId) } },
+      data: { lastRun: new Date() }
+    });
+  }
+}
+
+/**
+ * Add executions for test cases of the project that the report shows ran but the run did not list up
+ * front, as happens when free text grep picks the tests
+ */
+async function recordReportedExecutions(
+  testRun: Pick<TestResultHistory, 'id' | 'projectId' | 'createdBy'>,
+  report: PlaywrightReport
+): Promise<void> {
+  const reportedIds = new Set(collectSpecs(report.suites).flatMap(({ spec }) =>
+    spec.tests.flatMap(test => getTestCaseId(test) ?? [])));
+  const recorded = await prisma.testCaseExecution.findMany({
+    where: { testResultId: testRun.id },
+    select: { testCaseId: true },
+  });
+  recorded.forEach(execution => reportedIds.delete(execution.testCaseId));
+  if (reportedIds.size === 0) {
+    return;
+  }
+
+  const testCases = await prisma.testCase.findMany({
+    where: { projectId: testRun.projectId, id: { in: Array.from(reportedIds) } },
+    select: { id: true, version: true, quarantined: true },
+  });
+  const versionSnapshots = await snapshotExecutionVersions(testCases.map(testCase => testCase.id), testRun.createdBy, { generated: true });
+
+  for (const testCase of testCases) {
+    await prisma.testCaseExecution.create({
+      data: {
+        testResultId: testRun.id,
+        testCaseId: testCase.id,
+        status: 'queued',
+        testCaseVersion: versionSnapshots.get(testCase.id)?.version ?? testCase.version,
+        testCaseVersionId: versionSnapshots.get(testCase.id)?.testCaseVersionId,
+        quarantined: testCase.quarantined,
+        fixtureVersions: {
+          create: (versionSnapshots.get(testCase.id)?.fixtureVersionIds || []).map(fixtureVersionId => ({ fixtureVersionId }))
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Group the report's tests (one per browser project) by the test case they belong to.
+ * Tests are matched by their test case id annotation; files generated before the
+ * annotation existed fall back to the test title when it is unambiguous.
+ */
+function groupTestsByTestCase(report: PlaywrightReport, testCases: Array<{ id: string; name: string }>): Map<string, ReportTest[]> {
+  const knownIds = new Set(testCases.map(testCase => testCase.id));
+  const idsByName = new Map<string, string | null>();
+  for (const testCase of testCases) {
+    idsByName.set(testCase.name, idsByName.has(testCase.name) ? null : testCase.id);
+  }
+
+  const testsByTestCase = new Map<string, ReportTest[]>();
+  for (const { spec } of collectSpecs(report.suites)) {
+    for (const test of spec.tests) {
+      const testCaseId = getTestCaseId(test) ?? idsByName.get(spec.title) ?? undefined;
+      if (!testCaseId || !knownIds.has(testCaseId)) {
+        continue;
+      }
+
+      const tests = testsByTestCase.get(testCaseId) || [];
+      tests.push(test);
+      testsByTestCase.set(testCaseId, tests);
+    }
+  }
+
+  return testsByTestCase;
+}
+
+/**
+ * Combine the tests of one test case across browser projects and retries
+ */
+function summarizeTests(tests: ReportTest[]) {
+  const results = tests.flatMap(test => test.results);
+  const startTimes = results.map(testResult => new Date(testResult.startTime).getTime());
+  const endTimes = results.map((testResult, index) => startTimes[index] + testResult.duration);
+
+  let status = 'passed';
+  if (tests.some(test => test.status === 'unexpected')) {
+    status = 'failed';
+  } else if (tests.every(test => test.status === 'skipped')) {
+    status = 'skipped';
+  }
+
+  // The last attempt decides the outcome, so only its errors are reported
+  const errors = tests
+    .filter(test => test.status === 'unexpected' && test.results.length > 0)
+    .map(test => {
+      const message = formatErrors(test.results[test.results.length - 1].errors);
+      const label = test.environment ? `${test.projectName}/${test.environment}` : test.projectName;
+      return message && tests.length > 1 ? `[${label}] ${message}` : message;
+    })
+    .filter(Boolean);
+
+  return {
+    status,
+    duration: results.reduce((sum, testResult) => sum + testResult.duration, 0),
+    retries: Math.max(0, ...tests.map(test => test.results.length - 1)),
+    errorMessage: errors.length > 0 ? errors.join('\n') : null,
+    startTime: results.length > 0 ? new Date(Math.min(...startTimes)) : null,
+    endTime: results.length > 0 ? new Date(Math.max(...endTimes)) : new Date(),
+  };
+}
+
+/**
+ * Per-step outcome of one attempt, read from the test.step() blocks of the generated spec.
+ * Steps the attempt never reached are recorded as skipped.
+ */
+function buildStepExecutions(testResult: ReportTestResult, steps: Step[]) {
+  const reportedSteps = new Map(collectGeneratedSteps(testResult.steps).map(step => [step.stepId, step]));
+
+  // Spec files generated before steps were wrapped carry no step results
+  if (reportedSteps.size === 0) {
+    return [];
+  }
+
+  return steps.map(step => {
+    const reportedStep = reportedSteps.get(step.id);
+    const status = !reportedStep ? 'skipped' : reportedStep.error ? 'failed' : 'passed';
+
+    return {
+      stepId: step.id,
+      order: step.order,
+      title: step.action,
+      status,
+      duration: reportedStep?.duration ?? null,
+      errorMessage: reportedStep?.error?.message ?? null,
+    };
+  });
+}
+
+function formatErrors(errors?: ReportError[]): string | null {
+  const messages = (errors || []).map(error => error.message).filter(Boolean);
+  return messages.length > 0 ? messages.join('; ') : null;
+}
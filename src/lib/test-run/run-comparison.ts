@@ -0,0 +1,171 @@
+import { TestResultHistory } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { diffLines, DiffLine } from '@/lib/utils/text-diff';
+
+export type ComparisonCategory =
+  | 'newly-failing'
+  | 'newly-passing'
+  | 'still-failing'
+  | 'added'
+  | 'removed'
+  | 'status-changed'
+  | 'duration-regressed'
+  | 'unchanged';
+
+export const COMPARISON_CATEGORIES: ComparisonCategory[] = [
+  'newly-failing',
+  'newly-passing',
+  'still-failing',
+  'added',
+  'removed',
+  'status-changed',
+  'duration-regressed',
+  'unchanged',
+];
+
+// A passing test counts as slower when it takes this much longer than before, and at least a second
+const DURATION_REGRESSION_RATIO = 1.5;
+const DURATION_REGRESSION_MIN_MS = 1000;
+
+const FAILING_STATUSES = ['failed', 'timed-out'];
+
+export interface ComparedExecution {
+  id: string;
+  testResultId: string;
+  status: string;
+  duration: number | null;
+  errorMessage: string | null;
+}
+
+export interface TestCaseComparison {
+  testCaseId: string;
+  testCaseName: string;
+  category: ComparisonCategory;
+  base: ComparedExecution | null;
+  target: ComparedExecution | null;
+  durationChange: number | null;     // Milliseconds, positive when the target run was slower
+  errorDiff: DiffLine[] | null;      // Only when the error message changed between the runs
+}
+
+export interface RunComparison {
+  base: Pick<TestResultHistory, 'id' | 'name' | 'status' | 'success' | 'browser' | 'createdAt'>;
+  target: Pick<TestResultHistory, 'id' | 'name' | 'status' | 'success' | 'browser' | 'createdAt'>;
+  counts: Record<ComparisonCategory, number>;
+  testCases: TestCaseComparison[];
+}
+
+function stripAnsi(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return value.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function classify(base: ComparedExecution | null, target: ComparedExecution | null): ComparisonCategory {
+  if (!base) {
+    return 'added';
+  }
+  if (!target) {
+    return 'removed';
+  }
+
+  const baseFailing = FAILING_STATUSES.includes(base.status);
+  const targetFailing = FAILING_STATUSES.includes(target.status);
+  if (targetFailing) {
+    return baseFailing ? 'still-failing' : 'newly-failing';
+  }
+  if (baseFailing && target.status === 'passed') {
+    return 'newly-passing';
+  }
+  // Any other move, e.g. failed to skipped, is still worth a look
+  if (base.status !== target.status) {
+    return 'status-changed';
+  }
+
+  if (base.status === 'passed' && target.status === 'passed' && base.duration && target.duration &&
+      target.duration >= base.duration * DURATION_REGRESSION_RATIO &&
+      target.duration - base.duration >= DURATION_REGRESSION_MIN_MS) {
+    return 'duration-regressed';
+  }
+  return 'unchanged';
+}
+
+/**
+ * Compare two runs of a project, test case by test case.
+ * Returns null when either run does not exist in the project.
+ */
+export async function compareTestRuns(projectId: string, baseId: string, targetId: string): Promise<RunComparison | null> {
+  const runs = await prisma.testResultHistory.findMany({
+    where: { projectId, id: { in: [baseId, targetId] } },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      success: true,
+      browser: true,
+      createdAt: true,
+      testCaseExecutions: {
+        select: {
+          id: true,
+          testResultId: true,
+          testCaseId: true,
+          status: true,
+          duration: true,
+          errorMessage: true,
+          testCase: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const baseRun = runs.find(run => run.id === baseId);
+  const targetRun = runs.find(run => run.id === targetId);
+  if (!baseRun || !targetRun) {
+    return null;
+  }
+
+  const names = new Map<string, string>();
+  const toMap = (executions: typeof baseRun.testCaseExecutions) => {
+    const byTestCase = new Map<string, ComparedExecution>();
+    for (const { testCaseId, testCase, ...execution } of executions) {
+      names.set(testCaseId, testCase.name);
+      if (!byTestCase.has(testCaseId)) {
+        byTestCase.set(testCaseId, execution);
+      }
+    }
+    return byTestCase;
+  };
+  const baseExecutions = toMap(baseRun.testCaseExecutions);
+  const targetExecutions = toMap(targetRun.testCaseExecutions);
+
+  const counts = Object.fromEntries(COMPARISON_CATEGORIES.map(category => [category, 0])) as Record<ComparisonCategory, number>;
+  const testCases: TestCaseComparison[] = [];
+
+  for (const testCaseId of new Set([...baseExecutions.keys(), ...targetExecutions.keys()])) {
+    const base = baseExecutions.get(testCaseId) ?? null;
+    const target = targetExecutions.get(testCaseId) ?? null;
+    const category = classify(base, target);
+    counts[category]++;
+
+    const baseError = base?.errorMessage ? stripAnsi(base.errorMessage) : '';
+    const targetError = target?.errorMessage ? stripAnsi(target.errorMessage) : '';
+
+    testCases.push({
+      testCaseId,
+      testCaseName: names.get(testCaseId) ?? testCaseId,
+      category,
+      base,
+      target,
+      durationChange: base?.duration != null && target?.duration != null ? target.duration - base.duration : null,
+      errorDiff: base && target && baseError !== targetError ? diffLines(baseError, targetError) : null,
+    });
+  }
+
+  testCases.sort((a, b) =>
+    COMPARISON_CATEGORIES.indexOf(a.category) - COMPARISON_CATEGORIES.indexOf(b.category) ||
+    a.testCaseName.localeCompare(b.testCaseName)
+  );
+
+  const summarize = ({ id, name, status, success, browser, createdAt }: typeof baseRun) =>
+    ({ id, name, status, success, browser, createdAt });
+
+  return { base: summarize(baseRun), target: summarize(targetRun), counts, testCases };
+}
@@ -0,0 +1,138 @@
+export type RunTestStatus = 'passed' | 'failed' | 'skipped' | 'flaky';
+
+export type RunStreamEventPayload =
+  | { type: 'log'; stream: 'stdout' | 'stderr'; line: string }
+  | {
+      type: 'test';
+      title: string;
+      status: RunTestStatus;
+      project?: string;
+      durationMs?: number;
+      retry?: number;
+      testCaseId?: string;
+    }
+  | { type: 'status'; status: string };
+
+export type RunStreamEvent = RunStreamEventPayload & { id: number };
+
+type Listener = (event: RunStreamEvent) => void;
+
+interface Channel {
+  events: RunStreamEvent[];
+  nextId: number;
+  listeners: Set<Listener>;
+  partialLines: { stdout: string; stderr: string };
+  finished: boolean;
+  cleanupTimer: NodeJS.Timeout | null;
+}
+
+// Keep at most this many events per run for late joiners
+const MAX_BUFFERED_EVENTS = 5000;
+// How long a finished run stays replayable from memory
+const FINISHED_RETENTION_MS = 10 * 60 * 1000;
+
+/**
+ * In-memory fan-out of test run output. The worker publishes into a channel
+ * per test run; SSE subscribers get the buffered events replayed and then
+ * receive new ones as they happen.
+ */
+export class RunLogBroker {
+  private channels = new Map<string, Channel>();
+
+  has(testResultId: string): boolean {
+    return this.channels.has(testResultId);
+  }
+
+  publish(testResultId: string, payload: RunStreamEventPayload): RunStreamEvent {
+    const channel = this.getOrCreateChannel(testResultId);
+    const event = { ...payload, id: channel.nextId++ } as RunStreamEvent;
+
+    channel.events.push(event);
+    if (channel.events.length > MAX_BUFFERED_EVENTS) {
+      channel.events.splice(0, channel.events.length - MAX_BUFFERED_EVENTS);
+    }
+
+    channel.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  /**
+   * Publish a raw chunk of process output as log lines.
+   * Returns the lines completed by this chunk.
+   */
+  appendOutput(testResultId: string, stream: 'stdout' | 'stderr', chunk: string): string[] {
+    const channel = this.getOrCreateChannel(testResultId);
+    const text = channel.partialLines[stream] + chunk;
+    const lines = text.split(/\r?\n/);
+
+    channel.partialLines[stream] = lines.pop() ?? '';
+    lines.forEach(line => this.publish(testResultId, { type: 'log', stream, line }));
+
+    return lines;
+  }
+
+  /**
+   * Flush pending output, publish the final status and schedule the buffer for removal
+   */
+  finish(testResultId: string, status: string): void {
+    const channel = this.getOrCreateChannel(testResultId);
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (channel.partialLines[stream]) {
+        this.publish(testResultId, { type: 'log', stream, line: channel.partialLines[stream] });
+        channel.partialLines[stream] = '';
+      }
+    }
+
+    this.publish(testResultId, { type: 'status', status });
+    channel.finished = true;
+
+    if (channel.cleanupTimer) clearTimeout(channel.cleanupTimer);
+    channel.cleanupTimer = setTimeout(() => this.channels.delete(testResultId), FINISHED_RETENTION_MS);
+    channel.cleanupTimer.unref?.();
+  }
+
+  isFinished(testResultId: string): boolean {
+    return this.channels.get(testResultId)?.finished ?? false;
+  }
+
+  /**
+   * Replay buffered events after `lastEventId` and follow new ones.
+   * Returns an unsubscribe function.
+   */
+  subscribe(testResultId: string, listener: Listener, lastEventId = -1): () => void {
+    const channel = this.getOrCreateChannel(testResultId);
+
+    channel.events
+      .filter(event => event.id > lastEventId)
+      .forEach(listener);
+
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+
+  private getOrCreateChannel(testResultId: string): Channel {
+    let channel = this.channels.get(testResultId);
+    if (!channel) {
+      channel = {
+        events: [],
+        nextId: 0,
+        listeners: new Set(),
+        partialLines: { stdout: '', stderr: '' },
+        finished: false,
+        cleanupTimer: null,
+      };
+      this.channels.set(testResultId, channel);
+    }
+    return channel;
+  }
+}
+
+// Use a single broker across the app, like the Prisma client
+const globalForBroker = global as unknown as { runLogBroker?: RunLogBroker };
+
+export const runLogBroker = globalForBroker.runLogBroker || new RunLogBroker();
+
+globalForBroker.runLogBroker = runLogBroker;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+// Names that end up as single argv entries; kept strict so they can never look like flags
+const SAFE_NAME = /^[A-Za-z0-9][\w.-]*$/;
+
+// Variables that change how the shell, Node, the loader, TLS or Playwright itself behave
+const RESERVED_ENV_KEYS = ['PATH', 'HOME', 'SHELL', 'ENV', 'BASH_ENV', 'TMPDIR', 'CI', 'DEBUG', 'HTTP_PROXY', 'HTTPS_PROXY', 'NO_PROXY'];
+const RESERVED_ENV_PREFIXES = ['LD_', 'DYLD_', 'NODE_', 'NPM_', 'PLAYWRIGHT_', 'PW_', 'SSL_', 'OPENSSL_', 'GIT_', 'BASH_FUNC_'];
+
+/**
+ * Name of an environment variable a project environment may define. A run can only set the
+ * variables the project exposes to playwright.config.ts or its environments define.
+ */
+export const EnvVarKeySchema = z.string()
+  .regex(/^[A-Z_][A-Z0-9_]*$/, 'Environment variable names must be upper-case identifiers')
+  .refine(
+    key => !RESERVED_ENV_KEYS.includes(key) && !RESERVED_ENV_PREFIXES.some(prefix => key.startsWith(prefix)),
+    'This environment variable cannot be overridden'
+  );
+
+const MAX_MATRIX_ENVIRONMENTS = 10;
+const MAX_SHARDS = 16;
+const MAX_MATRIX_JOBS = 64;
+
+/**
+ * Typed description of a test run. The server turns it into a Playwright
+ * argv, so nothing the client sends is ever interpreted by a shell.
+ */
+export const RunSpecSchema = z.object({
+  mode: z.enum(['file', 'list', 'project', 'suite', 'plan']),
+  testCaseIds: z.array(z.string().min(1)).default([]),
+  // Suites whose test cases run, including those in nested suites
+  suiteIds: z.array(z.string().min(1)).default([]),
+  // Test plan the run counts towards; in plan mode its automated test cases run
+  planId: z.string().min(1).optional(),
+  tags: z.array(z.string().regex(SAFE_NAME, 'Tags may only contain letters, numbers, ".", "_" and "-"')).default([]),
+  grep: z.string().max(200).optional(),
+  browsers: z.array(z.string().regex(SAFE_NAME, 'Invalid browser project name')).min(1).default(['chromium']),
+  retries: z.number().int().min(0).max(10).optional(),
+  workers: z.number().int().min(1).max(64).optional(),
+  // A matrix runs every browser once per environment, each split into this many shards
+  environments: z.array(z.object({
+    name: z.string().regex(SAFE_NAME, 'Environment names may only contain letters, numbers, ".", "_" and "-"'),
+    baseUrl: z.string().url().refine(url => /^https?:\/\//.test(url), 'Base URL must use http or https'),
+  })).max(MAX_MATRIX_ENVIRONMENTS).default([]),
+  shards: z.number().int().min(1).max(MAX_SHARDS).default(1),
+  headed: z.boolean().default(false),
+  timeout: z.number().int().min(1000).max(60 * 60 * 1000).optional(),
+  env: z.record(EnvVarKeySchema, z.string().max(2000)).default({}),
+  // Project environment whose variables and secrets the worker injects into the run
+  environmentId: z.string().min(1).optional(),
+}).refine(
+  spec => ['project', 'suite', 'plan'].includes(spec.mode) || spec.testCaseIds.length > 0,
+  { message: 'At least one test case is required', path: ['testCaseIds'] }
+).refine(
+  spec => spec.mode !== 'suite' || spec.suiteIds.length > 0,
+  { message: 'At least one suite is required', path: ['suiteIds'] }
+).refine(
+  spec => spec.mode !== 'plan' || !!spec.planId,
+  { message: 'A test plan is required', path: ['planId'] }
+).refine(
+  spec => new Set(spec.environments.map(environment => environment.name)).size === spec.environments.length,
+  { message: 'Environment names must be unique', path: ['environments'] }
+).refine(
+  spec => spec.browsers.length * Math.max(spec.environments.length, 1) * spec.shards <= MAX_MATRIX_JOBS,
+  { message: `A run matrix may have at most ${MAX_MATRIX_JOBS} jobs`, path: ['shards'] }
+);
+
+export type RunSpec = z.infer<typeof RunSpecSchema>;
+export type RunSpecInput = z.input<typeof RunSpecSchema>;
+
+/**
+ * Whether the spec fans out into one job per browser, environment and shard
+ */
+export function isMatrixSpec(spec: RunSpec): boolean {
+  return spec.environments.length > 0 || spec.shards > 1;
+}
+
+/**
+ * Validate a run spec, returning readable error messages on failure
+ */
+export function validateRunSpec(data: unknown): { success: true; spec: RunSpec } | { success: false; errors: string[] } {
+  const result = RunSpecSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, spec: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Test run states shared by the worker, the API and the UI
+ */
+
+export type TestRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'timed-out';
+
+export const ACTIVE_RUN_STATUSES: TestRunStatus[] = ['queued', 'running'];
+
+// Test case execution outcomes that "Rerun failed" picks up
+export const RERUNNABLE_STATUSES = ['failed', 'timed-out'];
+
+/**
+ * Whether a run is still waiting for or holding a Playwright process
+ */
+export function isRunActive(status: string): boolean {
+  return ACTIVE_RUN_STATUSES.includes(status as TestRunStatus);
+}
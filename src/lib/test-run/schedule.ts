@@ -0,0 +1,58 @@
+import { parseExpression } from 'cron-parser';
+import { z } from 'zod';
+import { RunSpecSchema } from './run-spec';
+
+/**
+ * Next time a cron expression fires after the given date, evaluated in the schedule's timezone
+ */
+export function getNextFireTime(cronExpression: string, timezone: string, from: Date = new Date()): Date {
+  return parseExpression(cronExpression, { tz: timezone, currentDate: from }).next().toDate();
+}
+
+export function isValidCronExpression(cronExpression: string): boolean {
+  // Only the standard five fields, so expressions mean the same thing everywhere
+  if (cronExpression.trim().split(/\s+/).length !== 5) {
+    return false;
+  }
+  try {
+    parseExpression(cronExpression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Schedule data accepted by the schedule API
+ */
+export const TestScheduleSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  cronExpression: z.string().refine(isValidCronExpression, 'Invalid cron expression, expected five fields like "0 2 * * *"'),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone').default('UTC'),
+  enabled: z.boolean().default(true),
+  runSpec: RunSpecSchema,
+});
+
+export type TestScheduleInput = z.input<typeof TestScheduleSchema>;
+
+/**
+ * API shape of a stored schedule, with its run spec parsed
+ */
+export function toScheduleResponse<T extends { runSpec: string }>(schedule: T): Omit<T, 'runSpec'> & { runSpec: unknown } {
+  let runSpec: unknown = null;
+  try {
+    runSpec = JSON.parse(schedule.runSpec);
+  } catch {
+    // Leave unparseable specs empty; the scheduler reports them when firing
+  }
+  return { ...schedule, runSpec };
+}
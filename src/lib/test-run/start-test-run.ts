@@ -0,0 +1,97 @@
+import { TestResultHistory, TestRunJob } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { buildRunCommand, BuiltCommand } from './command-builder';
+import { RunSpec } from './run-spec';
+import { testRunWorker } from './test-run-worker';
+import { snapshotExecutionVersions } from './version-snapshot';
+
+export interface PreparedTestRun {
+  projectId: string;
+  spec: RunSpec;
+  command: BuiltCommand;
+  testResultFileName: string;
+}
+
+interface QueueTestRunOptions {
+  testRunName?: string;
+  createdBy?: string | null;
+  scheduleId?: string;
+  parentId?: string;
+}
+
+/**
+ * Resolve a run spec into the command that will run it.
+ * Throws when the spec does not fit the project, e.g. a test file was never generated.
+ */
+export async function prepareTestRun(projectId: string, spec: RunSpec): Promise<PreparedTestRun> {
+  // Generate test result filename
+  const now = new Date();
+  const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD format
+  const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '-'); // HH-MM-SS format
+  const testResultFileName = `test-results-${dateStr}-${timeStr}`;
+
+  const command = await buildRunCommand(projectId, spec, { outputDir: testResultFileName });
+
+  return { projectId, spec, command, testResultFileName };
+}
+
+/**
+ * Record a prepared run as a queued test result and hand it to the worker.
+ * Manual, scheduled and rerun runs all start here.
+ */
+export async function queueTestRun(
+  run: PreparedTestRun,
+  options: QueueTestRunOptions = {}
+): Promise<{ testResult: TestResultHistory; jobs: TestRunJob[] }> {
+  // Snapshot what flakiness scoring and run gating need, as both can change before results arrive
+  const testCases = await prisma.testCase.findMany({
+    where: { id: { in: run.command.testCaseIds } },
+    select: { id: true, quarantined: true }
+  });
+  const testCasesById = new Map(testCases.map(testCase => [testCase.id, testCase]));
+  const versionSnapshots = await snapshotExecutionVersions(run.command.testCaseIds, options.createdBy, { generated: true });
+
+  // The worker enforces concurrency limits and timeouts, a matrix run queues one job per cell.
+  // The run and its jobs are created together, so a failure cannot leave a run queued forever.
+  const { run: testResult, jobs } = await testRunWorker.enqueueRun(
+    tx => tx.testResultHistory.create({
+      data: {
+        projectId: run.projectId,
+        status: 'queued',
+        success: false,
+        browser: run.spec.browsers.join(','),
+        testResultFileName: run.testResultFileName,
+        createdBy: options.createdBy,
+        lastRunBy: options.createdBy,
+        scheduleId: options.scheduleId,
+        parentId: options.parentId,
+        testPlanId: run.spec.planId,
+        runSpec: JSON.stringify(run.spec),
+        ...(options.testRunName ? { name: options.testRunName } : {}),
+        testCaseExecutions: {
+          create: run.command.testCaseIds.map(testCaseId => ({
+            testCaseId,
+            status: 'queued',
+            testCaseVersion: versionSnapshots.get(testCaseId)?.version,
+            testCaseVersionId: versionSnapshots.get(testCaseId)?.testCaseVersionId,
+            quarantined: testCasesById.get(testCaseId)?.quarantined ?? false,
+            fixtureVersions: {
+              create: (versionSnapshots.get(testCaseId)?.fixtureVersionIds || []).map(fixtureVersionId => ({ fixtureVersionId }))
+            }
+          }))
+        }
+      }
+    }),
+    run.command.jobs.map(builtJob => ({
+      projectId: run.projectId,
+      command: builtJob.display,
+      args: builtJob.args,
+      env: builtJob.env,
+      cell: builtJob.cell,
+      environmentId: run.command.environmentId,
+      createdBy: options.createdBy,
+    }))
+  );
+
+  return { testResult, jobs };
+}
@@ -0,0 +1,655 @@
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Prisma, TestRunJob } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import {
+  TEST_RUN_MAX_CONCURRENCY,
+  TEST_RUN_MAX_CONCURRENCY_PER_PROJECT,
+  TEST_RUN_POLL_INTERVAL_MS,
+  TEST_RUN_TIMEOUT_MS,
+} from '@/lib/utils/config';
+import { resolveEnvironmentVariables } from '@/lib/environments/environment';
+import { killProcessTree } from './process-tree';
+import { ingestTestResults, isSuccessfulRun, ProcessResult } from './result-ingester';
+import { formatCellLabel, MatrixJobReport, mergeMatrixReports, RunCell } from './matrix';
+import { ACTIVE_RUN_STATUSES, isRunActive, TestRunStatus } from './run-status';
+import { runLogBroker } from './run-log-broker';
+import { parseListReporterLine } from './list-reporter-parser';
+
+type StopReason = 'cancelled' | 'timed-out';
+
+// Time between SIGTERM and SIGKILL when stopping a run
+const KILL_GRACE_PERIOD_MS = 5000;
+
+// Playwright CLI entry point, relative to a Playwright project
+const PLAYWRIGHT_CLI_PATH = path.join('node_modules', '@playwright', 'test', 'cli.js');
+
+interface ActiveRun {
+  job: TestRunJob;
+  child: ChildProcess | null;
+  stopReason: StopReason | null;
+  timeoutTimer: NodeJS.Timeout | null;
+  killTimer: NodeJS.Timeout | null;
+}
+
+interface ProcessContext {
+  cwd: string;
+  reportPath: string;
+  testCaseIdsByName: Map<string, string>;
+  environmentVariables: Record<string, string>;
+}
+
+interface EnqueueParams {
+  projectId: string;
+  testResultId: string;
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  timeoutMs?: number;
+  createdBy?: string | null;
+  cell?: RunCell | null;
+  environmentId?: string;
+}
+
+/**
+ * Picks queued test runs from the database and executes them as Playwright
+ * processes, honouring the global and per-project concurrency limits.
+ * The worker assumes a single server process owns all running jobs.
+ */
+export class TestRunWorker {
+  private activeRuns = new Map<string, ActiveRun>();
+  private waiters = new Map<string, Array<() => void>>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private draining = false;
+  private drainRequested = false;
+
+  /**
+   * Start polling the queue. Safe to call more than once.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      void this.drain();
+    }, TEST_RUN_POLL_INTERVAL_MS);
+    this.pollTimer.unref?.();
+
+    void this.drain();
+  }
+
+  /**
+   * Record a test run and add its jobs to the queue in one transaction, so a run is never
+   * left waiting for jobs that were not queued
+   */
+  async enqueueRun<T extends { id: string }>(
+    createRun: (tx: Prisma.TransactionClient) => Promise<T>,
+    jobs: Array<Omit<EnqueueParams, 'testResultId'>>
+  ): Promise<{ run: T; jobs: TestRunJob[] }> {
+    const result = await prisma.$transaction(async (tx) => {
+      const run = await createRun(tx);
+      const createdJobs: TestRunJob[] = [];
+      for (const params of jobs) {
+        createdJobs.push(await tx.testRunJob.create({
+          data: {
+            projectId: params.projectId,
+            testResultId: run.id,
+            command: params.command,
+            args: JSON.stringify(params.args),
+            env: params.env ? JSON.stringify(params.env) : null,
+            cell: params.cell ? JSON.stringify(params.cell) : null,
+            environmentId: params.environmentId,
+            timeoutMs: params.timeoutMs ?? TEST_RUN_TIMEOUT_MS,
+            createdBy: params.createdBy ?? undefined,
+          },
+        }));
+      }
+      return { run, jobs: createdJobs };
+    });
+
+    this.start();
+    void this.drain();
+
+    return result;
+  }
+
+  /**
+   * Resolve once the given job reaches a final state
+   */
+  waitForCompletion(jobId: string): Promise<void> {
+    return new Promise(resolve => {
+      // Register before checking so a job finishing in between cannot be missed
+      const jobWaiters = this.waiters.get(jobId) || [];
+      jobWaiters.push(resolve);
+      this.waiters.set(jobId, jobWaiters);
+
+      prisma.testRunJob.findUnique({ where: { id: jobId } })
+        .then(job => {
+          if (!job || !isRunActive(job.status)) {
+            this.notifyWaiters(jobId);
+          }
+        })
+        .catch(() => this.notifyWaiters(jobId));
+    });
+  }
+
+  /**
+   * Cancel a queued or running job. Running jobs this worker started have their whole process tree killed.
+   * Returns false when the job is unknown or already finished.
+   */
+  async cancel(jobId: string, cancelledBy?: string | null): Promise<boolean> {
+    const job = await prisma.testRunJob.findUnique({ where: { id: jobId } });
+    if (!job || !isRunActive(job.status)) {
+      return false;
+    }
+
+    await prisma.testRunJob.update({
+      where: { id: jobId },
+      data: { cancelledBy: cancelledBy ?? undefined },
+    });
+
+    const activeRun = this.activeRuns.get(jobId);
+    if (activeRun) {
+      this.stopRun(activeRun, 'cancelled');
+      return true;
+    }
+
+    // Queued, or running without a process we own (e.g. left over from a crash). The stored pid may
+    // belong to an unrelated process by now, so it is never signalled.
+    return this.closeOutJob(job, 'cancelled', 'Test run was cancelled');
+  }
+
+  /**
+   * Cancel every unfinished job of a test run.
+   * Returns false when the run has no job left to cancel.
+   */
+  async cancelRun(testResultId: string, cancelledBy?: string | null): Promise<boolean> {
+    const jobs = await prisma.testRunJob.findMany({
+      where: { testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+      select: { id: true },
+    });
+
+    let cancelled = false;
+    for (const job of jobs) {
+      cancelled = (await this.cancel(job.id, cancelledBy)) || cancelled;
+    }
+    return cancelled;
+  }
+
+  /**
+   * Fail runs whose process was lost because the server stopped while they were running.
+   * Their stored pids are not signalled, the operating system may have reused them.
+   */
+  async recoverOrphanedRuns(): Promise<number> {
+    const orphanedJobs = await prisma.testRunJob.findMany({
+      where: { status: 'running' },
+    });
+
+    let recovered = 0;
+    for (const job of orphanedJobs) {
+      if (this.activeRuns.has(job.id)) {
+        continue;
+      }
+
+      if (await this.closeOutJob(job, 'failed', 'Test run was interrupted by a server restart')) {
+        recovered++;
+      }
+    }
+
+    // Runs started before the job queue existed have no job to recover from
+    const legacyRuns = await prisma.testResultHistory.findMany({
+      where: { status: 'running', jobs: { none: {} } },
+      select: { id: true },
+    });
+    for (const run of legacyRuns) {
+      await this.markRunStopped(run.id, 'failed', 'Test run was interrupted by a server restart');
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      console.log(`[TestRunWorker] Recovered ${recovered} orphaned test run(s)`);
+    }
+
+    return recovered;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    try {
+      do {
+        this.drainRequested = false;
+        await this.startQueuedJobs();
+      } while (this.drainRequested);
+    } catch (error) {
+      console.error('[TestRunWorker] Error processing queue:', error);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async startQueuedJobs(): Promise<void> {
+    const runningJobs = await prisma.testRunJob.findMany({
+      where: { status: 'running' },
+      select: { projectId: true },
+    });
+
+    let freeSlots = TEST_RUN_MAX_CONCURRENCY - runningJobs.length;
+    if (freeSlots <= 0) {
+      return;
+    }
+
+    const runningPerProject = new Map<string, number>();
+    for (const job of runningJobs) {
+      runningPerProject.set(job.projectId, (runningPerProject.get(job.projectId) || 0) + 1);
+    }
+
+    const queuedJobs = await prisma.testRunJob.findMany({
+      where: { status: 'queued' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const job of queuedJobs) {
+      if (freeSlots <= 0) {
+        break;
+      }
+
+      const projectRunning = runningPerProject.get(job.projectId) || 0;
+      if (projectRunning >= TEST_RUN_MAX_CONCURRENCY_PER_PROJECT) {
+        continue;
+      }
+
+      const claimedJob = await this.claim(job);
+      if (!claimedJob) {
+        continue;
+      }
+
+      freeSlots--;
+      runningPerProject.set(job.projectId, projectRunning + 1);
+      void this.runJob(claimedJob);
+    }
+  }
+
+  private async claim(job: TestRunJob): Promise<TestRunJob | null> {
+    const startedAt = new Date();
+    const { count } = await prisma.testRunJob.updateMany({
+      where: { id: job.id, status: 'queued' },
+      data: { status: 'running', startedAt },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await prisma.testResultHistory.updateMany({
+      where: { id: job.testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+      data: { status: 'running' },
+    });
+    await prisma.testCaseExecution.updateMany({
+      where: { testResultId: job.testResultId, status: 'queued' },
+      data: { status: 'running', startTime: startedAt },
+    });
+    runLogBroker.publish(job.testResultId, { type: 'status', status: 'running' });
+
+    return { ...job, status: 'running', startedAt };
+  }
+
+  private async runJob(job: TestRunJob): Promise<void> {
+    const activeRun: ActiveRun = { job, child: null, stopReason: null, timeoutTimer: null, killTimer: null };
+    this.activeRuns.set(job.id, activeRun);
+
+    try {
+      const testResult = await prisma.testResultHistory.findUnique({
+        where: { id: job.testResultId },
+        include: {
+          project: true,
+          testCaseExecutions: { include: { testCase: { select: { id: true, name: true } } } },
+        },
+      });
+
+      if (!testResult?.project.playwrightProjectPath) {
+        throw new Error('Playwright project path not configured');
+      }
+
+      // Convert relative project path to absolute path
+      const absoluteProjectPath = path.join(process.cwd(), testResult.project.playwrightProjectPath);
+      const result = await this.executeProcess(activeRun, {
+        cwd: absoluteProjectPath,
+        // The JSON report goes to a file so stdout stays readable for live streaming
+        reportPath: this.getReportPath(absoluteProjectPath, testResult.testResultFileName || testResult.id, job),
+        testCaseIdsByName: new Map(
+          testResult.testCaseExecutions.map(execution => [execution.testCase.name, execution.testCase.id])
+        ),
+        // Decrypted only now, so secrets are never stored on the job
+        environmentVariables: job.environmentId ? await resolveEnvironmentVariables(job.environmentId) : {},
+      });
+
+      if (activeRun.stopReason === 'cancelled') {
+        await this.closeOutJob(job, 'cancelled', 'Test run was cancelled', result.output);
+      } else if (activeRun.stopReason === 'timed-out') {
+        const limitSeconds = Math.round((job.timeoutMs ?? TEST_RUN_TIMEOUT_MS) / 1000);
+        await this.closeOutJob(job, 'timed-out', `Test run exceeded the ${limitSeconds}s time limit`, result.output);
+      } else {
+        const { count } = await prisma.testRunJob.updateMany({
+          where: { id: job.id, status: 'running' },
+          data: job.cell
+            ? {
+              status: 'completed',
+              finishedAt: new Date(),
+              exitCode: result.exitCode,
+              output: result.output,
+              errorMessage: result.errorOutput || null,
+            }
+            : { status: 'completed', finishedAt: new Date() },
+        });
+
+        // Another request may already have closed the job out (e.g. a cancel that raced the exit)
+        if (count === 1 && !job.cell) {
+          await ingestTestResults(job.testResultId, result, absoluteProjectPath);
+        } else if (count === 1) {
+          await this.completeMatrixRun(job.testResultId, absoluteProjectPath, testResult.testResultFileName || testResult.id);
+        }
+      }
+    } catch (error) {
+      console.error(`[TestRunWorker] Test run ${job.testResultId} failed:`, error);
+      await this.closeOutJob(job, 'failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      if (activeRun.timeoutTimer) clearTimeout(activeRun.timeoutTimer);
+      if (activeRun.killTimer) clearTimeout(activeRun.killTimer);
+      this.activeRuns.delete(job.id);
+      await this.finishStream(job.testResultId);
+      this.notifyWaiters(job.id);
+      void this.drain();
+    }
+  }
+
+  private executeProcess(activeRun: ActiveRun, context: ProcessContext): Promise<ProcessResult> {
+    const { cwd, reportPath, testCaseIdsByName, environmentVariables } = context;
+
+    return new Promise((resolve, reject) => {
+      const { job } = activeRun;
+      let output = '';
+      let errorOutput = '';
+      const startTime = Date.now();
+
+      // The run may have been cancelled while we were loading the project
+      if (activeRun.stopReason) {
+        resolve({ success: false, output, errorOutput, executionTime: 0 });
+        return;
+      }
+
+      console.log(`[TestRunWorker] Executing command in directory: ${cwd}`);
+      console.log(`[TestRunWorker] Command: ${job.command}`);
+
+      const args: string[] = JSON.parse(job.args);
+      const jobEnv: Record<string, string> = job.env ? JSON.parse(job.env) : {};
+
+      // Run the project's own Playwright CLI directly, so no argument is ever parsed by a shell.
+      // Detach so the child leads its own process group and the whole tree can be killed.
+      const child = spawn(process.execPath, [path.join(cwd, PLAYWRIGHT_CLI_PATH), ...args], {
+        cwd,
+        detached: process.platform !== 'win32',
+        env: {
+          ...process.env,
+          ...environmentVariables,
+          ...jobEnv,
+          PLAYWRIGHT_JSON_OUTPUT_NAME: reportPath,
+          FORCE_COLOR: '0',
+        },
+      });
+      activeRun.child = child;
+
+      if (child.pid) {
+        void prisma.testRunJob.update({
+          where: { id: job.id },
+          data: { pid: child.pid },
+        }).catch(error => console.error('[TestRunWorker] Could not store process id:', error));
+      }
+
+      activeRun.timeoutTimer = setTimeout(
+        () => this.stopRun(activeRun, 'timed-out'),
+        job.timeoutMs ?? TEST_RUN_TIMEOUT_MS
+      );
+
+      child.stdout?.on('data', (data) => {
+        const text = data.toString();
+        output += text;
+
+        for (const line of runLogBroker.appendOutput(job.testResultId, 'stdout', text)) {
+          const testResult = parseListReporterLine(line);
+          if (testResult) {
+            runLogBroker.publish(job.testResultId, {
+              type: 'test',
+              title: testResult.title,
+              status: testResult.status,
+              project: testResult.project,
+              durationMs: testResult.durationMs,
+              retry: testResult.retry,
+              testCaseId: testCaseIdsByName.get(testResult.title),
+            });
+          }
+        }
+      });
+
+      child.stderr?.on('data', (data) => {
+        const text = data.toString();
+        errorOutput += text;
+        runLogBroker.appendOutput(job.testResultId, 'stderr', text);
+      });
+
+      child.on('error', (error) => {
+        reject(error);
+      });
+
+      child.on('close', async (code) => {
+        const report = await fs.readFile(reportPath, 'utf-8').catch(() => undefined);
+        resolve({
+          success: isSuccessfulRun(code, report ?? output),
+          output,
+          report,
+          errorOutput: errorOutput || (code !== 0 ? `Process exited with code ${code}` : ''),
+          executionTime: Date.now() - startTime,
+          exitCode: code,
+        });
+      });
+    });
+  }
+
+  // Each job of a matrix run writes its own report, merged once all of them are done
+  private getReportPath(projectPath: string, outputDir: string, job: TestRunJob): string {
+    return path.join(projectPath, outputDir, job.cell ? `report-${job.id}.json` : 'report.json');
+  }
+
+  /**
+   * Merge the reports of a matrix run once its last job has completed
+   */
+  private async completeMatrixRun(testResultId: string, projectPath: string, outputDir: string): Promise<void> {
+    const jobs = await prisma.testRunJob.findMany({
+      where: { testResultId },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (jobs.some(job => job.status !== 'completed')) {
+      return;
+    }
+
+    // Jobs finishing together both get here, only the one that claims the run merges it
+    const { count } = await prisma.testResultHistory.updateMany({
+      where: { id: testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+      data: { status: 'completed' },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    const jobReports: Array<MatrixJobReport & { success: boolean; output: string }> = [];
+    for (const job of jobs) {
+      const cell: RunCell = JSON.parse(job.cell as string);
+      const reportText = await fs.readFile(this.getReportPath(projectPath, outputDir, job), 'utf-8').catch(() => undefined);
+      let report = null;
+      try {
+        report = reportText ? JSON.parse(reportText) : null;
+      } catch {
+        // Counted as a job without a report
+      }
+
+      jobReports.push({
+        cell,
+        report,
+        errorOutput: job.errorMessage ?? undefined,
+        success: isSuccessfulRun(job.exitCode, reportText ?? job.output ?? ''),
+        output: `=== ${formatCellLabel(cell)} ===\n${job.output ?? ''}`,
+      });
+    }
+
+    const merged = mergeMatrixReports(jobReports);
+    const startedAt = Math.min(...jobs.map(job => (job.startedAt ?? job.createdAt).getTime()));
+
+    await ingestTestResults(testResultId, {
+      success: jobReports.every(jobReport => jobReport.success && jobReport.report),
+      output: jobReports.map(jobReport => jobReport.output).join('\n'),
+      errorOutput: jobReports
+        .filter(jobReport => !jobReport.success && jobReport.errorOutput)
+        .map(jobReport => `[${formatCellLabel(jobReport.cell)}] ${jobReport.errorOutput}`)
+        .join('\n'),
+      executionTime: Date.now() - startedAt,
+      report: JSON.stringify(merged),
+    }, projectPath);
+
+    // The merged result is on the run now
+    await prisma.testRunJob.updateMany({
+      where: { testResultId },
+      data: { output: null },
+    });
+  }
+
+  private stopRun(activeRun: ActiveRun, reason: StopReason): void {
+    if (activeRun.stopReason) {
+      return;
+    }
+    activeRun.stopReason = reason;
+
+    const pid = activeRun.child?.pid;
+    if (!pid) {
+      return;
+    }
+
+    killProcessTree(pid, 'SIGTERM');
+    activeRun.killTimer = setTimeout(() => killProcessTree(pid, 'SIGKILL'), KILL_GRACE_PERIOD_MS);
+  }
+
+  /**
+   * Move an unfinished job to a final state and mirror it onto its test run
+   */
+  private async closeOutJob(
+    job: TestRunJob,
+    status: Exclude<TestRunStatus, 'queued' | 'running' | 'completed'>,
+    errorMessage: string,
+    output?: string
+  ): Promise<boolean> {
+    const { count } = await prisma.testRunJob.updateMany({
+      where: { id: job.id, status: { in: ACTIVE_RUN_STATUSES } },
+      data: { status, errorMessage, finishedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await this.markRunStopped(job.testResultId, status, errorMessage, output);
+
+    // A matrix run stops as a whole, its other jobs would only produce a partial result
+    if (job.cell) {
+      await this.stopSiblingJobs(job, status, errorMessage);
+    }
+
+    // Jobs that never reached a process are not finished by runJob
+    if (!this.activeRuns.has(job.id)) {
+      await this.finishStream(job.testResultId);
+    }
+
+    this.notifyWaiters(job.id);
+    return true;
+  }
+
+  private async stopSiblingJobs(
+    job: TestRunJob,
+    status: Exclude<TestRunStatus, 'queued' | 'running' | 'completed'>,
+    errorMessage: string
+  ): Promise<void> {
+    const siblings = await prisma.testRunJob.findMany({
+      where: { testResultId: job.testResultId, id: { not: job.id }, status: { in: ACTIVE_RUN_STATUSES } },
+    });
+
+    for (const sibling of siblings) {
+      const activeRun = this.activeRuns.get(sibling.id);
+      if (activeRun) {
+        // runJob closes the job out once its process has exited
+        this.stopRun(activeRun, status === 'timed-out' ? 'timed-out' : 'cancelled');
+        continue;
+      }
+
+      await prisma.testRunJob.updateMany({
+        where: { id: sibling.id, status: { in: ACTIVE_RUN_STATUSES } },
+        data: { status, errorMessage, finishedAt: new Date() },
+      });
+      this.notifyWaiters(sibling.id);
+    }
+  }
+
+  private async finishStream(testResultId: string): Promise<void> {
+    // Other jobs of a matrix run are still writing to the stream
+    const activeJobs = await prisma.testRunJob.count({
+      where: { testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+    });
+    if (activeJobs > 0) {
+      return;
+    }
+
+    const testResult = await prisma.testResultHistory.findUnique({
+      where: { id: testResultId },
+      select: { status: true },
+    });
+    runLogBroker.finish(testResultId, testResult?.status ?? 'failed');
+  }
+
+  private async markRunStopped(testResultId: string, status: string, errorMessage: string, output?: string): Promise<void> {
+    // Only the first job of a matrix run to stop decides how the run ended
+    await prisma.testResultHistory.updateMany({
+      where: { id: testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+      data: {
+        status,
+        success: false,
+        errorMessage,
+        ...(output ? { output: output.substring(0, 10000) } : {}),
+      },
+    });
+
+    await prisma.testCaseExecution.updateMany({
+      where: { testResultId, status: { in: ACTIVE_RUN_STATUSES } },
+      data: { status, endTime: new Date() },
+    });
+  }
+
+  private notifyWaiters(jobId: string): void {
+    const jobWaiters = this.waiters.get(jobId);
+    if (!jobWaiters) {
+      return;
+    }
+
+    this.waiters.delete(jobId);
+    jobWaiters.forEach(resolve => resolve());
+  }
+}
+
+// Use a single worker across the app, like the Prisma client
+const globalForWorker = global as unknown as { testRunWorker?: TestRunWorker };
+
+export const testRunWorker = globalForWorker.testRunWorker || new TestRunWorker();
+
+globalForWorker.testRunWorker = testRunWorker;
@@ -0,0 +1,103 @@
+import { TestSchedule } from '@prisma/client';
+import { prisma } from '@/lib/db/prisma';
+import { TEST_SCHEDULER_INTERVAL_MS } from '@/lib/utils/config';
+import { validateRunSpec } from './run-spec';
+import { getNextFireTime } from './schedule';
+import { prepareTestRun, queueTestRun } from './start-test-run';
+
+/**
+ * Starts scheduled test runs when their cron expression fires.
+ * A schedule that was due while the server was down fires once on the next check.
+ */
+export class TestScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  /**
+   * Start checking for due schedules. Safe to call more than once.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.runDueSchedules();
+    }, TEST_SCHEDULER_INTERVAL_MS);
+    this.timer.unref?.();
+
+    void this.runDueSchedules();
+  }
+
+  /**
+   * Queue a run for every enabled schedule whose next fire time has passed
+   */
+  async runDueSchedules(now: Date = new Date()): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+
+    this.checking = true;
+    try {
+      const dueSchedules = await prisma.testSchedule.findMany({
+        where: { enabled: true, nextRunAt: { lte: now } },
+        orderBy: { nextRunAt: 'asc' },
+      });
+
+      for (const schedule of dueSchedules) {
+        await this.fire(schedule, now);
+      }
+    } catch (error) {
+      console.error('[TestScheduler] Error checking schedules:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async fire(schedule: TestSchedule, now: Date): Promise<void> {
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = getNextFireTime(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      console.error(`[TestScheduler] Invalid cron expression on schedule ${schedule.id}:`, error);
+    }
+
+    // Move the schedule on before queueing, so a run is never started twice for one fire time
+    const { count } = await prisma.testSchedule.updateMany({
+      where: { id: schedule.id, enabled: true, nextRunAt: schedule.nextRunAt },
+      data: { lastRunAt: now, nextRunAt, lastError: null },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    try {
+      const validation = validateRunSpec(JSON.parse(schedule.runSpec));
+      if (!validation.success) {
+        throw new Error(`Invalid run spec: ${validation.errors.join(', ')}`);
+      }
+
+      const preparedRun = await prepareTestRun(schedule.projectId, validation.spec);
+      const { testResult } = await queueTestRun(preparedRun, {
+        testRunName: schedule.name,
+        createdBy: schedule.updatedBy ?? schedule.createdBy,
+        scheduleId: schedule.id,
+      });
+
+      console.log(`[TestScheduler] Schedule "${schedule.name}" queued test run ${testResult.id}`);
+    } catch (error) {
+      console.error(`[TestScheduler] Schedule ${schedule.id} could not start a run:`, error);
+      await prisma.testSchedule.update({
+        where: { id: schedule.id },
+        data: { lastError: error instanceof Error ? error.message : 'Unknown error' },
+      });
+    }
+  }
+}
+
+// Use a single scheduler across the app, like the test run worker
+const globalForScheduler = global as unknown as { testScheduler?: TestScheduler };
+
+export const testScheduler = globalForScheduler.testScheduler || new TestScheduler();
+
+globalForScheduler.testScheduler = testScheduler;
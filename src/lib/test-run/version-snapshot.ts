@@ -0,0 +1,108 @@
+import { prisma } from '@/lib/db/prisma';
+import { getReleasableVersion, isReviewModeEnabled } from '@/lib/review/test-case-review';
+
+export interface ExecutionVersionSnapshot {
+  // The version of the test case the execution ran
+  version: string;
+  testCaseVersionId: string | null;
+  fixtureVersionIds: string[];
+}
+
+/**
+ * The TestCaseVersion matching the version of each test case that runs, and the latest version of each
+ * fixture its enabled steps pull in, so an execution keeps pointing at the steps it actually ran.
+ * Runs of generated files run the releasable version, which in review mode is the last approved one.
+ * Test cases whose current version was never snapshotted, e.g. created before versioning, get one from their steps.
+ */
+export async function snapshotExecutionVersions(
+  testCaseIds: string[],
+  createdBy?: string | null,
+  options: { generated?: boolean } = {}
+): Promise<Map<string, ExecutionVersionSnapshot>> {
+  const testCases = await prisma.testCase.findMany({
+    where: { id: { in: testCaseIds } },
+    include: { steps: { orderBy: { order: 'asc' } } },
+  });
+
+  const ranVersions = new Map<string, string>();
+  const reviewModes = new Map<string, boolean>();
+  for (const testCase of testCases) {
+    if (options.generated && !reviewModes.has(testCase.projectId)) {
+      reviewModes.set(testCase.projectId, await isReviewModeEnabled(testCase.projectId));
+    }
+    // A test case never approved has no generated file of its own version, its current one is the best guess
+    const releasable = options.generated ? getReleasableVersion(testCase, reviewModes.get(testCase.projectId)!) : null;
+    ranVersions.set(testCase.id, releasable || testCase.version);
+  }
+
+  const versions = await prisma.testCaseVersion.findMany({
+    where: { OR: testCases.map(testCase => ({ testCaseId: testCase.id, version: ranVersions.get(testCase.id)! })) },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, testCaseId: true },
+  });
+  const versionIds = new Map<string, string>();
+  for (const version of versions) {
+    // Newest first, a reverted version can share its number with an older snapshot
+    if (!versionIds.has(version.testCaseId)) {
+      versionIds.set(version.testCaseId, version.id);
+    }
+  }
+
+  const fixtureIds = [...new Set(testCases.flatMap(testCase =>
+    testCase.steps.filter(step => step.fixtureId && !step.disabled).map(step => step.fixtureId!)
+  ))];
+  const fixtureVersions = await prisma.fixtureVersion.findMany({
+    where: { fixtureId: { in: fixtureIds } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, fixtureId: true },
+  });
+  const latestFixtureVersionIds = new Map<string, string>();
+  for (const fixtureVersion of fixtureVersions) {
+    if (!latestFixtureVersionIds.has(fixtureVersion.fixtureId)) {
+      latestFixtureVersionIds.set(fixtureVersion.fixtureId, fixtureVersion.id);
+    }
+  }
+
+  const snapshots = new Map<string, ExecutionVersionSnapshot>();
+  for (const testCase of testCases) {
+    const version = ranVersions.get(testCase.id)!;
+    let testCaseVersionId = versionIds.get(testCase.id);
+    // Only the current version can be snapshotted from the live steps
+    if (!testCaseVersionId && version === testCase.version) {
+      const created = await prisma.testCaseVersion.create({
+        data: {
+          testCaseId: testCase.id,
+          version: testCase.version,
+          name: testCase.name,
+          createdBy: createdBy || undefined,
+          stepVersions: {
+            create: testCase.steps.map(step => ({
+              action: step.action,
+              data: step.data,
+              expected: step.expected,
+              playwrightCode: step.playwrightScript,
+              order: step.order,
+              disabled: step.disabled,
+              calledGroupId: step.calledGroupId,
+              calledTestCaseId: step.calledTestCaseId,
+            })),
+          },
+        },
+      });
+      testCaseVersionId = created.id;
+    }
+
+    const usedFixtureIds = new Set(
+      testCase.steps.filter(step => step.fixtureId && !step.disabled).map(step => step.fixtureId!)
+    );
+    snapshots.set(testCase.id, {
+      version,
+      testCaseVersionId: testCaseVersionId || null,
+      fixtureVersionIds: [...usedFixtureIds]
+        .map(fixtureId => latestFixtureVersionIds.get(fixtureId))
+        .filter((id): id is string => !!id),
+    });
+  }
+
+  return snapshots;
+}
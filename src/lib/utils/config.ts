@@ -4,4 +4,13 @@
 
 export const PLAYWRIGHT_PROJECT_PATH = process.env.PLAYWRIGHT_PROJECT_PATH || 'playwright-projects';
 
-// Add other environment variables and constants here 
\ No newline at end of file
+// Test run worker limits
+export const TEST_RUN_MAX_CONCURRENCY = parseInt(process.env.TEST_RUN_MAX_CONCURRENCY || '2', 10);
+export const TEST_RUN_MAX_CONCURRENCY_PER_PROJECT = parseInt(process.env.TEST_RUN_MAX_CONCURRENCY_PER_PROJECT || '1', 10);
+export const TEST_RUN_TIMEOUT_MS = parseInt(process.env.TEST_RUN_TIMEOUT_MS || String(30 * 60 * 1000), 10);
+export const TEST_RUN_POLL_INTERVAL_MS = parseInt(process.env.TEST_RUN_POLL_INTERVAL_MS || '2000', 10);
+
+// How often the scheduler looks for schedules that are due
+export const TEST_SCHEDULER_INTERVAL_MS = parseInt(process.env.TEST_SCHEDULER_INTERVAL_MS || '30000', 10);
+
+// Add other environment variables and constants here
@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1:';
+
+function getKey(): Buffer {
+  const secret = process.env.ENVIRONMENT_SECRET_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('ENVIRONMENT_SECRET_KEY or NEXTAUTH_SECRET must be set to store secrets');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a value for storage, as "enc:v1:<iv>:<auth tag>:<ciphertext>" in base64
+ */
+export function encryptValue(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return `${PREFIX}${[iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':')}`;
+}
+
+/**
+ * Decrypt a value written by encryptValue. Throws when the key changed or the value was tampered with.
+ */
+export function decryptValue(stored: string): string {
+  if (!stored.startsWith(PREFIX)) {
+    throw new Error('Value is not encrypted');
+  }
+
+  const [iv, authTag, encrypted] = stored.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
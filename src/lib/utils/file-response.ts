@@ -0,0 +1,80 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { NextResponse } from 'next/server';
+
+interface FileResponseOptions {
+  contentType: string;
+  range?: string | null;       // Value of the request's Range header
+  download?: boolean;          // Ask the browser to save the file instead of showing it
+  fileName?: string;
+  sandbox?: boolean;           // Keep untrusted files from running scripts when opened directly
+}
+
+/**
+ * Parse a single-range "bytes=start-end" header. Returns null when it cannot be satisfied.
+ */
+function parseRange(range: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * Stream a file from disk, honouring range requests so videos can be seeked
+ */
+export async function createFileResponse(filePath: string, options: FileResponseOptions): Promise<Response> {
+  const stats = await fs.stat(filePath).catch(() => null);
+  if (!stats?.isFile()) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  const headers = new Headers();
+  headers.set('Content-Type', options.contentType);
+  headers.set('Accept-Ranges', 'bytes');
+  headers.set('Cache-Control', 'private, max-age=3600');
+  headers.set('X-Content-Type-Options', 'nosniff');
+  if (options.sandbox) {
+    headers.set('Content-Security-Policy', 'sandbox');
+  }
+  const fileName = (options.fileName || path.basename(filePath)).replace(/"/g, '');
+  headers.set('Content-Disposition', `${options.download ? 'attachment' : 'inline'}; filename="${fileName}"`);
+
+  let start = 0;
+  let end = stats.size - 1;
+  let status = 200;
+
+  if (options.range) {
+    const range = parseRange(options.range, stats.size);
+    if (!range) {
+      headers.set('Content-Range', `bytes */${stats.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+    ({ start, end } = range);
+    status = 206;
+    headers.set('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+  }
+
+  headers.set('Content-Length', String(stats.size === 0 ? 0 : end - start + 1));
+
+  if (stats.size === 0) {
+    return new Response(null, { status, headers });
+  }
+
+  const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream;
+  return new Response(stream, { status, headers });
+}
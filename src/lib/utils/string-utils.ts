@@ -85,6 +85,19 @@ export function toSnakeCase(str: string): string {
     .toLowerCase();
 }
 
+/**
+ * Converts a string to the slug generated test files and suite directories are named by
+ * @param str - The string to convert
+ * @returns Lowercase alphanumeric words joined by hyphens, 'test' if none are left
+ */
+export function toFileSlug(str: string): string {
+  return str
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-') // Replace non-alphanumeric chars with hyphens
+    .replace(/^-|-$/g, '')       // Remove leading/trailing hyphens
+    || 'test';                   // Fallback if name is empty after processing
+}
+
 /**
  * Converts a string to a valid file name
  * @param str - The string to convert
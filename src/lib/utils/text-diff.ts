@@ -0,0 +1,53 @@
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// Longer inputs are compared as a whole replacement to keep the LCS table small
+const MAX_DIFF_LINES = 500;
+
+/**
+ * Line-based diff of two texts, computed from their longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split(/\r?\n/) : [];
+  const b = after ? after.split(/\r?\n/) : [];
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map(value => ({ type: 'removed' as const, value })),
+      ...b.map(value => ({ type: 'added' as const, value })),
+    ];
+  }
+
+  // lcs[i][j] is the LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', value: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', value: a[i++] });
+    } else {
+      lines.push({ type: 'added', value: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    lines.push({ type: 'removed', value: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ type: 'added', value: b[j++] });
+  }
+
+  return lines;
+}
@@ -0,0 +1,175 @@
+import { DiffLine, diffLines } from './text-diff';
+
+export interface DiffableStep {
+  order: number;
+  action: string;
+  data?: string | null;
+  expected?: string | null;
+  playwrightCode?: string | null;
+  disabled: boolean;
+  calledGroupId?: string | null;
+  calledTestCaseId?: string | null;
+  // Name of the called group or test case, for display
+  calledName?: string | null;
+}
+
+export interface DiffableVersion {
+  // "current" for the live test case or fixture
+  id: string;
+  version: string;
+  name: string;
+  playwrightScript?: string | null;
+  steps: DiffableStep[];
+}
+
+export type StepField = 'action' | 'data' | 'expected' | 'playwrightCode' | 'disabled' | 'call';
+
+export interface StepDiff {
+  status: 'unchanged' | 'added' | 'removed' | 'modified';
+  // Kept, but its position relative to the other kept steps changed
+  moved: boolean;
+  before: DiffableStep | null;
+  after: DiffableStep | null;
+  changedFields: StepField[];
+  codeDiff: DiffLine[] | null;
+}
+
+export interface VersionDiff {
+  from: { id: string; version: string; name: string };
+  to: { id: string; version: string; name: string };
+  nameChanged: boolean;
+  scriptDiff: DiffLine[] | null;
+  steps: StepDiff[];
+  summary: { added: number; removed: number; modified: number; moved: number; unchanged: number };
+}
+
+const STEP_FIELDS: StepField[] = ['action', 'data', 'expected', 'playwrightCode', 'disabled', 'call'];
+
+function fieldValue(step: DiffableStep, field: StepField): string {
+  if (field === 'call') {
+    return step.calledGroupId ? `group:${step.calledGroupId}` : step.calledTestCaseId ? `testCase:${step.calledTestCaseId}` : '';
+  }
+  return field === 'disabled' ? String(step.disabled) : (step[field] || '').trim();
+}
+
+function changedFields(before: DiffableStep, after: DiffableStep): StepField[] {
+  return STEP_FIELDS.filter(field => fieldValue(before, field) !== fieldValue(after, field));
+}
+
+// Indexes of a longest increasing subsequence, the kept steps that did not move
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  for (let index = tails.length ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    result.add(index);
+  }
+  return result;
+}
+
+/**
+ * Structured diff of two versions of a test case or fixture. Steps have no identity across
+ * versions, so identical steps are paired first, then steps sharing their action or code are
+ * paired as edits; the rest are additions and removals.
+ */
+export function diffVersions(from: DiffableVersion, to: DiffableVersion): VersionDiff {
+  const before = [...from.steps].sort((a, b) => a.order - b.order);
+  const after = [...to.steps].sort((a, b) => a.order - b.order);
+  // pairs[afterIndex] = beforeIndex
+  const pairs = new Map<number, number>();
+  const pairedBefore = new Set<number>();
+
+  const pair = (matches: (b: DiffableStep, a: DiffableStep) => boolean) => {
+    after.forEach((afterStep, afterIndex) => {
+      if (pairs.has(afterIndex)) {
+        return;
+      }
+      const beforeIndex = before.findIndex((beforeStep, index) => !pairedBefore.has(index) && matches(beforeStep, afterStep));
+      if (beforeIndex !== -1) {
+        pairs.set(afterIndex, beforeIndex);
+        pairedBefore.add(beforeIndex);
+      }
+    });
+  };
+
+  pair((b, a) => changedFields(b, a).length === 0);
+  pair((b, a) => fieldValue(b, 'action') === fieldValue(a, 'action'));
+  pair((b, a) => !!fieldValue(a, 'playwrightCode') && fieldValue(b, 'playwrightCode') === fieldValue(a, 'playwrightCode'));
+
+  const pairedAfter = [...pairs.keys()].sort((a, b) => a - b);
+  const inPlace = longestIncreasingSubsequence(pairedAfter.map(afterIndex => pairs.get(afterIndex)!));
+  const movedAfter = new Set(pairedAfter.filter((_, index) => !inPlace.has(index)));
+
+  const steps: Array<StepDiff & { beforeIndex: number }> = after.map((afterStep, afterIndex) => {
+    const beforeIndex = pairs.get(afterIndex);
+    if (beforeIndex === undefined) {
+      return { status: 'added', moved: false, before: null, after: afterStep, changedFields: [], codeDiff: null, beforeIndex: -1 };
+    }
+
+    const beforeStep = before[beforeIndex];
+    const fields = changedFields(beforeStep, afterStep);
+    return {
+      status: fields.length > 0 ? 'modified' : 'unchanged',
+      moved: movedAfter.has(afterIndex),
+      before: beforeStep,
+      after: afterStep,
+      changedFields: fields,
+      codeDiff: fields.includes('playwrightCode')
+        ? diffLines(beforeStep.playwrightCode || '', afterStep.playwrightCode || '')
+        : null,
+      beforeIndex,
+    };
+  });
+
+  // Removed steps go after the kept step that preceded them in the old version
+  before.forEach((beforeStep, beforeIndex) => {
+    if (pairedBefore.has(beforeIndex)) {
+      return;
+    }
+    let position = 0;
+    steps.forEach((step, index) => {
+      if (step.beforeIndex !== -1 && step.beforeIndex < beforeIndex) {
+        position = index + 1;
+      }
+    });
+    while (position < steps.length && steps[position].status === 'removed') {
+      position++;
+    }
+    steps.splice(position, 0, {
+      status: 'removed', moved: false, before: beforeStep, after: null, changedFields: [], codeDiff: null, beforeIndex,
+    });
+  });
+
+  const scriptChanged = (from.playwrightScript || '').trim() !== (to.playwrightScript || '').trim();
+
+  return {
+    from: { id: from.id, version: from.version, name: from.name },
+    to: { id: to.id, version: to.version, name: to.name },
+    nameChanged: from.name !== to.name,
+    scriptDiff: scriptChanged ? diffLines(from.playwrightScript || '', to.playwrightScript || '') : null,
+    steps: steps.map(({ beforeIndex: _beforeIndex, ...step }) => step),
+    summary: {
+      added: steps.filter(step => step.status === 'added').length,
+      removed: steps.filter(step => step.status === 'removed').length,
+      modified: steps.filter(step => step.status === 'modified').length,
+      moved: steps.filter(step => step.moved).length,
+      unchanged: steps.filter(step => step.status === 'unchanged' && !step.moved).length,
+    },
+  };
+}
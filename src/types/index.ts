@@ -1,3 +1,9 @@
+import type { RunSpecInput } from '@/lib/test-run/run-spec';
+import type { TestPlanCriteria, TestPlanProgress, TestPlanTestCaseState } from '@/lib/test-plans/test-plans';
+import type { TraceabilityRow, TraceabilitySummary, TraceabilityTestCase } from '@/lib/requirements/requirements';
+import type { CustomFieldType, CustomFieldValues } from '@/lib/custom-fields/custom-fields';
+import type { SharedStepGroupUsages } from '@/lib/shared-steps/shared-steps';
+
 // Export all interfaces from specialized files
 export * from './project';
 export * from './test-case';
@@ -56,6 +62,105 @@ export interface TestCaseExecution {
     name: string;
     tags?: string;
   };
+  testCaseVersion?: string | null;
+  // Snapshots of the test case and fixture versions that ran
+  testCaseVersionId?: string | null;
+  executedVersion?: { id: string; version: string } | null;
+  fixtureVersions?: Array<{
+    fixtureVersion: { id: string; fixtureId: string; name: string; version: string };
+  }>;
+  attempts?: TestCaseAttempt[];
+}
+
+export interface TestCaseAttempt {
+  id: string;
+  executionId: string;
+  projectName?: string;
+  retry: number;
+  status: string;
+  duration?: number;
+  errorMessage?: string;
+  startTime?: string;
+  endTime?: string;
+  stepExecutions?: StepExecution[];
+}
+
+export interface StepExecution {
+  id: string;
+  attemptId: string;
+  stepId?: string;
+  order: number;
+  title: string;
+  status: string;
+  duration?: number;
+  errorMessage?: string;
+  notes?: string | null;
+  artifacts?: Array<{ id: string; name: string; type: string }>;
+}
+
+export interface TestArtifact {
+  id: string;
+  testResultId: string;
+  executionId?: string;
+  attemptId?: string;
+  stepExecutionId?: string;
+  name: string;
+  type: 'screenshot' | 'video' | 'trace' | 'other';
+  contentType: string;
+  path: string;
+  size?: number;
+  url: string;
+  attempt?: { projectName?: string; retry: number };
+  stepExecution?: { order: number; title: string };
+}
+
+export interface TestSchedule {
+  id: string;
+  projectId: string;
+  name: string;
+  cronExpression: string;
+  timezone: string;
+  runSpec: RunSpecInput | null;
+  enabled: boolean;
+  lastRunAt?: string | null;
+  nextRunAt?: string | null;
+  lastError?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+  testResults?: Array<Pick<TestResultHistory, 'id' | 'status' | 'success' | 'createdAt'>>;
+}
+
+export interface TestSuite {
+  id: string;
+  projectId: string;
+  parentId: string | null;
+  name: string;
+  order: number;
+  beforeEach: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+  _count?: { testCases: number };
+}
+
+export interface ProjectEnvironment {
+  id: string;
+  projectId: string;
+  name: string;
+  description?: string | null;
+  variables: Array<{
+    id: string;
+    key: string;
+    value: string;          // Masked for secrets
+    secret: boolean;
+  }>;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
 }
 
 export interface TestResultHistory {
@@ -74,9 +179,95 @@ export interface TestResultHistory {
   lastRunBy?: string;
   browser?: string;
   videoUrl?: string;
+  runType?: string;
+  testPlanId?: string | null;
   testCaseExecutions: TestCaseExecution[];
 }
 
+export interface TestPlan {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  criteria: TestPlanCriteria;
+  testCaseIds: string[];           // Picked by hand, on top of those matching the criteria
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+  progress?: TestPlanProgress;
+}
+
+export interface TestPlanDetail extends TestPlan {
+  scope: Array<Omit<TestPlanTestCaseState, 'lastRunAt'> & { lastRunAt: string | null }>;
+  progress: TestPlanProgress;
+  testResults: Array<Pick<TestResultHistory, 'id' | 'name' | 'status' | 'success' | 'runType' | 'createdAt' | 'createdBy'>>;
+}
+
+export interface Requirement {
+  id: string;
+  projectId: string;
+  key: string;
+  title: string;
+  description: string | null;
+  externalUrl: string | null;
+  testCaseIds: string[];           // Test cases covering the requirement
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface TraceabilityMatrix {
+  requirements: Array<Omit<TraceabilityRow, 'testCases'> & {
+    testCases: Array<Omit<TraceabilityTestCase, 'lastRunAt'> & { lastRunAt: string | null }>;
+  }>;
+  customFields: Array<{ id: string; name: string }>;
+  summary: TraceabilitySummary;
+}
+
+export interface CustomField {
+  id: string;
+  projectId: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];               // Choices of select and multiselect fields
+  required: boolean;
+  order: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+// Values keyed by test case id, then field id
+export type CustomFieldValuesByTestCase = Record<string, CustomFieldValues>;
+
+export interface SharedStep {
+  id: string;
+  action: string;
+  data: string | null;
+  expected: string | null;
+  playwrightScript: string | null;
+  disabled: boolean;
+  calledGroupId: string | null;
+  calledTestCaseId: string | null;
+  order: number;
+}
+
+export interface SharedStepGroup {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  steps: SharedStep[];
+  usages?: SharedStepGroupUsages;  // Only on single group responses
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string | null;
+  updatedBy: string | null;
+}
+
 export interface ReleaseWithTestCases {
   id: string;
   projectId: string;
@@ -45,6 +45,9 @@ export interface ConfigurationSettings {
     retries?: string;
     workers?: string;
     fullyParallel?: string;
+    browsers?: string;
+    reporters?: string;
+    outputDir?: string;
   };
   browser?: {
     baseURL?: string;
@@ -57,4 +60,10 @@ export interface ConfigurationSettings {
     screenshot?: string;
     trace?: string;
   };
+  webServer?: {
+    command?: string;
+    url?: string;
+    reuseExistingServer?: string;
+    timeout?: string;
+  };
 } 
\ No newline at end of file
@@ -1,5 +1,9 @@
 import { PaginationData } from './project';
 
+export const TEST_CASE_PRIORITIES = ['Critical', 'High', 'Medium', 'Low'] as const;
+
+export type TestCasePriority = typeof TEST_CASE_PRIORITIES[number];
+
 export interface TestCase {
   id: string;
   projectId: string;
@@ -10,18 +14,37 @@ export interface TestCase {
   priority: string;
   version: number | string;
   isManual: boolean;
+  testFilePath?: string | null;
   tags: string[] | string | null;
   createdAt: string | Date;
   updatedAt: string | Date;
   createdBy?: string;
   updatedBy?: string;
   lastRun?: string | Date | null;
+  quarantined?: boolean;
+  quarantinedAt?: string | Date | null;
+  quarantinedBy?: string | null;
+  quarantineReason?: string | null;
   steps?: TestCaseStep[];
   _count?: {
     steps: number;
   };
 }
 
+export interface TestCaseQuarantine {
+  id: string;
+  quarantined: boolean;
+  quarantinedAt: string | null;
+  quarantinedBy: string | null;
+  quarantineReason: string | null;
+  flakiness?: {
+    score: number;
+    runs: number;
+    retryPasses: number;
+    flips: number;
+  };
+}
+
 export interface TestCaseStep {
   id: string;
   order: number;
@@ -58,6 +81,7 @@ export interface StepVersion {
   action: string;
   data?: string | null;
   expected?: string | null;
+  playwrightCode?: string | null;
   order: number;
   disabled?: boolean;
   testCaseVersionId?: string;